@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/**
+ * @title KnowledgeForwarder
+ * @dev ERC-2771 forwarder that executes EIP-712 signed requests for the KnowledgeHub
+ * @notice Each request carries the signer's nonce and a deadline, so it can be
+ *         relayed exactly once and only until it expires. Anyone can relay a
+ *         request and pays its gas; the hub sees the signer as the caller
+ */
+contract KnowledgeForwarder is ERC2771Forwarder {
+
+    /**
+     * @dev Constructor that sets the EIP-712 domain name ("KnowledgeForwarder", version "1")
+     */
+    constructor() ERC2771Forwarder("KnowledgeForwarder") {}
+}
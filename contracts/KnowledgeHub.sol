@@ -1,23 +1,177 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/metatx/ERC2771ContextUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
 import "./KnowledgeToken.sol";
 
 /**
  * @title KnowledgeHub
- * @dev A decentralized platform for sharing and voting on knowledge entries
- * @notice Users can submit knowledge entries and vote on them to earn KNOW tokens
+ * @dev A decentralized platform for sharing and voting on knowledge entries.
+ *      Deployed behind an ERC-1967 UUPS proxy whose upgrades the owner authorizes.
+ *      Upgrades must only append state variables, and KnowledgeEntry fields after
+ *      `reportCount`, so stored entries and balances keep their storage slots
+ * @notice Users can submit knowledge entries and vote on them to earn KNOW tokens.
+ *         Calls relayed through the trusted ERC-2771 forwarder act on behalf of the
+ *         account that signed the request, so contributors can submit and vote
+ *         without holding ETH for gas
  */
-contract KnowledgeHub {
+contract KnowledgeHub is Initializable, OwnableUpgradeable, UUPSUpgradeable, ERC2771ContextUpgradeable {
     
     // The KNOW token contract for rewards
     KnowledgeToken public knowledgeToken;
     
-    // Reward amount for each upvote (10 KNOW tokens)
-    uint256 public constant UPVOTE_REWARD = 10 * 10**18; // 10 tokens with 18 decimals
+    // Reward amount a new hub starts with (10 KNOW tokens)
+    uint256 public constant DEFAULT_UPVOTE_REWARD = 10 * 10**18; // 10 tokens with 18 decimals
+    
+    // Reward paid to the creator per unit of upvote weight, adjustable by the owner
+    uint256 public upvoteReward;
+    
+    // Maximum total reward a single entry can earn (0 means no cap)
+    uint256 public maxRewardPerEntry;
+    
+    // Total rewards paid out per entry
+    // entryId => amount
+    mapping(uint256 => uint256) public entryRewardsPaid;
+    
+    // Share of each upvote reward a new hub pays to the entry's earlier upvoters (20%)
+    uint256 public constant DEFAULT_CURATOR_SHARE_BPS = 2000;
+    
+    // Upper bound on the curator share, so creators always keep most of a reward (50%)
+    uint256 public constant MAX_CURATOR_SHARE_BPS = 5000;
+    
+    // Share of each upvote reward paid to earlier upvoters, in basis points, adjustable by the owner
+    uint256 public curatorShareBps;
+    
+    // Fixed-point scale of curation shares and per-share reward accumulators
+    uint256 private constant CURATION_PRECISION = 1e18;
+    
+    /**
+     * @dev Structure to represent an upvoter's claim on an entry's curator rewards
+     */
+    struct Curation {
+        uint256 shares;       // Curation shares, larger for earlier upvoters
+        uint256 rewardDebt;   // Rewards per share already accounted for, times shares
+    }
+    
+    // Curation position per entry and upvoter
+    // entryId => curator => Curation
+    mapping(uint256 => mapping(address => Curation)) public curations;
+    
+    // Sum of all curation shares per entry
+    // entryId => shares
+    mapping(uint256 => uint256) public totalCurationShares;
+    
+    // Curator rewards accrued per curation share, scaled by CURATION_PRECISION
+    // entryId => accumulated reward per share
+    mapping(uint256 => uint256) public curatorRewardPerShare;
+    
+    // Number of upvoters that received curation shares per entry, in vote order
+    // entryId => count
+    mapping(uint256 => uint256) public curatorCount;
+    
+    // Curator rewards settled to an account (when it gave up its shares) but not yet claimed
+    // curator => amount
+    mapping(address => uint256) public settledCuratorRewards;
+    
+    // Entries an account has received curation shares on, in vote order
+    // curator => entryIds
+    mapping(address => uint256[]) private curatedEntryIds;
+    
+    // KNOW held for unclaimed curator rewards, kept apart from the reward pool
+    uint256 public totalCuratorRewardsReserved;
+    
+    // Total KNOW readers have tipped to each entry's creator
+    // entryId => amount
+    mapping(uint256 => uint256) public entryTips;
+    
+    // Maximum number of tags per entry
+    uint256 public constant MAX_TAGS = 5;
+    
+    // Maximum number of votes in one batchVote call
+    uint256 public constant MAX_BATCH_VOTES = 50;
+    
+    // Maximum length of a category or tag, in bytes
+    uint256 public constant MAX_LABEL_LENGTH = 32;
+    
+    // Multicodec codes of the content an entry can point to: raw bytes or a UnixFS (dag-pb) node
+    bytes1 private constant CODEC_RAW = 0x55;
+    bytes1 private constant CODEC_DAG_PB = 0x70;
+    
+    // Upper bound on the weight of a single vote
+    uint256 public constant MAX_VOTE_WEIGHT = 10;
+    
+    // KNOW staked per reputation point (100 KNOW tokens)
+    uint256 public constant REPUTATION_TOKEN_UNIT = 100 * 10**18;
+    
+    // Net votes (upvotes - downvotes) received across all of a creator's entries
+    // creator => net votes
+    mapping(address => int256) public netVotesReceived;
+    
+    // Stake a new hub requires before an account can vote (50 KNOW tokens)
+    uint256 public constant DEFAULT_MIN_VOTE_STAKE = 50 * 10**18;
+    
+    // How long unstaked KNOW stays locked before it can be withdrawn, for a new hub
+    uint256 public constant DEFAULT_UNSTAKE_COOLDOWN = 7 days;
+    
+    // Active stake an account needs to vote, adjustable by the owner (0 disables the requirement)
+    uint256 public minVoteStake;
+    
+    // Period over which an account's rewarded upvotes are counted
+    uint256 public constant REWARD_EPOCH = 1 days;
+    
+    // Active stake that buys one rewarded upvote per epoch (10 KNOW tokens)
+    uint256 public constant STAKE_PER_REWARDED_UPVOTE = 10 * 10**18;
+    
+    // Lock period between requestUnstake and withdraw, adjustable by the owner
+    uint256 public unstakeCooldown;
+    
+    /**
+     * @dev Structure to represent the KNOW an account has locked in the hub
+     */
+    struct Stake {
+        uint256 amount;            // Active stake, counted for voting
+        uint256 pendingWithdrawal; // Unstaked KNOW waiting for the cooldown to pass
+        uint256 unlockTime;        // When the pending withdrawal can be withdrawn
+    }
+    
+    // Stake per account
+    mapping(address => Stake) public stakes;
+    
+    // Total KNOW held for stakes (active and pending), kept apart from the reward pool
+    uint256 public totalStaked;
+    
+    // Number of reports a new hub needs to flag an entry
+    uint256 public constant DEFAULT_REPORT_THRESHOLD = 3;
+    
+    // Number of distinct reports that moves an active entry to Flagged, adjustable by the owner
+    uint256 public reportThreshold;
+    
+    // Accounts allowed to hide, restore and remove entries (the owner always is)
+    mapping(address => bool) public moderators;
     
     // Counter for generating unique entry IDs
-    uint256 private nextEntryId = 1;
+    uint256 private nextEntryId;
+    
+    /**
+     * @dev Moderation state of an entry
+     * Active and Flagged entries are listed and can be voted on; Hidden entries are
+     * left out of listings and blocked from voting until restored; Removed is final
+     */
+    enum EntryStatus { Active, Flagged, Hidden, Removed }
+    
+    /**
+     * @dev Structure to represent a sha2-256 CIDv1 by the parts that vary, so it
+     *      takes one slot instead of a 59-character string. Clients rebuild the
+     *      CID from version 1, the codec and the digest
+     */
+    struct Content {
+        bytes32 digest;       // sha2-256 digest of the content
+        uint8 codec;          // Multicodec code: 0x55 (raw) or 0x70 (dag-pb)
+    }
     
     /**
      * @dev Structure to represent a knowledge entry
@@ -26,15 +180,32 @@ contract KnowledgeHub {
         uint256 id;           // Unique identifier
         address creator;      // Address of the entry creator
         string title;         // Title of the knowledge entry
-        string ipfsHash;      // IPFS hash containing the full content
+        string ipfsHash;      // CID string of entries submitted before `content` was added, else ""
         int256 voteCount;     // Net vote count (upvotes - downvotes)
         uint256 timestamp;    // When the entry was created
         uint256 upvotes;      // Total number of upvotes
         uint256 downvotes;    // Total number of downvotes
+        uint256 weightedUpvotes;   // Sum of the weights of all upvotes
+        uint256 weightedDownvotes; // Sum of the weights of all downvotes
+        string category;      // Category label ("" when uncategorized)
+        string[] tags;        // Up to MAX_TAGS tag labels
+        uint256 updatedAt;    // When the content was last revised (0 if never)
+        EntryStatus status;   // Moderation state
+        uint256 reportCount;  // Number of distinct accounts that reported the entry
+        Content content;      // CID of the current content (zero for entries with an ipfsHash)
+    }
+    
+    /**
+     * @dev Structure to represent one published version of an entry's content
+     */
+    struct Revision {
+        string title;         // Title of this version
+        string ipfsHash;      // CID string of versions stored before revisionContents, else ""
+        uint256 timestamp;    // When this version was published
     }
     
     // Mapping from entry ID to KnowledgeEntry
-    mapping(uint256 => KnowledgeEntry) public entries;
+    mapping(uint256 => KnowledgeEntry) private entries;
     
     // Mapping to track if a user has voted on a specific entry
     // entryId => voter => hasVoted
@@ -44,101 +215,1013 @@ contract KnowledgeHub {
     // entryId => voter => isUpvote (true for upvote, false for downvote)
     mapping(uint256 => mapping(address => bool)) public userVotes;
     
+    // Weight a voter's current vote was counted with, so it can be removed exactly
+    // entryId => voter => weight
+    mapping(uint256 => mapping(address => uint256)) public voteWeights;
+    
+    // Mapping to track whether a voter's upvote has already triggered a creator reward
+    // entryId => voter => rewarded
+    // An upvote pays the creator at most once per voter and entry: the reward is kept
+    // when the upvote is later changed or retracted, and upvoting again pays nothing,
+    // so flip-flopping cannot farm rewards.
+    mapping(uint256 => mapping(address => bool)) public upvoteRewarded;
+    
+    // Mapping to track whether an account has reported an entry
+    // entryId => reporter => reported
+    mapping(uint256 => mapping(address => bool)) public hasReported;
+    
     // Array to store all entry IDs for enumeration
-    uint256[] public entryIds;
+    uint256[] private entryIds;
+    
+    // Entry IDs per creator, in submission order
+    // creator => entryIds
+    mapping(address => uint256[]) private creatorEntryIds;
+    
+    // Content history per entry, oldest first, starting with the original submission
+    // Only written once an entry is first revised; unrevised entries have no stored history
+    // entryId => revisions
+    mapping(uint256 => Revision[]) private entryRevisions;
+    
+    // Entry IDs per category and per tag, in submission order
+    // label => entryIds
+    mapping(string => uint256[]) private categoryEntryIds;
+    mapping(string => uint256[]) private tagEntryIds;
+    
+    // Every category and tag that has been used, in order of first use
+    string[] private categories;
+    string[] private tags;
+    
+    // Entry that first published each content digest, so the same content cannot be
+    // submitted again for a second round of rewards. Entries stored before CIDs were
+    // validated are not indexed. The digest is of the block, so a file stored raw
+    // and the same file wrapped in dag-pb count as different content.
+    // sha2-256 digest => entryId
+    mapping(bytes32 => uint256) public entryIdByDigest;
+    
+    // Content of each revision in entryRevisions. Revisions stored before contents
+    // were kept by digest have none, and their ipfsHash instead
+    // entryId => revision => content
+    mapping(uint256 => mapping(uint256 => Content)) private revisionContents;
+    
+    // Upvotes per account that paid a reward, per epoch (block.timestamp / REWARD_EPOCH)
+    // voter => epoch => count
+    mapping(address => mapping(uint256 => uint256)) public rewardedUpvotes;
     
     /**
      * @dev Events for tracking contract activity
      */
-    event EntrySubmitted(uint256 entryId, address creator, string title, string ipfsHash);
-    event EntryVoted(uint256 entryId, address voter, bool upvote);
+    event EntrySubmitted(uint256 entryId, address creator, string title, bytes32 digest, uint8 codec, string category, string[] tags);
+    event EntryRevised(uint256 entryId, address creator, uint256 revision, string title, bytes32 digest, uint8 codec);
+    event EntryVoted(uint256 entryId, address voter, bool upvote, uint256 weight);
+    event VoteSkipped(uint256 entryId, address voter, string reason);
+    event VoteChanged(uint256 entryId, address voter, bool upvote, uint256 weight);
+    event VoteRetracted(uint256 entryId, address voter, bool wasUpvote, uint256 weight);
     event RewardDistributed(uint256 entryId, address creator, uint256 amount);
+    event RewardSkipped(uint256 entryId, address creator, uint256 amount, string reason);
+    event RewardPoolFunded(address funder, uint256 amount);
+    event UpvoteRewardUpdated(uint256 oldAmount, uint256 newAmount);
+    event MaxRewardPerEntryUpdated(uint256 oldCap, uint256 newCap);
+    event CuratorRewardAccrued(uint256 entryId, uint256 amount);
+    event CuratorRewardsClaimed(address curator, uint256 amount);
+    event CuratorShareUpdated(uint256 oldShareBps, uint256 newShareBps);
+    event EntryTipped(uint256 entryId, address tipper, address creator, uint256 amount);
+    event EntryReported(uint256 entryId, address reporter, string reason);
+    event EntryStatusChanged(uint256 entryId, EntryStatus status, address actor, string reason);
+    event ModeratorUpdated(address account, bool isModerator);
+    event Staked(address account, uint256 amount);
+    event UnstakeRequested(address account, uint256 amount, uint256 unlockTime);
+    event StakeWithdrawn(address account, uint256 amount);
+    event StakeSlashed(address account, uint256 amount, address moderator, string reason);
+    event StakingPolicyUpdated(uint256 minVoteStake, uint256 unstakeCooldown);
+    event ReportThresholdUpdated(uint256 oldThreshold, uint256 newThreshold);
+    
+    /**
+     * @dev Restricts a function to moderators and the owner
+     */
+    modifier onlyModerator() {
+        require(isModerator(_msgSender()), "Caller is not a moderator");
+        _;
+    }
     
     /**
-     * @dev Constructor to initialize the contract with the token address
+     * @dev Constructor of the implementation contract, which is never used directly
+     * @param trustedForwarder Address of the ERC-2771 forwarder that relays signed
+     *        requests, or address(0) to disable relayed calls. It is stored in the
+     *        implementation's bytecode, so every upgrade must pass it again
+     * @custom:oz-upgrades-unsafe-allow constructor state-variable-immutable
+     */
+    constructor(address trustedForwarder) ERC2771ContextUpgradeable(trustedForwarder) {
+        _disableInitializers();
+    }
+    
+    /**
+     * @dev Initialize the proxy with the token address, owner and default policies
      * @param _knowledgeToken Address of the KnowledgeToken contract
+     * @param initialOwner Account that can change hub parameters and authorize upgrades
      */
-    constructor(address _knowledgeToken) {
+    function initialize(address _knowledgeToken, address initialOwner) external initializer {
+        __Ownable_init(initialOwner);
+        
         knowledgeToken = KnowledgeToken(_knowledgeToken);
+        upvoteReward = DEFAULT_UPVOTE_REWARD;
+        curatorShareBps = DEFAULT_CURATOR_SHARE_BPS;
+        minVoteStake = DEFAULT_MIN_VOTE_STAKE;
+        unstakeCooldown = DEFAULT_UNSTAKE_COOLDOWN;
+        reportThreshold = DEFAULT_REPORT_THRESHOLD;
+        nextEntryId = 1;
     }
     
     /**
-     * @dev Submit a new knowledge entry
+     * @dev Version of the hub implementation behind the proxy
+     * @return The implementation version
+     */
+    function version() external pure virtual returns (string memory) {
+        return "1";
+    }
+    
+    /**
+     * @dev Submit a new uncategorized knowledge entry without tags
+     * @param title The title of the knowledge entry
+     * @param cid Binary CIDv1 of the full content (see _registerContent)
+     * @return entryId The unique ID of the created entry
+     */
+    function submitEntry(string memory title, bytes memory cid) 
+        public 
+        returns (uint256 entryId) 
+    {
+        return _submitEntry(title, cid, "", new string[](0));
+    }
+    
+    /**
+     * @dev Submit a new knowledge entry with a category and tags
      * @param title The title of the knowledge entry
-     * @param ipfsHash The IPFS hash containing the full content
+     * @param cid Binary CIDv1 of the full content (see _registerContent)
+     * @param category The category label, or "" for none
+     * @param entryTags Up to MAX_TAGS distinct tag labels
      * @return entryId The unique ID of the created entry
+     * @notice Labels are 1 to MAX_LABEL_LENGTH characters of a-z, 0-9 and "-"
      */
-    function submitEntry(string memory title, string memory ipfsHash) 
+    function submitEntryWithTags(
+        string memory title,
+        bytes memory cid,
+        string memory category,
+        string[] memory entryTags
+    ) 
         public 
         returns (uint256 entryId) 
     {
+        return _submitEntry(title, cid, category, entryTags);
+    }
+    
+    /**
+     * @dev Internal function to validate, store and index a new entry
+     * @param title The title of the knowledge entry
+     * @param cid Binary CIDv1 of the full content
+     * @param category The category label, or "" for none
+     * @param entryTags The tag labels
+     * @return entryId The unique ID of the created entry
+     */
+    function _submitEntry(
+        string memory title,
+        bytes memory cid,
+        string memory category,
+        string[] memory entryTags
+    ) 
+        internal 
+        returns (uint256 entryId) 
+    {
+        address creator = _msgSender();
         require(bytes(title).length > 0, "Title cannot be empty");
-        require(bytes(ipfsHash).length > 0, "IPFS hash cannot be empty");
+        require(bytes(category).length == 0 || _isValidLabel(category), "Invalid category");
+        require(entryTags.length <= MAX_TAGS, "Too many tags");
+        
+        for (uint256 i = 0; i < entryTags.length; i++) {
+            require(_isValidLabel(entryTags[i]), "Invalid tag");
+            for (uint256 j = 0; j < i; j++) {
+                require(
+                    keccak256(bytes(entryTags[i])) != keccak256(bytes(entryTags[j])),
+                    "Duplicate tag"
+                );
+            }
+        }
         
         entryId = nextEntryId++;
+        Content memory content = _registerContent(cid, entryId);
         
-        entries[entryId] = KnowledgeEntry({
-            id: entryId,
-            creator: msg.sender,
-            title: title,
-            ipfsHash: ipfsHash,
-            voteCount: 0,
-            timestamp: block.timestamp,
-            upvotes: 0,
-            downvotes: 0
-        });
+        KnowledgeEntry storage entry = entries[entryId];
+        entry.id = entryId;
+        entry.creator = creator;
+        entry.title = title;
+        entry.content = content;
+        entry.timestamp = block.timestamp;
+        entry.category = category;
+        entry.tags = entryTags;
         
         entryIds.push(entryId);
+        creatorEntryIds[creator].push(entryId);
+        
+        if (bytes(category).length > 0) {
+            if (categoryEntryIds[category].length == 0) {
+                categories.push(category);
+            }
+            categoryEntryIds[category].push(entryId);
+        }
+        
+        for (uint256 i = 0; i < entryTags.length; i++) {
+            if (tagEntryIds[entryTags[i]].length == 0) {
+                tags.push(entryTags[i]);
+            }
+            tagEntryIds[entryTags[i]].push(entryId);
+        }
         
-        emit EntrySubmitted(entryId, msg.sender, title, ipfsHash);
+        emit EntrySubmitted(entryId, creator, title, content.digest, content.codec, category, entryTags);
         
         return entryId;
     }
     
+    /**
+     * @dev Internal function to check a category or tag label
+     * @param label The label to check
+     * @return True if the label is 1 to MAX_LABEL_LENGTH bytes of a-z, 0-9 and "-"
+     */
+    function _isValidLabel(string memory label) internal pure returns (bool) {
+        bytes memory b = bytes(label);
+        if (b.length == 0 || b.length > MAX_LABEL_LENGTH) {
+            return false;
+        }
+        
+        for (uint256 i = 0; i < b.length; i++) {
+            bytes1 c = b[i];
+            bool isLower = c >= 0x61 && c <= 0x7a; // a-z
+            bool isDigit = c >= 0x30 && c <= 0x39; // 0-9
+            if (!isLower && !isDigit && c != 0x2d) { // "-"
+                return false;
+            }
+        }
+        return true;
+    }
+    
+    /**
+     * @dev Internal function to validate a CID and claim its content for an entry
+     * @param cid Binary CIDv1: version 0x01, a raw or dag-pb codec and a sha2-256
+     *        multihash (0x12 0x20 followed by the 32-byte digest)
+     * @param entryId The entry publishing the content
+     * @return The digest and codec the entry stores for the CID
+     * @notice Reverts when another entry already published the same digest. An
+     *         entry may reuse the content of its own earlier revisions. Only the
+     *         digest is compared: a raw block and a dag-pb node holding the same
+     *         file hash differently, and cannot be matched on-chain
+     */
+    function _registerContent(bytes memory cid, uint256 entryId) internal returns (Content memory) {
+        require(
+            cid.length == 36 && cid[0] == 0x01 && (cid[1] == CODEC_RAW || cid[1] == CODEC_DAG_PB) &&
+                cid[2] == 0x12 && cid[3] == 0x20,
+            "Invalid CID"
+        );
+        
+        bytes32 digest;
+        assembly ("memory-safe") {
+            // Skip the length word and the 4 header bytes
+            digest := mload(add(cid, 36))
+        }
+        uint256 publishedBy = entryIdByDigest[digest];
+        require(publishedBy == 0 || publishedBy == entryId, "Content already submitted");
+        entryIdByDigest[digest] = entryId;
+        
+        return Content(digest, uint8(cid[1]));
+    }
+    
+    /**
+     * @dev Publish an updated version of an entry's title and content
+     * @param entryId The ID of the entry to revise
+     * @param newTitle The new title
+     * @param newCid Binary CIDv1 of the new content (see _registerContent)
+     * @return revision The index of the new revision (the original submission is 0)
+     * @notice Only the creator can revise an entry. Votes, rewards, category and tags
+     *         stay attached to the entry: voters who disagree with a revision can
+     *         change or retract their vote
+     */
+    function updateEntry(uint256 entryId, string memory newTitle, bytes memory newCid) 
+        public 
+        returns (uint256 revision) 
+    {
+        KnowledgeEntry storage entry = entries[entryId];
+        require(entry.id != 0, "Entry does not exist");
+        require(entry.creator == _msgSender(), "Only the creator can update this entry");
+        require(entry.status != EntryStatus.Removed, "Entry has been removed");
+        require(bytes(newTitle).length > 0, "Title cannot be empty");
+        Content memory content = _registerContent(newCid, entryId);
+        require(
+            keccak256(bytes(newTitle)) != keccak256(bytes(entry.title)) ||
+                content.digest != entry.content.digest || content.codec != entry.content.codec,
+            "Nothing to update"
+        );
+        
+        Revision[] storage revisions = entryRevisions[entryId];
+        
+        // Record the original submission before the first revision
+        if (revisions.length == 0) {
+            revisions.push(Revision(entry.title, entry.ipfsHash, entry.timestamp));
+            revisionContents[entryId][0] = entry.content;
+        }
+        
+        revisions.push(Revision(newTitle, "", block.timestamp));
+        revision = revisions.length - 1;
+        revisionContents[entryId][revision] = content;
+        
+        entry.title = newTitle;
+        delete entry.ipfsHash;
+        entry.content = content;
+        entry.updatedAt = block.timestamp;
+        
+        emit EntryRevised(entryId, _msgSender(), revision, newTitle, content.digest, content.codec);
+        
+        return revision;
+    }
+    
     /**
      * @dev Vote on a knowledge entry
      * @param entryId The ID of the entry to vote on
      * @param upvote True for upvote, false for downvote
+     * @notice Requires an active stake of at least minVoteStake. The vote is counted
+     *         once in upvotes/downvotes and with the voter's current voteWeight in
+     *         weightedUpvotes/weightedDownvotes
      */
     function voteOnEntry(uint256 entryId, bool upvote) public {
-        require(entries[entryId].id != 0, "Entry does not exist");
-        require(!hasVoted[entryId][msg.sender], "You have already voted on this entry");
-        require(entries[entryId].creator != msg.sender, "Cannot vote on your own entry");
+        address voter = _msgSender();
+        string memory failure = _voteFailure(entryId, voter);
+        require(bytes(failure).length == 0, failure);
         
+        _castVote(entryId, voter, upvote);
+    }
+    
+    /**
+     * @dev Vote on several entries in one transaction
+     * @param ids The IDs of the entries to vote on
+     * @param upvotes Vote direction for each entry, true for upvote
+     * @return voted Whether each vote was counted, in the same order as ids
+     * @notice Each vote follows the same rules as voteOnEntry. A vote that breaks
+     *         them is skipped with a VoteSkipped event instead of reverting the batch
+     */
+    function batchVote(uint256[] calldata ids, bool[] calldata upvotes) public returns (bool[] memory voted) {
+        require(ids.length == upvotes.length, "Array lengths must match");
+        require(ids.length <= MAX_BATCH_VOTES, "Too many votes in one batch");
+        
+        address voter = _msgSender();
+        voted = new bool[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            string memory failure = _voteFailure(ids[i], voter);
+            if (bytes(failure).length != 0) {
+                emit VoteSkipped(ids[i], voter, failure);
+                continue;
+            }
+            _castVote(ids[i], voter, upvotes[i]);
+            voted[i] = true;
+        }
+        return voted;
+    }
+    
+    /**
+     * @dev Internal function to check whether an account may cast a new vote on an entry
+     * @param entryId The ID of the entry
+     * @param voter The account that wants to vote
+     * @return The reason the vote is not allowed, or "" when it is
+     */
+    function _voteFailure(uint256 entryId, address voter) internal view returns (string memory) {
+        if (entries[entryId].id == 0) return "Entry does not exist";
+        if (!_isVisible(entryId)) return "Entry is not visible";
+        if (stakes[voter].amount < minVoteStake) return "Insufficient stake to vote";
+        if (hasVoted[entryId][voter]) return "You have already voted on this entry";
+        if (entries[entryId].creator == voter) return "Cannot vote on your own entry";
+        return "";
+    }
+    
+    /**
+     * @dev Internal function to record and count a new vote
+     * @param entryId The ID of the entry being voted on
+     * @param voter The account voting
+     * @param upvote True for upvote, false for downvote
+     */
+    function _castVote(uint256 entryId, address voter, bool upvote) internal {
         // Mark that the user has voted
-        hasVoted[entryId][msg.sender] = true;
-        userVotes[entryId][msg.sender] = upvote;
+        hasVoted[entryId][voter] = true;
+        userVotes[entryId][voter] = upvote;
+        
+        uint256 weight = _addVote(entryId, upvote);
+        
+        emit EntryVoted(entryId, voter, upvote, weight);
+    }
+    
+    /**
+     * @dev Flip an existing vote (upvote to downvote or vice versa)
+     * @param entryId The ID of the entry the caller voted on
+     * @notice Turning a downvote into an upvote only pays the creator if this voter
+     *         has never triggered a reward for the entry before. The flipped vote is
+     *         counted with the voter's current weight and needs the same stake as voting
+     */
+    function changeVote(uint256 entryId) public {
+        address voter = _msgSender();
+        require(entries[entryId].id != 0, "Entry does not exist");
+        require(_isVisible(entryId), "Entry is not visible");
+        require(stakes[voter].amount >= minVoteStake, "Insufficient stake to vote");
+        require(hasVoted[entryId][voter], "You have not voted on this entry");
+        
+        bool upvote = !userVotes[entryId][voter];
+        userVotes[entryId][voter] = upvote;
+        
+        _removeVote(entryId, !upvote);
+        uint256 weight = _addVote(entryId, upvote);
+        
+        emit VoteChanged(entryId, voter, upvote, weight);
+    }
+    
+    /**
+     * @dev Withdraw an existing vote so the entry counts as not voted on by the caller
+     * @param entryId The ID of the entry the caller voted on
+     * @notice A reward already paid for a retracted upvote stays with the creator
+     */
+    function retractVote(uint256 entryId) public {
+        address voter = _msgSender();
+        require(entries[entryId].id != 0, "Entry does not exist");
+        require(hasVoted[entryId][voter], "You have not voted on this entry");
+        
+        bool wasUpvote = userVotes[entryId][voter];
+        hasVoted[entryId][voter] = false;
+        userVotes[entryId][voter] = false;
+        
+        uint256 weight = _removeVote(entryId, wasUpvote);
+        
+        emit VoteRetracted(entryId, voter, wasUpvote, weight);
+    }
+    
+    /**
+     * @dev Internal function to count a vote and reward the creator for a first upvote
+     * @param entryId The ID of the entry being voted on
+     * @param upvote True for upvote, false for downvote
+     * @return weight The weight the vote was counted with
+     */
+    function _addVote(uint256 entryId, bool upvote) internal returns (uint256 weight) {
+        address voter = _msgSender();
+        KnowledgeEntry storage entry = entries[entryId];
+        weight = voteWeight(voter);
+        voteWeights[entryId][voter] = weight;
         
-        // Update vote counts
         if (upvote) {
-            entries[entryId].voteCount += 1;
-            entries[entryId].upvotes += 1;
+            entry.voteCount += 1;
+            entry.upvotes += 1;
+            entry.weightedUpvotes += weight;
+            netVotesReceived[entry.creator] += 1;
             
-            // Distribute reward to the entry creator
-            _distributeReward(entryId, entries[entryId].creator);
+            // Distribute reward to the entry creator and earlier upvoters, once per
+            // voter, then make the voter a curator of the entry's later upvotes.
+            // Each STAKE_PER_REWARDED_UPVOTE staked pays for one such upvote per
+            // epoch, so one stake cannot farm rewards across many entries
+            if (!upvoteRewarded[entryId][voter]) {
+                uint256 epoch = block.timestamp / REWARD_EPOCH;
+                if (rewardedUpvotes[voter][epoch] < stakes[voter].amount / STAKE_PER_REWARDED_UPVOTE) {
+                    rewardedUpvotes[voter][epoch]++;
+                    upvoteRewarded[entryId][voter] = true;
+                    _distributeReward(entryId, entry.creator, weight);
+                    _addCurator(entryId, voter, weight);
+                } else {
+                    emit RewardSkipped(entryId, entry.creator, upvoteReward * weight, "Upvote budget used");
+                }
+            }
         } else {
-            entries[entryId].voteCount -= 1;
-            entries[entryId].downvotes += 1;
+            entry.voteCount -= 1;
+            entry.downvotes += 1;
+            entry.weightedDownvotes += weight;
+            netVotesReceived[entry.creator] -= 1;
         }
+    }
+    
+    /**
+     * @dev Internal function to remove a previously counted vote
+     * @param entryId The ID of the entry the vote was cast on
+     * @param upvote True if the removed vote was an upvote
+     * @return weight The weight the vote had been counted with
+     */
+    function _removeVote(uint256 entryId, bool upvote) internal returns (uint256 weight) {
+        address voter = _msgSender();
+        KnowledgeEntry storage entry = entries[entryId];
+        weight = voteWeights[entryId][voter];
+        voteWeights[entryId][voter] = 0;
         
-        emit EntryVoted(entryId, msg.sender, upvote);
+        if (upvote) {
+            entry.voteCount -= 1;
+            entry.upvotes -= 1;
+            entry.weightedUpvotes -= weight;
+            netVotesReceived[entry.creator] -= 1;
+            _removeCurator(entryId, voter);
+        } else {
+            entry.voteCount += 1;
+            entry.downvotes -= 1;
+            entry.weightedDownvotes -= weight;
+            netVotesReceived[entry.creator] += 1;
+        }
+    }
+    
+    /**
+     * @dev Get an account's reputation
+     * @param account The account to check
+     * @return The net votes received on the account's entries plus one point per
+     *         REPUTATION_TOKEN_UNIT of KNOW staked, floored at zero
+     * @notice Only the active stake counts: a liquid balance could be passed from
+     *         wallet to wallet to vote at full weight from each of them
+     */
+    function reputation(address account) public view returns (uint256) {
+        int256 points = netVotesReceived[account] + int256(stakes[account].amount / REPUTATION_TOKEN_UNIT);
+        return points > 0 ? uint256(points) : 0;
+    }
+    
+    /**
+     * @dev Get the weight an account's next vote would be counted with
+     * @param account The account to check
+     * @return 1 plus the square root of the account's reputation, capped at MAX_VOTE_WEIGHT
+     */
+    function voteWeight(address account) public view returns (uint256) {
+        return Math.min(1 + Math.sqrt(reputation(account)), MAX_VOTE_WEIGHT);
     }
     
     /**
      * @dev Internal function to distribute KNOW token rewards
      * @param entryId The ID of the entry that received an upvote
      * @param creator The address of the entry creator
+     * @param weight The weight of the upvote; the reward is upvoteReward per unit
+     * @notice Pays from the reward pool, falling back to minting when the hub is a
+     *         token minter. Once the entry has curators, curatorShareBps of the reward
+     *         is set aside for them and the creator receives the rest.
+     *         Emits RewardSkipped instead when rewards are disabled,
+     *         the entry has reached its cap, token transfers are paused, or the
+     *         reward can neither be paid from the pool nor minted under the supply cap
+     */
+    function _distributeReward(uint256 entryId, address creator, uint256 weight) internal {
+        uint256 amount = upvoteReward * weight;
+        
+        if (amount == 0) {
+            emit RewardSkipped(entryId, creator, 0, "Rewards disabled");
+            return;
+        }
+        
+        // Pay at most what is left under the per-entry cap
+        if (maxRewardPerEntry != 0) {
+            uint256 paid = entryRewardsPaid[entryId];
+            if (paid >= maxRewardPerEntry) {
+                emit RewardSkipped(entryId, creator, amount, "Entry reward cap reached");
+                return;
+            }
+            if (maxRewardPerEntry - paid < amount) {
+                amount = maxRewardPerEntry - paid;
+            }
+        }
+        
+        if (knowledgeToken.paused()) {
+            emit RewardSkipped(entryId, creator, amount, "Token transfers paused");
+            return;
+        }
+        
+        // Pay from the funded pool first, otherwise mint the reward into the hub,
+        // if it holds the minter role
+        if (getContractTokenBalance() < amount) {
+            if (!canMintRewards()) {
+                emit RewardSkipped(entryId, creator, amount, "Insufficient reward pool");
+                return;
+            }
+            
+            if (knowledgeToken.totalSupply() + amount > knowledgeToken.cap()) {
+                emit RewardSkipped(entryId, creator, amount, "Token supply cap reached");
+                return;
+            }
+            
+            knowledgeToken.mint(address(this), amount);
+        }
+        
+        uint256 curatorAmount = totalCurationShares[entryId] == 0
+            ? 0
+            : amount * curatorShareBps / 10000;
+        
+        entryRewardsPaid[entryId] += amount;
+        knowledgeToken.transfer(creator, amount - curatorAmount);
+        emit RewardDistributed(entryId, creator, amount - curatorAmount);
+        
+        if (curatorAmount > 0) {
+            curatorRewardPerShare[entryId] += curatorAmount * CURATION_PRECISION / totalCurationShares[entryId];
+            totalCuratorRewardsReserved += curatorAmount;
+            emit CuratorRewardAccrued(entryId, curatorAmount);
+        }
+    }
+    
+    /**
+     * @dev Internal function to give a first-time upvoter curation shares in an entry
+     * @param entryId The ID of the upvoted entry
+     * @param curator The upvoter
+     * @param weight The weight of the upvote
+     * @notice The n-th curator of an entry receives weight / n shares, so earlier
+     *         upvoters earn a larger part of every later upvote's curator reward.
+     *         The reward debt is rounded up, so a curator's pending rewards never
+     *         include the rounding dust of rewards accrued before they joined
+     */
+    function _addCurator(uint256 entryId, address curator, uint256 weight) internal {
+        uint256 shares = weight * CURATION_PRECISION / ++curatorCount[entryId];
+        
+        Curation storage c = curations[entryId][curator];
+        c.shares = shares;
+        c.rewardDebt = Math.ceilDiv(shares * curatorRewardPerShare[entryId], CURATION_PRECISION);
+        totalCurationShares[entryId] += shares;
+        curatedEntryIds[curator].push(entryId);
+    }
+    
+    /**
+     * @dev Internal function to end a curator's claim on an entry's future rewards
+     * @param entryId The ID of the entry whose upvote was changed or retracted
+     * @param curator The former upvoter
+     * @notice Rewards accrued so far are settled to the curator and stay claimable
+     */
+    function _removeCurator(uint256 entryId, address curator) internal {
+        Curation storage c = curations[entryId][curator];
+        if (c.shares == 0) {
+            return;
+        }
+        
+        settledCuratorRewards[curator] += pendingCuratorReward(entryId, curator);
+        totalCurationShares[entryId] -= c.shares;
+        c.shares = 0;
+        c.rewardDebt = 0;
+    }
+    
+    /**
+     * @dev Get the curator reward an account has accrued on an entry and not yet claimed
+     * @param entryId The ID of the entry
+     * @param curator The upvoter to check
+     * @return The pending amount (in wei)
+     * @notice Accruals round down and the debt set on joining rounds up, so the total
+     *         a curator is paid never exceeds their exact share of what was reserved
+     */
+    function pendingCuratorReward(uint256 entryId, address curator) public view returns (uint256) {
+        Curation storage c = curations[entryId][curator];
+        uint256 accrued = c.shares * curatorRewardPerShare[entryId] / CURATION_PRECISION;
+        return accrued > c.rewardDebt ? accrued - c.rewardDebt : 0;
+    }
+    
+    /**
+     * @dev Get everything an account can currently claim as a curator
+     * @param curator The account to check
+     * @return total The settled rewards plus the pending rewards on all curated entries
+     * @notice Iterates over every entry the account has curated; meant for off-chain reads
+     */
+    function pendingCuratorRewards(address curator) public view returns (uint256 total) {
+        total = settledCuratorRewards[curator];
+        uint256[] storage ids = curatedEntryIds[curator];
+        for (uint256 i = 0; i < ids.length; i++) {
+            total += pendingCuratorReward(ids[i], curator);
+        }
+    }
+    
+    /**
+     * @dev Get the entries an account has received curation shares on
+     * @param curator The account to check
+     * @return Entry IDs in vote order
+     */
+    function getCuratedEntryIds(address curator) public view returns (uint256[] memory) {
+        return curatedEntryIds[curator];
+    }
+    
+    /**
+     * @dev Claim the caller's curator rewards
+     * @param curatedIds The curated entries to collect pending rewards from; settled
+     *        rewards are always included. Passing a subset keeps gas bounded
+     * @return amount The amount of KNOW transferred to the caller
      */
-    function _distributeReward(uint256 entryId, address creator) internal {
-        // Check if the contract has enough tokens to distribute
-        uint256 contractBalance = knowledgeToken.balanceOf(address(this));
+    function claimCuratorRewards(uint256[] memory curatedIds) public returns (uint256 amount) {
+        address curator = _msgSender();
+        amount = settledCuratorRewards[curator];
+        settledCuratorRewards[curator] = 0;
         
-        if (contractBalance >= UPVOTE_REWARD) {
-            // Transfer reward tokens to the creator
-            knowledgeToken.transfer(creator, UPVOTE_REWARD);
-            emit RewardDistributed(entryId, creator, UPVOTE_REWARD);
+        for (uint256 i = 0; i < curatedIds.length; i++) {
+            Curation storage c = curations[curatedIds[i]][curator];
+            uint256 pending = pendingCuratorReward(curatedIds[i], curator);
+            c.rewardDebt += pending;
+            amount += pending;
         }
-        // If not enough tokens, the reward is skipped (could emit a different event)
+        
+        require(amount > 0, "Nothing to claim");
+        totalCuratorRewardsReserved -= amount;
+        require(knowledgeToken.transfer(curator, amount), "Token transfer failed");
+        
+        emit CuratorRewardsClaimed(curator, amount);
+    }
+    
+    /**
+     * @dev Check whether the hub can mint rewards once its pool is empty
+     * @return True if the hub holds the token's MINTER_ROLE
+     */
+    function canMintRewards() public view returns (bool) {
+        return knowledgeToken.hasRole(knowledgeToken.MINTER_ROLE(), address(this));
+    }
+    
+    /**
+     * @dev Lock KNOW in the hub to be allowed to vote
+     * @param amount The amount of tokens to pull from the caller (requires allowance)
+     */
+    function stake(uint256 amount) public {
+        address account = _msgSender();
+        require(amount > 0, "Amount must be greater than zero");
+        require(
+            knowledgeToken.transferFrom(account, address(this), amount),
+            "Token transfer failed"
+        );
+        
+        stakes[account].amount += amount;
+        totalStaked += amount;
+        
+        emit Staked(account, amount);
+    }
+    
+    /**
+     * @dev Start the cooldown for withdrawing part of the caller's stake
+     * @param amount The amount of active stake to unlock
+     * @notice The amount stops counting for voting immediately. Each request adds to
+     *         the pending withdrawal and restarts the cooldown for all of it
+     */
+    function requestUnstake(uint256 amount) public {
+        Stake storage s = stakes[_msgSender()];
+        require(amount > 0, "Amount must be greater than zero");
+        require(amount <= s.amount, "Insufficient stake");
+        
+        s.amount -= amount;
+        s.pendingWithdrawal += amount;
+        s.unlockTime = block.timestamp + unstakeCooldown;
+        
+        emit UnstakeRequested(_msgSender(), amount, s.unlockTime);
+    }
+    
+    /**
+     * @dev Withdraw the caller's pending unstake once the cooldown has passed
+     */
+    function withdraw() public {
+        address account = _msgSender();
+        Stake storage s = stakes[account];
+        uint256 amount = s.pendingWithdrawal;
+        require(amount > 0, "Nothing to withdraw");
+        require(block.timestamp >= s.unlockTime, "Stake is still locked");
+        
+        s.pendingWithdrawal = 0;
+        totalStaked -= amount;
+        require(knowledgeToken.transfer(account, amount), "Token transfer failed");
+        
+        emit StakeWithdrawn(account, amount);
+    }
+    
+    /**
+     * @dev Confiscate stake from an account proven to be colluding
+     * @param account The account to slash
+     * @param amount The amount to take, from the active stake first, then the pending withdrawal
+     * @param reason Evidence or case reference, recorded in the event
+     * @notice Only moderators can slash. Slashed KNOW stays in the hub and joins the reward pool
+     */
+    function slashStake(address account, uint256 amount, string memory reason) public onlyModerator {
+        Stake storage s = stakes[account];
+        require(amount > 0, "Amount must be greater than zero");
+        require(amount <= s.amount + s.pendingWithdrawal, "Amount exceeds stake");
+        
+        uint256 fromActive = amount < s.amount ? amount : s.amount;
+        s.amount -= fromActive;
+        s.pendingWithdrawal -= amount - fromActive;
+        totalStaked -= amount;
+        
+        emit StakeSlashed(account, amount, _msgSender(), reason);
+    }
+    
+    /**
+     * @dev Set the stake needed to vote and the unstake cooldown
+     * @param newMinVoteStake The new minimum active stake (in wei), 0 disables the requirement
+     * @param newCooldown The new lock period between requestUnstake and withdraw (in seconds)
+     * @notice Only the contract owner can change the staking policy
+     */
+    function setStakingPolicy(uint256 newMinVoteStake, uint256 newCooldown) public onlyOwner {
+        minVoteStake = newMinVoteStake;
+        unstakeCooldown = newCooldown;
+        emit StakingPolicyUpdated(newMinVoteStake, newCooldown);
+    }
+    
+    /**
+     * @dev Add KNOW tokens to the reward pool
+     * @param amount The amount of tokens to pull from the caller (requires allowance)
+     */
+    function fundRewardPool(uint256 amount) public {
+        require(amount > 0, "Amount must be greater than zero");
+        require(
+            knowledgeToken.transferFrom(_msgSender(), address(this), amount),
+            "Token transfer failed"
+        );
+        
+        emit RewardPoolFunded(_msgSender(), amount);
+    }
+    
+    /**
+     * @dev Send KNOW from the caller straight to an entry's creator
+     * @param entryId The ID of the entry to tip
+     * @param amount The amount of tokens to pull from the caller (requires allowance)
+     */
+    function tipEntry(uint256 entryId, uint256 amount) public {
+        _tipEntry(entryId, amount);
+    }
+    
+    /**
+     * @dev Tip an entry using an EIP-2612 permit instead of a prior approval
+     * @param entryId The ID of the entry to tip
+     * @param amount The amount of tokens to tip, also the permitted allowance
+     * @param deadline Timestamp after which the permit signature expires
+     * @param v Recovery byte of the caller's permit signature
+     * @param r First 32 bytes of the permit signature
+     * @param s Second 32 bytes of the permit signature
+     * @notice A failing permit is ignored, so a permit submitted by someone else first
+     *         cannot block the tip; the transfer still needs a sufficient allowance
+     */
+    function tipEntryWithPermit(
+        uint256 entryId,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public {
+        try knowledgeToken.permit(_msgSender(), address(this), amount, deadline, v, r, s) {} catch {}
+        _tipEntry(entryId, amount);
+    }
+    
+    /**
+     * @dev Internal function to move a tip from the caller to the entry's creator
+     * @param entryId The ID of the entry to tip
+     * @param amount The amount of tokens to transfer
+     */
+    function _tipEntry(uint256 entryId, uint256 amount) internal {
+        address tipper = _msgSender();
+        address creator = entries[entryId].creator;
+        require(entries[entryId].id != 0, "Entry does not exist");
+        require(_isVisible(entryId), "Entry is not visible");
+        require(creator != tipper, "Cannot tip your own entry");
+        require(amount > 0, "Amount must be greater than zero");
+        
+        entryTips[entryId] += amount;
+        require(knowledgeToken.transferFrom(tipper, creator, amount), "Token transfer failed");
+        
+        emit EntryTipped(entryId, tipper, creator, amount);
+    }
+    
+    /**
+     * @dev Report an entry as spam or abuse
+     * @param entryId The ID of the entry to report
+     * @param reason Short description of the problem
+     * @notice Each account can report an entry once. The report that reaches
+     *         reportThreshold moves an active entry to Flagged for moderator review
+     */
+    function reportEntry(uint256 entryId, string memory reason) public {
+        address reporter = _msgSender();
+        KnowledgeEntry storage entry = entries[entryId];
+        require(entry.id != 0, "Entry does not exist");
+        require(_isVisible(entryId), "Entry is not visible");
+        require(entry.creator != reporter, "Cannot report your own entry");
+        require(!hasReported[entryId][reporter], "You have already reported this entry");
+        require(bytes(reason).length > 0, "Reason cannot be empty");
+        
+        hasReported[entryId][reporter] = true;
+        entry.reportCount += 1;
+        
+        emit EntryReported(entryId, reporter, reason);
+        
+        if (entry.status == EntryStatus.Active && entry.reportCount >= reportThreshold) {
+            entry.status = EntryStatus.Flagged;
+            emit EntryStatusChanged(entryId, EntryStatus.Flagged, reporter, "Report threshold reached");
+        }
+    }
+    
+    /**
+     * @dev Hide an entry from listings and block voting on it
+     * @param entryId The ID of the entry to hide
+     * @param reason Why the entry is hidden, recorded in the event
+     * @notice Only moderators can hide entries
+     */
+    function hideEntry(uint256 entryId, string memory reason) public onlyModerator {
+        require(entries[entryId].id != 0, "Entry does not exist");
+        require(_isVisible(entryId), "Entry is not visible");
+        
+        _setStatus(entryId, EntryStatus.Hidden, reason);
+    }
+    
+    /**
+     * @dev Return a flagged or hidden entry to the active state
+     * @param entryId The ID of the entry to restore
+     * @param reason Why the entry is restored, recorded in the event
+     * @notice Only moderators can restore entries. Existing reports are kept, so the
+     *         next report flags the entry again if it is still above the threshold
+     */
+    function restoreEntry(uint256 entryId, string memory reason) public onlyModerator {
+        EntryStatus status = entries[entryId].status;
+        require(entries[entryId].id != 0, "Entry does not exist");
+        require(
+            status == EntryStatus.Flagged || status == EntryStatus.Hidden,
+            "Entry is not flagged or hidden"
+        );
+        
+        _setStatus(entryId, EntryStatus.Active, reason);
+    }
+    
+    /**
+     * @dev Permanently remove an entry from listings, voting and revisions
+     * @param entryId The ID of the entry to remove
+     * @param reason Why the entry is removed, recorded in the event
+     * @notice Only moderators can remove entries, and removal cannot be undone
+     */
+    function removeEntry(uint256 entryId, string memory reason) public onlyModerator {
+        require(entries[entryId].id != 0, "Entry does not exist");
+        require(entries[entryId].status != EntryStatus.Removed, "Entry has been removed");
+        
+        _setStatus(entryId, EntryStatus.Removed, reason);
+    }
+    
+    /**
+     * @dev Grant or revoke the moderator role
+     * @param account The account to update
+     * @param enabled True to make the account a moderator, false to revoke it
+     * @notice Only the contract owner can manage moderators
+     */
+    function setModerator(address account, bool enabled) public onlyOwner {
+        moderators[account] = enabled;
+        emit ModeratorUpdated(account, enabled);
+    }
+    
+    /**
+     * @dev Set how many reports flag an entry
+     * @param newThreshold The new threshold, at least 1
+     * @notice Only the contract owner can change the threshold
+     */
+    function setReportThreshold(uint256 newThreshold) public onlyOwner {
+        require(newThreshold > 0, "Threshold must be greater than zero");
+        emit ReportThresholdUpdated(reportThreshold, newThreshold);
+        reportThreshold = newThreshold;
+    }
+    
+    /**
+     * @dev Check whether an account may moderate entries
+     * @param account The account to check
+     * @return True for moderators and the owner
+     */
+    function isModerator(address account) public view returns (bool) {
+        return moderators[account] || account == owner();
+    }
+    
+    /**
+     * @dev Internal function to change an entry's moderation state
+     * @param entryId The ID of the entry
+     * @param status The new state
+     * @param reason Why the state changed, recorded in the event
+     */
+    function _setStatus(uint256 entryId, EntryStatus status, string memory reason) internal {
+        entries[entryId].status = status;
+        emit EntryStatusChanged(entryId, status, _msgSender(), reason);
+    }
+    
+    /**
+     * @dev Internal function to check whether an entry is listed and open to votes
+     * @param entryId The ID of the entry
+     * @return True if the entry is neither hidden nor removed
+     */
+    function _isVisible(uint256 entryId) internal view returns (bool) {
+        EntryStatus status = entries[entryId].status;
+        return status != EntryStatus.Hidden && status != EntryStatus.Removed;
+    }
+    
+    /**
+     * @dev Set the reward paid to the creator per unit of upvote weight
+     * @param newAmount The new reward amount (in wei), 0 disables rewards
+     * @notice Only the contract owner can change the reward policy
+     */
+    function setUpvoteReward(uint256 newAmount) public onlyOwner {
+        emit UpvoteRewardUpdated(upvoteReward, newAmount);
+        upvoteReward = newAmount;
+    }
+    
+    /**
+     * @dev Set the maximum total reward a single entry can earn
+     * @param newCap The new cap (in wei), 0 removes the cap
+     * @notice Only the contract owner can change the reward policy
+     */
+    function setMaxRewardPerEntry(uint256 newCap) public onlyOwner {
+        emit MaxRewardPerEntryUpdated(maxRewardPerEntry, newCap);
+        maxRewardPerEntry = newCap;
+    }
+    
+    /**
+     * @dev Set the share of each upvote reward paid to the entry's earlier upvoters
+     * @param newShareBps The new share in basis points, at most MAX_CURATOR_SHARE_BPS;
+     *        0 pays the whole reward to the creator
+     * @notice Only the contract owner can change the reward policy
+     */
+    function setCuratorShare(uint256 newShareBps) public onlyOwner {
+        require(newShareBps <= MAX_CURATOR_SHARE_BPS, "Curator share too high");
+        emit CuratorShareUpdated(curatorShareBps, newShareBps);
+        curatorShareBps = newShareBps;
     }
     
     /**
@@ -164,42 +1247,252 @@ contract KnowledgeHub {
     }
     
     /**
-     * @dev Get all entry IDs (for pagination in frontend)
+     * @dev Get all entry IDs
      * @return Array of all entry IDs
+     * @notice Returns the whole list; use getEntriesPage once the hub holds many entries
      */
     function getAllEntryIds() public view returns (uint256[] memory) {
         return entryIds;
     }
     
+    /**
+     * @dev Get a page of entries in submission order
+     * @param offset Number of entries to skip
+     * @param limit Maximum number of entries to read
+     * @return page The entries in the slice, skipping hidden and removed ones
+     */
+    function getEntriesPage(uint256 offset, uint256 limit) 
+        public 
+        view 
+        returns (KnowledgeEntry[] memory page) 
+    {
+        return _entriesPage(entryIds, offset, limit);
+    }
+    
     /**
      * @dev Get entries by a specific creator
      * @param creator The address of the creator
      * @return Array of entry IDs created by the specified address
+     * @notice Returns the whole list; use getEntriesByCreatorPage for prolific creators
      */
     function getEntriesByCreator(address creator) 
         public 
         view 
         returns (uint256[] memory) 
     {
-        uint256[] memory creatorEntries = new uint256[](entryIds.length);
-        uint256 count = 0;
+        return creatorEntryIds[creator];
+    }
+    
+    /**
+     * @dev Get the number of entries submitted by a creator
+     * @param creator The address of the creator
+     * @return The count of entries created by the specified address
+     */
+    function getCreatorEntryCount(address creator) public view returns (uint256) {
+        return creatorEntryIds[creator].length;
+    }
+    
+    /**
+     * @dev Get a page of a creator's entries in submission order
+     * @param creator The address of the creator
+     * @param offset Number of entries to skip
+     * @param limit Maximum number of entries to read
+     * @return page The entries in the slice, skipping hidden and removed ones
+     */
+    function getEntriesByCreatorPage(address creator, uint256 offset, uint256 limit) 
+        public 
+        view 
+        returns (KnowledgeEntry[] memory page) 
+    {
+        return _entriesPage(creatorEntryIds[creator], offset, limit);
+    }
+    
+    /**
+     * @dev Get the number of versions of an entry, including the original
+     * @param entryId The ID of the entry
+     * @return The revision count (1 for an entry that was never revised)
+     */
+    function getRevisionCount(uint256 entryId) public view returns (uint256) {
+        require(entries[entryId].id != 0, "Entry does not exist");
+        uint256 count = entryRevisions[entryId].length;
+        return count == 0 ? 1 : count;
+    }
+    
+    /**
+     * @dev Get the full content history of an entry
+     * @param entryId The ID of the entry
+     * @return revisions The revisions, oldest first, starting with the original submission
+     * @return contents The content of each revision, at the same index
+     */
+    function getRevisions(uint256 entryId) 
+        public 
+        view 
+        returns (Revision[] memory revisions, Content[] memory contents) 
+    {
+        KnowledgeEntry storage entry = entries[entryId];
+        require(entry.id != 0, "Entry does not exist");
         
-        for (uint256 i = 0; i < entryIds.length; i++) {
-            if (entries[entryIds[i]].creator == creator) {
-                creatorEntries[count] = entryIds[i];
-                count++;
-            }
+        if (entryRevisions[entryId].length == 0) {
+            revisions = new Revision[](1);
+            revisions[0] = Revision(entry.title, entry.ipfsHash, entry.timestamp);
+            contents = new Content[](1);
+            contents[0] = entry.content;
+            return (revisions, contents);
         }
         
-        // Resize array to actual count
-        uint256[] memory result = new uint256[](count);
-        for (uint256 i = 0; i < count; i++) {
-            result[i] = creatorEntries[i];
+        revisions = entryRevisions[entryId];
+        contents = new Content[](revisions.length);
+        for (uint256 i = 0; i < revisions.length; i++) {
+            contents[i] = revisionContents[entryId][i];
+        }
+    }
+    
+    /**
+     * @dev Get every category that has been used, in order of first use
+     * @return Array of category labels
+     */
+    function getCategories() public view returns (string[] memory) {
+        return categories;
+    }
+    
+    /**
+     * @dev Get every tag that has been used, in order of first use
+     * @return Array of tag labels
+     */
+    function getTags() public view returns (string[] memory) {
+        return tags;
+    }
+    
+    /**
+     * @dev Get the number of entries in a category
+     * @param category The category label
+     * @return The count of entries in the category
+     */
+    function getCategoryEntryCount(string calldata category) public view returns (uint256) {
+        return categoryEntryIds[category].length;
+    }
+    
+    /**
+     * @dev Get a page of a category's entries in submission order
+     * @param category The category label
+     * @param offset Number of entries to skip
+     * @param limit Maximum number of entries to read
+     * @return page The entries in the slice, skipping hidden and removed ones
+     */
+    function getEntriesByCategoryPage(string calldata category, uint256 offset, uint256 limit) 
+        public 
+        view 
+        returns (KnowledgeEntry[] memory page) 
+    {
+        return _entriesPage(categoryEntryIds[category], offset, limit);
+    }
+    
+    /**
+     * @dev Get the number of entries carrying a tag
+     * @param tag The tag label
+     * @return The count of entries with the tag
+     */
+    function getTagEntryCount(string calldata tag) public view returns (uint256) {
+        return tagEntryIds[tag].length;
+    }
+    
+    /**
+     * @dev Get a page of a tag's entries in submission order
+     * @param tag The tag label
+     * @param offset Number of entries to skip
+     * @param limit Maximum number of entries to read
+     * @return page The entries in the slice, skipping hidden and removed ones
+     */
+    function getEntriesByTagPage(string calldata tag, uint256 offset, uint256 limit) 
+        public 
+        view 
+        returns (KnowledgeEntry[] memory page) 
+    {
+        return _entriesPage(tagEntryIds[tag], offset, limit);
+    }
+    
+    /**
+     * @dev Get several entries in one call
+     * @param ids The IDs of the entries to retrieve
+     * @return result The entries, in the same order as ids
+     */
+    function getEntries(uint256[] calldata ids) 
+        public 
+        view 
+        returns (KnowledgeEntry[] memory result) 
+    {
+        result = new KnowledgeEntry[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            result[i] = getEntry(ids[i]);
         }
-        
         return result;
     }
     
+    /**
+     * @dev Get several entries together with their tips and an account's vote on each, in one call
+     * @param ids The IDs of the entries to retrieve
+     * @param voter The account whose votes to include (the zero address for none)
+     * @return result The entries, in the same order as ids
+     * @return voted Whether the account has voted on each entry
+     * @return upvoted Whether each vote is an upvote (only valid where voted is true)
+     * @return tips The total KNOW tipped to each entry (in wei)
+     */
+    function getEntriesWithVoteStatus(uint256[] calldata ids, address voter) 
+        public 
+        view 
+        returns (KnowledgeEntry[] memory result, bool[] memory voted, bool[] memory upvoted, uint256[] memory tips) 
+    {
+        result = getEntries(ids);
+        voted = new bool[](ids.length);
+        upvoted = new bool[](ids.length);
+        tips = new uint256[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            (voted[i], upvoted[i]) = getVoteStatus(ids[i], voter);
+            tips[i] = entryTips[ids[i]];
+        }
+        return (result, voted, upvoted, tips);
+    }
+    
+    /**
+     * @dev Internal helper to load a slice of an ID list as full entries
+     * @param ids The list of entry IDs to page through
+     * @param offset Number of IDs to skip
+     * @param limit Maximum number of IDs to read
+     * @return page The visible entries in the requested slice
+     * @notice Hidden and removed entries are left out, so a page can hold fewer
+     *         than limit entries before the end of the list
+     */
+    function _entriesPage(uint256[] storage ids, uint256 offset, uint256 limit) 
+        internal 
+        view 
+        returns (KnowledgeEntry[] memory page) 
+    {
+        if (offset >= ids.length) {
+            return new KnowledgeEntry[](0);
+        }
+        
+        uint256 end = offset + limit;
+        if (end > ids.length) {
+            end = ids.length;
+        }
+        
+        uint256 visible = 0;
+        for (uint256 i = offset; i < end; i++) {
+            if (_isVisible(ids[i])) {
+                visible++;
+            }
+        }
+        
+        page = new KnowledgeEntry[](visible);
+        uint256 index = 0;
+        for (uint256 i = offset; i < end; i++) {
+            if (_isVisible(ids[i])) {
+                page[index++] = entries[ids[i]];
+            }
+        }
+        return page;
+    }
+    
     /**
      * @dev Check if a user has voted on a specific entry
      * @param entryId The ID of the entry
@@ -219,9 +1512,41 @@ contract KnowledgeHub {
     
     /**
      * @dev Get the contract's KNOW token balance (for checking reward availability)
-     * @return The amount of KNOW tokens held by this contract
+     * @return The amount of KNOW tokens held by this contract, excluding stakes and
+     *         unclaimed curator rewards
      */
     function getContractTokenBalance() public view returns (uint256) {
-        return knowledgeToken.balanceOf(address(this));
+        return knowledgeToken.balanceOf(address(this)) - totalStaked - totalCuratorRewardsReserved;
+    }
+    
+    /**
+     * @dev Only the owner can move the proxy to a new implementation
+     */
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+    
+    /**
+     * @dev Resolve the account a call acts for: the signer of a relayed request, or the caller
+     */
+    function _msgSender() internal view override(ContextUpgradeable, ERC2771ContextUpgradeable) returns (address) {
+        return ERC2771ContextUpgradeable._msgSender();
+    }
+    
+    /**
+     * @dev Calldata of the call without the signer address appended by the forwarder
+     */
+    function _msgData() internal view override(ContextUpgradeable, ERC2771ContextUpgradeable) returns (bytes calldata) {
+        return ERC2771ContextUpgradeable._msgData();
+    }
+    
+    /**
+     * @dev Length of the signer address the forwarder appends to relayed calldata
+     */
+    function _contextSuffixLength()
+        internal
+        view
+        override(ContextUpgradeable, ERC2771ContextUpgradeable)
+        returns (uint256)
+    {
+        return ERC2771ContextUpgradeable._contextSuffixLength();
     }
 }
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+
+/**
+ * @title KnowledgeTimelock
+ * @dev Timelock that owns the KnowledgeHub and the KNOW token's admin and minter roles
+ * @notice Proposals passed by the KnowledgeGovernor wait here for `getMinDelay()`
+ *         seconds before anyone can execute them, giving holders time to react
+ */
+contract KnowledgeTimelock is TimelockController {
+
+    /**
+     * @dev Constructor that sets the delay and the initial roles
+     * @param minDelay Seconds a queued operation waits before it can be executed
+     * @param proposers Accounts allowed to queue and cancel operations (the governor)
+     * @param executors Accounts allowed to execute ready operations (address(0) for anyone)
+     * @param admin Optional account allowed to set up roles, address(0) for none
+     */
+    constructor(uint256 minDelay, address[] memory proposers, address[] memory executors, address admin)
+        TimelockController(minDelay, proposers, executors, admin)
+    {}
+}
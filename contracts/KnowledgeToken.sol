@@ -2,33 +2,53 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Capped.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Pausable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
 
 /**
  * @title KnowledgeToken
  * @dev ERC20 token for rewarding knowledge contributors in the Knowledge Hub
- * @notice This token is minted by the owner to reward users for quality knowledge submissions
+ * @notice Minting is restricted to MINTER_ROLE holders (e.g. the KnowledgeHub) and
+ *         can never push the total supply above MAX_SUPPLY. Holders can approve
+ *         spenders with an EIP-2612 signature instead of an `approve` transaction.
+ *         Balances carry checkpointed voting power for the KnowledgeGovernor once
+ *         their holder delegates it (to themselves or to another account)
  */
-contract KnowledgeToken is ERC20, Ownable {
-    
+contract KnowledgeToken is ERC20, ERC20Capped, ERC20Pausable, ERC20Permit, ERC20Votes, AccessControl {
+
+    // Role allowed to mint new tokens
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+
+    // Role allowed to pause and unpause all token transfers
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    // Hard cap on the total supply (100,000,000 KNOW tokens)
+    uint256 public constant MAX_SUPPLY = 100_000_000 * 10**18;
+
     /**
      * @dev Constructor that sets the token name and symbol
-     * @param initialOwner The address that will own this contract
+     * @param initialAdmin The address that receives the admin, minter and pauser roles
      */
-    constructor(address initialOwner) 
-        ERC20("KnowledgeToken", "KNOW") 
-        Ownable(initialOwner) 
+    constructor(address initialAdmin)
+        ERC20("KnowledgeToken", "KNOW")
+        ERC20Capped(MAX_SUPPLY)
+        ERC20Permit("KnowledgeToken")
     {
-        // Initial supply can be minted by owner as needed
+        _grantRole(DEFAULT_ADMIN_ROLE, initialAdmin);
+        _grantRole(MINTER_ROLE, initialAdmin);
+        _grantRole(PAUSER_ROLE, initialAdmin);
     }
 
     /**
      * @dev Mints new tokens to a specified address
      * @param to The address to mint tokens to
      * @param amount The amount of tokens to mint (in wei)
-     * @notice Only the contract owner can mint new tokens
+     * @notice Only MINTER_ROLE holders can mint, and never beyond MAX_SUPPLY
      */
-    function mint(address to, uint256 amount) public onlyOwner {
+    function mint(address to, uint256 amount) public onlyRole(MINTER_ROLE) {
         _mint(to, amount);
     }
 
@@ -49,4 +69,38 @@ contract KnowledgeToken is ERC20, Ownable {
         _spendAllowance(from, msg.sender, amount);
         _burn(from, amount);
     }
+
+    /**
+     * @dev Pauses all transfers, mints and burns
+     * @notice Only PAUSER_ROLE holders can pause
+     */
+    function pause() public onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @dev Resumes transfers, mints and burns
+     * @notice Only PAUSER_ROLE holders can unpause
+     */
+    function unpause() public onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    /**
+     * @dev Applies the supply cap and pause checks to every balance change and
+     *      moves the matching voting power between delegates
+     */
+    function _update(address from, address to, uint256 value)
+        internal
+        override(ERC20, ERC20Capped, ERC20Pausable, ERC20Votes)
+    {
+        super._update(from, to, value);
+    }
+    
+    /**
+     * @dev Permit nonces, shared with vote delegation by signature
+     */
+    function nonces(address owner) public view override(ERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(owner);
+    }
 }
@@ -0,0 +1,191 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/metatx/ERC2771ContextUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "../KnowledgeToken.sol";
+
+/**
+ * @title KnowledgeHubV2Mock
+ * @dev Test-only second version of KnowledgeHub used to exercise upgrades. It keeps
+ *      the v1 storage layout, appends a `featuredAt` field to KnowledgeEntry and a
+ *      `featureDuration` state variable, and only implements the views the upgrade
+ *      tests need to read the migrated state back
+ */
+contract KnowledgeHubV2Mock is Initializable, OwnableUpgradeable, UUPSUpgradeable, ERC2771ContextUpgradeable {
+
+    // Storage of KnowledgeHub v1, in declaration order
+    KnowledgeToken public knowledgeToken;
+    uint256 public upvoteReward;
+    uint256 public maxRewardPerEntry;
+    mapping(uint256 => uint256) public entryRewardsPaid;
+    uint256 public curatorShareBps;
+
+    struct Curation {
+        uint256 shares;
+        uint256 rewardDebt;
+    }
+
+    mapping(uint256 => mapping(address => Curation)) public curations;
+    mapping(uint256 => uint256) public totalCurationShares;
+    mapping(uint256 => uint256) public curatorRewardPerShare;
+    mapping(uint256 => uint256) public curatorCount;
+    mapping(address => uint256) public settledCuratorRewards;
+    mapping(address => uint256[]) private curatedEntryIds;
+    uint256 public totalCuratorRewardsReserved;
+    mapping(uint256 => uint256) public entryTips;
+    mapping(address => int256) public netVotesReceived;
+    uint256 public minVoteStake;
+    uint256 public unstakeCooldown;
+
+    struct Stake {
+        uint256 amount;
+        uint256 pendingWithdrawal;
+        uint256 unlockTime;
+    }
+
+    mapping(address => Stake) public stakes;
+    uint256 public totalStaked;
+    uint256 public reportThreshold;
+    mapping(address => bool) public moderators;
+    uint256 private nextEntryId;
+
+    enum EntryStatus { Active, Flagged, Hidden, Removed }
+
+    struct Content {
+        bytes32 digest;
+        uint8 codec;
+    }
+
+    struct KnowledgeEntry {
+        uint256 id;
+        address creator;
+        string title;
+        string ipfsHash;
+        int256 voteCount;
+        uint256 timestamp;
+        uint256 upvotes;
+        uint256 downvotes;
+        uint256 weightedUpvotes;
+        uint256 weightedDownvotes;
+        string category;
+        string[] tags;
+        uint256 updatedAt;
+        EntryStatus status;
+        uint256 reportCount;
+        Content content;
+        uint256 featuredAt;   // New in v2: when the owner featured the entry (0 if never)
+    }
+
+    struct Revision {
+        string title;
+        string ipfsHash;
+        uint256 timestamp;
+    }
+
+    mapping(uint256 => KnowledgeEntry) public entries;
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+    mapping(uint256 => mapping(address => bool)) public userVotes;
+    mapping(uint256 => mapping(address => uint256)) public voteWeights;
+    mapping(uint256 => mapping(address => bool)) public upvoteRewarded;
+    mapping(uint256 => mapping(address => bool)) public hasReported;
+    uint256[] public entryIds;
+    mapping(address => uint256[]) private creatorEntryIds;
+    mapping(uint256 => Revision[]) private entryRevisions;
+    mapping(string => uint256[]) private categoryEntryIds;
+    mapping(string => uint256[]) private tagEntryIds;
+    string[] private categories;
+    string[] private tags;
+    mapping(bytes32 => uint256) public entryIdByDigest;
+    mapping(uint256 => mapping(uint256 => Content)) private revisionContents;
+    mapping(address => mapping(uint256 => uint256)) public rewardedUpvotes;
+
+    // New in v2: how long a featured entry stays featured
+    uint256 public featureDuration;
+
+    event EntryFeatured(uint256 entryId, uint256 featuredAt);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor state-variable-immutable
+    constructor(address trustedForwarder) ERC2771ContextUpgradeable(trustedForwarder) {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initializer for proxies deployed directly at v2
+     */
+    function initialize(address _knowledgeToken, address initialOwner) external initializer {
+        __Ownable_init(initialOwner);
+        knowledgeToken = KnowledgeToken(_knowledgeToken);
+        featureDuration = 7 days;
+    }
+
+    /**
+     * @dev Migration run once by upgradeToAndCall when moving a v1 proxy to v2
+     */
+    function initializeV2() external reinitializer(2) {
+        featureDuration = 7 days;
+    }
+
+    function version() external pure returns (string memory) {
+        return "2";
+    }
+
+    /**
+     * @dev Feature an entry, setting the field v2 added to KnowledgeEntry
+     */
+    function featureEntry(uint256 entryId) external onlyOwner {
+        require(entries[entryId].id != 0, "Entry does not exist");
+        entries[entryId].featuredAt = block.timestamp;
+        emit EntryFeatured(entryId, block.timestamp);
+    }
+
+    function getEntry(uint256 entryId) external view returns (KnowledgeEntry memory) {
+        require(entries[entryId].id != 0, "Entry does not exist");
+        return entries[entryId];
+    }
+
+    function getEntryCount() external view returns (uint256) {
+        return entryIds.length;
+    }
+
+    function getRevisions(uint256 entryId)
+        external
+        view
+        returns (Revision[] memory revisions, Content[] memory contents)
+    {
+        revisions = entryRevisions[entryId];
+        contents = new Content[](revisions.length);
+        for (uint256 i = 0; i < revisions.length; i++) {
+            contents[i] = revisionContents[entryId][i];
+        }
+    }
+
+    function getEntriesByCreator(address creator) external view returns (uint256[] memory) {
+        return creatorEntryIds[creator];
+    }
+
+    function getTagEntryCount(string calldata tag) external view returns (uint256) {
+        return tagEntryIds[tag].length;
+    }
+
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+
+    function _msgSender() internal view override(ContextUpgradeable, ERC2771ContextUpgradeable) returns (address) {
+        return ERC2771ContextUpgradeable._msgSender();
+    }
+
+    function _msgData() internal view override(ContextUpgradeable, ERC2771ContextUpgradeable) returns (bytes calldata) {
+        return ERC2771ContextUpgradeable._msgData();
+    }
+
+    function _contextSuffixLength()
+        internal
+        view
+        override(ContextUpgradeable, ERC2771ContextUpgradeable)
+        returns (uint256)
+    {
+        return ERC2771ContextUpgradeable._contextSuffixLength();
+    }
+}
@@ -0,0 +1,55 @@
+import React from 'react';
+import { BatchVoteResult, MAX_BATCH_VOTES } from '../contracts/knowledgeHub';
+
+interface BatchVoteBarProps {
+  selectedCount: number;
+  voting: boolean;
+  results: BatchVoteResult[];
+  error: string;
+  onVote: (upvote: boolean) => Promise<void>;
+  onClear: () => void;
+}
+
+/**
+ * Votes on every selected entry in one transaction and lists the votes the
+ * contract skipped in the last batch
+ */
+const BatchVoteBar: React.FC<BatchVoteBarProps> = ({ selectedCount, voting, results, error, onVote, onClear }) => {
+  const skipped = results.filter((result) => !result.voted);
+  const tooMany = selectedCount > MAX_BATCH_VOTES;
+
+  return (
+    <div className="batch-vote-bar">
+      {selectedCount > 0 && (
+        <div className="batch-vote-controls">
+          <span>{selectedCount} selected</span>
+          <button onClick={() => onVote(true)} disabled={voting || tooMany} className="vote-btn upvote">
+            {voting ? 'Voting...' : '↑ Upvote selected'}
+          </button>
+          <button onClick={() => onVote(false)} disabled={voting || tooMany} className="vote-btn downvote">
+            {voting ? 'Voting...' : '↓ Downvote selected'}
+          </button>
+          <button onClick={onClear} disabled={voting} className="history-btn">
+            Clear
+          </button>
+        </div>
+      )}
+      {tooMany && <p className="stake-hint">Select at most {MAX_BATCH_VOTES} entries per batch.</p>}
+      {results.length > 0 && (
+        <p className="status-message">
+          {results.length - skipped.length} of {results.length} votes counted
+        </p>
+      )}
+      {skipped.length > 0 && (
+        <ul className="curation-entries">
+          {skipped.map((result, i) => (
+            <li key={i}>Entry #{result.entryId} skipped: {result.reason}</li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="error-message">{error}</p>}
+    </div>
+  );
+};
+
+export default BatchVoteBar;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { CuratorEarnings } from '../contracts/knowledgeHub';
+
+interface CurationPanelProps {
+  earnings: CuratorEarnings;
+  claiming: boolean;
+  error: string;
+  onClaim: () => Promise<void>;
+}
+
+/**
+ * Curator rewards the connected account has earned by upvoting entries
+ * before others did, with a button to claim them
+ */
+const CurationPanel: React.FC<CurationPanelProps> = ({ earnings, claiming, error, onClaim }) => {
+  const hasEarnings = Number(earnings.total) > 0;
+
+  return (
+    <div className="curation-panel">
+      <div className="curation-summary">
+        <span>Curation earnings: {earnings.total} KNOW</span>
+        <button onClick={onClaim} disabled={claiming || !hasEarnings} className="stake-btn">
+          {claiming ? 'Claiming...' : 'Claim'}
+        </button>
+      </div>
+      {earnings.entries.length > 0 && (
+        <ul className="curation-entries">
+          {earnings.entries.map((entry) => (
+            <li key={entry.entryId}>Entry #{entry.entryId}: {entry.pending} KNOW</li>
+          ))}
+          {Number(earnings.settled) > 0 && <li>From changed or retracted upvotes: {earnings.settled} KNOW</li>}
+        </ul>
+      )}
+      {!hasEarnings && (
+        <p className="stake-hint">Upvote good entries early to earn a share of later upvote rewards.</p>
+      )}
+      {error && <p className="error-message">{error}</p>}
+    </div>
+  );
+};
+
+export default CurationPanel;
@@ -0,0 +1,34 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { useEntryContent } from '../hooks/useContent';
+
+interface EntryContentProps {
+  cid: string;
+}
+
+/**
+ * The Markdown content of an entry, fetched by its CID and only shown once it
+ * matches the CID. Raw HTML in the content is not rendered.
+ */
+const EntryContent: React.FC<EntryContentProps> = ({ cid }) => {
+  const { content, status, error } = useEntryContent(cid);
+
+  return (
+    <div className="entry-content">
+      {status === 'loading' && <p className="status-message">Loading content...</p>}
+      {status === 'unverified' && (
+        <p className="error-message" title={error}>
+          Unverified: the content served for this entry does not match its CID, so it is not shown.
+        </p>
+      )}
+      {status === 'unavailable' && <p className="error-message">Content unavailable: {error}</p>}
+      {content !== null && <ReactMarkdown linkTarget="_blank">{content}</ReactMarkdown>}
+      <div className="entry-cid" title="IPFS content identifier">
+        {status === 'verified' && <span className="content-verified">✓ Verified</span>}
+        {cid}
+      </div>
+    </div>
+  );
+};
+
+export default EntryContent;
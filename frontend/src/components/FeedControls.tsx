@@ -0,0 +1,77 @@
+import React from 'react';
+import { Labels } from '../contracts/knowledgeHub';
+import { FeedView, SORT_LABELS, SORT_MODES, SortMode } from '../utils/feed';
+
+interface FeedControlsProps {
+  view: FeedView;
+  labels: Labels;
+  onChange: (changes: Partial<FeedView>) => void;
+  // Moderators can also list hidden and removed entries
+  isModerator: boolean;
+  includeHidden: boolean;
+  onIncludeHiddenChange: (includeHidden: boolean) => void;
+}
+
+/**
+ * Sort, search and filter controls of the entry feed
+ */
+const FeedControls: React.FC<FeedControlsProps> = ({
+  view,
+  labels,
+  onChange,
+  isModerator,
+  includeHidden,
+  onIncludeHiddenChange
+}) => (
+  <div className="filters">
+    <input
+      type="search"
+      placeholder="Search titles..."
+      value={view.search}
+      onChange={(e) => onChange({ search: e.target.value })}
+      className="search-input"
+    />
+    <input
+      type="text"
+      placeholder="Author address"
+      value={view.author}
+      onChange={(e) => onChange({ author: e.target.value })}
+      className="author-input"
+    />
+    <select value={view.sort} onChange={(e) => onChange({ sort: e.target.value as SortMode })} title="Sort entries">
+      {SORT_MODES.map((mode) => (
+        <option key={mode} value={mode}>{SORT_LABELS[mode]}</option>
+      ))}
+    </select>
+    <select
+      value={view.category || ''}
+      onChange={(e) => onChange({ category: e.target.value || undefined })}
+    >
+      <option value="">All categories</option>
+      {labels.categories.map((category) => (
+        <option key={category} value={category}>{category}</option>
+      ))}
+    </select>
+    <select
+      value={view.tag || ''}
+      onChange={(e) => onChange({ tag: e.target.value || undefined })}
+    >
+      <option value="">All tags</option>
+      {labels.tags.map((tag) => (
+        <option key={tag} value={tag}>#{tag}</option>
+      ))}
+    </select>
+    {isModerator && (
+      <label className="moderator-toggle">
+        <input
+          type="checkbox"
+          checked={includeHidden}
+          onChange={(e) => onIncludeHiddenChange(e.target.checked)}
+        />
+        Show hidden and removed
+      </label>
+    )}
+  </div>
+);
+
+export default FeedControls;
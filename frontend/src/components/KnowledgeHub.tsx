@@ -1,65 +1,99 @@
-import React, { useState, useEffect } from 'react';
-import { ethers } from 'ethers';
+import React, { useMemo, useState } from 'react';
+import { useWallet } from '../hooks/useWallet';
+import {
+  ModerationAction,
+  useBatchVote,
+  useCuratorEarnings,
+  useEntries,
+  useEntryStats,
+  useModeration,
+  useStake,
+  useSubmitEntry,
+  useTip,
+  useVote
+} from '../hooks/useKnowledgeHub';
+import { useContentUpload } from '../hooks/useContent';
+import { useFeedView, useScrollSentinel } from '../hooks/useFeed';
+import { useRoute } from '../hooks/useRoute';
+import { MAX_TAGS, isValidLabel, parseTags } from '../contracts/knowledgeHub';
+import { CHAIN_ID } from '../contracts/config';
+import { chainName } from '../contracts/chains';
+import { isRelayerAvailable } from '../contracts/relayer';
+import { applyFeedView } from '../utils/feed';
+import { formatRoute } from '../utils/route';
+import BatchVoteBar from './BatchVoteBar';
+import CurationPanel from './CurationPanel';
+import EntryContent from './EntryContent';
+import FeedControls from './FeedControls';
+import Leaderboard from './Leaderboard';
+import ProfilePage from './ProfilePage';
+import RevisionHistory from './RevisionHistory';
+import StakePanel from './StakePanel';
 import './KnowledgeHub.css';
 
-// Import contract ABIs (you'll need to copy these from your artifacts)
-// For now, using placeholder interfaces
-interface Entry {
-  id: number;
-  author: string;
-  title: string;
-  contentHash: string;
-  upvotes: number;
-  downvotes: number;
-  timestamp: number;
-}
-
 const KnowledgeHub: React.FC = () => {
-  const [entries, setEntries] = useState<Entry[]>([]);
+  // Feed, leaderboard or a contributor's profile, from the URL hash
+  const route = useRoute();
   const [newTitle, setNewTitle] = useState('');
   const [newContent, setNewContent] = useState('');
-  const [account, setAccount] = useState<string>('');
-  const [loading, setLoading] = useState(false);
-
-  // Mock data for demonstration
-  useEffect(() => {
-    const mockEntries: Entry[] = [
-      {
-        id: 1,
-        author: '0x1234...5678',
-        title: 'Introduction to Blockchain',
-        contentHash: 'QmHash1...',
-        upvotes: 15,
-        downvotes: 2,
-        timestamp: Date.now() - 86400000
-      },
-      {
-        id: 2,
-        author: '0x9876...5432',
-        title: 'Smart Contract Best Practices',
-        contentHash: 'QmHash2...',
-        upvotes: 23,
-        downvotes: 1,
-        timestamp: Date.now() - 172800000
-      }
-    ];
-    setEntries(mockEntries);
-  }, []);
-
-  const connectWallet = async () => {
-    if (window.ethereum) {
-      try {
-        const accounts = await window.ethereum.request({
-          method: 'eth_requestAccounts'
-        });
-        setAccount(accounts[0]);
-      } catch (error) {
-        console.error('Error connecting wallet:', error);
-      }
-    } else {
-      alert('Please install MetaMask!');
-    }
-  };
+  const [newCategory, setNewCategory] = useState('');
+  const [newTags, setNewTags] = useState('');
+  // Sort, search and filters, kept in the URL
+  const { view, updateView } = useFeedView();
+  const [includeHidden, setIncludeHidden] = useState(false);
+  const [historyEntryId, setHistoryEntryId] = useState<number | null>(null);
+  // Entries picked for the next batch vote
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  // Sign submissions and votes and let the relayer pay their gas
+  const [gasless, setGasless] = useState(false);
+  const wallet = useWallet();
+  // The wallet is only used for the hub on the hub's chain; until the user
+  // switches, entries are read through the configured RPC
+  const account = wallet.onHubChain ? wallet.account : '';
+  const provider = wallet.onHubChain ? wallet.provider : null;
+  const signer = wallet.onHubChain ? wallet.signer : null;
+  const {
+    entries,
+    labels,
+    rewardPolicy,
+    reputation,
+    hasMore,
+    loadMore,
+    refreshes,
+    loading: loadingEntries,
+    error: loadError,
+    refresh
+  } = useEntries(provider, account, { category: view.category, tag: view.tag, includeHidden });
+  // Sorting and search apply to the pages loaded so far; refreshes after votes keep them
+  const feed = useMemo(() => applyFeedView(entries, view), [entries, view]);
+  const sentinelRef = useScrollSentinel(hasMore, loadMore);
+  const { voteStatuses, tipTotals } = useEntryStats(provider, account, feed.map((entry) => entry.id), refreshes);
+  const { upload, uploading, error: uploadError, storeName } = useContentUpload();
+  const { submitEntry: submitToHub, submitting, error: submitError } = useSubmitEntry(signer, refresh, gasless);
+  const { vote, pendingEntryId, error: voteError } = useVote(signer, refresh, gasless);
+  const { voteAll, voting: batchVoting, results: batchResults, error: batchError } = useBatchVote(signer, refresh);
+  const { tip, pendingEntryId: tippingEntryId, error: tipError } = useTip(signer, refresh);
+  const {
+    isModerator,
+    report,
+    moderate,
+    pendingEntryId: moderatingEntryId,
+    error: moderationError
+  } = useModeration(signer, account, refresh);
+  const {
+    stakeInfo,
+    stake,
+    requestUnstake,
+    withdraw,
+    pending: staking,
+    error: stakeError
+  } = useStake(signer, account, refresh);
+  const {
+    earnings,
+    claim: claimCuratorRewards,
+    claiming,
+    error: curationError
+  } = useCuratorEarnings(signer, account, refreshes);
 
   const submitEntry = async () => {
     if (!newTitle || !newContent) {
@@ -67,42 +101,65 @@ const KnowledgeHub: React.FC = () => {
       return;
     }
 
-    setLoading(true);
-    
-    // In a real implementation, you would:
-    // 1. Upload content to IPFS
-    // 2. Call the smart contract to submit the entry
-    
-    // Mock submission for demonstration
-    setTimeout(() => {
-      const newEntry: Entry = {
-        id: entries.length + 1,
-        author: account || '0x0000...0000',
-        title: newTitle,
-        contentHash: `QmMock${Date.now()}`,
-        upvotes: 0,
-        downvotes: 0,
-        timestamp: Date.now()
-      };
-      
-      setEntries([newEntry, ...entries]);
+    const category = newCategory.trim().toLowerCase();
+    const tags = parseTags(newTags);
+    if (category && !isValidLabel(category)) {
+      alert('Categories may only use lowercase letters, digits and dashes (max 32 characters)');
+      return;
+    }
+    if (tags.length > MAX_TAGS || !tags.every(isValidLabel)) {
+      alert(`Use up to ${MAX_TAGS} tags of lowercase letters, digits and dashes (max 32 characters each)`);
+      return;
+    }
+
+    const ipfsHash = await upload(newContent);
+    if (!ipfsHash) return;
+
+    if (await submitToHub(newTitle, ipfsHash, category, tags)) {
       setNewTitle('');
       setNewContent('');
-      setLoading(false);
-    }, 2000);
+      setNewCategory('');
+      setNewTags('');
+    }
+  };
+
+  const reportEntry = async (entryId: number) => {
+    const reason = window.prompt('Why should this entry be reviewed?');
+    if (reason) await report(entryId, reason);
+  };
+
+  const tipEntry = async (entryId: number) => {
+    const amount = window.prompt('How many KNOW do you want to tip the creator?');
+    if (!amount) return;
+    if (!(Number(amount) > 0)) {
+      alert('Please enter a positive amount of KNOW');
+      return;
+    }
+    await tip(entryId, amount);
+  };
+
+  const toggleSelected = (entryId: number) => {
+    setSelectedIds((current) => current.indexOf(entryId) === -1
+      ? [...current, entryId]
+      : current.filter((id) => id !== entryId));
+  };
+
+  const voteOnSelected = async (upvote: boolean) => {
+    if (await voteAll(selectedIds, upvote)) setSelectedIds([]);
   };
 
-  const vote = (entryId: number, isUpvote: boolean) => {
-    setEntries(entries.map(entry => {
-      if (entry.id === entryId) {
-        return {
-          ...entry,
-          upvotes: isUpvote ? entry.upvotes + 1 : entry.upvotes,
-          downvotes: !isUpvote ? entry.downvotes + 1 : entry.downvotes
-        };
-      }
-      return entry;
-    }));
+  const moderateEntry = async (entryId: number, action: ModerationAction) => {
+    const reason = window.prompt(`Reason to ${action} this entry:`);
+    if (reason) await moderate(entryId, action, reason);
+  };
+
+  // Clicking the active category, tag or author again clears that filter
+  const toggleFilter = (key: 'category' | 'tag', value: string) => {
+    updateView({ [key]: view[key] === value ? undefined : value });
+  };
+
+  const toggleAuthor = (creator: string) => {
+    updateView({ author: view.author.toLowerCase() === creator.toLowerCase() ? '' : creator });
   };
 
   const formatAddress = (address: string) => {
@@ -111,7 +168,7 @@ const KnowledgeHub: React.FC = () => {
 
   const formatTime = (timestamp: number) => {
     const now = Date.now();
-    const diff = now - timestamp;
+    const diff = now - timestamp * 1000;
     const hours = Math.floor(diff / (1000 * 60 * 60));
     const days = Math.floor(hours / 24);
     
@@ -120,19 +177,89 @@ const KnowledgeHub: React.FC = () => {
     return 'Just now';
   };
 
-  return (
-    <div className="knowledge-hub">
-      <div className="wallet-section">
-        {!account ? (
-          <button onClick={connectWallet} className="connect-btn">
-            Connect Wallet
+  const walletSection = (
+    <div className="wallet-section">
+      <nav className="page-nav">
+        <a href={formatRoute({ page: 'feed' })} className={route.page === 'feed' ? 'active' : ''}>Entries</a>
+        <a href={formatRoute({ page: 'leaderboard' })} className={route.page === 'leaderboard' ? 'active' : ''}>
+          Leaderboard
+        </a>
+        {!!account && (
+          <a
+            href={formatRoute({ page: 'profile', account })}
+            className={route.page === 'profile' && route.account.toLowerCase() === account.toLowerCase() ? 'active' : ''}
+          >
+            My profile
+          </a>
+        )}
+      </nav>
+      {!wallet.account ? (
+        <button onClick={wallet.connect} className="connect-btn">
+          Connect Wallet
+        </button>
+      ) : !wallet.onHubChain ? (
+        <div className="network-notice">
+          <span>
+            Your wallet is on {chainName(wallet.chainId ?? 0)}. Switch to {chainName(CHAIN_ID)} to submit, vote and tip.
+          </span>
+          <button onClick={wallet.switchChain} disabled={wallet.switching} className="stake-btn">
+            {wallet.switching ? 'Switching...' : `Switch to ${chainName(CHAIN_ID)}`}
           </button>
+          {wallet.error && <p className="error-message">{wallet.error}</p>}
+        </div>
+      ) : (
+        <div className="wallet-info">
+          <span>Connected: {formatAddress(account)}</span>
+          {reputation && (
+            <span className="reputation">
+              Reputation {reputation.reputation} · vote weight ×{reputation.voteWeight}
+            </span>
+          )}
+          {isRelayerAvailable() && (
+            <label className="gasless-toggle" title="Sign submissions and votes; the relayer pays the gas">
+              <input type="checkbox" checked={gasless} onChange={(e) => setGasless(e.target.checked)} />
+              Gasless
+            </label>
+          )}
+        </div>
+      )}
+      {stakeInfo && (
+        <StakePanel
+          stakeInfo={stakeInfo}
+          pending={staking}
+          error={stakeError}
+          onStake={stake}
+          onUnstake={requestUnstake}
+          onWithdraw={withdraw}
+        />
+      )}
+      {earnings && (
+        <CurationPanel
+          earnings={earnings}
+          claiming={claiming}
+          error={curationError}
+          onClaim={claimCuratorRewards}
+        />
+      )}
+    </div>
+  );
+
+  if (route.page !== 'feed') {
+    return (
+      <div className="knowledge-hub">
+        {walletSection}
+        {route.page === 'profile' ? (
+          <ProfilePage runner={provider} account={route.account} viewer={account} refreshKey={refreshes} />
         ) : (
-          <div className="wallet-info">
-            <span>Connected: {formatAddress(account)}</span>
-          </div>
+          <Leaderboard runner={provider} viewer={account} refreshKey={refreshes} />
         )}
       </div>
+    );
+  }
+
+  return (
+    <div className="knowledge-hub">
+      {walletSection}
 
       <div className="submit-section">
         <h2>Share Knowledge</h2>
@@ -147,69 +274,246 @@ const KnowledgeHub: React.FC = () => {
         </div>
         <div className="form-group">
           <textarea
-            placeholder="Share your knowledge here..."
+            placeholder="Share your knowledge here (Markdown supported)..."
             value={newContent}
             onChange={(e) => setNewContent(e.target.value)}
             className="content-input"
             rows={4}
           />
         </div>
+        <div className="form-group label-row">
+          <input
+            type="text"
+            placeholder="Category (e.g. scaling)"
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value)}
+            className="label-input"
+          />
+          <input
+            type="text"
+            placeholder={`Tags, comma-separated (up to ${MAX_TAGS})`}
+            value={newTags}
+            onChange={(e) => setNewTags(e.target.value)}
+            className="label-input"
+          />
+        </div>
         <button 
           onClick={submitEntry} 
-          disabled={loading || !account}
+          disabled={uploading || submitting || !account}
           className="submit-btn"
         >
-          {loading ? 'Submitting...' : 'Submit Entry'}
+          {uploading ? 'Uploading...' : submitting ? 'Submitting...' : 'Submit Entry'}
         </button>
+        <p className="storage-note">Content is stored as Markdown in {storeName}</p>
+        {uploadError && <p className="error-message">{uploadError}</p>}
+        {submitError && <p className="error-message">{submitError}</p>}
       </div>
 
       <div className="entries-section">
         <h2>Knowledge Entries</h2>
+        {rewardPolicy && (
+          <p className="reward-policy">
+            Each upvote earns the creator {rewardPolicy.upvoteReward} KNOW per unit of vote weight
+            {rewardPolicy.maxRewardPerEntry && ` (up to ${rewardPolicy.maxRewardPerEntry} KNOW per entry)`}
+            {rewardPolicy.curatorSharePercent > 0 &&
+              `, ${rewardPolicy.curatorSharePercent}% of which goes to earlier upvoters`}
+            {' · '}Reward pool: {rewardPolicy.rewardPool} KNOW
+            {rewardPolicy.mintsRewards && ' (minted on demand when empty)'}
+          </p>
+        )}
+        <FeedControls
+          view={view}
+          labels={labels}
+          onChange={updateView}
+          isModerator={isModerator}
+          includeHidden={includeHidden}
+          onIncludeHiddenChange={setIncludeHidden}
+        />
+        {!!account && (
+          <BatchVoteBar
+            selectedCount={selectedIds.length}
+            voting={batchVoting}
+            results={batchResults}
+            error={batchError}
+            onVote={voteOnSelected}
+            onClear={() => setSelectedIds([])}
+          />
+        )}
+        {loadError && <p className="error-message">{loadError}</p>}
+        {voteError && <p className="error-message">{voteError}</p>}
+        {moderationError && <p className="error-message">{moderationError}</p>}
+        {tipError && <p className="error-message">{tipError}</p>}
+        {loadingEntries && entries.length === 0 && <p className="status-message">Loading entries...</p>}
+        {!loadingEntries && !loadError && entries.length === 0 && (
+          <p className="status-message">
+            {view.category || view.tag
+              ? 'No entries match these filters.'
+              : 'No entries yet. Be the first to share knowledge!'}
+          </p>
+        )}
+        {entries.length > 0 && feed.length === 0 && (
+          <p className="status-message">No entries match this search.</p>
+        )}
+        {feed.length > 0 && feed.length < entries.length && (
+          <p className="feed-count">{feed.length} of the {entries.length} entries loaded so far match</p>
+        )}
         <div className="entries-list">
-          {entries.map((entry) => (
-            <div key={entry.id} className="entry-card">
-              <div className="entry-header">
-                <h3>{entry.title}</h3>
-                <div className="entry-meta">
-                  <span>By {formatAddress(entry.author)}</span>
-                  <span>{formatTime(entry.timestamp)}</span>
+          {feed.map((entry) => {
+            const status = voteStatuses[entry.id];
+            const isCreator = !!account && entry.creator.toLowerCase() === account.toLowerCase();
+            const isVisible = entry.status === 'active' || entry.status === 'flagged';
+            const hasStake = !!stakeInfo?.canVote;
+            const canVote = !!account && pendingEntryId === null && !isCreator && isVisible;
+            const canModerate = isModerator && moderatingEntryId === null;
+            const votedUp = !!status?.hasVoted && status.isUpvote;
+            const votedDown = !!status?.hasVoted && !status.isUpvote;
+            const canBatchVote = canVote && hasStake && !status?.hasVoted;
+
+            return (
+              <div key={entry.id} className={`entry-card${isVisible ? '' : ' entry-hidden'}`}>
+                <div className="entry-header">
+                  <h3>
+                    {canBatchVote && (
+                      <input
+                        type="checkbox"
+                        className="batch-select"
+                        checked={selectedIds.indexOf(entry.id) !== -1}
+                        onChange={() => toggleSelected(entry.id)}
+                        disabled={batchVoting}
+                        title="Select for a batch vote"
+                      />
+                    )}
+                    {entry.title}
+                    {entry.status !== 'active' && (
+                      <span className={`status-badge status-${entry.status}`}>{entry.status}</span>
+                    )}
+                  </h3>
+                  <div className="entry-meta">
+                    <button
+                      onClick={() => toggleAuthor(entry.creator)}
+                      className={`author-link${view.author.toLowerCase() === entry.creator.toLowerCase() ? ' active' : ''}`}
+                      title={`Show entries by ${entry.creator}`}
+                    >
+                      By {formatAddress(entry.creator)}
+                    </button>
+                    <a href={formatRoute({ page: 'profile', account: entry.creator })} className="profile-link">
+                      Profile
+                    </a>
+                    <span>{formatTime(entry.timestamp)}</span>
+                    {entry.updatedAt > 0 && (
+                      <span className="edited" title={`Last edited ${new Date(entry.updatedAt * 1000).toLocaleString()}`}>
+                        edited {formatTime(entry.updatedAt)}
+                      </span>
+                    )}
+                  </div>
                 </div>
-              </div>
-              <div className="entry-content">
-                <p>IPFS Hash: {entry.contentHash}</p>
-              </div>
-              <div className="entry-actions">
-                <button 
-                  onClick={() => vote(entry.id, true)}
-                  className="vote-btn upvote"
-                  disabled={!account}
-                >
-                  ↑ {entry.upvotes}
-                </button>
-                <button 
-                  onClick={() => vote(entry.id, false)}
-                  className="vote-btn downvote"
-                  disabled={!account}
-                >
-                  ↓ {entry.downvotes}
-                </button>
-                <div className="score">
-                  Score: {entry.upvotes - entry.downvotes}
+                {(entry.category || entry.tags.length > 0) && (
+                  <div className="entry-labels">
+                    {entry.category && (
+                      <button
+                        onClick={() => toggleFilter('category', entry.category)}
+                        className={`category-badge${view.category === entry.category ? ' active' : ''}`}
+                      >
+                        {entry.category}
+                      </button>
+                    )}
+                    {entry.tags.map((tag) => (
+                      <button
+                        key={tag}
+                        onClick={() => toggleFilter('tag', tag)}
+                        className={`tag-chip${view.tag === tag ? ' active' : ''}`}
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <EntryContent cid={entry.ipfsHash} />
+                <div className="entry-actions">
+                  <button 
+                    onClick={() => vote(entry.id, true, status)}
+                    className={`vote-btn upvote${votedUp ? ' voted' : ''}`}
+                    disabled={!canVote || (!hasStake && !votedUp)}
+                    title={votedUp ? 'Retract upvote' : votedDown ? 'Change to upvote' : 'Upvote'}
+                  >
+                    ↑ {entry.upvotes}
+                  </button>
+                  <button 
+                    onClick={() => vote(entry.id, false, status)}
+                    className={`vote-btn downvote${votedDown ? ' voted' : ''}`}
+                    disabled={!canVote || (!hasStake && !votedDown)}
+                    title={votedDown ? 'Retract downvote' : votedUp ? 'Change to downvote' : 'Downvote'}
+                  >
+                    ↓ {entry.downvotes}
+                  </button>
+                  {!!account && !isCreator && isVisible && (
+                    <button
+                      onClick={() => tipEntry(entry.id)}
+                      className="tip-btn"
+                      disabled={tippingEntryId !== null}
+                      title="Send KNOW to the creator"
+                    >
+                      {tippingEntryId === entry.id ? 'Tipping...' : 'Tip'}
+                    </button>
+                  )}
+                  {!!account && !isCreator && isVisible && (
+                    <button
+                      onClick={() => reportEntry(entry.id)}
+                      className="report-btn"
+                      disabled={moderatingEntryId !== null}
+                      title={`${entry.reportCount} report(s) so far`}
+                    >
+                      Report
+                    </button>
+                  )}
+                  {isModerator && isVisible && (
+                    <button onClick={() => moderateEntry(entry.id, 'hide')} className="report-btn" disabled={!canModerate}>
+                      Hide
+                    </button>
+                  )}
+                  {isModerator && (entry.status === 'flagged' || entry.status === 'hidden') && (
+                    <button onClick={() => moderateEntry(entry.id, 'restore')} className="report-btn" disabled={!canModerate}>
+                      Restore
+                    </button>
+                  )}
+                  {isModerator && entry.status !== 'removed' && (
+                    <button onClick={() => moderateEntry(entry.id, 'remove')} className="report-btn" disabled={!canModerate}>
+                      Remove
+                    </button>
+                  )}
+                  {entry.updatedAt > 0 && (
+                    <button
+                      onClick={() => setHistoryEntryId(historyEntryId === entry.id ? null : entry.id)}
+                      className="history-btn"
+                    >
+                      {historyEntryId === entry.id ? 'Hide history' : 'View history'}
+                    </button>
+                  )}
+                  {Number(tipTotals[entry.id] || 0) > 0 && (
+                    <span className="tip-total">{tipTotals[entry.id]} KNOW tipped</span>
+                  )}
+                  <div className="score" title={`Weighted: +${entry.weightedUpvotes} / -${entry.weightedDownvotes}`}>
+                    Score: {entry.voteCount}
+                    <span className="weighted-score">
+                      Weighted: {entry.weightedUpvotes - entry.weightedDownvotes}
+                    </span>
+                  </div>
                 </div>
+                {historyEntryId === entry.id && <RevisionHistory runner={provider} entry={entry} />}
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
+        {hasMore && (
+          <div ref={sentinelRef} className="feed-more">
+            <button onClick={loadMore} className="history-btn" disabled={loadingEntries}>
+              {loadingEntries ? 'Loading...' : 'Show older entries'}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-// Extend Window interface for TypeScript
-declare global {
-  interface Window {
-    ethereum?: any;
-  }
-}
-
 export default KnowledgeHub;
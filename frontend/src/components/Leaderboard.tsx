@@ -0,0 +1,65 @@
+import React from 'react';
+import { ContractRunner } from 'ethers';
+import { useLeaderboard } from '../hooks/useKnowledgeHub';
+import { formatRoute } from '../utils/route';
+
+interface LeaderboardProps {
+  runner: ContractRunner | null;
+  viewer: string; // connected account, '' when no wallet is connected
+  refreshKey?: unknown;
+}
+
+// Contributors listed
+const LEADERBOARD_SIZE = 25;
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Top contributors by the KNOW they have earned from upvotes, tips and curation
+ */
+const Leaderboard: React.FC<LeaderboardProps> = ({ runner, viewer, refreshKey }) => {
+  const { rows, loading, error } = useLeaderboard(runner, LEADERBOARD_SIZE, refreshKey);
+
+  return (
+    <div className="profile-page">
+      <h2>Top Contributors</h2>
+      {error && <p className="error-message">{error}</p>}
+      {loading && rows.length === 0 && <p className="status-message">Loading leaderboard...</p>}
+      {!loading && !error && rows.length === 0 && <p className="status-message">No contributors yet.</p>}
+      {rows.length > 0 && (
+        <table className="profile-table leaderboard">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Contributor</th>
+              <th>Entries</th>
+              <th>Upvote rewards</th>
+              <th>Tips</th>
+              <th>Curation</th>
+              <th>Total KNOW</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={row.account} className={viewer.toLowerCase() === row.account.toLowerCase() ? 'viewer-row' : ''}>
+                <td>{i + 1}</td>
+                <td>
+                  <a href={formatRoute({ page: 'profile', account: row.account })} className="author-link">
+                    {formatAddress(row.account)}
+                  </a>
+                </td>
+                <td>{row.entryCount}</td>
+                <td>{row.rewards}</td>
+                <td>{row.tips}</td>
+                <td>{row.curation}</td>
+                <td>{row.total}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,182 @@
+import React from 'react';
+import { ContractRunner } from 'ethers';
+import { useProfile } from '../hooks/useKnowledgeHub';
+import { formatRoute } from '../utils/route';
+
+interface ProfilePageProps {
+  runner: ContractRunner | null;
+  account: string;  // contributor shown
+  viewer: string;   // connected account, '' when no wallet is connected
+  refreshKey?: unknown;
+}
+
+interface EarningsChartProps {
+  points: { blockNumber: number; total: string; timestamp?: number }[];
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatDate = (timestamp?: number) => (timestamp ? new Date(timestamp * 1000).toLocaleDateString() : '');
+
+/**
+ * Step chart of cumulative earnings, spaced by block so it draws before the
+ * block times have loaded
+ */
+const EarningsChart: React.FC<EarningsChartProps> = ({ points }) => {
+  const first = points[0].blockNumber;
+  const span = Math.max(1, points[points.length - 1].blockNumber - first);
+  const max = Math.max(...points.map((point) => Number(point.total))) || 1;
+  const x = (blockNumber: number) => ((blockNumber - first) / span) * CHART_WIDTH;
+  const y = (total: string) => CHART_HEIGHT - (Number(total) / max) * CHART_HEIGHT;
+
+  let path = `M 0 ${CHART_HEIGHT}`;
+  points.forEach((point, i) => {
+    const previous = i > 0 ? points[i - 1].total : '0';
+    path += ` L ${x(point.blockNumber)} ${y(previous)} L ${x(point.blockNumber)} ${y(point.total)}`;
+  });
+  path += ` L ${CHART_WIDTH} ${y(points[points.length - 1].total)}`;
+
+  return (
+    <figure className="earnings-chart">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" role="img">
+        <title>Cumulative KNOW earned</title>
+        <path d={path} />
+      </svg>
+      <figcaption>
+        <span>{formatDate(points[0].timestamp) || `Block ${points[0].blockNumber}`}</span>
+        <span>{points[points.length - 1].total} KNOW</span>
+        <span>
+          {formatDate(points[points.length - 1].timestamp) || `Block ${points[points.length - 1].blockNumber}`}
+        </span>
+      </figcaption>
+    </figure>
+  );
+};
+
+/**
+ * A contributor's entries and scores, KNOW earned over time, balance and the
+ * entries they have voted on
+ */
+const ProfilePage: React.FC<ProfilePageProps> = ({ runner, account, viewer, refreshKey }) => {
+  const {
+    profile,
+    earnings,
+    history,
+    entryEarnings,
+    votedEntries,
+    loading,
+    error
+  } = useProfile(runner, account, refreshKey);
+  const isViewer = !!viewer && viewer.toLowerCase() === account.toLowerCase();
+
+  return (
+    <div className="profile-page">
+      <h2>{isViewer ? 'Your profile' : 'Contributor profile'}</h2>
+      <p className="profile-address">{account}</p>
+      {error && <p className="error-message">{error}</p>}
+      {loading && !profile && <p className="status-message">Loading profile...</p>}
+
+      <div className="profile-stats">
+        <div className="profile-stat">
+          <span className="profile-stat-value">{earnings ? earnings.total : '…'}</span>
+          <span className="profile-stat-label">KNOW earned</span>
+        </div>
+        <div className="profile-stat">
+          <span className="profile-stat-value">{profile ? profile.balance : '…'}</span>
+          <span className="profile-stat-label">KNOW balance</span>
+        </div>
+        <div className="profile-stat">
+          <span className="profile-stat-value">{profile ? profile.reputation.reputation : '…'}</span>
+          <span className="profile-stat-label">Reputation</span>
+        </div>
+        <div className="profile-stat">
+          <span className="profile-stat-value">{profile ? profile.entries.length : '…'}</span>
+          <span className="profile-stat-label">Entries</span>
+        </div>
+      </div>
+
+      <section className="profile-section">
+        <h3>Earnings</h3>
+        {earnings && (
+          <p className="profile-breakdown">
+            Upvote rewards {earnings.rewards} KNOW · Tips {earnings.tips} KNOW · Curation {earnings.curation} KNOW
+          </p>
+        )}
+        {history.length > 0 ? (
+          <EarningsChart points={history} />
+        ) : (
+          !loading && <p className="status-message">Nothing earned yet.</p>
+        )}
+      </section>
+
+      <section className="profile-section">
+        <h3>Entries</h3>
+        {profile && profile.entries.length === 0 && <p className="status-message">No entries yet.</p>}
+        {profile && profile.entries.length > 0 && (
+          <table className="profile-table">
+            <thead>
+              <tr>
+                <th>Title</th>
+                <th>Score</th>
+                <th>Votes</th>
+                <th>Earned</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profile.entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td>
+                    {entry.title}
+                    {entry.status !== 'active' && (
+                      <span className={`status-badge status-${entry.status}`}>{entry.status}</span>
+                    )}
+                  </td>
+                  <td>{entry.voteCount}</td>
+                  <td>↑ {entry.upvotes} ↓ {entry.downvotes}</td>
+                  <td>{entryEarnings[entry.id] || '0.0'} KNOW</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="profile-section">
+        <h3>Votes</h3>
+        {votedEntries.length === 0 ? (
+          !loading && <p className="status-message">No votes yet.</p>
+        ) : (
+          <table className="profile-table">
+            <thead>
+              <tr>
+                <th>Vote</th>
+                <th>Title</th>
+                <th>Author</th>
+                <th>Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {votedEntries.map(({ entry, upvote }) => (
+                <tr key={entry.id}>
+                  <td className={upvote ? 'vote-up' : 'vote-down'}>{upvote ? '↑' : '↓'}</td>
+                  <td>{entry.title}</td>
+                  <td>
+                    <a href={formatRoute({ page: 'profile', account: entry.creator })} className="author-link">
+                      {formatAddress(entry.creator)}
+                    </a>
+                  </td>
+                  <td>{entry.voteCount}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ProfilePage;
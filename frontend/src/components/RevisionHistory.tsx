@@ -0,0 +1,37 @@
+import React from 'react';
+import { ContractRunner } from 'ethers';
+import { Entry } from '../contracts/knowledgeHub';
+import { useRevisions } from '../hooks/useKnowledgeHub';
+
+interface RevisionHistoryProps {
+  runner: ContractRunner | null;
+  entry: Entry;
+}
+
+/**
+ * Every published version of an entry, newest first
+ */
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ runner, entry }) => {
+  const { revisions, loading, error } = useRevisions(runner, entry.id, entry.updatedAt);
+
+  if (error) return <p className="error-message">{error}</p>;
+  if (loading && revisions.length === 0) return <p className="status-message">Loading history...</p>;
+
+  return (
+    <ul className="revision-history">
+      {revisions.map((revision, index) => (
+        <li key={index}>
+          <span className="revision-label">
+            {index === 0 ? 'Original' : `Revision ${index}`}
+            {index === revisions.length - 1 && ' (current)'}
+          </span>
+          <span className="revision-time">{new Date(revision.timestamp * 1000).toLocaleString()}</span>
+          <div>{revision.title}</div>
+          <div className="revision-hash">IPFS Hash: {revision.ipfsHash}</div>
+        </li>
+      )).reverse()}
+    </ul>
+  );
+};
+
+export default RevisionHistory;
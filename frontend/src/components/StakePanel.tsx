@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { StakeInfo } from '../contracts/knowledgeHub';
+
+interface StakePanelProps {
+  stakeInfo: StakeInfo;
+  pending: boolean;
+  error: string;
+  onStake: (amount: string) => Promise<void>;
+  onUnstake: (amount: string) => Promise<void>;
+  onWithdraw: () => Promise<void>;
+}
+
+/**
+ * The connected account's voting stake, with controls to stake, unstake and
+ * withdraw once the cooldown has passed
+ */
+const StakePanel: React.FC<StakePanelProps> = ({ stakeInfo, pending, error, onStake, onUnstake, onWithdraw }) => {
+  const [amount, setAmount] = useState('');
+  const hasPending = Number(stakeInfo.pendingWithdrawal) > 0;
+  const unlocked = stakeInfo.unlockTime * 1000 <= Date.now();
+  const validAmount = Number(amount) > 0;
+
+  const run = async (action: (value: string) => Promise<void>) => {
+    await action(amount);
+    setAmount('');
+  };
+
+  return (
+    <div className="stake-panel">
+      <div className="stake-summary">
+        <span>Staked: {stakeInfo.staked} KNOW</span>
+        <span>Wallet: {stakeInfo.balance} KNOW</span>
+        {hasPending && (
+          <span>
+            Unstaking: {stakeInfo.pendingWithdrawal} KNOW
+            {unlocked ? ' (ready)' : ` (unlocks ${new Date(stakeInfo.unlockTime * 1000).toLocaleString()})`}
+          </span>
+        )}
+      </div>
+      {!stakeInfo.canVote && (
+        <p className="stake-hint">Stake at least {stakeInfo.minVoteStake} KNOW to vote.</p>
+      )}
+      <div className="stake-controls">
+        <input
+          type="number"
+          min="0"
+          placeholder="Amount (KNOW)"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className="label-input"
+        />
+        <button onClick={() => run(onStake)} disabled={pending || !validAmount} className="stake-btn">
+          Stake
+        </button>
+        <button onClick={() => run(onUnstake)} disabled={pending || !validAmount} className="stake-btn">
+          Unstake
+        </button>
+        {hasPending && (
+          <button onClick={onWithdraw} disabled={pending || !unlocked} className="stake-btn">
+            Withdraw
+          </button>
+        )}
+      </div>
+      {error && <p className="error-message">{error}</p>}
+    </div>
+  );
+};
+
+export default StakePanel;
@@ -0,0 +1,261 @@
+import { Log, Provider, formatEther } from 'ethers';
+import { KnowledgeHub } from './types';
+
+/**
+ * One hub event that counts towards an account's activity. The hub's events
+ * have no indexed parameters, so accounts are matched after the logs are read.
+ */
+export type ActivityRecord =
+  | { type: 'submission'; account: string; entryId: number; blockNumber: number }
+  | { type: 'reward'; account: string; entryId: number; amount: bigint; blockNumber: number }
+  | { type: 'curation'; account: string; amount: bigint; blockNumber: number }
+  | { type: 'tip'; account: string; entryId: number; amount: bigint; from: string; blockNumber: number }
+  | { type: 'vote'; account: string; entryId: number; upvote: boolean; blockNumber: number }
+  | { type: 'retraction'; account: string; entryId: number; blockNumber: number };
+
+/**
+ * The hub's activity records up to and including a block
+ */
+export interface HubActivity {
+  records: ActivityRecord[];
+  toBlock: number;
+}
+
+/**
+ * KNOW an account has earned, formatted in KNOW
+ */
+export interface Earnings {
+  total: string;
+  rewards: string;  // creator's share of upvote rewards
+  curation: string; // curator rewards claimed
+  tips: string;     // tips received
+}
+
+/**
+ * Running total of an account's earnings after each block it earned in
+ */
+export interface EarningsPoint {
+  blockNumber: number;
+  total: string;
+}
+
+/**
+ * The current vote of an account on an entry
+ */
+export interface AccountVote {
+  entryId: number;
+  upvote: boolean;
+}
+
+/**
+ * One row of the contributor leaderboard
+ */
+export interface LeaderboardRow extends Earnings {
+  account: string;
+  entryCount: number;
+}
+
+// Blocks per eth_getLogs request and requests in flight, within the limits of common RPC providers
+const LOG_BLOCK_RANGE = 5000;
+const LOG_REQUESTS_IN_FLIGHT = 8;
+
+const toRecord = (hub: KnowledgeHub, log: Log): ActivityRecord | null => {
+  const event = hub.interface.parseLog(log);
+  if (!event) return null;
+  const { args } = event;
+  const blockNumber = log.blockNumber;
+
+  switch (event.name) {
+    case 'EntrySubmitted':
+      return { type: 'submission', account: args.creator, entryId: Number(args.entryId), blockNumber };
+    case 'RewardDistributed':
+      return { type: 'reward', account: args.creator, entryId: Number(args.entryId), amount: args.amount, blockNumber };
+    case 'CuratorRewardsClaimed':
+      return { type: 'curation', account: args.curator, amount: args.amount, blockNumber };
+    case 'EntryTipped':
+      return {
+        type: 'tip',
+        account: args.creator,
+        entryId: Number(args.entryId),
+        amount: args.amount,
+        from: args.tipper,
+        blockNumber
+      };
+    case 'EntryVoted':
+    case 'VoteChanged':
+      return { type: 'vote', account: args.voter, entryId: Number(args.entryId), upvote: args.upvote, blockNumber };
+    case 'VoteRetracted':
+      return { type: 'retraction', account: args.voter, entryId: Number(args.entryId), blockNumber };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Read the hub's activity from its event logs, in block ranges small enough
+ * for public RPC endpoints
+ * @param fromBlock First block to read, e.g. the hub's deployment block or
+ * the block after a previous scan's toBlock
+ * @param previous Records of an earlier scan to extend
+ */
+export const fetchHubActivity = async (
+  hub: KnowledgeHub,
+  fromBlock: number,
+  previous: ActivityRecord[] = []
+): Promise<HubActivity> => {
+  const provider = hub.runner?.provider;
+  if (!provider) {
+    throw new Error('Reading hub activity needs a provider');
+  }
+  const address = await hub.getAddress();
+  const toBlock = await provider.getBlockNumber();
+
+  const ranges: [number, number][] = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_RANGE) {
+    ranges.push([start, Math.min(start + LOG_BLOCK_RANGE - 1, toBlock)]);
+  }
+
+  const logs: Log[][] = [];
+  for (let i = 0; i < ranges.length; i += LOG_REQUESTS_IN_FLIGHT) {
+    logs.push(...await Promise.all(
+      ranges.slice(i, i + LOG_REQUESTS_IN_FLIGHT).map(([start, end]) =>
+        provider.getLogs({ address, fromBlock: start, toBlock: end }))
+    ));
+  }
+
+  const records = previous.concat(
+    ([] as Log[]).concat(...logs)
+      .map((log) => toRecord(hub, log))
+      .filter((record): record is ActivityRecord => record !== null)
+  );
+  return { records, toBlock };
+};
+
+/**
+ * Load the Unix time of each block, keyed by block number
+ */
+export const fetchBlockTimes = async (provider: Provider, blockNumbers: number[]): Promise<Record<number, number>> => {
+  const blocks = await Promise.all(blockNumbers.map((blockNumber) => provider.getBlock(blockNumber)));
+  const result: Record<number, number> = {};
+  blocks.forEach((block, i) => {
+    if (block) result[blockNumbers[i]] = block.timestamp;
+  });
+  return result;
+};
+
+const sameAccount = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const emptyTotals = () => ({ rewards: BigInt(0), curation: BigInt(0), tips: BigInt(0) });
+
+const formatTotals = (totals: ReturnType<typeof emptyTotals>): Earnings => ({
+  total: formatEther(totals.rewards + totals.curation + totals.tips),
+  rewards: formatEther(totals.rewards),
+  curation: formatEther(totals.curation),
+  tips: formatEther(totals.tips)
+});
+
+// Adds an earning record to running totals; other records are ignored
+const addEarning = (totals: ReturnType<typeof emptyTotals>, record: ActivityRecord) => {
+  if (record.type === 'reward') totals.rewards += record.amount;
+  if (record.type === 'curation') totals.curation += record.amount;
+  if (record.type === 'tip') totals.tips += record.amount;
+};
+
+/**
+ * Total KNOW an account has earned from upvote rewards, curator reward claims
+ * and tips
+ */
+export const summarizeEarnings = (records: ActivityRecord[], account: string): Earnings => {
+  const totals = emptyTotals();
+  records.filter((record) => sameAccount(record.account, account)).forEach((record) => addEarning(totals, record));
+  return formatTotals(totals);
+};
+
+/**
+ * An account's cumulative earnings, one point per block it earned in, oldest first
+ */
+export const earningsHistory = (records: ActivityRecord[], account: string): EarningsPoint[] => {
+  const totals = emptyTotals();
+  const points: EarningsPoint[] = [];
+  records
+    .filter((record) => sameAccount(record.account, account)
+      && (record.type === 'reward' || record.type === 'curation' || record.type === 'tip'))
+    .forEach((record) => {
+      addEarning(totals, record);
+      const total = formatEther(totals.rewards + totals.curation + totals.tips);
+      const last = points[points.length - 1];
+      if (last && last.blockNumber === record.blockNumber) {
+        last.total = total;
+      } else {
+        points.push({ blockNumber: record.blockNumber, total });
+      }
+    });
+  return points;
+};
+
+/**
+ * KNOW each entry earned its creator in upvote rewards and tips, keyed by entry ID
+ */
+export const earningsByEntry = (records: ActivityRecord[]): Record<number, string> => {
+  const totals: Record<number, bigint> = {};
+  records.forEach((record) => {
+    if (record.type === 'reward' || record.type === 'tip') {
+      totals[record.entryId] = (totals[record.entryId] || BigInt(0)) + record.amount;
+    }
+  });
+  const result: Record<number, string> = {};
+  Object.keys(totals).forEach((id) => {
+    result[Number(id)] = formatEther(totals[Number(id)]);
+  });
+  return result;
+};
+
+/**
+ * The entries an account currently has a vote on, most recently voted first
+ */
+export const accountVotes = (records: ActivityRecord[], account: string): AccountVote[] => {
+  // Later records replace earlier ones; a retraction removes the vote
+  const votes: Record<number, AccountVote | null> = {};
+  const order: number[] = [];
+  records
+    .filter((record) => sameAccount(record.account, account))
+    .forEach((record) => {
+      if (record.type !== 'vote' && record.type !== 'retraction') return;
+      order.push(record.entryId);
+      votes[record.entryId] = record.type === 'vote' ? { entryId: record.entryId, upvote: record.upvote } : null;
+    });
+
+  const result: AccountVote[] = [];
+  order.reverse().forEach((entryId) => {
+    const vote = votes[entryId];
+    if (vote && result.indexOf(vote) === -1) result.push(vote);
+  });
+  return result;
+};
+
+/**
+ * Rank accounts by the KNOW they have earned, then by the entries they submitted
+ * @param limit Number of rows to return
+ */
+export const buildLeaderboard = (records: ActivityRecord[], limit = 20): LeaderboardRow[] => {
+  const byAccount: Record<string, { account: string; totals: ReturnType<typeof emptyTotals>; entryCount: number }> = {};
+  records.forEach((record) => {
+    const key = record.account.toLowerCase();
+    if (!byAccount[key]) {
+      byAccount[key] = { account: record.account, totals: emptyTotals(), entryCount: 0 };
+    }
+    if (record.type === 'submission') byAccount[key].entryCount++;
+    addEarning(byAccount[key].totals, record);
+  });
+
+  const earned = (totals: ReturnType<typeof emptyTotals>) => totals.rewards + totals.curation + totals.tips;
+  return Object.keys(byAccount)
+    .map((key) => byAccount[key])
+    .filter((row) => row.entryCount > 0 || earned(row.totals) > BigInt(0))
+    .sort((a, b) => {
+      const difference = earned(b.totals) - earned(a.totals);
+      return difference !== BigInt(0) ? (difference > BigInt(0) ? 1 : -1) : b.entryCount - a.entryCount;
+    })
+    .slice(0, limit)
+    .map((row) => ({ account: row.account, entryCount: row.entryCount, ...formatTotals(row.totals) }));
+};
@@ -0,0 +1,57 @@
+/**
+ * Networks the hub can be deployed to, matching the networks of
+ * hardhat.config.ts. Used to name chains and to add them to the wallet.
+ */
+export interface ChainInfo {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl?: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+}
+
+const ETHER = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+
+export const CHAINS: Record<number, ChainInfo> = {
+  31337: {
+    chainId: 31337,
+    name: 'Hardhat Local',
+    rpcUrl: 'http://127.0.0.1:8545',
+    nativeCurrency: ETHER
+  },
+  4202: {
+    chainId: 4202,
+    name: 'Lisk Sepolia',
+    rpcUrl: 'https://rpc.sepolia-api.lisk.com',
+    explorerUrl: 'https://sepolia-blockscout.lisk.com',
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 }
+  },
+  1135: {
+    chainId: 1135,
+    name: 'Lisk',
+    rpcUrl: 'https://rpc.api.lisk.com',
+    explorerUrl: 'https://blockscout.lisk.com',
+    nativeCurrency: ETHER
+  }
+};
+
+/**
+ * Name of a chain for display, e.g. "Lisk Sepolia" or "chain 10" when unknown
+ */
+export const chainName = (chainId: number): string => CHAINS[chainId]?.name || `chain ${chainId}`;
+
+/**
+ * Chain ID in the hex form wallet RPC methods expect, e.g. "0x106a"
+ */
+export const toHexChainId = (chainId: number): string => `0x${chainId.toString(16)}`;
+
+/**
+ * Parameters of `wallet_addEthereumChain` (EIP-3085) for a chain
+ */
+export const addChainParameters = (chain: ChainInfo) => ({
+  chainId: toHexChainId(chain.chainId),
+  chainName: chain.name,
+  rpcUrls: [chain.rpcUrl],
+  nativeCurrency: chain.nativeCurrency,
+  ...(chain.explorerUrl ? { blockExplorerUrls: [chain.explorerUrl] } : {})
+});
@@ -0,0 +1,63 @@
+import deployments from './deployments.json';
+import { CHAINS } from './chains';
+
+// Contract address book written by scripts/deploy.ts, keyed by chain ID
+type AddressBook = Record<string, Record<string, { address: string; blockNumber: number }>>;
+
+// Chain the frontend reads from and that the wallet is asked to switch to, and
+// a read-only RPC endpoint for it, injected at build time (see frontend/.env.example).
+// The RPC defaults to the chain's public endpoint from the chain registry.
+export const CHAIN_ID = Number(process.env.REACT_APP_CHAIN_ID || 31337);
+export const RPC_URL = process.env.REACT_APP_RPC_URL || CHAINS[CHAIN_ID]?.rpcUrl || 'http://127.0.0.1:8545';
+
+// Local node deployments stay out of the tracked address book; scripts/deploy.ts
+// writes them to the git-ignored frontend/.env.development.local instead
+const LOCAL_CHAIN_ID = 31337;
+const localDeployment = process.env.REACT_APP_LOCAL_DEPLOYMENT;
+const addressBook: AddressBook = {
+  ...(deployments as AddressBook),
+  ...(localDeployment ? { [LOCAL_CHAIN_ID]: JSON.parse(localDeployment) } : {})
+};
+
+/**
+ * Addresses of the contracts deployed to a chain, '' for those that are not
+ */
+export interface ContractAddresses {
+  knowledgeHub: string;
+  knowledgeToken: string;
+  knowledgeForwarder: string;
+  hubBlock: number; // block the hub was deployed in, where reading its event history starts
+}
+
+/**
+ * Look up the contracts deployed to a chain in the address book
+ */
+export const getContractAddresses = (chainId: number): ContractAddresses => {
+  const chainDeployments = addressBook[chainId] || {};
+  return {
+    knowledgeHub: chainDeployments.KnowledgeHub?.address || '',
+    knowledgeToken: chainDeployments.KnowledgeToken?.address || '',
+    knowledgeForwarder: chainDeployments.KnowledgeForwarder?.address || '',
+    hubBlock: chainDeployments.KnowledgeHub?.blockNumber || 0
+  };
+};
+
+const addresses = getContractAddresses(CHAIN_ID);
+
+export const KNOWLEDGE_HUB_ADDRESS = addresses.knowledgeHub;
+export const KNOWLEDGE_HUB_BLOCK = addresses.hubBlock;
+export const KNOWLEDGE_TOKEN_ADDRESS = addresses.knowledgeToken;
+export const KNOWLEDGE_FORWARDER_ADDRESS = addresses.knowledgeForwarder;
+
+// Relayer that pays gas for signed submissions and votes (see relayer/index.ts);
+// gasless actions are hidden when unset
+export const RELAYER_URL = (process.env.REACT_APP_RELAYER_URL || '').replace(/\/$/, '');
+
+// IPFS node or pinning service (Kubo RPC API) that stores entry content and the
+// gateways it is read from, in order; content stays in this browser when no API is set
+export const IPFS_API_URL = (process.env.REACT_APP_IPFS_API_URL || '').replace(/\/$/, '');
+export const IPFS_API_AUTHORIZATION = process.env.REACT_APP_IPFS_API_AUTHORIZATION || '';
+export const IPFS_GATEWAY_URLS = (process.env.REACT_APP_IPFS_GATEWAYS || 'https://ipfs.io,https://dweb.link')
+  .split(',')
+  .map((url) => url.trim().replace(/\/$/, ''))
+  .filter(Boolean);
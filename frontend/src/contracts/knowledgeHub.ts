@@ -0,0 +1,469 @@
+import { ContractRunner, Signature, Signer, ZeroAddress, formatEther, isCallException } from 'ethers';
+import { KnowledgeHub, KnowledgeHub__factory, KnowledgeToken, KnowledgeToken__factory } from './types';
+import { CHAIN_ID, KNOWLEDGE_HUB_ADDRESS } from './config';
+import { storedCid } from '../utils/cid';
+
+// Names of the contract's EntryStatus values, in enum order
+export const ENTRY_STATUSES = ['active', 'flagged', 'hidden', 'removed'] as const;
+export type EntryStatus = typeof ENTRY_STATUSES[number];
+
+/**
+ * Mirror of the on-chain KnowledgeEntry struct with numeric fields
+ * converted for display
+ */
+export interface Entry {
+  id: number;
+  creator: string;
+  title: string;
+  ipfsHash: string; // CID of the current content, in canonical base32 form
+  voteCount: number;
+  timestamp: number; // Unix seconds, as stored by the contract
+  upvotes: number;
+  downvotes: number;
+  weightedUpvotes: number;   // Sum of the weights of all upvotes
+  weightedDownvotes: number; // Sum of the weights of all downvotes
+  category: string; // '' when uncategorized
+  tags: string[];
+  updatedAt: number; // Unix seconds of the last revision, 0 if never edited
+  status: EntryStatus;
+  reportCount: number;
+}
+
+/**
+ * One published version of an entry's title and content
+ */
+export interface Revision {
+  title: string;
+  ipfsHash: string; // CID of this version's content, in canonical base32 form
+  timestamp: number; // Unix seconds
+}
+
+/**
+ * Restricts a listing to one category and/or tag
+ */
+export interface EntryFilter {
+  category?: string;
+  tag?: string;
+  includeHidden?: boolean; // Also load hidden and removed entries (moderator view)
+}
+
+/**
+ * Every category and tag used on the hub, in order of first use
+ */
+export interface Labels {
+  categories: string[];
+  tags: string[];
+}
+
+/**
+ * Vote cast by the connected account on a single entry
+ */
+export interface VoteStatus {
+  hasVoted: boolean;
+  isUpvote: boolean;
+}
+
+/**
+ * Per-entry figures loaded for the entries on screen, keyed by entry ID
+ */
+export interface EntryStats {
+  voteStatuses: Record<number, VoteStatus>; // empty without a voter
+  tipTotals: Record<number, string>; // KNOW tipped to each entry
+}
+
+/**
+ * Standing of an account, which sets how much its votes count
+ */
+export interface Reputation {
+  reputation: number;
+  voteWeight: number;
+}
+
+/**
+ * KNOW an account has locked in the hub to vote, formatted in KNOW
+ */
+export interface StakeInfo {
+  staked: string;
+  pendingWithdrawal: string;
+  unlockTime: number; // Unix seconds when the pending withdrawal can be claimed
+  minVoteStake: string;
+  balance: string; // unstaked KNOW in the wallet
+  canVote: boolean;
+}
+
+/**
+ * Current reward settings of the hub, formatted in KNOW
+ */
+export interface RewardPolicy {
+  upvoteReward: string;
+  maxRewardPerEntry: string | null; // null when there is no cap
+  rewardPool: string;
+  mintsRewards: boolean; // true when the hub mints rewards once the pool is empty
+  curatorSharePercent: number; // share of each upvote reward paid to earlier upvoters
+}
+
+/**
+ * Curator rewards an account has earned by upvoting entries early, formatted in KNOW
+ */
+export interface CuratorEarnings {
+  total: string;
+  settled: string; // from upvotes that were later changed or retracted
+  entries: { entryId: number; pending: string }[]; // curated entries with pending rewards
+}
+
+/**
+ * What the hub holds for a contributor: their listed entries, newest first,
+ * their KNOW balance and their reputation
+ */
+export interface Profile {
+  entries: Entry[];
+  balance: string; // unstaked KNOW in the wallet
+  reputation: Reputation;
+}
+
+/**
+ * Connect to the deployed KnowledgeHub contract
+ * @param runner A provider for reads or a signer for transactions
+ */
+export const getKnowledgeHub = (runner: ContractRunner): KnowledgeHub => {
+  if (!KNOWLEDGE_HUB_ADDRESS) {
+    throw new Error(`No KnowledgeHub deployment found for chain ${CHAIN_ID}`);
+  }
+  return KnowledgeHub__factory.connect(KNOWLEDGE_HUB_ADDRESS, runner);
+};
+
+/**
+ * Convert the struct returned by `getEntry` into an Entry
+ */
+export const toEntry = (raw: KnowledgeHub.KnowledgeEntryStructOutput): Entry => ({
+  id: Number(raw.id),
+  creator: raw.creator,
+  title: raw.title,
+  ipfsHash: storedCid(raw.ipfsHash, raw.content),
+  voteCount: Number(raw.voteCount),
+  timestamp: Number(raw.timestamp),
+  upvotes: Number(raw.upvotes),
+  downvotes: Number(raw.downvotes),
+  weightedUpvotes: Number(raw.weightedUpvotes),
+  weightedDownvotes: Number(raw.weightedDownvotes),
+  category: raw.category,
+  tags: [...raw.tags],
+  updatedAt: Number(raw.updatedAt),
+  status: ENTRY_STATUSES[Number(raw.status)],
+  reportCount: Number(raw.reportCount)
+});
+
+// Entries fetched per getEntriesPage call
+const PAGE_SIZE = 100;
+
+// Category and tag rules enforced by the contract
+export const MAX_TAGS = 5;
+const LABEL_PATTERN = /^[a-z0-9-]{1,32}$/;
+
+/**
+ * Check a category or tag against the contract's rules
+ */
+export const isValidLabel = (label: string): boolean => LABEL_PATTERN.test(label);
+
+/**
+ * Turn comma-separated user input into distinct, lowercase tag labels
+ */
+export const parseTags = (input: string): string[] => {
+  const tags = input
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, '-'))
+    .filter((tag) => tag !== '');
+  return tags.filter((tag, i) => tags.indexOf(tag) === i);
+};
+
+/**
+ * Count the positions of the listing a filter pages through: the category or
+ * tag index on chain, or every entry ID for the moderator view
+ */
+export const fetchEntryTotal = async (hub: KnowledgeHub, filter: EntryFilter = {}): Promise<number> => {
+  const { category, tag, includeHidden } = filter;
+  return Number(
+    includeHidden ? await hub.getEntryCount()
+      : category ? await hub.getCategoryEntryCount(category)
+        : tag ? await hub.getTagEntryCount(tag)
+          : await hub.getEntryCount()
+  );
+};
+
+/**
+ * Load the entries at positions `from` to `to` (exclusive) of the listing a
+ * filter pages through, newest first. Makes one call per PAGE_SIZE positions.
+ * The listing pages skip hidden entries, so the moderator view loads entries
+ * by ID instead and filters them here.
+ */
+export const fetchEntriesRange = async (
+  hub: KnowledgeHub,
+  filter: EntryFilter,
+  from: number,
+  to: number
+): Promise<Entry[]> => {
+  const { category, tag, includeHidden } = filter;
+  const pages: Promise<KnowledgeHub.KnowledgeEntryStructOutput[]>[] = [];
+  for (let offset = from; offset < to; offset += PAGE_SIZE) {
+    const limit = Math.min(PAGE_SIZE, to - offset);
+    if (includeHidden) {
+      // Entry IDs are assigned sequentially from 1
+      const ids: number[] = [];
+      for (let id = offset + 1; id <= offset + limit; id++) {
+        ids.push(id);
+      }
+      pages.push(hub.getEntries(ids));
+    } else {
+      pages.push(
+        category ? hub.getEntriesByCategoryPage(category, offset, limit)
+          : tag ? hub.getEntriesByTagPage(tag, offset, limit)
+            : hub.getEntriesPage(offset, limit)
+      );
+    }
+  }
+
+  const entries = ([] as KnowledgeHub.KnowledgeEntryStructOutput[]).concat(...(await Promise.all(pages)));
+  return entries
+    .map(toEntry)
+    .filter((entry) => !category || entry.category === category)
+    .filter((entry) => !tag || entry.tags.indexOf(tag) !== -1)
+    .reverse();
+};
+
+/**
+ * Load entries by ID, in the order given. Makes one getEntries call per
+ * PAGE_SIZE entries.
+ */
+export const fetchEntriesById = async (hub: KnowledgeHub, entryIds: number[]): Promise<Entry[]> => {
+  const pages: Promise<KnowledgeHub.KnowledgeEntryStructOutput[]>[] = [];
+  for (let offset = 0; offset < entryIds.length; offset += PAGE_SIZE) {
+    pages.push(hub.getEntries(entryIds.slice(offset, offset + PAGE_SIZE)));
+  }
+  return ([] as KnowledgeHub.KnowledgeEntryStructOutput[]).concat(...(await Promise.all(pages))).map(toEntry);
+};
+
+/**
+ * Load the categories and tags available for filtering
+ */
+export const fetchLabels = async (hub: KnowledgeHub): Promise<Labels> => {
+  const [categories, tags] = await Promise.all([hub.getCategories(), hub.getTags()]);
+  return { categories: [...categories], tags: [...tags] };
+};
+
+/**
+ * Load the revision history of an entry, oldest first, starting with the
+ * original submission
+ */
+export const fetchRevisions = async (hub: KnowledgeHub, entryId: number): Promise<Revision[]> => {
+  const [revisions, contents] = await hub.getRevisions(entryId);
+  return revisions.map((revision, i) => ({
+    title: revision.title,
+    ipfsHash: storedCid(revision.ipfsHash, contents[i]),
+    timestamp: Number(revision.timestamp)
+  }));
+};
+
+/**
+ * Load the tips of the given entries and a voter's vote on each.
+ * Makes one getEntriesWithVoteStatus call per PAGE_SIZE entries.
+ * @param voter Account whose votes to load, or '' to only load tips
+ */
+export const fetchEntryStats = async (hub: KnowledgeHub, entryIds: number[], voter: string): Promise<EntryStats> => {
+  const chunks: Promise<[KnowledgeHub.KnowledgeEntryStructOutput[], boolean[], boolean[], bigint[]]>[] = [];
+  for (let offset = 0; offset < entryIds.length; offset += PAGE_SIZE) {
+    chunks.push(hub.getEntriesWithVoteStatus(entryIds.slice(offset, offset + PAGE_SIZE), voter || ZeroAddress));
+  }
+
+  const stats: EntryStats = { voteStatuses: {}, tipTotals: {} };
+  (await Promise.all(chunks)).forEach(([entries, voted, upvoted, tips]) => {
+    entries.forEach((entry, i) => {
+      const id = Number(entry.id);
+      stats.tipTotals[id] = formatEther(tips[i]);
+      if (voter) {
+        stats.voteStatuses[id] = { hasVoted: voted[i], isUpvote: upvoted[i] };
+      }
+    });
+  });
+  return stats;
+};
+
+// Most votes the contract accepts in one batchVote call
+export const MAX_BATCH_VOTES = 50;
+
+/**
+ * Outcome of one vote in a batch
+ */
+export interface BatchVoteResult {
+  entryId: number;
+  voted: boolean;
+  reason: string; // why the vote was skipped, '' when it was counted
+}
+
+/**
+ * Cast new votes on several entries in one transaction. Votes that break the
+ * voting rules are skipped by the contract instead of failing the batch.
+ * @return The outcome of each vote, in the order they were given
+ */
+export const batchVote = async (
+  hub: KnowledgeHub,
+  entryIds: number[],
+  upvote: boolean
+): Promise<BatchVoteResult[]> => {
+  const receipt = await (await hub.batchVote(entryIds, entryIds.map(() => upvote))).wait();
+  // Each vote emits EntryVoted or, when skipped, VoteSkipped, in batch order
+  const results: BatchVoteResult[] = [];
+  for (const log of receipt?.logs ?? []) {
+    const event = hub.interface.parseLog(log);
+    if (event?.name === 'EntryVoted' || event?.name === 'VoteSkipped') {
+      results.push({
+        entryId: Number(event.args.entryId),
+        voted: event.name === 'EntryVoted',
+        reason: event.name === 'VoteSkipped' ? event.args.reason : ''
+      });
+    }
+  }
+  return results;
+};
+
+/**
+ * Load an account's reputation and the weight its next vote would carry
+ */
+export const fetchReputation = async (hub: KnowledgeHub, account: string): Promise<Reputation> => {
+  const [reputation, voteWeight] = await Promise.all([hub.reputation(account), hub.voteWeight(account)]);
+  return { reputation: Number(reputation), voteWeight: Number(voteWeight) };
+};
+
+/**
+ * Load a contributor's listed entries, KNOW balance and reputation
+ */
+export const fetchProfile = async (hub: KnowledgeHub, account: string): Promise<Profile> => {
+  const token = KnowledgeToken__factory.connect(await hub.knowledgeToken(), hub.runner);
+  const total = Number(await hub.getCreatorEntryCount(account));
+  const pages: Promise<KnowledgeHub.KnowledgeEntryStructOutput[]>[] = [];
+  for (let offset = 0; offset < total; offset += PAGE_SIZE) {
+    pages.push(hub.getEntriesByCreatorPage(account, offset, PAGE_SIZE));
+  }
+  const [loaded, balance, reputation] = await Promise.all([
+    Promise.all(pages),
+    token.balanceOf(account),
+    fetchReputation(hub, account)
+  ]);
+  const entries = ([] as KnowledgeHub.KnowledgeEntryStructOutput[]).concat(...loaded).map(toEntry).reverse();
+  return { entries, balance: formatEther(balance), reputation };
+};
+
+/**
+ * Load an account's stake, its wallet balance and whether the stake is enough to vote
+ */
+export const fetchStake = async (hub: KnowledgeHub, account: string): Promise<StakeInfo> => {
+  const token = KnowledgeToken__factory.connect(await hub.knowledgeToken(), hub.runner);
+  const [stake, minVoteStake, balance] = await Promise.all([
+    hub.stakes(account),
+    hub.minVoteStake(),
+    token.balanceOf(account)
+  ]);
+  return {
+    staked: formatEther(stake.amount),
+    pendingWithdrawal: formatEther(stake.pendingWithdrawal),
+    unlockTime: Number(stake.unlockTime),
+    minVoteStake: formatEther(minVoteStake),
+    balance: formatEther(balance),
+    canVote: stake.amount >= minVoteStake
+  };
+};
+
+/**
+ * Check whether an account may hide, restore and remove entries
+ */
+export const fetchIsModerator = async (hub: KnowledgeHub, account: string): Promise<boolean> => {
+  return hub.isModerator(account);
+};
+
+/**
+ * Load the reward settings and the remaining reward pool
+ */
+export const fetchRewardPolicy = async (hub: KnowledgeHub): Promise<RewardPolicy> => {
+  const [upvoteReward, maxRewardPerEntry, rewardPool, mintsRewards, curatorShareBps] = await Promise.all([
+    hub.upvoteReward(),
+    hub.maxRewardPerEntry(),
+    hub.getContractTokenBalance(),
+    hub.canMintRewards(),
+    hub.curatorShareBps()
+  ]);
+  return {
+    upvoteReward: formatEther(upvoteReward),
+    maxRewardPerEntry: maxRewardPerEntry === BigInt(0) ? null : formatEther(maxRewardPerEntry),
+    rewardPool: formatEther(rewardPool),
+    mintsRewards,
+    curatorSharePercent: Number(curatorShareBps) / 100
+  };
+};
+
+/**
+ * Load an account's claimable curator rewards, per curated entry
+ */
+export const fetchCuratorEarnings = async (hub: KnowledgeHub, account: string): Promise<CuratorEarnings> => {
+  const [entryIds, settled] = await Promise.all([
+    hub.getCuratedEntryIds(account),
+    hub.settledCuratorRewards(account)
+  ]);
+  const pending = await Promise.all(entryIds.map((id) => hub.pendingCuratorReward(id, account)));
+
+  let total = settled;
+  const entries: CuratorEarnings['entries'] = [];
+  entryIds.forEach((id, i) => {
+    total += pending[i];
+    if (pending[i] > BigInt(0)) {
+      entries.push({ entryId: Number(id), pending: formatEther(pending[i]) });
+    }
+  });
+  return { total: formatEther(total), settled: formatEther(settled), entries };
+};
+
+// EIP-712 type of an ERC20 permit (EIP-2612)
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+/**
+ * Sign an EIP-2612 permit letting `spender` transfer `value` KNOW from the signer
+ * @param deadline Unix seconds after which the permit can no longer be used
+ */
+export const signPermit = async (
+  signer: Signer,
+  token: KnowledgeToken,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<Signature> => {
+  const owner = await signer.getAddress();
+  const domain = { name: await token.name(), version: '1', chainId: CHAIN_ID, verifyingContract: await token.getAddress() };
+  const message = { owner, spender, value, nonce: await token.nonces(owner), deadline };
+  return Signature.from(await signer.signTypedData(domain, PERMIT_TYPES, message));
+};
+
+/**
+ * Extract a human readable message from a failed contract call: the revert
+ * reason, e.g. "You have already voted on this entry", or the custom error the
+ * contract raised, e.g. "OwnableUnauthorizedAccount(0x..)"
+ */
+export const getErrorMessage = (error: unknown): string => {
+  if (isCallException(error)) {
+    const { revert } = error;
+    if (revert) {
+      return revert.name === 'Error' ? String(revert.args[0]) : `${revert.name}(${revert.args.join(', ')})`;
+    }
+    return error.reason || error.shortMessage;
+  }
+  if (error instanceof Error) {
+    // Other ethers errors, e.g. a rejected signature, carry a one-line summary next to the full message
+    return 'shortMessage' in error && typeof error.shortMessage === 'string' ? error.shortMessage : error.message;
+  }
+  return 'Transaction failed';
+};
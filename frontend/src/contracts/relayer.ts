@@ -0,0 +1,68 @@
+import { Signer } from 'ethers';
+import { KnowledgeForwarder__factory } from './types';
+import { CHAIN_ID, KNOWLEDGE_FORWARDER_ADDRESS, KNOWLEDGE_HUB_ADDRESS, RELAYER_URL } from './config';
+
+// Gas forwarded to the hub and lifetime of a signed request
+const RELAYED_GAS = BigInt(1000000);
+const REQUEST_TTL_SECONDS = 3600;
+
+// EIP-712 type of a forwarded call, as defined by OpenZeppelin's ERC2771Forwarder
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint48' },
+    { name: 'data', type: 'bytes' }
+  ]
+};
+
+export const isRelayerAvailable = () => Boolean(RELAYER_URL && KNOWLEDGE_FORWARDER_ADDRESS);
+
+/**
+ * Sign a hub call and have the relayer submit it, so the wallet pays no gas
+ * @param signer Signer of the connected wallet
+ * @param data Encoded hub call, e.g. from KnowledgeHub.interface.encodeFunctionData
+ * @returns Hash of the mined relayed transaction
+ */
+export const relayHubCall = async (signer: Signer, data: string): Promise<string> => {
+  if (!isRelayerAvailable()) {
+    throw new Error(`No relayer configured for chain ${CHAIN_ID}`);
+  }
+  const provider = signer.provider!;
+  const forwarder = KnowledgeForwarder__factory.connect(KNOWLEDGE_FORWARDER_ADDRESS, provider);
+  const from = await signer.getAddress();
+  const latest = await provider.getBlock('latest');
+
+  const request = {
+    from,
+    to: KNOWLEDGE_HUB_ADDRESS,
+    value: BigInt(0),
+    gas: RELAYED_GAS,
+    nonce: await forwarder.nonces(from),
+    deadline: BigInt((latest?.timestamp ?? Math.floor(Date.now() / 1000)) + REQUEST_TTL_SECONDS),
+    data
+  };
+  const signature = await signer.signTypedData(
+    { name: 'KnowledgeForwarder', version: '1', chainId: CHAIN_ID, verifyingContract: KNOWLEDGE_FORWARDER_ADDRESS },
+    FORWARD_REQUEST_TYPES,
+    request
+  );
+
+  // The forwarder reads the nonce itself; big numbers travel as decimal strings
+  const { nonce, ...forwarded } = request;
+  const response = await fetch(`${RELAYER_URL}/relay`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...forwarded, signature }, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Relayer responded with ${response.status}`);
+  }
+
+  await provider.waitForTransaction(body.transactionHash);
+  return body.transactionHash;
+};
@@ -0,0 +1,2920 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace KnowledgeHub {
+  export type ContentStruct = { digest: BytesLike; codec: BigNumberish };
+
+  export type ContentStructOutput = [digest: string, codec: bigint] & {
+    digest: string;
+    codec: bigint;
+  };
+
+  export type KnowledgeEntryStruct = {
+    id: BigNumberish;
+    creator: AddressLike;
+    title: string;
+    ipfsHash: string;
+    voteCount: BigNumberish;
+    timestamp: BigNumberish;
+    upvotes: BigNumberish;
+    downvotes: BigNumberish;
+    weightedUpvotes: BigNumberish;
+    weightedDownvotes: BigNumberish;
+    category: string;
+    tags: string[];
+    updatedAt: BigNumberish;
+    status: BigNumberish;
+    reportCount: BigNumberish;
+    content: KnowledgeHub.ContentStruct;
+  };
+
+  export type KnowledgeEntryStructOutput = [
+    id: bigint,
+    creator: string,
+    title: string,
+    ipfsHash: string,
+    voteCount: bigint,
+    timestamp: bigint,
+    upvotes: bigint,
+    downvotes: bigint,
+    weightedUpvotes: bigint,
+    weightedDownvotes: bigint,
+    category: string,
+    tags: string[],
+    updatedAt: bigint,
+    status: bigint,
+    reportCount: bigint,
+    content: KnowledgeHub.ContentStructOutput
+  ] & {
+    id: bigint;
+    creator: string;
+    title: string;
+    ipfsHash: string;
+    voteCount: bigint;
+    timestamp: bigint;
+    upvotes: bigint;
+    downvotes: bigint;
+    weightedUpvotes: bigint;
+    weightedDownvotes: bigint;
+    category: string;
+    tags: string[];
+    updatedAt: bigint;
+    status: bigint;
+    reportCount: bigint;
+    content: KnowledgeHub.ContentStructOutput;
+  };
+
+  export type RevisionStruct = {
+    title: string;
+    ipfsHash: string;
+    timestamp: BigNumberish;
+  };
+
+  export type RevisionStructOutput = [
+    title: string,
+    ipfsHash: string,
+    timestamp: bigint
+  ] & { title: string; ipfsHash: string; timestamp: bigint };
+}
+
+export interface KnowledgeHubInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DEFAULT_CURATOR_SHARE_BPS"
+      | "DEFAULT_MIN_VOTE_STAKE"
+      | "DEFAULT_REPORT_THRESHOLD"
+      | "DEFAULT_UNSTAKE_COOLDOWN"
+      | "DEFAULT_UPVOTE_REWARD"
+      | "MAX_BATCH_VOTES"
+      | "MAX_CURATOR_SHARE_BPS"
+      | "MAX_LABEL_LENGTH"
+      | "MAX_TAGS"
+      | "MAX_VOTE_WEIGHT"
+      | "REPUTATION_TOKEN_UNIT"
+      | "REWARD_EPOCH"
+      | "STAKE_PER_REWARDED_UPVOTE"
+      | "UPGRADE_INTERFACE_VERSION"
+      | "batchVote"
+      | "canMintRewards"
+      | "changeVote"
+      | "claimCuratorRewards"
+      | "curations"
+      | "curatorCount"
+      | "curatorRewardPerShare"
+      | "curatorShareBps"
+      | "entryIdByDigest"
+      | "entryRewardsPaid"
+      | "entryTips"
+      | "fundRewardPool"
+      | "getAllEntryIds"
+      | "getCategories"
+      | "getCategoryEntryCount"
+      | "getContractTokenBalance"
+      | "getCreatorEntryCount"
+      | "getCuratedEntryIds"
+      | "getEntries"
+      | "getEntriesByCategoryPage"
+      | "getEntriesByCreator"
+      | "getEntriesByCreatorPage"
+      | "getEntriesByTagPage"
+      | "getEntriesPage"
+      | "getEntriesWithVoteStatus"
+      | "getEntry"
+      | "getEntryCount"
+      | "getRevisionCount"
+      | "getRevisions"
+      | "getTagEntryCount"
+      | "getTags"
+      | "getVoteStatus"
+      | "hasReported"
+      | "hasVoted"
+      | "hideEntry"
+      | "initialize"
+      | "isModerator"
+      | "isTrustedForwarder"
+      | "knowledgeToken"
+      | "maxRewardPerEntry"
+      | "minVoteStake"
+      | "moderators"
+      | "netVotesReceived"
+      | "owner"
+      | "pendingCuratorReward"
+      | "pendingCuratorRewards"
+      | "proxiableUUID"
+      | "removeEntry"
+      | "renounceOwnership"
+      | "reportEntry"
+      | "reportThreshold"
+      | "reputation"
+      | "requestUnstake"
+      | "restoreEntry"
+      | "retractVote"
+      | "rewardedUpvotes"
+      | "setCuratorShare"
+      | "setMaxRewardPerEntry"
+      | "setModerator"
+      | "setReportThreshold"
+      | "setStakingPolicy"
+      | "setUpvoteReward"
+      | "settledCuratorRewards"
+      | "slashStake"
+      | "stake"
+      | "stakes"
+      | "submitEntry"
+      | "submitEntryWithTags"
+      | "tipEntry"
+      | "tipEntryWithPermit"
+      | "totalCurationShares"
+      | "totalCuratorRewardsReserved"
+      | "totalStaked"
+      | "transferOwnership"
+      | "trustedForwarder"
+      | "unstakeCooldown"
+      | "updateEntry"
+      | "upgradeToAndCall"
+      | "upvoteReward"
+      | "upvoteRewarded"
+      | "userVotes"
+      | "version"
+      | "voteOnEntry"
+      | "voteWeight"
+      | "voteWeights"
+      | "withdraw"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CuratorRewardAccrued"
+      | "CuratorRewardsClaimed"
+      | "CuratorShareUpdated"
+      | "EntryReported"
+      | "EntryRevised"
+      | "EntryStatusChanged"
+      | "EntrySubmitted"
+      | "EntryTipped"
+      | "EntryVoted"
+      | "Initialized"
+      | "MaxRewardPerEntryUpdated"
+      | "ModeratorUpdated"
+      | "OwnershipTransferred"
+      | "ReportThresholdUpdated"
+      | "RewardDistributed"
+      | "RewardPoolFunded"
+      | "RewardSkipped"
+      | "StakeSlashed"
+      | "StakeWithdrawn"
+      | "Staked"
+      | "StakingPolicyUpdated"
+      | "UnstakeRequested"
+      | "Upgraded"
+      | "UpvoteRewardUpdated"
+      | "VoteChanged"
+      | "VoteRetracted"
+      | "VoteSkipped"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DEFAULT_CURATOR_SHARE_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_MIN_VOTE_STAKE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_REPORT_THRESHOLD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_UNSTAKE_COOLDOWN",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_UPVOTE_REWARD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_VOTES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_CURATOR_SHARE_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_LABEL_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "MAX_TAGS", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "MAX_VOTE_WEIGHT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "REPUTATION_TOKEN_UNIT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "REWARD_EPOCH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "STAKE_PER_REWARDED_UPVOTE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "UPGRADE_INTERFACE_VERSION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchVote",
+    values: [BigNumberish[], boolean[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canMintRewards",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "changeVote",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimCuratorRewards",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "curations",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "curatorCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "curatorRewardPerShare",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "curatorShareBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "entryIdByDigest",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "entryRewardsPaid",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "entryTips",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundRewardPool",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllEntryIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCategories",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCategoryEntryCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getContractTokenBalance",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCreatorEntryCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCuratedEntryIds",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEntries",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEntriesByCategoryPage",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEntriesByCreator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEntriesByCreatorPage",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEntriesByTagPage",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEntriesPage",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEntriesWithVoteStatus",
+    values: [BigNumberish[], AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEntry",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEntryCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRevisionCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRevisions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTagEntryCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "getTags", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getVoteStatus",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasReported",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasVoted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hideEntry",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isModerator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isTrustedForwarder",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "knowledgeToken",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxRewardPerEntry",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minVoteStake",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "moderators",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "netVotesReceived",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingCuratorReward",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingCuratorRewards",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proxiableUUID",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeEntry",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportEntry",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportThreshold",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reputation",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestUnstake",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "restoreEntry",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retractVote",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rewardedUpvotes",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCuratorShare",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMaxRewardPerEntry",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setModerator",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReportThreshold",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setStakingPolicy",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setUpvoteReward",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settledCuratorRewards",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "slashStake",
+    values: [AddressLike, BigNumberish, string]
+  ): string;
+  encodeFunctionData(functionFragment: "stake", values: [BigNumberish]): string;
+  encodeFunctionData(functionFragment: "stakes", values: [AddressLike]): string;
+  encodeFunctionData(
+    functionFragment: "submitEntry",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEntryWithTags",
+    values: [string, BytesLike, string, string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tipEntry",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tipEntryWithPermit",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalCurationShares",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalCuratorRewardsReserved",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalStaked",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "trustedForwarder",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unstakeCooldown",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateEntry",
+    values: [BigNumberish, string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "upgradeToAndCall",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "upvoteReward",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "upvoteRewarded",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userVotes",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "version", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "voteOnEntry",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "voteWeight",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "voteWeights",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "withdraw", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_CURATOR_SHARE_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_MIN_VOTE_STAKE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_REPORT_THRESHOLD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_UNSTAKE_COOLDOWN",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_UPVOTE_REWARD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_VOTES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_CURATOR_SHARE_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_LABEL_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_TAGS", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_VOTE_WEIGHT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "REPUTATION_TOKEN_UNIT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "REWARD_EPOCH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "STAKE_PER_REWARDED_UPVOTE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "UPGRADE_INTERFACE_VERSION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchVote", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "canMintRewards",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "changeVote", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimCuratorRewards",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "curations", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "curatorCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "curatorRewardPerShare",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "curatorShareBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "entryIdByDigest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "entryRewardsPaid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "entryTips", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "fundRewardPool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllEntryIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCategories",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCategoryEntryCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getContractTokenBalance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCreatorEntryCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCuratedEntryIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getEntries", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getEntriesByCategoryPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEntriesByCreator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEntriesByCreatorPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEntriesByTagPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEntriesPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEntriesWithVoteStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getEntry", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getEntryCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRevisionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRevisions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTagEntryCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getTags", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getVoteStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasReported",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasVoted", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hideEntry", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isModerator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isTrustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "knowledgeToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxRewardPerEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minVoteStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "moderators", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "netVotesReceived",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingCuratorReward",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingCuratorRewards",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proxiableUUID",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "reputation", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestUnstake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "restoreEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "retractVote",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rewardedUpvotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCuratorShare",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMaxRewardPerEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setModerator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReportThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setStakingPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setUpvoteReward",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settledCuratorRewards",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "slashStake", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "stake", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "stakes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEntryWithTags",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "tipEntry", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tipEntryWithPermit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalCurationShares",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalCuratorRewardsReserved",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalStaked",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "trustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unstakeCooldown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeToAndCall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "upvoteReward",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "upvoteRewarded",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "userVotes", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "version", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "voteOnEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "voteWeight", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "voteWeights",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+}
+
+export namespace CuratorRewardAccruedEvent {
+  export type InputTuple = [entryId: BigNumberish, amount: BigNumberish];
+  export type OutputTuple = [entryId: bigint, amount: bigint];
+  export interface OutputObject {
+    entryId: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CuratorRewardsClaimedEvent {
+  export type InputTuple = [curator: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [curator: string, amount: bigint];
+  export interface OutputObject {
+    curator: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CuratorShareUpdatedEvent {
+  export type InputTuple = [
+    oldShareBps: BigNumberish,
+    newShareBps: BigNumberish
+  ];
+  export type OutputTuple = [oldShareBps: bigint, newShareBps: bigint];
+  export interface OutputObject {
+    oldShareBps: bigint;
+    newShareBps: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EntryReportedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    reporter: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [entryId: bigint, reporter: string, reason: string];
+  export interface OutputObject {
+    entryId: bigint;
+    reporter: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EntryRevisedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    creator: AddressLike,
+    revision: BigNumberish,
+    title: string,
+    digest: BytesLike,
+    codec: BigNumberish
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    creator: string,
+    revision: bigint,
+    title: string,
+    digest: string,
+    codec: bigint
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    creator: string;
+    revision: bigint;
+    title: string;
+    digest: string;
+    codec: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EntryStatusChangedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    status: BigNumberish,
+    actor: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    status: bigint,
+    actor: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    status: bigint;
+    actor: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EntrySubmittedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    creator: AddressLike,
+    title: string,
+    digest: BytesLike,
+    codec: BigNumberish,
+    category: string,
+    tags: string[]
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    creator: string,
+    title: string,
+    digest: string,
+    codec: bigint,
+    category: string,
+    tags: string[]
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    creator: string;
+    title: string;
+    digest: string;
+    codec: bigint;
+    category: string;
+    tags: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EntryTippedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    tipper: AddressLike,
+    creator: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    tipper: string,
+    creator: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    tipper: string;
+    creator: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EntryVotedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    voter: AddressLike,
+    upvote: boolean,
+    weight: BigNumberish
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    voter: string,
+    upvote: boolean,
+    weight: bigint
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    voter: string;
+    upvote: boolean;
+    weight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MaxRewardPerEntryUpdatedEvent {
+  export type InputTuple = [oldCap: BigNumberish, newCap: BigNumberish];
+  export type OutputTuple = [oldCap: bigint, newCap: bigint];
+  export interface OutputObject {
+    oldCap: bigint;
+    newCap: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ModeratorUpdatedEvent {
+  export type InputTuple = [account: AddressLike, isModerator: boolean];
+  export type OutputTuple = [account: string, isModerator: boolean];
+  export interface OutputObject {
+    account: string;
+    isModerator: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReportThresholdUpdatedEvent {
+  export type InputTuple = [
+    oldThreshold: BigNumberish,
+    newThreshold: BigNumberish
+  ];
+  export type OutputTuple = [oldThreshold: bigint, newThreshold: bigint];
+  export interface OutputObject {
+    oldThreshold: bigint;
+    newThreshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardDistributedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    creator: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [entryId: bigint, creator: string, amount: bigint];
+  export interface OutputObject {
+    entryId: bigint;
+    creator: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardPoolFundedEvent {
+  export type InputTuple = [funder: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [funder: string, amount: bigint];
+  export interface OutputObject {
+    funder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardSkippedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    creator: AddressLike,
+    amount: BigNumberish,
+    reason: string
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    creator: string,
+    amount: bigint,
+    reason: string
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    creator: string;
+    amount: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeSlashedEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    amount: BigNumberish,
+    moderator: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [
+    account: string,
+    amount: bigint,
+    moderator: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+    moderator: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeWithdrawnEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakedEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakingPolicyUpdatedEvent {
+  export type InputTuple = [
+    minVoteStake: BigNumberish,
+    unstakeCooldown: BigNumberish
+  ];
+  export type OutputTuple = [minVoteStake: bigint, unstakeCooldown: bigint];
+  export interface OutputObject {
+    minVoteStake: bigint;
+    unstakeCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnstakeRequestedEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    amount: BigNumberish,
+    unlockTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    account: string,
+    amount: bigint,
+    unlockTime: bigint
+  ];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+    unlockTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpgradedEvent {
+  export type InputTuple = [implementation: AddressLike];
+  export type OutputTuple = [implementation: string];
+  export interface OutputObject {
+    implementation: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpvoteRewardUpdatedEvent {
+  export type InputTuple = [oldAmount: BigNumberish, newAmount: BigNumberish];
+  export type OutputTuple = [oldAmount: bigint, newAmount: bigint];
+  export interface OutputObject {
+    oldAmount: bigint;
+    newAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoteChangedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    voter: AddressLike,
+    upvote: boolean,
+    weight: BigNumberish
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    voter: string,
+    upvote: boolean,
+    weight: bigint
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    voter: string;
+    upvote: boolean;
+    weight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoteRetractedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    voter: AddressLike,
+    wasUpvote: boolean,
+    weight: BigNumberish
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    voter: string,
+    wasUpvote: boolean,
+    weight: bigint
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    voter: string;
+    wasUpvote: boolean;
+    weight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoteSkippedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    voter: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [entryId: bigint, voter: string, reason: string];
+  export interface OutputObject {
+    entryId: bigint;
+    voter: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface KnowledgeHub extends BaseContract {
+  connect(runner?: ContractRunner | null): KnowledgeHub;
+  waitForDeployment(): Promise<this>;
+
+  interface: KnowledgeHubInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DEFAULT_CURATOR_SHARE_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_MIN_VOTE_STAKE: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_REPORT_THRESHOLD: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_UNSTAKE_COOLDOWN: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_UPVOTE_REWARD: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BATCH_VOTES: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_CURATOR_SHARE_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_LABEL_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TAGS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_VOTE_WEIGHT: TypedContractMethod<[], [bigint], "view">;
+
+  REPUTATION_TOKEN_UNIT: TypedContractMethod<[], [bigint], "view">;
+
+  REWARD_EPOCH: TypedContractMethod<[], [bigint], "view">;
+
+  STAKE_PER_REWARDED_UPVOTE: TypedContractMethod<[], [bigint], "view">;
+
+  UPGRADE_INTERFACE_VERSION: TypedContractMethod<[], [string], "view">;
+
+  batchVote: TypedContractMethod<
+    [ids: BigNumberish[], upvotes: boolean[]],
+    [boolean[]],
+    "nonpayable"
+  >;
+
+  canMintRewards: TypedContractMethod<[], [boolean], "view">;
+
+  changeVote: TypedContractMethod<
+    [entryId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimCuratorRewards: TypedContractMethod<
+    [curatedIds: BigNumberish[]],
+    [bigint],
+    "nonpayable"
+  >;
+
+  curations: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [[bigint, bigint] & { shares: bigint; rewardDebt: bigint }],
+    "view"
+  >;
+
+  curatorCount: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  curatorRewardPerShare: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  curatorShareBps: TypedContractMethod<[], [bigint], "view">;
+
+  entryIdByDigest: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
+  entryRewardsPaid: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  entryTips: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  fundRewardPool: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getAllEntryIds: TypedContractMethod<[], [bigint[]], "view">;
+
+  getCategories: TypedContractMethod<[], [string[]], "view">;
+
+  getCategoryEntryCount: TypedContractMethod<
+    [category: string],
+    [bigint],
+    "view"
+  >;
+
+  getContractTokenBalance: TypedContractMethod<[], [bigint], "view">;
+
+  getCreatorEntryCount: TypedContractMethod<
+    [creator: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getCuratedEntryIds: TypedContractMethod<
+    [curator: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getEntries: TypedContractMethod<
+    [ids: BigNumberish[]],
+    [KnowledgeHub.KnowledgeEntryStructOutput[]],
+    "view"
+  >;
+
+  getEntriesByCategoryPage: TypedContractMethod<
+    [category: string, offset: BigNumberish, limit: BigNumberish],
+    [KnowledgeHub.KnowledgeEntryStructOutput[]],
+    "view"
+  >;
+
+  getEntriesByCreator: TypedContractMethod<
+    [creator: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getEntriesByCreatorPage: TypedContractMethod<
+    [creator: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [KnowledgeHub.KnowledgeEntryStructOutput[]],
+    "view"
+  >;
+
+  getEntriesByTagPage: TypedContractMethod<
+    [tag: string, offset: BigNumberish, limit: BigNumberish],
+    [KnowledgeHub.KnowledgeEntryStructOutput[]],
+    "view"
+  >;
+
+  getEntriesPage: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [KnowledgeHub.KnowledgeEntryStructOutput[]],
+    "view"
+  >;
+
+  getEntriesWithVoteStatus: TypedContractMethod<
+    [ids: BigNumberish[], voter: AddressLike],
+    [
+      [
+        KnowledgeHub.KnowledgeEntryStructOutput[],
+        boolean[],
+        boolean[],
+        bigint[]
+      ] & {
+        result: KnowledgeHub.KnowledgeEntryStructOutput[];
+        voted: boolean[];
+        upvoted: boolean[];
+        tips: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getEntry: TypedContractMethod<
+    [entryId: BigNumberish],
+    [KnowledgeHub.KnowledgeEntryStructOutput],
+    "view"
+  >;
+
+  getEntryCount: TypedContractMethod<[], [bigint], "view">;
+
+  getRevisionCount: TypedContractMethod<
+    [entryId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getRevisions: TypedContractMethod<
+    [entryId: BigNumberish],
+    [
+      [
+        KnowledgeHub.RevisionStructOutput[],
+        KnowledgeHub.ContentStructOutput[]
+      ] & {
+        revisions: KnowledgeHub.RevisionStructOutput[];
+        contents: KnowledgeHub.ContentStructOutput[];
+      }
+    ],
+    "view"
+  >;
+
+  getTagEntryCount: TypedContractMethod<[tag: string], [bigint], "view">;
+
+  getTags: TypedContractMethod<[], [string[]], "view">;
+
+  getVoteStatus: TypedContractMethod<
+    [entryId: BigNumberish, voter: AddressLike],
+    [[boolean, boolean] & { hasVotedOnEntry: boolean; isUpvote: boolean }],
+    "view"
+  >;
+
+  hasReported: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hasVoted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hideEntry: TypedContractMethod<
+    [entryId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  initialize: TypedContractMethod<
+    [_knowledgeToken: AddressLike, initialOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  isModerator: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  isTrustedForwarder: TypedContractMethod<
+    [forwarder: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  knowledgeToken: TypedContractMethod<[], [string], "view">;
+
+  maxRewardPerEntry: TypedContractMethod<[], [bigint], "view">;
+
+  minVoteStake: TypedContractMethod<[], [bigint], "view">;
+
+  moderators: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  netVotesReceived: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pendingCuratorReward: TypedContractMethod<
+    [entryId: BigNumberish, curator: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  pendingCuratorRewards: TypedContractMethod<
+    [curator: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  proxiableUUID: TypedContractMethod<[], [string], "view">;
+
+  removeEntry: TypedContractMethod<
+    [entryId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  reportEntry: TypedContractMethod<
+    [entryId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  reportThreshold: TypedContractMethod<[], [bigint], "view">;
+
+  reputation: TypedContractMethod<[account: AddressLike], [bigint], "view">;
+
+  requestUnstake: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  restoreEntry: TypedContractMethod<
+    [entryId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  retractVote: TypedContractMethod<
+    [entryId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  rewardedUpvotes: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  setCuratorShare: TypedContractMethod<
+    [newShareBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMaxRewardPerEntry: TypedContractMethod<
+    [newCap: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setModerator: TypedContractMethod<
+    [account: AddressLike, enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setReportThreshold: TypedContractMethod<
+    [newThreshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setStakingPolicy: TypedContractMethod<
+    [newMinVoteStake: BigNumberish, newCooldown: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setUpvoteReward: TypedContractMethod<
+    [newAmount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  settledCuratorRewards: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  slashStake: TypedContractMethod<
+    [account: AddressLike, amount: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  stake: TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+
+  stakes: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        amount: bigint;
+        pendingWithdrawal: bigint;
+        unlockTime: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  submitEntry: TypedContractMethod<
+    [title: string, cid: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  submitEntryWithTags: TypedContractMethod<
+    [title: string, cid: BytesLike, category: string, entryTags: string[]],
+    [bigint],
+    "nonpayable"
+  >;
+
+  tipEntry: TypedContractMethod<
+    [entryId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  tipEntryWithPermit: TypedContractMethod<
+    [
+      entryId: BigNumberish,
+      amount: BigNumberish,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  totalCurationShares: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  totalCuratorRewardsReserved: TypedContractMethod<[], [bigint], "view">;
+
+  totalStaked: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  trustedForwarder: TypedContractMethod<[], [string], "view">;
+
+  unstakeCooldown: TypedContractMethod<[], [bigint], "view">;
+
+  updateEntry: TypedContractMethod<
+    [entryId: BigNumberish, newTitle: string, newCid: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  upgradeToAndCall: TypedContractMethod<
+    [newImplementation: AddressLike, data: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  upvoteReward: TypedContractMethod<[], [bigint], "view">;
+
+  upvoteRewarded: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  userVotes: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  version: TypedContractMethod<[], [string], "view">;
+
+  voteOnEntry: TypedContractMethod<
+    [entryId: BigNumberish, upvote: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  voteWeight: TypedContractMethod<[account: AddressLike], [bigint], "view">;
+
+  voteWeights: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  withdraw: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DEFAULT_CURATOR_SHARE_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_MIN_VOTE_STAKE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_REPORT_THRESHOLD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_UNSTAKE_COOLDOWN"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_UPVOTE_REWARD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_VOTES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_CURATOR_SHARE_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_LABEL_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TAGS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_VOTE_WEIGHT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "REPUTATION_TOKEN_UNIT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "REWARD_EPOCH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "STAKE_PER_REWARDED_UPVOTE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "UPGRADE_INTERFACE_VERSION"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "batchVote"
+  ): TypedContractMethod<
+    [ids: BigNumberish[], upvotes: boolean[]],
+    [boolean[]],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "canMintRewards"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "changeVote"
+  ): TypedContractMethod<[entryId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimCuratorRewards"
+  ): TypedContractMethod<[curatedIds: BigNumberish[]], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "curations"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [[bigint, bigint] & { shares: bigint; rewardDebt: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "curatorCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "curatorRewardPerShare"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "curatorShareBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "entryIdByDigest"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "entryRewardsPaid"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "entryTips"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "fundRewardPool"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getAllEntryIds"
+  ): TypedContractMethod<[], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getCategories"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getCategoryEntryCount"
+  ): TypedContractMethod<[category: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getContractTokenBalance"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCreatorEntryCount"
+  ): TypedContractMethod<[creator: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCuratedEntryIds"
+  ): TypedContractMethod<[curator: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getEntries"
+  ): TypedContractMethod<
+    [ids: BigNumberish[]],
+    [KnowledgeHub.KnowledgeEntryStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEntriesByCategoryPage"
+  ): TypedContractMethod<
+    [category: string, offset: BigNumberish, limit: BigNumberish],
+    [KnowledgeHub.KnowledgeEntryStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEntriesByCreator"
+  ): TypedContractMethod<[creator: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getEntriesByCreatorPage"
+  ): TypedContractMethod<
+    [creator: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [KnowledgeHub.KnowledgeEntryStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEntriesByTagPage"
+  ): TypedContractMethod<
+    [tag: string, offset: BigNumberish, limit: BigNumberish],
+    [KnowledgeHub.KnowledgeEntryStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEntriesPage"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [KnowledgeHub.KnowledgeEntryStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEntriesWithVoteStatus"
+  ): TypedContractMethod<
+    [ids: BigNumberish[], voter: AddressLike],
+    [
+      [
+        KnowledgeHub.KnowledgeEntryStructOutput[],
+        boolean[],
+        boolean[],
+        bigint[]
+      ] & {
+        result: KnowledgeHub.KnowledgeEntryStructOutput[];
+        voted: boolean[];
+        upvoted: boolean[];
+        tips: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEntry"
+  ): TypedContractMethod<
+    [entryId: BigNumberish],
+    [KnowledgeHub.KnowledgeEntryStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEntryCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getRevisionCount"
+  ): TypedContractMethod<[entryId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getRevisions"
+  ): TypedContractMethod<
+    [entryId: BigNumberish],
+    [
+      [
+        KnowledgeHub.RevisionStructOutput[],
+        KnowledgeHub.ContentStructOutput[]
+      ] & {
+        revisions: KnowledgeHub.RevisionStructOutput[];
+        contents: KnowledgeHub.ContentStructOutput[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTagEntryCount"
+  ): TypedContractMethod<[tag: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getTags"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getVoteStatus"
+  ): TypedContractMethod<
+    [entryId: BigNumberish, voter: AddressLike],
+    [[boolean, boolean] & { hasVotedOnEntry: boolean; isUpvote: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasReported"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasVoted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hideEntry"
+  ): TypedContractMethod<
+    [entryId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<
+    [_knowledgeToken: AddressLike, initialOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "isModerator"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isTrustedForwarder"
+  ): TypedContractMethod<[forwarder: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "knowledgeToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "maxRewardPerEntry"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "minVoteStake"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "moderators"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "netVotesReceived"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pendingCuratorReward"
+  ): TypedContractMethod<
+    [entryId: BigNumberish, curator: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pendingCuratorRewards"
+  ): TypedContractMethod<[curator: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proxiableUUID"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "removeEntry"
+  ): TypedContractMethod<
+    [entryId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reportEntry"
+  ): TypedContractMethod<
+    [entryId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reportThreshold"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "reputation"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestUnstake"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "restoreEntry"
+  ): TypedContractMethod<
+    [entryId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "retractVote"
+  ): TypedContractMethod<[entryId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "rewardedUpvotes"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "setCuratorShare"
+  ): TypedContractMethod<[newShareBps: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMaxRewardPerEntry"
+  ): TypedContractMethod<[newCap: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setModerator"
+  ): TypedContractMethod<
+    [account: AddressLike, enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setReportThreshold"
+  ): TypedContractMethod<[newThreshold: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setStakingPolicy"
+  ): TypedContractMethod<
+    [newMinVoteStake: BigNumberish, newCooldown: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setUpvoteReward"
+  ): TypedContractMethod<[newAmount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "settledCuratorRewards"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "slashStake"
+  ): TypedContractMethod<
+    [account: AddressLike, amount: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "stake"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "stakes"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        amount: bigint;
+        pendingWithdrawal: bigint;
+        unlockTime: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "submitEntry"
+  ): TypedContractMethod<
+    [title: string, cid: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEntryWithTags"
+  ): TypedContractMethod<
+    [title: string, cid: BytesLike, category: string, entryTags: string[]],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "tipEntry"
+  ): TypedContractMethod<
+    [entryId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "tipEntryWithPermit"
+  ): TypedContractMethod<
+    [
+      entryId: BigNumberish,
+      amount: BigNumberish,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "totalCurationShares"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalCuratorRewardsReserved"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalStaked"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "trustedForwarder"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "unstakeCooldown"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "updateEntry"
+  ): TypedContractMethod<
+    [entryId: BigNumberish, newTitle: string, newCid: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "upgradeToAndCall"
+  ): TypedContractMethod<
+    [newImplementation: AddressLike, data: BytesLike],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "upvoteReward"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "upvoteRewarded"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "userVotes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "version"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "voteOnEntry"
+  ): TypedContractMethod<
+    [entryId: BigNumberish, upvote: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "voteWeight"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "voteWeights"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "CuratorRewardAccrued"
+  ): TypedContractEvent<
+    CuratorRewardAccruedEvent.InputTuple,
+    CuratorRewardAccruedEvent.OutputTuple,
+    CuratorRewardAccruedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CuratorRewardsClaimed"
+  ): TypedContractEvent<
+    CuratorRewardsClaimedEvent.InputTuple,
+    CuratorRewardsClaimedEvent.OutputTuple,
+    CuratorRewardsClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CuratorShareUpdated"
+  ): TypedContractEvent<
+    CuratorShareUpdatedEvent.InputTuple,
+    CuratorShareUpdatedEvent.OutputTuple,
+    CuratorShareUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EntryReported"
+  ): TypedContractEvent<
+    EntryReportedEvent.InputTuple,
+    EntryReportedEvent.OutputTuple,
+    EntryReportedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EntryRevised"
+  ): TypedContractEvent<
+    EntryRevisedEvent.InputTuple,
+    EntryRevisedEvent.OutputTuple,
+    EntryRevisedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EntryStatusChanged"
+  ): TypedContractEvent<
+    EntryStatusChangedEvent.InputTuple,
+    EntryStatusChangedEvent.OutputTuple,
+    EntryStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EntrySubmitted"
+  ): TypedContractEvent<
+    EntrySubmittedEvent.InputTuple,
+    EntrySubmittedEvent.OutputTuple,
+    EntrySubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EntryTipped"
+  ): TypedContractEvent<
+    EntryTippedEvent.InputTuple,
+    EntryTippedEvent.OutputTuple,
+    EntryTippedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EntryVoted"
+  ): TypedContractEvent<
+    EntryVotedEvent.InputTuple,
+    EntryVotedEvent.OutputTuple,
+    EntryVotedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MaxRewardPerEntryUpdated"
+  ): TypedContractEvent<
+    MaxRewardPerEntryUpdatedEvent.InputTuple,
+    MaxRewardPerEntryUpdatedEvent.OutputTuple,
+    MaxRewardPerEntryUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ModeratorUpdated"
+  ): TypedContractEvent<
+    ModeratorUpdatedEvent.InputTuple,
+    ModeratorUpdatedEvent.OutputTuple,
+    ModeratorUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReportThresholdUpdated"
+  ): TypedContractEvent<
+    ReportThresholdUpdatedEvent.InputTuple,
+    ReportThresholdUpdatedEvent.OutputTuple,
+    ReportThresholdUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardDistributed"
+  ): TypedContractEvent<
+    RewardDistributedEvent.InputTuple,
+    RewardDistributedEvent.OutputTuple,
+    RewardDistributedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardPoolFunded"
+  ): TypedContractEvent<
+    RewardPoolFundedEvent.InputTuple,
+    RewardPoolFundedEvent.OutputTuple,
+    RewardPoolFundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardSkipped"
+  ): TypedContractEvent<
+    RewardSkippedEvent.InputTuple,
+    RewardSkippedEvent.OutputTuple,
+    RewardSkippedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeSlashed"
+  ): TypedContractEvent<
+    StakeSlashedEvent.InputTuple,
+    StakeSlashedEvent.OutputTuple,
+    StakeSlashedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeWithdrawn"
+  ): TypedContractEvent<
+    StakeWithdrawnEvent.InputTuple,
+    StakeWithdrawnEvent.OutputTuple,
+    StakeWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "Staked"
+  ): TypedContractEvent<
+    StakedEvent.InputTuple,
+    StakedEvent.OutputTuple,
+    StakedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakingPolicyUpdated"
+  ): TypedContractEvent<
+    StakingPolicyUpdatedEvent.InputTuple,
+    StakingPolicyUpdatedEvent.OutputTuple,
+    StakingPolicyUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UnstakeRequested"
+  ): TypedContractEvent<
+    UnstakeRequestedEvent.InputTuple,
+    UnstakeRequestedEvent.OutputTuple,
+    UnstakeRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Upgraded"
+  ): TypedContractEvent<
+    UpgradedEvent.InputTuple,
+    UpgradedEvent.OutputTuple,
+    UpgradedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UpvoteRewardUpdated"
+  ): TypedContractEvent<
+    UpvoteRewardUpdatedEvent.InputTuple,
+    UpvoteRewardUpdatedEvent.OutputTuple,
+    UpvoteRewardUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoteChanged"
+  ): TypedContractEvent<
+    VoteChangedEvent.InputTuple,
+    VoteChangedEvent.OutputTuple,
+    VoteChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoteRetracted"
+  ): TypedContractEvent<
+    VoteRetractedEvent.InputTuple,
+    VoteRetractedEvent.OutputTuple,
+    VoteRetractedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoteSkipped"
+  ): TypedContractEvent<
+    VoteSkippedEvent.InputTuple,
+    VoteSkippedEvent.OutputTuple,
+    VoteSkippedEvent.OutputObject
+  >;
+
+  filters: {
+    "CuratorRewardAccrued(uint256,uint256)": TypedContractEvent<
+      CuratorRewardAccruedEvent.InputTuple,
+      CuratorRewardAccruedEvent.OutputTuple,
+      CuratorRewardAccruedEvent.OutputObject
+    >;
+    CuratorRewardAccrued: TypedContractEvent<
+      CuratorRewardAccruedEvent.InputTuple,
+      CuratorRewardAccruedEvent.OutputTuple,
+      CuratorRewardAccruedEvent.OutputObject
+    >;
+
+    "CuratorRewardsClaimed(address,uint256)": TypedContractEvent<
+      CuratorRewardsClaimedEvent.InputTuple,
+      CuratorRewardsClaimedEvent.OutputTuple,
+      CuratorRewardsClaimedEvent.OutputObject
+    >;
+    CuratorRewardsClaimed: TypedContractEvent<
+      CuratorRewardsClaimedEvent.InputTuple,
+      CuratorRewardsClaimedEvent.OutputTuple,
+      CuratorRewardsClaimedEvent.OutputObject
+    >;
+
+    "CuratorShareUpdated(uint256,uint256)": TypedContractEvent<
+      CuratorShareUpdatedEvent.InputTuple,
+      CuratorShareUpdatedEvent.OutputTuple,
+      CuratorShareUpdatedEvent.OutputObject
+    >;
+    CuratorShareUpdated: TypedContractEvent<
+      CuratorShareUpdatedEvent.InputTuple,
+      CuratorShareUpdatedEvent.OutputTuple,
+      CuratorShareUpdatedEvent.OutputObject
+    >;
+
+    "EntryReported(uint256,address,string)": TypedContractEvent<
+      EntryReportedEvent.InputTuple,
+      EntryReportedEvent.OutputTuple,
+      EntryReportedEvent.OutputObject
+    >;
+    EntryReported: TypedContractEvent<
+      EntryReportedEvent.InputTuple,
+      EntryReportedEvent.OutputTuple,
+      EntryReportedEvent.OutputObject
+    >;
+
+    "EntryRevised(uint256,address,uint256,string,bytes32,uint8)": TypedContractEvent<
+      EntryRevisedEvent.InputTuple,
+      EntryRevisedEvent.OutputTuple,
+      EntryRevisedEvent.OutputObject
+    >;
+    EntryRevised: TypedContractEvent<
+      EntryRevisedEvent.InputTuple,
+      EntryRevisedEvent.OutputTuple,
+      EntryRevisedEvent.OutputObject
+    >;
+
+    "EntryStatusChanged(uint256,uint8,address,string)": TypedContractEvent<
+      EntryStatusChangedEvent.InputTuple,
+      EntryStatusChangedEvent.OutputTuple,
+      EntryStatusChangedEvent.OutputObject
+    >;
+    EntryStatusChanged: TypedContractEvent<
+      EntryStatusChangedEvent.InputTuple,
+      EntryStatusChangedEvent.OutputTuple,
+      EntryStatusChangedEvent.OutputObject
+    >;
+
+    "EntrySubmitted(uint256,address,string,bytes32,uint8,string,string[])": TypedContractEvent<
+      EntrySubmittedEvent.InputTuple,
+      EntrySubmittedEvent.OutputTuple,
+      EntrySubmittedEvent.OutputObject
+    >;
+    EntrySubmitted: TypedContractEvent<
+      EntrySubmittedEvent.InputTuple,
+      EntrySubmittedEvent.OutputTuple,
+      EntrySubmittedEvent.OutputObject
+    >;
+
+    "EntryTipped(uint256,address,address,uint256)": TypedContractEvent<
+      EntryTippedEvent.InputTuple,
+      EntryTippedEvent.OutputTuple,
+      EntryTippedEvent.OutputObject
+    >;
+    EntryTipped: TypedContractEvent<
+      EntryTippedEvent.InputTuple,
+      EntryTippedEvent.OutputTuple,
+      EntryTippedEvent.OutputObject
+    >;
+
+    "EntryVoted(uint256,address,bool,uint256)": TypedContractEvent<
+      EntryVotedEvent.InputTuple,
+      EntryVotedEvent.OutputTuple,
+      EntryVotedEvent.OutputObject
+    >;
+    EntryVoted: TypedContractEvent<
+      EntryVotedEvent.InputTuple,
+      EntryVotedEvent.OutputTuple,
+      EntryVotedEvent.OutputObject
+    >;
+
+    "Initialized(uint64)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "MaxRewardPerEntryUpdated(uint256,uint256)": TypedContractEvent<
+      MaxRewardPerEntryUpdatedEvent.InputTuple,
+      MaxRewardPerEntryUpdatedEvent.OutputTuple,
+      MaxRewardPerEntryUpdatedEvent.OutputObject
+    >;
+    MaxRewardPerEntryUpdated: TypedContractEvent<
+      MaxRewardPerEntryUpdatedEvent.InputTuple,
+      MaxRewardPerEntryUpdatedEvent.OutputTuple,
+      MaxRewardPerEntryUpdatedEvent.OutputObject
+    >;
+
+    "ModeratorUpdated(address,bool)": TypedContractEvent<
+      ModeratorUpdatedEvent.InputTuple,
+      ModeratorUpdatedEvent.OutputTuple,
+      ModeratorUpdatedEvent.OutputObject
+    >;
+    ModeratorUpdated: TypedContractEvent<
+      ModeratorUpdatedEvent.InputTuple,
+      ModeratorUpdatedEvent.OutputTuple,
+      ModeratorUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "ReportThresholdUpdated(uint256,uint256)": TypedContractEvent<
+      ReportThresholdUpdatedEvent.InputTuple,
+      ReportThresholdUpdatedEvent.OutputTuple,
+      ReportThresholdUpdatedEvent.OutputObject
+    >;
+    ReportThresholdUpdated: TypedContractEvent<
+      ReportThresholdUpdatedEvent.InputTuple,
+      ReportThresholdUpdatedEvent.OutputTuple,
+      ReportThresholdUpdatedEvent.OutputObject
+    >;
+
+    "RewardDistributed(uint256,address,uint256)": TypedContractEvent<
+      RewardDistributedEvent.InputTuple,
+      RewardDistributedEvent.OutputTuple,
+      RewardDistributedEvent.OutputObject
+    >;
+    RewardDistributed: TypedContractEvent<
+      RewardDistributedEvent.InputTuple,
+      RewardDistributedEvent.OutputTuple,
+      RewardDistributedEvent.OutputObject
+    >;
+
+    "RewardPoolFunded(address,uint256)": TypedContractEvent<
+      RewardPoolFundedEvent.InputTuple,
+      RewardPoolFundedEvent.OutputTuple,
+      RewardPoolFundedEvent.OutputObject
+    >;
+    RewardPoolFunded: TypedContractEvent<
+      RewardPoolFundedEvent.InputTuple,
+      RewardPoolFundedEvent.OutputTuple,
+      RewardPoolFundedEvent.OutputObject
+    >;
+
+    "RewardSkipped(uint256,address,uint256,string)": TypedContractEvent<
+      RewardSkippedEvent.InputTuple,
+      RewardSkippedEvent.OutputTuple,
+      RewardSkippedEvent.OutputObject
+    >;
+    RewardSkipped: TypedContractEvent<
+      RewardSkippedEvent.InputTuple,
+      RewardSkippedEvent.OutputTuple,
+      RewardSkippedEvent.OutputObject
+    >;
+
+    "StakeSlashed(address,uint256,address,string)": TypedContractEvent<
+      StakeSlashedEvent.InputTuple,
+      StakeSlashedEvent.OutputTuple,
+      StakeSlashedEvent.OutputObject
+    >;
+    StakeSlashed: TypedContractEvent<
+      StakeSlashedEvent.InputTuple,
+      StakeSlashedEvent.OutputTuple,
+      StakeSlashedEvent.OutputObject
+    >;
+
+    "StakeWithdrawn(address,uint256)": TypedContractEvent<
+      StakeWithdrawnEvent.InputTuple,
+      StakeWithdrawnEvent.OutputTuple,
+      StakeWithdrawnEvent.OutputObject
+    >;
+    StakeWithdrawn: TypedContractEvent<
+      StakeWithdrawnEvent.InputTuple,
+      StakeWithdrawnEvent.OutputTuple,
+      StakeWithdrawnEvent.OutputObject
+    >;
+
+    "Staked(address,uint256)": TypedContractEvent<
+      StakedEvent.InputTuple,
+      StakedEvent.OutputTuple,
+      StakedEvent.OutputObject
+    >;
+    Staked: TypedContractEvent<
+      StakedEvent.InputTuple,
+      StakedEvent.OutputTuple,
+      StakedEvent.OutputObject
+    >;
+
+    "StakingPolicyUpdated(uint256,uint256)": TypedContractEvent<
+      StakingPolicyUpdatedEvent.InputTuple,
+      StakingPolicyUpdatedEvent.OutputTuple,
+      StakingPolicyUpdatedEvent.OutputObject
+    >;
+    StakingPolicyUpdated: TypedContractEvent<
+      StakingPolicyUpdatedEvent.InputTuple,
+      StakingPolicyUpdatedEvent.OutputTuple,
+      StakingPolicyUpdatedEvent.OutputObject
+    >;
+
+    "UnstakeRequested(address,uint256,uint256)": TypedContractEvent<
+      UnstakeRequestedEvent.InputTuple,
+      UnstakeRequestedEvent.OutputTuple,
+      UnstakeRequestedEvent.OutputObject
+    >;
+    UnstakeRequested: TypedContractEvent<
+      UnstakeRequestedEvent.InputTuple,
+      UnstakeRequestedEvent.OutputTuple,
+      UnstakeRequestedEvent.OutputObject
+    >;
+
+    "Upgraded(address)": TypedContractEvent<
+      UpgradedEvent.InputTuple,
+      UpgradedEvent.OutputTuple,
+      UpgradedEvent.OutputObject
+    >;
+    Upgraded: TypedContractEvent<
+      UpgradedEvent.InputTuple,
+      UpgradedEvent.OutputTuple,
+      UpgradedEvent.OutputObject
+    >;
+
+    "UpvoteRewardUpdated(uint256,uint256)": TypedContractEvent<
+      UpvoteRewardUpdatedEvent.InputTuple,
+      UpvoteRewardUpdatedEvent.OutputTuple,
+      UpvoteRewardUpdatedEvent.OutputObject
+    >;
+    UpvoteRewardUpdated: TypedContractEvent<
+      UpvoteRewardUpdatedEvent.InputTuple,
+      UpvoteRewardUpdatedEvent.OutputTuple,
+      UpvoteRewardUpdatedEvent.OutputObject
+    >;
+
+    "VoteChanged(uint256,address,bool,uint256)": TypedContractEvent<
+      VoteChangedEvent.InputTuple,
+      VoteChangedEvent.OutputTuple,
+      VoteChangedEvent.OutputObject
+    >;
+    VoteChanged: TypedContractEvent<
+      VoteChangedEvent.InputTuple,
+      VoteChangedEvent.OutputTuple,
+      VoteChangedEvent.OutputObject
+    >;
+
+    "VoteRetracted(uint256,address,bool,uint256)": TypedContractEvent<
+      VoteRetractedEvent.InputTuple,
+      VoteRetractedEvent.OutputTuple,
+      VoteRetractedEvent.OutputObject
+    >;
+    VoteRetracted: TypedContractEvent<
+      VoteRetractedEvent.InputTuple,
+      VoteRetractedEvent.OutputTuple,
+      VoteRetractedEvent.OutputObject
+    >;
+
+    "VoteSkipped(uint256,address,string)": TypedContractEvent<
+      VoteSkippedEvent.InputTuple,
+      VoteSkippedEvent.OutputTuple,
+      VoteSkippedEvent.OutputObject
+    >;
+    VoteSkipped: TypedContractEvent<
+      VoteSkippedEvent.InputTuple,
+      VoteSkippedEvent.OutputTuple,
+      VoteSkippedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { KnowledgeForwarder__factory } from "./KnowledgeForwarder__factory";
+export { KnowledgeHub__factory } from "./KnowledgeHub__factory";
+export { KnowledgeToken__factory } from "./KnowledgeToken__factory";
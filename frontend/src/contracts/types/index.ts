@@ -0,0 +1,10 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { KnowledgeForwarder } from "./KnowledgeForwarder";
+export type { KnowledgeHub } from "./KnowledgeHub";
+export type { KnowledgeToken } from "./KnowledgeToken";
+export * as factories from "./factories";
+export { KnowledgeForwarder__factory } from "./factories/KnowledgeForwarder__factory";
+export { KnowledgeHub__factory } from "./factories/KnowledgeHub__factory";
+export { KnowledgeToken__factory } from "./factories/KnowledgeToken__factory";
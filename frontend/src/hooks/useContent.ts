@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from 'react';
+import { IPFS_API_AUTHORIZATION, IPFS_API_URL, IPFS_GATEWAY_URLS } from '../contracts/config';
+import { getErrorMessage } from '../contracts/knowledgeHub';
+import { ContentError, ContentFailure, ContentStore, withCache } from '../storage/contentStore';
+import { createIpfsHttpStore } from '../storage/ipfsHttpStore';
+import { createMemoryStore } from '../storage/memoryStore';
+
+// Store picked by the IPFS settings in config.ts, shared by every component so
+// verified content is cached across entry cards
+let contentStore: ContentStore | null = null;
+export const getContentStore = () => {
+  if (!contentStore) {
+    contentStore = withCache(IPFS_API_URL
+      ? createIpfsHttpStore({ apiUrl: IPFS_API_URL, gatewayUrls: IPFS_GATEWAY_URLS, authorization: IPFS_API_AUTHORIZATION })
+      : createMemoryStore(window.localStorage, 'Local storage'));
+  }
+  return contentStore;
+};
+
+// Loading, shown, or why the content is not shown
+export type ContentStatus = 'loading' | 'verified' | ContentFailure;
+
+/**
+ * Upload entry content to the configured content store
+ */
+export const useContentUpload = () => {
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  /**
+   * @returns CID of the uploaded content, or null when the upload failed
+   */
+  const upload = useCallback(async (content: string) => {
+    setUploading(true);
+    setError('');
+    try {
+      return await getContentStore().upload(content);
+    } catch (err) {
+      console.error('Error uploading content:', err);
+      setError(getErrorMessage(err));
+      return null;
+    } finally {
+      setUploading(false);
+    }
+  }, []);
+
+  return { upload, uploading, error, storeName: getContentStore().name };
+};
+
+/**
+ * Load the content of an entry from the configured content store. Content is
+ * only returned once it matches the CID; otherwise the status tells whether
+ * nothing was found or only content that did not match.
+ * @param cid CID recorded by the hub
+ */
+export const useEntryContent = (cid: string) => {
+  const [content, setContent] = useState<string | null>(null);
+  const [status, setStatus] = useState<ContentStatus>('loading');
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setContent(null);
+    setStatus('loading');
+    setError('');
+    getContentStore().retrieve(cid)
+      .then((loaded) => {
+        if (cancelled) return;
+        setContent(loaded);
+        setStatus('verified');
+      })
+      .catch((err) => {
+        console.error(`Error loading content ${cid}:`, err);
+        if (cancelled) return;
+        // Hashes that are not CIDs, from entries older than CID validation, cannot be fetched
+        setStatus(err instanceof ContentError ? err.failure : 'unavailable');
+        setError(getErrorMessage(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cid]);
+
+  return { content, status, error };
+};
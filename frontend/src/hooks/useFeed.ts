@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FeedView, formatFeedView, parseFeedView } from '../utils/feed';
+
+/**
+ * The feed view, read from and written back to the page URL so the current
+ * view can be shared. Edits replace the URL rather than adding history
+ * entries, so typing a search does not fill the back button.
+ */
+export const useFeedView = () => {
+  const [view, setView] = useState<FeedView>(() => parseFeedView(window.location.search));
+
+  useEffect(() => {
+    const query = formatFeedView(view);
+    if (query !== window.location.search) {
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}${query}${window.location.hash}`);
+    }
+  }, [view]);
+
+  // Follow the URL when the user navigates between shared links
+  useEffect(() => {
+    const onPopState = () => setView(parseFeedView(window.location.search));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const updateView = useCallback((changes: Partial<FeedView>) => {
+    setView((current) => ({ ...current, ...changes }));
+  }, []);
+
+  return { view, updateView };
+};
+
+/**
+ * Call loadMore when the returned sentinel element, placed after a list,
+ * scrolls into view
+ * @param hasMore Whether there is anything left to load
+ * @param loadMore Loads the next page; a new function watches the sentinel
+ *        again, so a sentinel still in view after a page loads asks for another
+ */
+export const useScrollSentinel = (hasMore: boolean, loadMore: () => void) => {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return;
+
+    // Starts loading a little before the end of the list is reached
+    const observer = new IntersectionObserver((observed) => {
+      if (observed.some((entry) => entry.isIntersecting)) loadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  return sentinelRef;
+};
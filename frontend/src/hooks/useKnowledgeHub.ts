@@ -0,0 +1,717 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ContractRunner, JsonRpcProvider, Signer, parseEther } from 'ethers';
+import {
+  BatchVoteResult,
+  CuratorEarnings,
+  Entry,
+  EntryFilter,
+  EntryStats,
+  Labels,
+  Profile,
+  Reputation,
+  Revision,
+  RewardPolicy,
+  StakeInfo,
+  VoteStatus,
+  batchVote,
+  fetchCuratorEarnings,
+  fetchEntriesById,
+  fetchEntriesRange,
+  fetchEntryTotal,
+  fetchIsModerator,
+  fetchProfile,
+  fetchReputation,
+  fetchLabels,
+  fetchRevisions,
+  fetchRewardPolicy,
+  fetchStake,
+  fetchEntryStats,
+  getErrorMessage,
+  getKnowledgeHub,
+  signPermit
+} from '../contracts/knowledgeHub';
+import {
+  HubActivity,
+  accountVotes,
+  buildLeaderboard,
+  earningsByEntry,
+  earningsHistory,
+  fetchBlockTimes,
+  fetchHubActivity,
+  summarizeEarnings
+} from '../contracts/activity';
+import { KNOWLEDGE_HUB_BLOCK, RPC_URL } from '../contracts/config';
+import { relayHubCall } from '../contracts/relayer';
+import { KnowledgeToken__factory } from '../contracts/types';
+import { encodeCid } from '../utils/cid';
+import { FEED_PAGE_SIZE } from '../utils/feed';
+
+// Shared read-only provider used until a wallet is connected
+let readOnlyProvider: JsonRpcProvider | null = null;
+const getReadOnlyProvider = () => {
+  if (!readOnlyProvider) {
+    readOnlyProvider = new JsonRpcProvider(RPC_URL);
+  }
+  return readOnlyProvider;
+};
+
+// Hub activity read so far, shared by every page so the event history is
+// scanned once and later loads only read the blocks added since
+let hubActivity: Promise<HubActivity> | null = null;
+const loadHubActivity = (runner: ContractRunner) => {
+  const previous = hubActivity;
+  hubActivity = (async () => {
+    const before = previous ? await previous.catch(() => null) : null;
+    return fetchHubActivity(
+      getKnowledgeHub(runner),
+      before ? before.toBlock + 1 : KNOWLEDGE_HUB_BLOCK,
+      before ? before.records : []
+    );
+  })();
+  return hubActivity;
+};
+
+/**
+ * Load the entries matching a filter a page at a time, newest first, along
+ * with the available categories and tags, the reward policy and the connected
+ * account's reputation. Older pages load through loadMore, e.g. as the reader
+ * scrolls; refresh reloads every page loaded so far plus newer entries.
+ * Tips and votes are loaded per entry by useEntryStats, for the entries shown.
+ * @param runner Wallet provider, or null to read through the configured RPC
+ * @param account Connected account, or '' when no wallet is connected
+ * @param filter Category and/or tag to restrict the entries to
+ */
+export const useEntries = (runner: ContractRunner | null, account: string, filter: EntryFilter = {}) => {
+  const { category, tag, includeHidden } = filter;
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [labels, setLabels] = useState<Labels>({ categories: [], tags: [] });
+  const [rewardPolicy, setRewardPolicy] = useState<RewardPolicy | null>(null);
+  const [reputation, setReputation] = useState<Reputation | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  // Counts completed refreshes, for views that reload with the entries but not with each page
+  const [refreshes, setRefreshes] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  // Listing position of the oldest loaded entry, or null to start again from the newest page
+  const loadedFrom = useRef<number | null>(null);
+  // Bumped when the filter changes, so pages loaded for the previous one are dropped
+  const generation = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const current = generation.current;
+    setLoading(true);
+    setError('');
+    try {
+      const hub = getKnowledgeHub(runner || getReadOnlyProvider());
+      const [total, available, policy] = await Promise.all([
+        fetchEntryTotal(hub, { category, tag, includeHidden }),
+        fetchLabels(hub),
+        fetchRewardPolicy(hub)
+      ]);
+      const from = loadedFrom.current ?? Math.max(0, total - FEED_PAGE_SIZE);
+      const loaded = await fetchEntriesRange(hub, { category, tag, includeHidden }, from, total);
+      const accountReputation = account ? await fetchReputation(hub, account) : null;
+      if (current !== generation.current) return;
+      loadedFrom.current = from;
+      setEntries(loaded);
+      setHasMore(from > 0);
+      setLabels(available);
+      setRewardPolicy(policy);
+      setReputation(accountReputation);
+      setRefreshes((count) => count + 1);
+    } catch (err) {
+      console.error('Error loading entries:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [runner, account, category, tag, includeHidden]);
+
+  const loadMore = useCallback(async () => {
+    const current = generation.current;
+    const to = loadedFrom.current;
+    if (loading || to === null || to === 0) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      const from = Math.max(0, to - FEED_PAGE_SIZE);
+      const older = await fetchEntriesRange(
+        getKnowledgeHub(runner || getReadOnlyProvider()),
+        { category, tag, includeHidden },
+        from,
+        to
+      );
+      if (current !== generation.current) return;
+      loadedFrom.current = from;
+      setEntries((loaded) => [...loaded, ...older]);
+      setHasMore(from > 0);
+    } catch (err) {
+      console.error('Error loading entries:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [runner, category, tag, includeHidden, loading]);
+
+  useEffect(() => {
+    generation.current += 1;
+    loadedFrom.current = null;
+    refresh();
+  }, [refresh]);
+
+  return { entries, labels, rewardPolicy, reputation, hasMore, loadMore, refreshes, loading, error, refresh };
+};
+
+/**
+ * Load the tips each of the given entries received and the connected
+ * account's vote on each. Meant for the entries on screen: entries added to
+ * the list since the last load are loaded on their own, so scrolling does not
+ * query the earlier rows again.
+ * @param runner Wallet provider, or null to read through the configured RPC
+ * @param account Connected account, or '' when no wallet is connected
+ * @param entryIds Entries to load
+ * @param refreshKey Reloads every entry when it changes, e.g. after a refresh
+ */
+export const useEntryStats = (
+  runner: ContractRunner | null,
+  account: string,
+  entryIds: number[],
+  refreshKey?: unknown
+) => {
+  // Stats are merged within a load, and replaced once a new one starts answering
+  const [stats, setStats] = useState<EntryStats & { load: object | null }>({
+    voteStatuses: {},
+    tipTotals: {},
+    load: null
+  });
+  const loaded = useRef<{ runner: ContractRunner | null; account: string; refreshKey: unknown; ids: Set<number> } | null>(
+    null
+  );
+  // Compared by value, so a new array with the same entries does not reload
+  const ids = entryIds.join(',');
+
+  useEffect(() => {
+    if (
+      !loaded.current ||
+      loaded.current.runner !== runner ||
+      loaded.current.account !== account ||
+      loaded.current.refreshKey !== refreshKey
+    ) {
+      loaded.current = { runner, account, refreshKey, ids: new Set() };
+    }
+    const load = loaded.current;
+    const loadIds = (ids ? ids.split(',').map(Number) : []).filter((id) => !load.ids.has(id));
+    if (loadIds.length === 0) return;
+    loadIds.forEach((id) => load.ids.add(id));
+
+    fetchEntryStats(getKnowledgeHub(runner || getReadOnlyProvider()), loadIds, account)
+      .then((fetched) => {
+        if (loaded.current !== load) return;
+        setStats((current) => current.load === load
+          ? {
+            voteStatuses: { ...current.voteStatuses, ...fetched.voteStatuses },
+            tipTotals: { ...current.tipTotals, ...fetched.tipTotals },
+            load
+          }
+          : { ...fetched, load });
+      })
+      .catch((err) => {
+        console.error('Error loading entry stats:', err);
+        // Tried again the next time the list changes
+        loadIds.forEach((id) => load.ids.delete(id));
+      });
+  }, [runner, account, ids, refreshKey]);
+
+  return { voteStatuses: stats.voteStatuses, tipTotals: stats.tipTotals };
+};
+
+/**
+ * Load the hub's submissions, votes and earnings from its event history
+ * @param runner Wallet provider, or null to read through the configured RPC
+ * @param refreshKey Reads the blocks added since the last load when it changes
+ */
+export const useHubActivity = (runner: ContractRunner | null, refreshKey?: unknown) => {
+  const [activity, setActivity] = useState<HubActivity | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    loadHubActivity(runner || getReadOnlyProvider())
+      .then((loaded) => {
+        if (!cancelled) setActivity(loaded);
+      })
+      .catch((err) => {
+        console.error('Error loading hub activity:', err);
+        if (!cancelled) setError(getErrorMessage(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runner, refreshKey]);
+
+  return { activity, loading, error };
+};
+
+/**
+ * Load a contributor's profile: their entries with the KNOW each earned, their
+ * balance and reputation, their earnings over time and the entries they
+ * currently have a vote on
+ * @param runner Wallet provider, or null to read through the configured RPC
+ * @param account Contributor to load
+ * @param refreshKey Reloads when it changes
+ */
+export const useProfile = (runner: ContractRunner | null, account: string, refreshKey?: unknown) => {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [votedEntries, setVotedEntries] = useState<{ entry: Entry; upvote: boolean }[]>([]);
+  const [blockTimes, setBlockTimes] = useState<Record<number, number>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const { activity, loading: loadingActivity, error: activityError } = useHubActivity(runner, refreshKey);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    setProfile(null);
+    fetchProfile(getKnowledgeHub(runner || getReadOnlyProvider()), account)
+      .then((loaded) => {
+        if (!cancelled) setProfile(loaded);
+      })
+      .catch((err) => {
+        console.error('Error loading profile:', err);
+        if (!cancelled) setError(getErrorMessage(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runner, account, refreshKey]);
+
+  const records = activity ? activity.records : null;
+  const earnings = useMemo(() => records && summarizeEarnings(records, account), [records, account]);
+  const history = useMemo(() => (records ? earningsHistory(records, account) : []), [records, account]);
+  const entryEarnings = useMemo(() => (records ? earningsByEntry(records) : {}), [records]);
+
+  // Entries and block times are read for what the activity points to
+  useEffect(() => {
+    if (!records) return;
+    const votes = accountVotes(records, account);
+    const blocks = history.map((point) => point.blockNumber);
+
+    let cancelled = false;
+    const hub = getKnowledgeHub(runner || getReadOnlyProvider());
+    Promise.all([
+      fetchEntriesById(hub, votes.map((vote) => vote.entryId)),
+      hub.runner?.provider ? fetchBlockTimes(hub.runner.provider, blocks) : Promise.resolve({})
+    ])
+      .then(([entries, times]) => {
+        if (cancelled) return;
+        setVotedEntries(entries.map((entry, i) => ({ entry, upvote: votes[i].upvote })));
+        setBlockTimes(times);
+      })
+      .catch((err) => console.error('Error loading profile activity:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runner, account, records, history]);
+
+  return {
+    profile,
+    earnings,
+    history: history.map((point) => ({ ...point, timestamp: blockTimes[point.blockNumber] })),
+    entryEarnings,
+    votedEntries,
+    loading: loading || loadingActivity,
+    error: error || activityError
+  };
+};
+
+/**
+ * Rank contributors by the KNOW they have earned
+ * @param runner Wallet provider, or null to read through the configured RPC
+ * @param limit Number of contributors to list
+ * @param refreshKey Reloads when it changes
+ */
+export const useLeaderboard = (runner: ContractRunner | null, limit = 20, refreshKey?: unknown) => {
+  const { activity, loading, error } = useHubActivity(runner, refreshKey);
+  const rows = useMemo(() => (activity ? buildLeaderboard(activity.records, limit) : []), [activity, limit]);
+  return { rows, loading, error };
+};
+
+/**
+ * Load the revision history of an entry
+ * @param runner Wallet provider, or null to read through the configured RPC
+ * @param entryId Entry to load, or null to load nothing
+ * @param updatedAt Last revision time of the entry, reloads the history when it changes
+ */
+export const useRevisions = (runner: ContractRunner | null, entryId: number | null, updatedAt = 0) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (entryId === null) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    fetchRevisions(getKnowledgeHub(runner || getReadOnlyProvider()), entryId)
+      .then((loaded) => {
+        if (!cancelled) setRevisions(loaded);
+      })
+      .catch((err) => {
+        console.error('Error loading revisions:', err);
+        if (!cancelled) setError(getErrorMessage(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runner, entryId, updatedAt]);
+
+  return { revisions, loading, error };
+};
+
+/**
+ * Submit a new entry through the connected wallet. Its CID can be given in
+ * any form parseCid accepts and is sent in the hub's binary form.
+ * @param signer Signer of the connected wallet
+ * @param onSubmitted Called once the transaction is mined
+ * @param gasless Sign the submission and let the relayer pay for it
+ */
+export const useSubmitEntry = (signer: Signer | null, onSubmitted?: () => void, gasless = false) => {
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const submitEntry = useCallback(async (
+    title: string,
+    ipfsHash: string,
+    category = '',
+    tags: string[] = []
+  ) => {
+    if (!signer) return false;
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const hub = getKnowledgeHub(signer);
+      const cid = encodeCid(ipfsHash);
+      if (gasless) {
+        await relayHubCall(signer, hub.interface.encodeFunctionData('submitEntryWithTags', [title, cid, category, tags]));
+      } else {
+        await (await hub.submitEntryWithTags(title, cid, category, tags)).wait();
+      }
+      onSubmitted?.();
+      return true;
+    } catch (err) {
+      console.error('Error submitting entry:', err);
+      setError(getErrorMessage(err));
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [signer, onSubmitted, gasless]);
+
+  return { submitEntry, submitting, error };
+};
+
+/**
+ * Vote on entries through the connected wallet. Clicking the direction the
+ * account already voted retracts the vote; clicking the other one changes it.
+ * @param signer Signer of the connected wallet
+ * @param onVoted Called once the transaction is mined
+ * @param gasless Sign votes and let the relayer pay for them
+ */
+export const useVote = (signer: Signer | null, onVoted?: () => void, gasless = false) => {
+  const [pendingEntryId, setPendingEntryId] = useState<number | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const vote = useCallback(async (entryId: number, upvote: boolean, current?: VoteStatus) => {
+    if (!signer) return;
+
+    setPendingEntryId(entryId);
+    setError('');
+    try {
+      const hub = getKnowledgeHub(signer);
+      const data = !current?.hasVoted
+        ? hub.interface.encodeFunctionData('voteOnEntry', [entryId, upvote])
+        : current.isUpvote === upvote
+          ? hub.interface.encodeFunctionData('retractVote', [entryId])
+          : hub.interface.encodeFunctionData('changeVote', [entryId]);
+      if (gasless) {
+        await relayHubCall(signer, data);
+      } else {
+        await (await signer.sendTransaction({ to: await hub.getAddress(), data })).wait();
+      }
+      onVoted?.();
+    } catch (err) {
+      console.error('Error voting:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setPendingEntryId(null);
+    }
+  }, [signer, onVoted, gasless]);
+
+  return { vote, pendingEntryId, error };
+};
+
+/**
+ * Upvote or downvote several entries in one transaction through the connected
+ * wallet. Only new votes are cast; entries the contract refuses are skipped and
+ * reported with the reason. Batches are paid by the wallet, not the relayer.
+ * @param signer Signer of the connected wallet
+ * @param onVoted Called once the transaction is mined
+ */
+export const useBatchVote = (signer: Signer | null, onVoted?: () => void) => {
+  const [voting, setVoting] = useState(false);
+  const [results, setResults] = useState<BatchVoteResult[]>([]);
+  const [error, setError] = useState<string>('');
+
+  const voteAll = useCallback(async (entryIds: number[], upvote: boolean) => {
+    if (!signer || entryIds.length === 0) return false;
+
+    setVoting(true);
+    setResults([]);
+    setError('');
+    try {
+      setResults(await batchVote(getKnowledgeHub(signer), entryIds, upvote));
+      onVoted?.();
+      return true;
+    } catch (err) {
+      console.error('Error batch voting:', err);
+      setError(getErrorMessage(err));
+      return false;
+    } finally {
+      setVoting(false);
+    }
+  }, [signer, onVoted]);
+
+  return { voteAll, voting, results, error };
+};
+
+/**
+ * Tip entry creators in KNOW. The hub's allowance comes from a permit
+ * signature, so each tip is a single transaction.
+ * @param signer Signer of the connected wallet
+ * @param onTipped Called once the transaction is mined
+ */
+export const useTip = (signer: Signer | null, onTipped?: () => void) => {
+  const [pendingEntryId, setPendingEntryId] = useState<number | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const tip = useCallback(async (entryId: number, amount: string) => {
+    if (!signer) return;
+
+    setPendingEntryId(entryId);
+    setError('');
+    try {
+      const hub = getKnowledgeHub(signer);
+      const token = KnowledgeToken__factory.connect(await hub.knowledgeToken(), signer);
+      const value = parseEther(amount);
+      // Permits stay valid for an hour
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+      const { v, r, s } = await signPermit(signer, token, await hub.getAddress(), value, deadline);
+      await (await hub.tipEntryWithPermit(entryId, value, deadline, v, r, s)).wait();
+      onTipped?.();
+    } catch (err) {
+      console.error('Error tipping entry:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setPendingEntryId(null);
+    }
+  }, [signer, onTipped]);
+
+  return { tip, pendingEntryId, error };
+};
+
+export type ModerationAction = 'hide' | 'restore' | 'remove';
+
+/**
+ * Report entries and, for moderators, hide, restore or remove them
+ * @param signer Signer of the connected wallet
+ * @param account Connected account, or '' when no wallet is connected
+ * @param onModerated Called once a transaction is mined
+ */
+export const useModeration = (signer: ContractRunner | null, account: string, onModerated?: () => void) => {
+  const [isModerator, setIsModerator] = useState(false);
+  const [pendingEntryId, setPendingEntryId] = useState<number | null>(null);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!signer || !account) {
+      setIsModerator(false);
+      return;
+    }
+    fetchIsModerator(getKnowledgeHub(signer), account)
+      .then(setIsModerator)
+      .catch((err) => console.error('Error checking moderator role:', err));
+  }, [signer, account]);
+
+  const send = useCallback(async (entryId: number, action: () => Promise<{ wait: () => Promise<unknown> }>) => {
+    setPendingEntryId(entryId);
+    setError('');
+    try {
+      const tx = await action();
+      await tx.wait();
+      onModerated?.();
+    } catch (err) {
+      console.error('Error moderating entry:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setPendingEntryId(null);
+    }
+  }, [onModerated]);
+
+  const report = useCallback(async (entryId: number, reason: string) => {
+    if (!signer) return;
+    await send(entryId, () => getKnowledgeHub(signer).reportEntry(entryId, reason));
+  }, [signer, send]);
+
+  const moderate = useCallback(async (entryId: number, action: ModerationAction, reason: string) => {
+    if (!signer) return;
+    const hub = getKnowledgeHub(signer);
+    await send(entryId, () => action === 'hide'
+      ? hub.hideEntry(entryId, reason)
+      : action === 'restore'
+        ? hub.restoreEntry(entryId, reason)
+        : hub.removeEntry(entryId, reason));
+  }, [signer, send]);
+
+  return { isModerator, report, moderate, pendingEntryId, error };
+};
+
+/**
+ * Load and manage the connected account's voting stake
+ * @param signer Signer of the connected wallet
+ * @param account Connected account, or '' when no wallet is connected
+ * @param onChanged Called once a staking transaction is mined
+ */
+export const useStake = (signer: ContractRunner | null, account: string, onChanged?: () => void) => {
+  const [stakeInfo, setStakeInfo] = useState<StakeInfo | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const refresh = useCallback(async () => {
+    if (!signer || !account) {
+      setStakeInfo(null);
+      return;
+    }
+    try {
+      setStakeInfo(await fetchStake(getKnowledgeHub(signer), account));
+    } catch (err) {
+      console.error('Error loading stake:', err);
+      setError(getErrorMessage(err));
+    }
+  }, [signer, account]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const send = useCallback(async (action: () => Promise<{ wait: () => Promise<unknown> }>) => {
+    setPending(true);
+    setError('');
+    try {
+      const tx = await action();
+      await tx.wait();
+      await refresh();
+      onChanged?.();
+    } catch (err) {
+      console.error('Error updating stake:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setPending(false);
+    }
+  }, [refresh, onChanged]);
+
+  // Approves the hub first when its allowance does not cover the amount
+  const stake = useCallback(async (amount: string) => {
+    if (!signer || !account) return;
+    await send(async () => {
+      const hub = getKnowledgeHub(signer);
+      const hubAddress = await hub.getAddress();
+      const token = KnowledgeToken__factory.connect(await hub.knowledgeToken(), signer);
+      const value = parseEther(amount);
+      if ((await token.allowance(account, hubAddress)) < value) {
+        await (await token.approve(hubAddress, value)).wait();
+      }
+      return hub.stake(value);
+    });
+  }, [signer, account, send]);
+
+  const requestUnstake = useCallback(async (amount: string) => {
+    if (!signer) return;
+    await send(() => getKnowledgeHub(signer).requestUnstake(parseEther(amount)));
+  }, [signer, send]);
+
+  const withdraw = useCallback(async () => {
+    if (!signer) return;
+    await send(() => getKnowledgeHub(signer).withdraw());
+  }, [signer, send]);
+
+  return { stakeInfo, stake, requestUnstake, withdraw, pending, error };
+};
+
+/**
+ * Load and claim the connected account's curator rewards
+ * @param signer Signer of the connected wallet
+ * @param account Connected account, or '' when no wallet is connected
+ * @param refreshKey Reloads the earnings when it changes, e.g. after votes
+ */
+export const useCuratorEarnings = (signer: ContractRunner | null, account: string, refreshKey?: unknown) => {
+  const [earnings, setEarnings] = useState<CuratorEarnings | null>(null);
+  const [claiming, setClaiming] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const refresh = useCallback(async () => {
+    if (!signer || !account) {
+      setEarnings(null);
+      return;
+    }
+    try {
+      setEarnings(await fetchCuratorEarnings(getKnowledgeHub(signer), account));
+    } catch (err) {
+      console.error('Error loading curator rewards:', err);
+      setError(getErrorMessage(err));
+    }
+  }, [signer, account]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  // Collects only from entries with pending rewards, to keep gas down
+  const claim = useCallback(async () => {
+    if (!signer || !earnings) return;
+
+    setClaiming(true);
+    setError('');
+    try {
+      const tx = await getKnowledgeHub(signer).claimCuratorRewards(earnings.entries.map((entry) => entry.entryId));
+      await tx.wait();
+      await refresh();
+    } catch (err) {
+      console.error('Error claiming curator rewards:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setClaiming(false);
+    }
+  }, [signer, earnings, refresh]);
+
+  return { earnings, claim, claiming, error };
+};
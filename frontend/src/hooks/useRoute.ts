@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { Route, parseRoute } from '../utils/route';
+
+/**
+ * The page the URL hash points to. Links change the hash, so the back button
+ * returns to the previous page.
+ */
+export const useRoute = (): Route => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const onHashChange = () => {
+      setRoute(parseRoute(window.location.hash));
+      window.scrollTo(0, 0);
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  return route;
+};
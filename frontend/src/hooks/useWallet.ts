@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BrowserProvider, JsonRpcSigner } from 'ethers';
+import { CHAIN_ID } from '../contracts/config';
+import { CHAINS, addChainParameters, toHexChainId } from '../contracts/chains';
+import { getErrorMessage } from '../contracts/knowledgeHub';
+
+// Error code of wallet_switchEthereumChain when the wallet does not know the chain
+const UNRECOGNIZED_CHAIN = 4902;
+
+// MetaMask Mobile wraps the wallet's error in data.originalError
+const isUnrecognizedChain = (error: unknown): boolean => {
+  if (typeof error !== 'object' || error === null) return false;
+  const { code, data } = error as { code?: unknown; data?: { originalError?: { code?: unknown } } };
+  return code === UNRECOGNIZED_CHAIN || data?.originalError?.code === UNRECOGNIZED_CHAIN;
+};
+
+/**
+ * Account, chain and the provider and signer bound to that chain. Kept in one
+ * state so they always describe the same chain.
+ */
+interface WalletConnection {
+  account: string;
+  chainId: number | null;
+  provider: BrowserProvider | null;
+  signer: JsonRpcSigner | null;
+}
+
+const DISCONNECTED: WalletConnection = { account: '', chainId: null, provider: null, signer: null };
+
+/**
+ * Connect to the injected wallet (MetaMask) and track the active account and
+ * chain. The provider and signer are for the wallet's current chain, which may
+ * not be the hub's: check `onHubChain` before using them for the hub, since the
+ * contract addresses are those of the hub's chain.
+ */
+export const useWallet = () => {
+  const [{ account, chainId, provider, signer }, setConnection] = useState<WalletConnection>(DISCONNECTED);
+  const [switching, setSwitching] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  // Counts attach calls, so a slow one for an earlier chain cannot overwrite a later one
+  const attachCount = useRef(0);
+
+  // A provider is bound to one chain, so a new one is made for each chain and
+  // only published once its network and signer are known
+  const attach = useCallback(async (selected: string) => {
+    const attempt = ++attachCount.current;
+    const browserProvider = new BrowserProvider(window.ethereum);
+    const network = await browserProvider.getNetwork();
+    const browserSigner = await browserProvider.getSigner(selected);
+    if (attempt !== attachCount.current) return;
+    setConnection({
+      account: selected,
+      chainId: Number(network.chainId),
+      provider: browserProvider,
+      signer: browserSigner
+    });
+  }, []);
+
+  /**
+   * Ask the wallet to switch to the hub's chain, adding the chain first when
+   * the wallet does not know it
+   */
+  const switchChain = useCallback(async () => {
+    if (!window.ethereum) return;
+
+    setSwitching(true);
+    setError('');
+    try {
+      try {
+        await window.ethereum.request({
+          method: 'wallet_switchEthereumChain',
+          params: [{ chainId: toHexChainId(CHAIN_ID) }]
+        });
+      } catch (err) {
+        const chain = CHAINS[CHAIN_ID];
+        if (!isUnrecognizedChain(err) || !chain) throw err;
+        // Adding a chain also switches to it
+        await window.ethereum.request({ method: 'wallet_addEthereumChain', params: [addChainParameters(chain)] });
+      }
+    } catch (err) {
+      console.error('Error switching chain:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setSwitching(false);
+    }
+  }, []);
+
+  const connect = useCallback(async () => {
+    if (!window.ethereum) {
+      alert('Please install MetaMask!');
+      return;
+    }
+
+    try {
+      const accounts: string[] = await window.ethereum.request({ method: 'eth_requestAccounts' });
+      await attach(accounts[0]);
+      const current = Number(await window.ethereum.request({ method: 'eth_chainId' }));
+      if (current !== CHAIN_ID) {
+        await switchChain();
+        await attach(accounts[0]);
+      }
+    } catch (error) {
+      console.error('Error connecting wallet:', error);
+    }
+  }, [attach, switchChain]);
+
+  // Follow account and chain switches made in the wallet
+  useEffect(() => {
+    if (!window.ethereum || !account) return;
+
+    const reportError = (err: unknown) => {
+      console.error('Error following wallet change:', err);
+      setError(getErrorMessage(err));
+    };
+    const handleAccountsChanged = (accounts: string[]) => {
+      if (accounts.length === 0) {
+        attachCount.current++;
+        setConnection(DISCONNECTED);
+        return;
+      }
+      attach(accounts[0]).catch(reportError);
+    };
+    const handleChainChanged = (hexChainId: string) => {
+      // Drop the old chain's provider and signer at once, so nothing reads the
+      // new chain with the old chain's addresses while the new ones load
+      setConnection((current) => ({ ...current, chainId: Number(hexChainId), provider: null, signer: null }));
+      attach(account).catch(reportError);
+    };
+
+    window.ethereum.on('accountsChanged', handleAccountsChanged);
+    window.ethereum.on('chainChanged', handleChainChanged);
+    return () => {
+      window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
+      window.ethereum.removeListener('chainChanged', handleChainChanged);
+    };
+  }, [account, attach]);
+
+  const onHubChain = chainId === CHAIN_ID && provider !== null;
+
+  return { account, chainId, onHubChain, provider, signer, connect, switchChain, switching, error };
+};
+
+// Extend Window interface for TypeScript
+declare global {
+  interface Window {
+    ethereum?: any;
+  }
+}
@@ -0,0 +1,99 @@
+import { sha256, toUtf8Bytes } from 'ethers';
+import { cidFromDigest, formatCid, normalizeCid } from '../utils/cid';
+
+/**
+ * Storage for the content of entries. The hub only records a CID, so a
+ * submission uploads its content first and entry cards fetch it back by CID.
+ */
+export interface ContentStore {
+  // Where content goes, shown next to the submit form
+  readonly name: string;
+  /**
+   * Store Markdown content
+   * @returns Canonical CID of the content, ready for submitEntry
+   */
+  upload(content: string): Promise<string>;
+  /**
+   * Load the content stored under a CID, checked against the CID
+   * @throws ContentError when the content is missing or does not match the CID
+   */
+  retrieve(cid: string): Promise<string>;
+}
+
+// Why content could not be shown: nothing matching the CID was found, or
+// what was found did not match it
+export type ContentFailure = 'unavailable' | 'unverified';
+
+/**
+ * Content that could not be retrieved or did not match its CID
+ */
+export class ContentError extends Error {
+  constructor(message: string, readonly failure: ContentFailure) {
+    super(message);
+    this.name = 'ContentError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ContentError.prototype);
+  }
+}
+
+// Largest entry content, in bytes. Kubo's largest chunk, so every entry is
+// stored as a single raw block whose CID is the sha2-256 digest of its content.
+export const MAX_CONTENT_BYTES = 1024 * 1024;
+
+export const MARKDOWN_FILE_NAME = 'entry.md';
+export const MARKDOWN_MIME_TYPE = 'text/markdown';
+
+/**
+ * Encode entry content as UTF-8, rejecting empty and oversized content
+ */
+export const encodeContent = (content: string): Uint8Array => {
+  const bytes = toUtf8Bytes(content);
+  if (bytes.length === 0) {
+    throw new Error('Content is empty');
+  }
+  if (bytes.length > MAX_CONTENT_BYTES) {
+    throw new Error(`Content is ${bytes.length} bytes; the limit is ${MAX_CONTENT_BYTES}`);
+  }
+  return bytes;
+};
+
+/**
+ * CID that IPFS gives content added as a single raw block
+ */
+export const contentCid = (content: string): string => formatCid(cidFromDigest(sha256(encodeContent(content))));
+
+/**
+ * Keep the content a store retrieves, or uploads, by CID. Content never changes
+ * under a CID and stores only return content that matches it, so cached
+ * content needs no further checks.
+ * @param maxEntries Number of entries kept, least recently used go first
+ */
+export const withCache = (store: ContentStore, maxEntries = 100): ContentStore => {
+  // Map keeps insertion order, so re-inserting on use puts recent entries last
+  const cache = new Map<string, string>();
+  const remember = (cid: string, content: string) => {
+    cache.delete(cid);
+    cache.set(cid, content);
+    if (cache.size > maxEntries) {
+      cache.delete(cache.keys().next().value as string);
+    }
+  };
+
+  return {
+    name: store.name,
+
+    upload: async (content) => {
+      const cid = await store.upload(content);
+      remember(cid, content);
+      return cid;
+    },
+
+    retrieve: async (cid) => {
+      const key = normalizeCid(cid);
+      const cached = cache.get(key);
+      const content = cached !== undefined ? cached : await store.retrieve(key);
+      remember(key, content);
+      return content;
+    }
+  };
+};
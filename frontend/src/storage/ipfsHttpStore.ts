@@ -0,0 +1,125 @@
+import { normalizeCid } from '../utils/cid';
+import {
+  ContentError,
+  ContentStore,
+  MARKDOWN_FILE_NAME,
+  MARKDOWN_MIME_TYPE,
+  MAX_CONTENT_BYTES,
+  contentCid
+} from './contentStore';
+import { readVerifiedBlock } from './verify';
+
+export interface IpfsHttpStoreOptions {
+  // Kubo RPC endpoint of an IPFS node or pinning service, e.g. http://127.0.0.1:5001
+  apiUrl: string;
+  // Gateways content is read from, tried in order, e.g. ['https://ipfs.io']
+  gatewayUrls: string[];
+  // Authorization header for the RPC endpoint, e.g. "Bearer <token>" or "Basic <credentials>"
+  authorization?: string;
+  // How long to wait for each gateway before trying the next one
+  gatewayTimeoutMs?: number;
+}
+
+const readError = async (response: Response, service: string) => {
+  const body = await response.text().catch(() => '');
+  // Kubo reports errors as { "Message": "...", "Code": 0, "Type": "error" }
+  try {
+    const message = JSON.parse(body).Message;
+    if (message) return new Error(`${service}: ${message}`);
+  } catch {
+    // Not JSON
+  }
+  return new Error(`${service} responded with ${response.status}`);
+};
+
+// The block behind a CID, unchanged. `?format=raw` asks for the trustless
+// response without the custom Accept header that would need a CORS preflight.
+const fetchBlock = async (gateway: string, cid: string, timeoutMs: number) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(`${gateway}/ipfs/${cid}?format=raw`, { signal: controller.signal });
+    if (!response.ok) {
+      throw await readError(response, gateway);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  } catch (err) {
+    throw controller.signal.aborted ? new Error(`${gateway} timed out`) : err;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Content store backed by the Kubo RPC API, which IPFS nodes and most pinning
+ * services expose. Content is added and pinned as a single raw-leaf CIDv1
+ * block and read back through HTTP gateways, which are not trusted: each
+ * response is checked against the CID and the next gateway is tried when it
+ * does not match.
+ */
+export const createIpfsHttpStore = ({
+  apiUrl,
+  gatewayUrls,
+  authorization,
+  gatewayTimeoutMs = 15000
+}: IpfsHttpStoreOptions): ContentStore => {
+  const api = apiUrl.replace(/\/$/, '');
+  const gateways = gatewayUrls.map((url) => url.replace(/\/$/, ''));
+
+  return {
+    name: `IPFS (${api})`,
+
+    upload: async (content) => {
+      // Also checks the size limit; the Blob stores the string as the same UTF-8 bytes
+      const expected = contentCid(content);
+      const body = new FormData();
+      body.append('file', new Blob([content], { type: MARKDOWN_MIME_TYPE }), MARKDOWN_FILE_NAME);
+
+      const query = `cid-version=1&raw-leaves=true&chunker=size-${MAX_CONTENT_BYTES}&pin=true`;
+      const response = await fetch(`${api}/api/v0/add?${query}`, {
+        method: 'POST',
+        headers: authorization ? { Authorization: authorization } : {},
+        body
+      });
+      if (!response.ok) {
+        throw await readError(response, 'IPFS node');
+      }
+      const added = await response.json();
+      if (typeof added.Hash !== 'string') {
+        throw new Error('IPFS node returned no CID');
+      }
+      // Submitting a CID the content does not hash to would leave the entry unverifiable
+      const cid = normalizeCid(added.Hash);
+      if (cid !== expected) {
+        throw new Error(`IPFS node stored the content as ${cid} instead of ${expected}`);
+      }
+      return cid;
+    },
+
+    retrieve: async (cid) => {
+      const canonical = normalizeCid(cid);
+      const failures: string[] = [];
+      let mismatched = false;
+
+      for (const gateway of gateways) {
+        let block: Uint8Array;
+        try {
+          block = await fetchBlock(gateway, canonical, gatewayTimeoutMs);
+        } catch (err) {
+          failures.push((err as Error).message);
+          continue;
+        }
+        try {
+          return readVerifiedBlock(canonical, block);
+        } catch (err) {
+          mismatched = true;
+          failures.push(`${gateway}: ${(err as Error).message}`);
+        }
+      }
+
+      throw mismatched
+        ? new ContentError(`No gateway returned content matching ${canonical} (${failures.join('; ')})`, 'unverified')
+        : new ContentError(`No gateway could provide ${canonical} (${failures.join('; ') || 'none configured'})`, 'unavailable');
+    }
+  };
+};
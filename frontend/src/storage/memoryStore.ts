@@ -0,0 +1,49 @@
+import { toUtf8Bytes } from 'ethers';
+import { normalizeCid } from '../utils/cid';
+import { ContentError, ContentStore, contentCid } from './contentStore';
+import { readVerifiedBlock } from './verify';
+
+// The part of the Web Storage API the store needs, e.g. window.localStorage
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+const KEY_PREFIX = 'knowledge-hub:content:';
+
+const createMapStorage = (): KeyValueStorage => {
+  const items: Record<string, string> = {};
+  return {
+    getItem: (key) => (Object.prototype.hasOwnProperty.call(items, key) ? items[key] : null),
+    setItem: (key, value) => {
+      items[key] = value;
+    }
+  };
+};
+
+/**
+ * Content store for tests and offline demos. Content gets the CID IPFS would
+ * give it but never leaves the given storage, so only content uploaded
+ * through the same storage can be retrieved. Like gateways, the storage is
+ * not trusted: content is checked against its CID on the way out.
+ * @param storage Where content is kept, in memory by default
+ * @param name Description shown next to the submit form
+ */
+export const createMemoryStore = (storage: KeyValueStorage = createMapStorage(), name = 'Memory'): ContentStore => ({
+  name,
+
+  upload: async (content) => {
+    const cid = contentCid(content);
+    storage.setItem(KEY_PREFIX + cid, content);
+    return cid;
+  },
+
+  retrieve: async (cid) => {
+    const canonical = normalizeCid(cid);
+    const content = storage.getItem(KEY_PREFIX + canonical);
+    if (content === null) {
+      throw new ContentError(`${name} has no content under ${cid}`, 'unavailable');
+    }
+    return readVerifiedBlock(canonical, toUtf8Bytes(content));
+  }
+});
@@ -0,0 +1,103 @@
+import { Utf8ErrorFuncs, sha256, toUtf8String } from 'ethers';
+import { CODEC_DAG_PB, CODEC_RAW, parseCid } from '../utils/cid';
+import { ContentError } from './contentStore';
+
+// UnixFS node types that hold file data
+const UNIXFS_RAW = 0;
+const UNIXFS_FILE = 2;
+
+// Protobuf wire types used by dag-pb and UnixFS
+const WIRE_VARINT = 0;
+const WIRE_BYTES = 2;
+
+interface Field {
+  number: number;
+  value: number | Uint8Array;
+}
+
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  // Stays below 2^53, beyond any length or size a block can hold
+  for (let shift = 0, i = offset; i < bytes.length && shift < 53; shift += 7, i++) {
+    value += (bytes[i] & 0x7f) * Math.pow(2, shift);
+    if (bytes[i] < 0x80) {
+      return [value, i + 1];
+    }
+  }
+  throw new Error('Invalid varint');
+};
+
+const readFields = (bytes: Uint8Array): Field[] => {
+  const fields: Field[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const [key, valueOffset] = readVarint(bytes, offset);
+    const wireType = key % 8;
+    if (wireType === WIRE_VARINT) {
+      const [value, next] = readVarint(bytes, valueOffset);
+      fields.push({ number: Math.floor(key / 8), value });
+      offset = next;
+    } else if (wireType === WIRE_BYTES) {
+      const [length, start] = readVarint(bytes, valueOffset);
+      if (start + length > bytes.length) {
+        throw new Error('Truncated protobuf field');
+      }
+      fields.push({ number: Math.floor(key / 8), value: bytes.subarray(start, start + length) });
+      offset = start + length;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+  return fields;
+};
+
+const findField = (fields: Field[], number: number) => fields.filter((field) => field.number === number)[0];
+
+// File data of a dag-pb block: PBNode { Links = 2; Data = 1 } whose Data is
+// UnixFS { Type = 1; Data = 2 }
+const readUnixFsFile = (block: Uint8Array): Uint8Array => {
+  const node = readFields(block);
+  if (findField(node, 2)) {
+    throw new Error('Content split across several blocks cannot be checked');
+  }
+  const data = findField(node, 1);
+  if (!data || typeof data.value === 'number') {
+    throw new Error('Block holds no UnixFS data');
+  }
+  const unixFs = readFields(data.value);
+  const type = findField(unixFs, 1);
+  if (!type || (type.value !== UNIXFS_FILE && type.value !== UNIXFS_RAW)) {
+    throw new Error('Block is not a file');
+  }
+  const fileData = findField(unixFs, 2);
+  return fileData && typeof fileData.value !== 'number' ? fileData.value : new Uint8Array(0);
+};
+
+/**
+ * Check a block fetched for a CID against the CID's sha2-256 digest and read
+ * the text it holds. Raw blocks are the content itself; dag-pb blocks must be
+ * a whole UnixFS file, as `ipfs add` makes of small files without raw leaves.
+ * @param cid CID the block was requested for
+ * @param block Bytes of the block, e.g. from a gateway's `?format=raw` response
+ * @throws ContentError ('unverified') when the block does not match the CID or
+ * its content cannot be read from it alone
+ */
+export const readVerifiedBlock = (cid: string, block: Uint8Array): string => {
+  const { codec, digest } = parseCid(cid);
+  if (sha256(block) !== digest) {
+    throw new ContentError(`Content does not match ${cid}`, 'unverified');
+  }
+
+  let content = block;
+  if (codec === CODEC_DAG_PB) {
+    try {
+      content = readUnixFsFile(block);
+    } catch (err) {
+      throw new ContentError(`${(err as Error).message} (${cid})`, 'unverified');
+    }
+  } else if (codec !== CODEC_RAW) {
+    throw new ContentError(`Content of codec 0x${codec.toString(16)} cannot be checked`, 'unverified');
+  }
+  // Invalid UTF-8 shows as replacement characters rather than failing a verified block
+  return toUtf8String(content, Utf8ErrorFuncs.replace);
+};
@@ -0,0 +1,229 @@
+/**
+ * Parsing and encoding of IPFS content identifiers (CIDs). Shared by the
+ * frontend, the Hardhat scripts and tasks, and the tests, so it has no
+ * dependencies.
+ *
+ * The hub takes content as a binary CIDv1 (see `encodeCid`) and stores only its
+ * codec and digest, which `storedCid` turns back into the canonical base32
+ * form (see `formatCid`). CIDv0 strings ("Qm...") and
+ * CIDv1 strings in base32 ("b...") or base58btc ("z...") all normalize to the
+ * same binary form, so a piece of content has a single on-chain identity.
+ */
+
+// Multicodec codes of the content types the hub accepts
+export const CODEC_RAW = 0x55;
+export const CODEC_DAG_PB = 0x70;
+export const SUPPORTED_CODECS = [CODEC_RAW, CODEC_DAG_PB];
+
+// Multihash function code and digest length of sha2-256, the only hash the hub accepts
+const SHA2_256 = 0x12;
+const DIGEST_LENGTH = 32;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * A parsed CID, reduced to what identifies its content
+ */
+export interface Cid {
+  version: 0 | 1;
+  codec: number; // multicodec code, e.g. CODEC_DAG_PB
+  digest: string; // 0x-prefixed hex of the 32-byte sha2-256 digest
+}
+
+const toHex = (bytes: number[]): string =>
+  '0x' + bytes.map((byte) => (byte < 16 ? '0' : '') + byte.toString(16)).join('');
+
+const fromHex = (hex: string): number[] => {
+  const digits = hex.replace(/^0x/, '');
+  if (digits.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(digits)) {
+    throw new Error(`Invalid hex string: ${hex}`);
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i < digits.length; i += 2) {
+    bytes.push(parseInt(digits.slice(i, i + 2), 16));
+  }
+  return bytes;
+};
+
+const decodeBase32 = (text: string): number[] => {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (let i = 0; i < text.length; i++) {
+    const value = BASE32_ALPHABET.indexOf(text[i]);
+    if (value === -1) {
+      throw new Error(`Invalid base32 character "${text[i]}"`);
+    }
+    buffer = ((buffer << 5) | value) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return bytes;
+};
+
+const encodeBase32 = (bytes: number[]): string => {
+  let text = '';
+  let buffer = 0;
+  let bits = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    buffer = ((buffer << 8) | bytes[i]) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      text += BASE32_ALPHABET[(buffer >> bits) & 31];
+    }
+  }
+  if (bits > 0) {
+    text += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return text;
+};
+
+const decodeBase58 = (text: string): number[] => {
+  // Little-endian base 256 digits of the number, grown as characters are read
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    let carry = BASE58_ALPHABET.indexOf(text[i]);
+    if (carry === -1) {
+      throw new Error(`Invalid base58 character "${text[i]}"`);
+    }
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // Each leading "1" stands for a leading zero byte
+  for (let i = 0; i < text.length && text[i] === '1'; i++) {
+    bytes.push(0);
+  }
+  return bytes.reverse();
+};
+
+const readVarint = (bytes: number[], offset: number): [number, number] => {
+  let value = 0;
+  for (let shift = 0, i = offset; i < bytes.length && shift < 28; shift += 7, i++) {
+    value |= (bytes[i] & 0x7f) << shift;
+    if (bytes[i] < 0x80) {
+      return [value, i + 1];
+    }
+  }
+  throw new Error('Invalid varint');
+};
+
+const writeVarint = (value: number): number[] => {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+  return bytes;
+};
+
+// Reads a sha2-256 multihash that must end the input
+const readDigest = (bytes: number[], offset: number): string => {
+  const [hashFunction, lengthOffset] = readVarint(bytes, offset);
+  const [length, digestOffset] = readVarint(bytes, lengthOffset);
+  if (hashFunction !== SHA2_256 || length !== DIGEST_LENGTH) {
+    throw new Error('Only sha2-256 CIDs are supported');
+  }
+  if (bytes.length !== digestOffset + DIGEST_LENGTH) {
+    throw new Error('Invalid multihash length');
+  }
+  return toHex(bytes.slice(digestOffset));
+};
+
+/**
+ * Parse a CIDv0 ("Qm...") or a base32 or base58btc CIDv1 string
+ * @throws Error describing why the string is not a supported CID
+ */
+export const parseCid = (text: string): Cid => {
+  const value = text.trim();
+
+  if (value.length === 46 && value.startsWith('Qm')) {
+    return { version: 0, codec: CODEC_DAG_PB, digest: readDigest(decodeBase58(value), 0) };
+  }
+
+  let bytes: number[];
+  const prefix = value[0];
+  if (prefix === 'b' || prefix === 'B') {
+    bytes = decodeBase32(value.slice(1).toLowerCase());
+  } else if (prefix === 'z') {
+    bytes = decodeBase58(value.slice(1));
+  } else {
+    throw new Error(`Not a CID: "${text}"`);
+  }
+
+  const [version, codecOffset] = readVarint(bytes, 0);
+  if (version !== 1) {
+    throw new Error(`Unsupported CID version ${version}`);
+  }
+  const [codec, multihashOffset] = readVarint(bytes, codecOffset);
+  return { version: 1, codec, digest: readDigest(bytes, multihashOffset) };
+};
+
+/**
+ * Check whether a string is a CID the hub accepts
+ */
+export const isValidCid = (text: string): boolean => {
+  try {
+    return SUPPORTED_CODECS.indexOf(parseCid(text).codec) !== -1;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * CID of content hashed locally, e.g. a single-block file added with
+ * `ipfs add --cid-version 1`, which stores small files as raw blocks
+ * @param digest 0x-prefixed sha2-256 digest of the content
+ */
+export const cidFromDigest = (digest: string, codec = CODEC_RAW): Cid => {
+  if (fromHex(digest).length !== DIGEST_LENGTH) {
+    throw new Error('A sha2-256 digest is 32 bytes');
+  }
+  return { version: 1, codec, digest: digest.toLowerCase() };
+};
+
+const toBytes = (cid: Cid): number[] =>
+  [1].concat(writeVarint(cid.codec), [SHA2_256, DIGEST_LENGTH], fromHex(cid.digest));
+
+/**
+ * Encode a CID into the compact binary CIDv1 the hub's submitEntry and
+ * updateEntry take: 0x01, the codec, then the sha2-256 multihash
+ * @throws Error when the CID is malformed or its codec is not supported
+ */
+export const encodeCid = (cid: Cid | string): string => {
+  const parsed = typeof cid === 'string' ? parseCid(cid) : cid;
+  if (SUPPORTED_CODECS.indexOf(parsed.codec) === -1) {
+    throw new Error(`Unsupported codec 0x${parsed.codec.toString(16)}: the hub accepts raw and dag-pb content`);
+  }
+  return toHex(toBytes(parsed));
+};
+
+/**
+ * Write a CID in the canonical base32 CIDv1 form
+ */
+export const formatCid = (cid: Cid): string => 'b' + encodeBase32(toBytes(cid));
+
+/**
+ * CID string of an entry or revision read from the hub. Content stored before
+ * the hub kept digests is only in ipfsHash; newer content has an empty ipfsHash
+ * and the codec and digest of a CIDv1
+ */
+export const storedCid = (ipfsHash: string, content: { digest: string; codec: number | bigint }): string =>
+  ipfsHash || formatCid({ version: 1, codec: Number(content.codec), digest: content.digest });
+
+/**
+ * Rewrite any supported CID string in its canonical base32 CIDv1 form
+ */
+export const normalizeCid = (text: string): string => formatCid(parseCid(text));
@@ -0,0 +1,141 @@
+import { Entry } from '../contracts/knowledgeHub';
+
+/**
+ * Ordering, search and the shareable URL of the entry feed, kept free of
+ * React so the tests can use them directly
+ */
+
+export const SORT_MODES = ['newest', 'top', 'upvoted', 'controversial', 'trending'] as const;
+export type SortMode = typeof SORT_MODES[number];
+
+export const SORT_LABELS: Record<SortMode, string> = {
+  newest: 'Newest',
+  top: 'Top',
+  upvoted: 'Most upvoted',
+  controversial: 'Controversial',
+  trending: 'Trending'
+};
+
+/**
+ * What the feed shows: the order, a title search, an author and the category
+ * and tag filters. Mirrored in the page URL so a view can be shared.
+ */
+export interface FeedView {
+  sort: SortMode;
+  search: string;   // words that must all appear in the title, '' for any
+  author: string;   // address or part of one, '' for any
+  category?: string;
+  tag?: string;
+}
+
+export const DEFAULT_FEED_VIEW: FeedView = { sort: 'newest', search: '', author: '' };
+
+// Entries the feed loads at first and adds each time the reader nears the end
+export const FEED_PAGE_SIZE = 20;
+
+// Trending follows Hacker News: net votes over (age in hours + 2) ^ gravity,
+// so an entry needs ever more votes to stay up as it ages
+const TRENDING_GRAVITY = 1.8;
+const TRENDING_OFFSET_HOURS = 2;
+
+/**
+ * How controversial an entry is: the more votes and the more evenly they
+ * split, the higher. Entries without votes on both sides score 0.
+ */
+export const controversyScore = (entry: Entry): number => {
+  const { upvotes, downvotes } = entry;
+  if (upvotes === 0 || downvotes === 0) return 0;
+  const balance = Math.min(upvotes, downvotes) / Math.max(upvotes, downvotes);
+  return Math.pow(upvotes + downvotes, balance);
+};
+
+/**
+ * Net votes decayed by the entry's age
+ * @param now Unix seconds
+ */
+export const trendingScore = (entry: Entry, now: number): number => {
+  const ageHours = Math.max(0, now - entry.timestamp) / 3600;
+  return entry.voteCount / Math.pow(ageHours + TRENDING_OFFSET_HOURS, TRENDING_GRAVITY);
+};
+
+const newestFirst = (a: Entry, b: Entry) => b.timestamp - a.timestamp || b.id - a.id;
+
+/**
+ * Sort entries without changing the given array. Ties go to the newer entry.
+ * @param now Unix seconds, for trending
+ */
+export const sortEntries = (entries: Entry[], sort: SortMode, now = Date.now() / 1000): Entry[] => {
+  const score = (entry: Entry): number => {
+    switch (sort) {
+      case 'top':
+        return entry.voteCount;
+      case 'upvoted':
+        return entry.upvotes;
+      case 'controversial':
+        return controversyScore(entry);
+      case 'trending':
+        return trendingScore(entry, now);
+      default:
+        return 0;
+    }
+  };
+  // Score every entry once rather than on each comparison
+  const scores: Record<number, number> = {};
+  entries.forEach((entry) => {
+    scores[entry.id] = score(entry);
+  });
+  return entries.slice().sort((a, b) => scores[b.id] - scores[a.id] || newestFirst(a, b));
+};
+
+const searchTerms = (search: string) => search.toLowerCase().split(/\s+/).filter(Boolean);
+
+/**
+ * Keep the entries whose title contains every search word and whose creator
+ * matches the author filter, both case-insensitively
+ */
+export const searchEntries = (entries: Entry[], search: string, author: string): Entry[] => {
+  const terms = searchTerms(search);
+  const creator = author.trim().toLowerCase();
+  return entries.filter((entry) => {
+    const title = entry.title.toLowerCase();
+    return terms.every((term) => title.indexOf(term) !== -1)
+      && (!creator || entry.creator.toLowerCase().indexOf(creator) !== -1);
+  });
+};
+
+/**
+ * Search and sort entries for a view. Category and tag are applied when the
+ * entries are loaded, so they are not checked here.
+ */
+export const applyFeedView = (entries: Entry[], view: FeedView, now?: number): Entry[] =>
+  sortEntries(searchEntries(entries, view.search, view.author), view.sort, now);
+
+/**
+ * Read a view from a URL query string such as "?sort=top&q=rollups".
+ * Unknown sort modes fall back to newest.
+ */
+export const parseFeedView = (query: string): FeedView => {
+  const params = new URLSearchParams(query);
+  const sort = SORT_MODES.filter((mode) => mode === params.get('sort'))[0];
+  return {
+    sort: sort || DEFAULT_FEED_VIEW.sort,
+    search: params.get('q') || '',
+    author: params.get('author') || '',
+    category: params.get('category') || undefined,
+    tag: params.get('tag') || undefined
+  };
+};
+
+/**
+ * Write a view as a URL query string, leaving out defaults; '' for the default view
+ */
+export const formatFeedView = (view: FeedView): string => {
+  const params = new URLSearchParams();
+  if (view.sort !== DEFAULT_FEED_VIEW.sort) params.set('sort', view.sort);
+  if (view.search.trim()) params.set('q', view.search.trim());
+  if (view.author.trim()) params.set('author', view.author.trim());
+  if (view.category) params.set('category', view.category);
+  if (view.tag) params.set('tag', view.tag);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
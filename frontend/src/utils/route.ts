@@ -0,0 +1,35 @@
+import { isAddress } from 'ethers';
+
+/**
+ * Pages of the app, addressed by the URL hash (e.g. "#/profile/0x...") so
+ * they do not clash with the feed view in the query string
+ */
+export type Route =
+  | { page: 'feed' }
+  | { page: 'leaderboard' }
+  | { page: 'profile'; account: string };
+
+/**
+ * Read a route from a URL hash. Unknown pages and invalid addresses fall back
+ * to the feed.
+ */
+export const parseRoute = (hash: string): Route => {
+  const [page, account] = hash.replace(/^#\/?/, '').split('/');
+  if (page === 'leaderboard') return { page: 'leaderboard' };
+  if (page === 'profile' && account && isAddress(account)) return { page: 'profile', account };
+  return { page: 'feed' };
+};
+
+/**
+ * Write a route as a URL hash, for links
+ */
+export const formatRoute = (route: Route): string => {
+  switch (route.page) {
+    case 'leaderboard':
+      return '#/leaderboard';
+    case 'profile':
+      return `#/profile/${route.account}`;
+    default:
+      return '#/';
+  }
+};
@@ -1,21 +1,68 @@
-import { HardhatUserConfig } from "hardhat/config";
+import { HardhatUserConfig, extendEnvironment } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+import "@openzeppelin/hardhat-upgrades";
+import "./tasks/hub";
+import "./tasks/gov";
 
 import { vars } from "hardhat/config";
 
-const PRIVATE_KEY = vars.get("PRIVATE_KEY");
+// Deployer key for the remote networks, set with `npx hardhat vars set PRIVATE_KEY`.
+// Local networks use Hardhat's built-in accounts, so it is optional.
+const PRIVATE_KEY = vars.get("PRIVATE_KEY", "");
+const remoteAccounts = PRIVATE_KEY ? [PRIVATE_KEY] : [];
+
+const liskSepolia = {
+  url: vars.get("LISK_SEPOLIA_RPC_URL", "https://rpc.sepolia-api.lisk.com"),
+  chainId: 4202,
+  accounts: remoteAccounts,
+};
+
+// Without a key the remote networks can still be read from, e.g. hub:list
+extendEnvironment((hre) => {
+  const { config, name } = hre.network;
+  if (name !== "hardhat" && name !== "localhost" && Array.isArray(config.accounts) && config.accounts.length === 0) {
+    console.warn(`⚠️  No PRIVATE_KEY set, ${name} is read-only. Set one with: npx hardhat vars set PRIVATE_KEY`);
+  }
+});
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.20",
+  solidity: {
+    version: "0.8.24",
+    settings: {
+      // KnowledgeHub exceeds the 24 KB contract size limit without the optimizer
+      // and the IR pipeline. Few runs favour code size over the gas of each call
+      optimizer: {
+        enabled: true,
+        runs: 10,
+      },
+      viaIR: true,
+      // OpenZeppelin's Governor needs solc 0.8.24 and the Cancun MCOPY opcode
+      evmVersion: "cancun",
+    },
+  },
+  // Chain IDs match the frontend's chain registry (frontend/src/contracts/chains.ts)
   networks: {
-    liskTestnet: {
-      url: "https://rpc.sepolia-api.lisk.com",
-      accounts: [PRIVATE_KEY],
+    hardhat: {
+      chainId: 31337,
+    },
+    localhost: {
+      url: "http://127.0.0.1:8545",
+      chainId: 31337,
+    },
+    liskSepolia,
+    // Former name of liskSepolia, kept so existing `--network liskTestnet` commands still work
+    liskTestnet: liskSepolia,
+    lisk: {
+      url: vars.get("LISK_RPC_URL", "https://rpc.api.lisk.com"),
+      chainId: 1135,
+      accounts: remoteAccounts,
     },
   },
   etherscan: {
+    // Blockscout does not check the key, but hardhat-verify needs one
     apiKey: {
       "lisk-sepolia": "123",
+      lisk: "123",
     },
     customChains: [
       {
@@ -26,6 +73,14 @@ const config: HardhatUserConfig = {
           browserURL: "https://sepolia-blockscout.lisk.com",
         },
       },
+      {
+        network: "lisk",
+        chainId: 1135,
+        urls: {
+          apiURL: "https://blockscout.lisk.com/api",
+          browserURL: "https://blockscout.lisk.com",
+        },
+      },
     ],
   },
   sourcify: {
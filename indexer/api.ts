@@ -0,0 +1,159 @@
+import * as http from "http";
+import { EntryRecord, IndexerStore } from "./store";
+
+/**
+ * Small read-only HTTP/JSON API over the indexer store
+ *
+ *   GET /status                    checkpoint and record counts
+ *   GET /entries?creator=0x..      entries with vote tallies and moderation status,
+ *                                  optionally by creator, category and/or tag;
+ *                                  hidden and removed entries need includeHidden=true
+ *   GET /entries/:id               one entry with its revisions, votes, rewards, curator
+ *                                  rewards, tips and moderation history
+ *   GET /votes?voter=0x..&entry=1  vote history, optionally by voter and/or entry
+ *   GET /rewards?creator=0x..      reward events, optionally by creator
+ *   GET /rewards/totals            total rewards per creator
+ *   GET /rewards/skipped?creator=  rewards that were not paid, and why
+ *   GET /curation/claims?curator=  curator reward claims, optionally by curator
+ *   GET /tips?entry=1&creator=0x.. tips, optionally by entry, creator and/or tipper
+ *   GET /moderation?entry=1        reports and status changes, oldest first
+ */
+export function createApiServer(store: IndexerStore): http.Server {
+  return http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const params = url.searchParams;
+
+    if (req.method !== "GET") {
+      return send(res, 405, { error: "Method not allowed" });
+    }
+
+    const withTally = (entryId: number) => {
+      const votes = store.getCurrentVotes(entryId);
+      const upvotes = votes.filter((vote) => vote.upvote);
+      const weightOf = (list: typeof votes) => list.reduce((sum, vote) => sum + vote.weight, 0);
+      return {
+        upvotes: upvotes.length,
+        downvotes: votes.length - upvotes.length,
+        voteCount: 2 * upvotes.length - votes.length,
+        weightedUpvotes: weightOf(upvotes),
+        weightedDownvotes: weightOf(votes) - weightOf(upvotes),
+      };
+    };
+
+    // Current title and content, taken from the latest revision if there is one
+    const withLatestRevision = (entry: EntryRecord) => {
+      const revisions = store.getRevisions({ entryId: entry.entryId });
+      const latest = revisions[revisions.length - 1];
+      return latest
+        ? { ...entry, title: latest.title, ipfsHash: latest.ipfsHash, updatedAt: latest.timestamp }
+        : { ...entry, updatedAt: 0 };
+    };
+
+    const withStatus = (entryId: number) => ({
+      status: store.getCurrentStatus(entryId),
+      reportCount: store.getReports({ entryId }).length,
+    });
+
+    const entryMatch = /^\/entries\/(\d+)$/.exec(url.pathname);
+
+    if (url.pathname === "/status") {
+      return send(res, 200, {
+        checkpoint: store.checkpoint,
+        entries: store.getEntries().length,
+        revisions: store.getRevisions().length,
+        votes: store.getVotes().length,
+        rewards: store.getRewards().length,
+      });
+    }
+
+    if (url.pathname === "/entries") {
+      const includeHidden = params.get("includeHidden") === "true";
+      const entries = store
+        .getEntries({
+          creator: params.get("creator") ?? undefined,
+          category: params.get("category") ?? undefined,
+          tag: params.get("tag") ?? undefined,
+        })
+        .map((entry) => ({
+          ...withLatestRevision(entry),
+          ...withTally(entry.entryId),
+          ...withStatus(entry.entryId),
+        }))
+        .filter((entry) => includeHidden || (entry.status !== "hidden" && entry.status !== "removed"));
+      return send(res, 200, entries);
+    }
+
+    if (entryMatch) {
+      const entryId = Number(entryMatch[1]);
+      const entry = store.getEntry(entryId);
+      if (!entry) {
+        return send(res, 404, { error: "Entry not found" });
+      }
+      return send(res, 200, {
+        ...withLatestRevision(entry),
+        ...withTally(entryId),
+        ...withStatus(entryId),
+        revisions: store.getRevisions({ entryId }),
+        reports: store.getReports({ entryId }),
+        statusChanges: store.getStatusChanges({ entryId }),
+        votes: store.getVotes({ entryId }),
+        rewards: store.getRewards().filter((reward) => reward.entryId === entryId),
+        curatorRewards: store.getCuratorRewards({ entryId }),
+        tips: store.getTips({ entryId }),
+      });
+    }
+
+    if (url.pathname === "/votes") {
+      const entry = params.get("entry");
+      return send(res, 200, store.getVotes({
+        voter: params.get("voter") ?? undefined,
+        entryId: entry === null ? undefined : Number(entry),
+      }));
+    }
+
+    if (url.pathname === "/rewards") {
+      return send(res, 200, store.getRewards({ creator: params.get("creator") ?? undefined }));
+    }
+
+    if (url.pathname === "/rewards/totals") {
+      return send(res, 200, store.getRewardTotals());
+    }
+
+    if (url.pathname === "/rewards/skipped") {
+      return send(res, 200, store.getSkippedRewards({ creator: params.get("creator") ?? undefined }));
+    }
+
+    if (url.pathname === "/curation/claims") {
+      return send(res, 200, store.getCuratorClaims({ curator: params.get("curator") ?? undefined }));
+    }
+
+    if (url.pathname === "/tips") {
+      const entry = params.get("entry");
+      return send(res, 200, store.getTips({
+        entryId: entry === null ? undefined : Number(entry),
+        tipper: params.get("tipper") ?? undefined,
+        creator: params.get("creator") ?? undefined,
+      }));
+    }
+
+    if (url.pathname === "/moderation") {
+      const entry = params.get("entry");
+      const entryId = entry === null ? undefined : Number(entry);
+      const trail = [
+        ...store.getReports({ entryId }).map((report) => ({ type: "report", ...report })),
+        ...store.getStatusChanges({ entryId }).map((change) => ({ type: "status", ...change })),
+      ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+      return send(res, 200, trail);
+    }
+
+    send(res, 404, { error: "Not found" });
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,65 @@
+import { ethers } from "hardhat";
+import * as path from "path";
+import { loadDeployment } from "../scripts/utils/deployments";
+import { createApiServer } from "./api";
+import { Indexer } from "./indexer";
+import { IndexerStore } from "./store";
+
+// Configuration (all optional):
+//   INDEXER_START_BLOCK   first block to index (default: hub deployment block)
+//   INDEXER_DB            path of the JSON store (default: indexer-data/<chainId>.json)
+//   INDEXER_PORT          HTTP API port (default: 4000)
+//   INDEXER_POLL_MS       polling interval (default: 2000)
+//   INDEXER_REORG_DEPTH   recent blocks re-checked for reorgs (default: 12)
+
+async function main() {
+  const { chainId } = await ethers.provider.getNetwork();
+  const hub = loadDeployment(chainId)?.contracts.KnowledgeHub;
+  if (!hub) {
+    throw new Error(`No KnowledgeHub deployment found for chain ${chainId}. Run scripts/deploy.ts first.`);
+  }
+
+  const startBlock = Number(process.env.INDEXER_START_BLOCK ?? hub.blockNumber);
+  const dbPath = process.env.INDEXER_DB ?? path.join(__dirname, "..", "indexer-data", `${chainId}.json`);
+  const port = Number(process.env.INDEXER_PORT ?? 4000);
+  const pollMs = Number(process.env.INDEXER_POLL_MS ?? 2000);
+  const reorgDepth = Number(process.env.INDEXER_REORG_DEPTH ?? 12);
+
+  console.log("🔎 Starting Knowledge Hub indexer...");
+  console.log("   - Hub:", hub.address);
+  console.log("   - Store:", dbPath);
+
+  const store = IndexerStore.open(dbPath, Number(chainId), hub.address, startBlock);
+  console.log("   - Resuming after block:", store.checkpoint);
+
+  const indexer = new Indexer({
+    provider: ethers.provider,
+    hubAddress: hub.address,
+    store,
+    reorgDepth,
+    verbose: true,
+  });
+  indexer.start(pollMs);
+
+  const server = createApiServer(store);
+  server.listen(port, () => {
+    console.log(`🌐 Query API listening on http://localhost:${port}`);
+  });
+
+  // Finish the current sync before exiting so the store stays consistent
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+  console.log("\n🛑 Stopping indexer...");
+  server.close();
+  await indexer.stop();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Indexer failed:");
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,314 @@
+import { Interface, Provider } from "ethers";
+import { KnowledgeHub__factory } from "../typechain-types";
+import { formatCid } from "../frontend/src/utils/cid";
+import {
+  BlockRef,
+  CuratorClaimRecord,
+  CuratorRewardRecord,
+  TipRecord,
+  EntryRecord,
+  ENTRY_STATUSES,
+  IndexerStore,
+  ReportRecord,
+  RevisionRecord,
+  RewardRecord,
+  SkippedRewardRecord,
+  StatusChangeRecord,
+  VoteRecord,
+} from "./store";
+
+export interface IndexerOptions {
+  provider: Provider;
+  hubAddress: string;
+  store: IndexerStore;
+  // Maximum number of blocks fetched per eth_getLogs call
+  batchSize?: number;
+  // How many recent blocks are re-checked for reorgs on every sync
+  reorgDepth?: number;
+  // Log progress to the console
+  verbose?: boolean;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  // First block that was rolled back because of a reorg, if any
+  reorgedFrom?: number;
+  events: number;
+}
+
+/**
+ * Follows EntrySubmitted, EntryRevised, EntryVoted, VoteChanged, VoteRetracted,
+ * RewardDistributed, RewardSkipped, CuratorRewardAccrued, CuratorRewardsClaimed, EntryTipped,
+ * EntryReported and EntryStatusChanged events of a KnowledgeHub and persists them into an IndexerStore.
+ */
+export class Indexer {
+  private readonly provider: Provider;
+  private readonly hubAddress: string;
+  private readonly store: IndexerStore;
+  private readonly batchSize: number;
+  private readonly reorgDepth: number;
+  private readonly verbose: boolean;
+  private readonly hubInterface: Interface = KnowledgeHub__factory.createInterface();
+  private timer: NodeJS.Timeout | undefined;
+  private syncing: Promise<SyncResult> | undefined;
+
+  constructor(options: IndexerOptions) {
+    this.provider = options.provider;
+    this.hubAddress = options.hubAddress;
+    this.store = options.store;
+    this.batchSize = options.batchSize ?? 2000;
+    this.reorgDepth = options.reorgDepth ?? 12;
+    this.verbose = options.verbose ?? false;
+  }
+
+  /**
+   * Index everything up to the current head. Concurrent calls share one run.
+   */
+  sync(): Promise<SyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.syncOnce().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Keep syncing every `intervalMs` until stop() is called
+   */
+  start(intervalMs = 2000) {
+    const tick = async () => {
+      try {
+        const result = await this.sync();
+        if (this.verbose && (result.events > 0 || result.reorgedFrom !== undefined)) {
+          this.log(result);
+        }
+      } catch (error) {
+        console.error("❌ Indexer sync failed:", error);
+      }
+      if (this.timer) {
+        this.timer = setTimeout(tick, intervalMs);
+      }
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  async stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.syncing;
+  }
+
+  private async syncOnce(): Promise<SyncResult> {
+    const reorgedFrom = await this.detectReorg();
+    if (reorgedFrom !== undefined) {
+      this.store.rollback(reorgedFrom);
+    }
+
+    const head = await this.provider.getBlockNumber();
+    const fromBlock = this.store.checkpoint + 1;
+    let events = 0;
+
+    for (let start = fromBlock; start <= head; start += this.batchSize) {
+      const end = Math.min(start + this.batchSize - 1, head);
+      events += await this.indexRange(start, end, head);
+    }
+
+    return { fromBlock, toBlock: head, reorgedFrom, events };
+  }
+
+  /**
+   * Compare stored hashes of recent blocks with the chain
+   * @return The lowest block number that is no longer canonical, if any
+   */
+  private async detectReorg(): Promise<number | undefined> {
+    let reorgedFrom: number | undefined;
+
+    // Walk back from the newest block until the stored hash matches again
+    const recent = [...this.store.recentBlocks].reverse();
+    for (const stored of recent) {
+      const block = await this.provider.getBlock(stored.number);
+      if (block && block.hash === stored.hash) {
+        break;
+      }
+      reorgedFrom = stored.number;
+    }
+
+    return reorgedFrom;
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number, head: number): Promise<number> {
+    const logs = await this.provider.getLogs({ address: this.hubAddress, fromBlock, toBlock });
+
+    const timestamps = new Map<number, number>();
+    const getTimestamp = async (blockNumber: number) => {
+      if (!timestamps.has(blockNumber)) {
+        const block = await this.provider.getBlock(blockNumber);
+        timestamps.set(blockNumber, block!.timestamp);
+      }
+      return timestamps.get(blockNumber)!;
+    };
+
+    const entries: EntryRecord[] = [];
+    const revisions: RevisionRecord[] = [];
+    const votes: VoteRecord[] = [];
+    const rewards: RewardRecord[] = [];
+    const skippedRewards: SkippedRewardRecord[] = [];
+    const curatorRewards: CuratorRewardRecord[] = [];
+    const curatorClaims: CuratorClaimRecord[] = [];
+    const tips: TipRecord[] = [];
+    const reports: ReportRecord[] = [];
+    const statusChanges: StatusChangeRecord[] = [];
+
+    for (const log of logs) {
+      const parsed = this.hubInterface.parseLog(log);
+      if (!parsed) continue;
+
+      const base = {
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        timestamp: await getTimestamp(log.blockNumber),
+      };
+
+      switch (parsed.name) {
+        case "EntrySubmitted":
+          entries.push({
+            entryId: Number(parsed.args.entryId),
+            creator: parsed.args.creator,
+            title: parsed.args.title,
+            ipfsHash: formatCid({ version: 1, codec: Number(parsed.args.codec), digest: parsed.args.digest }),
+            category: parsed.args.category,
+            tags: [...parsed.args.tags],
+            ...base,
+          });
+          break;
+        case "EntryRevised":
+          revisions.push({
+            entryId: Number(parsed.args.entryId),
+            revision: Number(parsed.args.revision),
+            title: parsed.args.title,
+            ipfsHash: formatCid({ version: 1, codec: Number(parsed.args.codec), digest: parsed.args.digest }),
+            logIndex: log.index,
+            ...base,
+          });
+          break;
+        case "EntryVoted":
+        case "VoteChanged":
+          votes.push({
+            entryId: Number(parsed.args.entryId),
+            voter: parsed.args.voter,
+            action: parsed.name === "EntryVoted" ? "vote" : "change",
+            upvote: parsed.args.upvote,
+            weight: Number(parsed.args.weight),
+            logIndex: log.index,
+            ...base,
+          });
+          break;
+        case "VoteRetracted":
+          votes.push({
+            entryId: Number(parsed.args.entryId),
+            voter: parsed.args.voter,
+            action: "retract",
+            upvote: parsed.args.wasUpvote,
+            weight: Number(parsed.args.weight),
+            logIndex: log.index,
+            ...base,
+          });
+          break;
+        case "RewardDistributed":
+          rewards.push({
+            entryId: Number(parsed.args.entryId),
+            creator: parsed.args.creator,
+            amount: parsed.args.amount.toString(),
+            logIndex: log.index,
+            ...base,
+          });
+          break;
+        case "RewardSkipped":
+          skippedRewards.push({
+            entryId: Number(parsed.args.entryId),
+            creator: parsed.args.creator,
+            amount: parsed.args.amount.toString(),
+            reason: parsed.args.reason,
+            logIndex: log.index,
+            ...base,
+          });
+          break;
+        case "CuratorRewardAccrued":
+          curatorRewards.push({
+            entryId: Number(parsed.args.entryId),
+            amount: parsed.args.amount.toString(),
+            logIndex: log.index,
+            ...base,
+          });
+          break;
+        case "CuratorRewardsClaimed":
+          curatorClaims.push({
+            curator: parsed.args.curator,
+            amount: parsed.args.amount.toString(),
+            logIndex: log.index,
+            ...base,
+          });
+          break;
+        case "EntryTipped":
+          tips.push({
+            entryId: Number(parsed.args.entryId),
+            tipper: parsed.args.tipper,
+            creator: parsed.args.creator,
+            amount: parsed.args.amount.toString(),
+            logIndex: log.index,
+            ...base,
+          });
+          break;
+        case "EntryReported":
+          reports.push({
+            entryId: Number(parsed.args.entryId),
+            reporter: parsed.args.reporter,
+            reason: parsed.args.reason,
+            logIndex: log.index,
+            ...base,
+          });
+          break;
+        case "EntryStatusChanged":
+          statusChanges.push({
+            entryId: Number(parsed.args.entryId),
+            status: ENTRY_STATUSES[Number(parsed.args.status)],
+            actor: parsed.args.actor,
+            reason: parsed.args.reason,
+            logIndex: log.index,
+            ...base,
+          });
+          break;
+      }
+    }
+
+    // Remember the hashes of blocks close to the head for reorg detection
+    const blocks: BlockRef[] = [];
+    for (let n = Math.max(fromBlock, head - this.reorgDepth + 1); n <= toBlock; n++) {
+      const block = await this.provider.getBlock(n);
+      blocks.push({ number: n, hash: block!.hash! });
+    }
+
+    this.store.commit(
+      { entries, revisions, votes, rewards, skippedRewards, curatorRewards, curatorClaims, tips, reports, statusChanges },
+      toBlock,
+      blocks,
+      this.reorgDepth
+    );
+    return (
+      entries.length + revisions.length + votes.length + rewards.length +
+      skippedRewards.length + curatorRewards.length + curatorClaims.length +
+      tips.length + reports.length + statusChanges.length
+    );
+  }
+
+  private log(result: SyncResult) {
+    if (result.reorgedFrom !== undefined) {
+      console.log(`⚠️  Reorg detected, rolled back from block ${result.reorgedFrom}`);
+    }
+    console.log(`📥 Indexed ${result.events} events up to block ${result.toBlock}`);
+  }
+}
@@ -0,0 +1,431 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Records kept by the indexer. Every record carries the block it came from so
+ * that a reorg can be undone by dropping everything at or above a block number.
+ */
+export interface EntryRecord {
+  entryId: number;
+  creator: string;
+  title: string;
+  ipfsHash: string;
+  category: string;      // "" when uncategorized
+  tags: string[];
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;     // Block timestamp (Unix seconds)
+}
+
+export interface RevisionRecord {
+  entryId: number;
+  revision: number;      // 1 for the first revision; the original submission is 0
+  title: string;
+  ipfsHash: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+// "vote" for EntryVoted, "change" for VoteChanged, "retract" for VoteRetracted
+export type VoteAction = "vote" | "change" | "retract";
+
+export interface VoteRecord {
+  entryId: number;
+  voter: string;
+  action: VoteAction;
+  upvote: boolean;       // Direction after the action (for "retract", the withdrawn vote)
+  weight: number;        // Weight the vote was counted with (for "retract", the weight removed)
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface RewardRecord {
+  entryId: number;
+  creator: string;
+  amount: string;        // Wei, as a decimal string
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface SkippedRewardRecord {
+  entryId: number;
+  creator: string;
+  amount: string;        // Reward that was not paid, in wei
+  reason: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+// Part of an upvote reward set aside for the entry's earlier upvoters
+export interface CuratorRewardRecord {
+  entryId: number;
+  amount: string;        // Wei, as a decimal string
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface CuratorClaimRecord {
+  curator: string;
+  amount: string;        // Wei, as a decimal string
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+// KNOW a reader sent straight to an entry's creator
+export interface TipRecord {
+  entryId: number;
+  tipper: string;
+  creator: string;
+  amount: string;        // Wei, as a decimal string
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface ReportRecord {
+  entryId: number;
+  reporter: string;
+  reason: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+// Names of the contract's EntryStatus values, in enum order
+export const ENTRY_STATUSES = ["active", "flagged", "hidden", "removed"] as const;
+export type EntryStatus = (typeof ENTRY_STATUSES)[number];
+
+export interface StatusChangeRecord {
+  entryId: number;
+  status: EntryStatus;
+  actor: string;         // Moderator, or the reporter whose report flagged the entry
+  reason: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+interface StoreData {
+  version: number;
+  chainId: number;
+  hubAddress: string;
+  // Last block whose events are fully indexed
+  checkpoint: number;
+  // Hashes of the most recently indexed blocks, oldest first, used to detect reorgs
+  recentBlocks: BlockRef[];
+  entries: EntryRecord[];
+  revisions: RevisionRecord[];
+  votes: VoteRecord[];
+  rewards: RewardRecord[];
+  skippedRewards: SkippedRewardRecord[];
+  curatorRewards: CuratorRewardRecord[];
+  curatorClaims: CuratorClaimRecord[];
+  tips: TipRecord[];
+  reports: ReportRecord[];
+  statusChanges: StatusChangeRecord[];
+}
+
+const STORE_VERSION = 2;
+
+// Collections added to version 1 stores as the indexer learned new events
+type LateCollection =
+  | "revisions"
+  | "skippedRewards"
+  | "curatorRewards"
+  | "curatorClaims"
+  | "tips"
+  | "reports"
+  | "statusChanges";
+
+/**
+ * Layout of version 1 stores, which gained collections and fields in place, so a
+ * file may lack any of those added after it was created
+ */
+type StoreDataV1 = Omit<StoreData, "version" | "entries" | "votes" | LateCollection> &
+  Partial<Pick<StoreData, LateCollection>> & {
+    version: 1;
+    entries: (Omit<EntryRecord, "category" | "tags"> & Partial<Pick<EntryRecord, "category" | "tags">>)[];
+    // Votes indexed before weighting count as 1
+    votes: (Omit<VoteRecord, "weight"> & Partial<Pick<VoteRecord, "weight">>)[];
+  };
+
+function migrateFromV1(data: StoreDataV1): StoreData {
+  return {
+    ...data,
+    version: 2,
+    entries: data.entries.map((entry) => ({ ...entry, category: entry.category ?? "", tags: entry.tags ?? [] })),
+    votes: data.votes.map((vote) => ({ ...vote, weight: vote.weight ?? 1 })),
+    revisions: data.revisions ?? [],
+    skippedRewards: data.skippedRewards ?? [],
+    curatorRewards: data.curatorRewards ?? [],
+    curatorClaims: data.curatorClaims ?? [],
+    tips: data.tips ?? [],
+    reports: data.reports ?? [],
+    statusChanges: data.statusChanges ?? [],
+  };
+}
+
+/**
+ * Embedded JSON-file store for indexed hub events. Writes go to a temporary
+ * file first and are renamed into place, so a crash never leaves a torn file.
+ */
+export class IndexerStore {
+  private data: StoreData;
+
+  private constructor(private readonly filePath: string, data: StoreData) {
+    this.data = data;
+  }
+
+  /**
+   * Open the store at `filePath`, creating an empty one when it does not exist
+   * @param startBlock First block to index when the store is new
+   */
+  static open(filePath: string, chainId: number, hubAddress: string, startBlock: number): IndexerStore {
+    if (fs.existsSync(filePath)) {
+      const stored = JSON.parse(fs.readFileSync(filePath, "utf8")) as StoreData | StoreDataV1;
+      // The migrated layout is written back with the next commit
+      const data = stored.version === 1 ? migrateFromV1(stored as StoreDataV1) : stored;
+      if (data.version !== STORE_VERSION) {
+        throw new Error(`Unsupported indexer store version ${data.version} in ${filePath}`);
+      }
+      if (data.chainId !== chainId || data.hubAddress.toLowerCase() !== hubAddress.toLowerCase()) {
+        throw new Error(
+          `Indexer store ${filePath} belongs to hub ${data.hubAddress} on chain ${data.chainId}`
+        );
+      }
+      return new IndexerStore(filePath, data);
+    }
+
+    return new IndexerStore(filePath, {
+      version: STORE_VERSION,
+      chainId,
+      hubAddress,
+      checkpoint: startBlock - 1,
+      recentBlocks: [],
+      entries: [],
+      revisions: [],
+      votes: [],
+      rewards: [],
+      skippedRewards: [],
+      curatorRewards: [],
+      curatorClaims: [],
+      tips: [],
+      reports: [],
+      statusChanges: [],
+    });
+  }
+
+  get checkpoint(): number {
+    return this.data.checkpoint;
+  }
+
+  get recentBlocks(): readonly BlockRef[] {
+    return this.data.recentBlocks;
+  }
+
+  /**
+   * Append the records of a processed block range and advance the checkpoint
+   * @param maxRecentBlocks Number of block hashes to keep for reorg detection
+   */
+  commit(
+    batch: {
+      entries: EntryRecord[];
+      revisions: RevisionRecord[];
+      votes: VoteRecord[];
+      rewards: RewardRecord[];
+      skippedRewards: SkippedRewardRecord[];
+      curatorRewards: CuratorRewardRecord[];
+      curatorClaims: CuratorClaimRecord[];
+      tips: TipRecord[];
+      reports: ReportRecord[];
+      statusChanges: StatusChangeRecord[];
+    },
+    checkpoint: number,
+    blocks: BlockRef[],
+    maxRecentBlocks: number
+  ) {
+    this.data.entries.push(...batch.entries);
+    this.data.revisions.push(...batch.revisions);
+    this.data.votes.push(...batch.votes);
+    this.data.rewards.push(...batch.rewards);
+    this.data.skippedRewards.push(...batch.skippedRewards);
+    this.data.curatorRewards.push(...batch.curatorRewards);
+    this.data.curatorClaims.push(...batch.curatorClaims);
+    this.data.tips.push(...batch.tips);
+    this.data.reports.push(...batch.reports);
+    this.data.statusChanges.push(...batch.statusChanges);
+    this.data.checkpoint = checkpoint;
+
+    const recent = [...this.data.recentBlocks, ...blocks].sort((a, b) => a.number - b.number);
+    this.data.recentBlocks = recent.slice(-maxRecentBlocks);
+    this.save();
+  }
+
+  /**
+   * Drop every record from `fromBlock` onwards and rewind the checkpoint
+   */
+  rollback(fromBlock: number) {
+    const keep = (record: { blockNumber: number }) => record.blockNumber < fromBlock;
+    this.data.entries = this.data.entries.filter(keep);
+    this.data.revisions = this.data.revisions.filter(keep);
+    this.data.votes = this.data.votes.filter(keep);
+    this.data.rewards = this.data.rewards.filter(keep);
+    this.data.skippedRewards = this.data.skippedRewards.filter(keep);
+    this.data.curatorRewards = this.data.curatorRewards.filter(keep);
+    this.data.curatorClaims = this.data.curatorClaims.filter(keep);
+    this.data.tips = this.data.tips.filter(keep);
+    this.data.reports = this.data.reports.filter(keep);
+    this.data.statusChanges = this.data.statusChanges.filter(keep);
+    this.data.recentBlocks = this.data.recentBlocks.filter((block) => block.number < fromBlock);
+    this.data.checkpoint = Math.min(this.data.checkpoint, fromBlock - 1);
+    this.save();
+  }
+
+  getEntries(filter: { creator?: string; category?: string; tag?: string } = {}): EntryRecord[] {
+    return this.data.entries.filter(
+      (entry) =>
+        (!filter.creator || sameAddress(entry.creator, filter.creator)) &&
+        (!filter.category || entry.category === filter.category) &&
+        (!filter.tag || entry.tags.includes(filter.tag))
+    );
+  }
+
+  getEntry(entryId: number): EntryRecord | undefined {
+    return this.data.entries.find((entry) => entry.entryId === entryId);
+  }
+
+  getRevisions(filter: { entryId?: number } = {}): RevisionRecord[] {
+    return this.data.revisions.filter(
+      (revision) => filter.entryId === undefined || revision.entryId === filter.entryId
+    );
+  }
+
+  getVotes(filter: { voter?: string; entryId?: number } = {}): VoteRecord[] {
+    return this.data.votes.filter(
+      (vote) =>
+        (!filter.voter || sameAddress(vote.voter, filter.voter)) &&
+        (filter.entryId === undefined || vote.entryId === filter.entryId)
+    );
+  }
+
+  /**
+   * Current vote of every voter on an entry, after replaying changes and retractions
+   */
+  getCurrentVotes(entryId: number): { voter: string; upvote: boolean; weight: number }[] {
+    const current = new Map<string, { voter: string; upvote: boolean; weight: number }>();
+    for (const vote of this.getVotes({ entryId })) {
+      const key = vote.voter.toLowerCase();
+      if (vote.action === "retract") {
+        current.delete(key);
+      } else {
+        current.set(key, { voter: vote.voter, upvote: vote.upvote, weight: vote.weight });
+      }
+    }
+    return [...current.values()];
+  }
+
+  getRewards(filter: { creator?: string } = {}): RewardRecord[] {
+    return this.data.rewards.filter(
+      (reward) => !filter.creator || sameAddress(reward.creator, filter.creator)
+    );
+  }
+
+  getSkippedRewards(filter: { creator?: string } = {}): SkippedRewardRecord[] {
+    return this.data.skippedRewards.filter(
+      (skipped) => !filter.creator || sameAddress(skipped.creator, filter.creator)
+    );
+  }
+
+  getCuratorRewards(filter: { entryId?: number } = {}): CuratorRewardRecord[] {
+    return this.data.curatorRewards.filter(
+      (reward) => filter.entryId === undefined || reward.entryId === filter.entryId
+    );
+  }
+
+  getCuratorClaims(filter: { curator?: string } = {}): CuratorClaimRecord[] {
+    return this.data.curatorClaims.filter(
+      (claim) => !filter.curator || sameAddress(claim.curator, filter.curator)
+    );
+  }
+
+  getTips(filter: { entryId?: number; tipper?: string; creator?: string } = {}): TipRecord[] {
+    return this.data.tips.filter(
+      (tip) =>
+        (filter.entryId === undefined || tip.entryId === filter.entryId) &&
+        (!filter.tipper || sameAddress(tip.tipper, filter.tipper)) &&
+        (!filter.creator || sameAddress(tip.creator, filter.creator))
+    );
+  }
+
+  getReports(filter: { entryId?: number; reporter?: string } = {}): ReportRecord[] {
+    return this.data.reports.filter(
+      (report) =>
+        (filter.entryId === undefined || report.entryId === filter.entryId) &&
+        (!filter.reporter || sameAddress(report.reporter, filter.reporter))
+    );
+  }
+
+  getStatusChanges(filter: { entryId?: number } = {}): StatusChangeRecord[] {
+    return this.data.statusChanges.filter(
+      (change) => filter.entryId === undefined || change.entryId === filter.entryId
+    );
+  }
+
+  /**
+   * Moderation state of an entry after replaying its status changes
+   */
+  getCurrentStatus(entryId: number): EntryStatus {
+    const changes = this.getStatusChanges({ entryId });
+    return changes.length === 0 ? "active" : changes[changes.length - 1].status;
+  }
+
+  /**
+   * Total rewards received per creator, largest first
+   */
+  getRewardTotals(): { creator: string; total: string; count: number }[] {
+    const totals = new Map<string, { creator: string; total: bigint; count: number }>();
+    for (const reward of this.data.rewards) {
+      const key = reward.creator.toLowerCase();
+      const current = totals.get(key) ?? { creator: reward.creator, total: 0n, count: 0 };
+      current.total += BigInt(reward.amount);
+      current.count += 1;
+      totals.set(key, current);
+    }
+
+    return [...totals.values()]
+      .sort((a, b) => (a.total === b.total ? 0 : a.total > b.total ? -1 : 1))
+      .map(({ creator, total, count }) => ({ creator, total: total.toString(), count }));
+  }
+
+  private save() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    // Compact, since the whole store is rewritten on every commit
+    fs.writeFileSync(tmpPath, JSON.stringify(this.data));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
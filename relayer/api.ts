@@ -0,0 +1,85 @@
+import * as http from "http";
+import { ForwardRequestData, RelayError, Relayer } from "./relayer";
+
+// Largest request body accepted, in bytes
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Small HTTP/JSON API in front of the relayer
+ *
+ *   POST /relay                    execute a signed ForwardRequest
+ *                                  { from, to, value, gas, deadline, data, signature }
+ *                                  and answer { transactionHash, remaining }
+ *   GET  /quota?address=0x..       requests the address can still relay
+ *   GET  /status                   forwarder, hub and relayer account
+ */
+export function createRelayerServer(
+  relayer: Relayer,
+  info: { forwarder: string; hub: string; relayer: string }
+): http.Server {
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    // Let browser frontends on other origins post signed requests
+    if (req.method === "OPTIONS") {
+      return send(res, 204, undefined);
+    }
+
+    if (req.method === "GET" && url.pathname === "/status") {
+      return send(res, 200, info);
+    }
+
+    if (req.method === "GET" && url.pathname === "/quota") {
+      const address = url.searchParams.get("address");
+      if (!address) {
+        return send(res, 400, { error: "Missing address" });
+      }
+      return send(res, 200, { address, remaining: relayer.remaining(address) });
+    }
+
+    if (req.method === "POST" && url.pathname === "/relay") {
+      let request: ForwardRequestData;
+      try {
+        request = JSON.parse(await readBody(req));
+      } catch {
+        return send(res, 400, { error: "Invalid JSON body" });
+      }
+
+      try {
+        return send(res, 200, await relayer.relay(request));
+      } catch (error) {
+        if (error instanceof RelayError) {
+          return send(res, error.status, { error: error.message });
+        }
+        console.error("❌ Relay failed:", error);
+        return send(res, 500, { error: "Relay failed" });
+      }
+    }
+
+    send(res, 404, { error: "Not found" });
+  });
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
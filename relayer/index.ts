@@ -0,0 +1,62 @@
+import hre, { ethers } from "hardhat";
+import { loadDeployment } from "../scripts/utils/deployments";
+import { getSigner } from "../scripts/utils/signer";
+import { createRelayerServer } from "./api";
+import { Relayer } from "./relayer";
+
+// Configuration (all optional):
+//   RELAYER_PORT        HTTP API port (default: 4100)
+//   RELAYER_QUOTA       requests relayed per address and window (default: 20)
+//   RELAYER_WINDOW_MS   quota window (default: 86400000, one day)
+//   RELAYER_MAX_GAS     largest gas limit a request may ask for (default: 1000000)
+// Gas is paid by the network's first configured account.
+
+async function main() {
+  const { chainId } = await ethers.provider.getNetwork();
+  const contracts = loadDeployment(chainId)?.contracts;
+  if (!contracts?.KnowledgeHub || !contracts.KnowledgeForwarder) {
+    throw new Error(`No KnowledgeHub and KnowledgeForwarder deployment found for chain ${chainId}. Run scripts/deploy.ts first.`);
+  }
+
+  const port = Number(process.env.RELAYER_PORT ?? 4100);
+  const signer = await getSigner(hre);
+  const forwarder = await ethers.getContractAt("KnowledgeForwarder", contracts.KnowledgeForwarder.address, signer);
+
+  console.log("📨 Starting Knowledge Hub relayer...");
+  console.log("   - Forwarder:", contracts.KnowledgeForwarder.address);
+  console.log("   - Hub:", contracts.KnowledgeHub.address);
+  console.log("   - Paying gas from:", signer.address);
+  console.log("   - Balance:", ethers.formatEther(await ethers.provider.getBalance(signer.address)), "ETH");
+
+  const relayer = new Relayer({
+    forwarder,
+    hubAddress: contracts.KnowledgeHub.address,
+    quota: process.env.RELAYER_QUOTA ? Number(process.env.RELAYER_QUOTA) : undefined,
+    windowMs: process.env.RELAYER_WINDOW_MS ? Number(process.env.RELAYER_WINDOW_MS) : undefined,
+    maxGas: process.env.RELAYER_MAX_GAS ? BigInt(process.env.RELAYER_MAX_GAS) : undefined,
+  });
+
+  const server = createRelayerServer(relayer, {
+    forwarder: contracts.KnowledgeForwarder.address,
+    hub: contracts.KnowledgeHub.address,
+    relayer: signer.address,
+  });
+  server.listen(port, () => {
+    console.log(`🌐 Relayer listening on http://localhost:${port}`);
+  });
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+  console.log("\n🛑 Stopping relayer...");
+  server.close();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Relayer failed:");
+    console.error(error);
+    process.exit(1);
+  });
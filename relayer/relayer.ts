@@ -0,0 +1,211 @@
+import { Signer, TypedDataDomain, isCallException } from "ethers";
+import { KnowledgeForwarder, KnowledgeHub__factory } from "../typechain-types";
+import { ERC2771Forwarder } from "../typechain-types/contracts/KnowledgeForwarder";
+
+export type ForwardRequestData = ERC2771Forwarder.ForwardRequestDataStruct;
+
+// Hub functions the relayer pays gas for; everything else needs a normal transaction
+export const RELAYABLE_FUNCTIONS = [
+  "submitEntry",
+  "submitEntryWithTags",
+  "voteOnEntry",
+  "changeVote",
+  "retractVote",
+] as const;
+
+// EIP-712 type of a forwarded call, as defined by OpenZeppelin's ERC2771Forwarder
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+/**
+ * A request the relayer refused, with the HTTP status the API answers with
+ */
+export class RelayError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "RelayError";
+  }
+}
+
+/**
+ * Revert data of a failed call. ethers reports it on CALL_EXCEPTION errors; node
+ * errors, e.g. Hardhat's, carry it as their data or nest it under data.data
+ */
+function getRevertData(error: unknown): string | undefined {
+  if (isCallException(error)) {
+    return error.data ?? undefined;
+  }
+  const data = error instanceof Error && "data" in error ? error.data : undefined;
+  if (typeof data === "string") {
+    return data;
+  }
+  return typeof data === "object" && data !== null && "data" in data && typeof data.data === "string"
+    ? data.data
+    : undefined;
+}
+
+export interface RelayerOptions {
+  // Forwarder connected to the signer that pays for relayed transactions
+  forwarder: KnowledgeForwarder;
+  hubAddress: string;
+  // Maximum number of requests relayed per signer within `windowMs`
+  quota?: number;
+  windowMs?: number;
+  // Upper bound on the gas a request may ask for
+  maxGas?: bigint;
+  // Clock used for quota windows (Unix milliseconds)
+  now?: () => number;
+}
+
+export interface RelayResult {
+  transactionHash: string;
+  remaining: number;
+}
+
+/**
+ * Sign a hub call as an EIP-712 ForwardRequest for the forwarder
+ * @param signer Account the hub will see as the caller
+ * @param data Encoded hub call, e.g. from KnowledgeHub.interface.encodeFunctionData
+ * @param options gas forwarded to the hub and seconds until the request expires
+ */
+export async function signForwardRequest(
+  signer: Signer,
+  forwarder: KnowledgeForwarder,
+  hubAddress: string,
+  data: string,
+  options: { gas?: bigint; ttlSeconds?: number } = {}
+): Promise<ForwardRequestData> {
+  const from = await signer.getAddress();
+  const provider = signer.provider!;
+  const { chainId } = await provider.getNetwork();
+  const { timestamp } = (await provider.getBlock("latest"))!;
+
+  const request = {
+    from,
+    to: hubAddress,
+    value: 0n,
+    gas: options.gas ?? 1_000_000n,
+    nonce: await forwarder.nonces(from),
+    deadline: BigInt(timestamp + (options.ttlSeconds ?? 3600)),
+    data,
+  };
+  const domain: TypedDataDomain = {
+    name: "KnowledgeForwarder",
+    version: "1",
+    chainId,
+    verifyingContract: await forwarder.getAddress(),
+  };
+  const signature = await signer.signTypedData(domain, FORWARD_REQUEST_TYPES, request);
+
+  const { nonce, ...forwarded } = request;
+  return { ...forwarded, signature };
+}
+
+/**
+ * Pays gas for signed submit and vote requests and executes them through the
+ * KnowledgeForwarder, limiting how many requests each signer can relay.
+ */
+export class Relayer {
+  private readonly forwarder: KnowledgeForwarder;
+  private readonly hubAddress: string;
+  private readonly quota: number;
+  private readonly windowMs: number;
+  private readonly maxGas: bigint;
+  private readonly now: () => number;
+  private readonly hubInterface = KnowledgeHub__factory.createInterface();
+  // Times of relayed requests per signer (lowercase address), oldest first
+  private readonly usage = new Map<string, number[]>();
+
+  constructor(options: RelayerOptions) {
+    this.forwarder = options.forwarder;
+    this.hubAddress = options.hubAddress;
+    this.quota = options.quota ?? 20;
+    this.windowMs = options.windowMs ?? 24 * 60 * 60 * 1000;
+    this.maxGas = options.maxGas ?? 1_000_000n;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Number of requests a signer can still relay in the current window
+   */
+  remaining(address: string): number {
+    return this.quota - this.recentUsage(address).length;
+  }
+
+  /**
+   * Validate a signed request and execute it
+   * @throws RelayError when the request is not relayable, over quota, badly
+   *         signed or expired, or would revert in the hub
+   */
+  async relay(request: ForwardRequestData): Promise<RelayResult> {
+    const from = String(request.from);
+
+    if (String(request.to).toLowerCase() !== this.hubAddress.toLowerCase()) {
+      throw new RelayError("Only KnowledgeHub calls can be relayed", 400);
+    }
+    if (BigInt(request.value) !== 0n) {
+      throw new RelayError("Relayed calls cannot send ETH", 400);
+    }
+    if (BigInt(request.gas) > this.maxGas) {
+      throw new RelayError(`Requested gas exceeds the limit of ${this.maxGas}`, 400);
+    }
+
+    const call = this.hubInterface.parseTransaction({ data: String(request.data) });
+    if (!call || !(RELAYABLE_FUNCTIONS as readonly string[]).includes(call.name)) {
+      throw new RelayError(`${call?.name ?? "Unknown function"} cannot be relayed`, 400);
+    }
+
+    // Reserve a slot before any await so concurrent requests cannot exceed the quota
+    const usage = this.recentUsage(from);
+    if (usage.length >= this.quota) {
+      throw new RelayError("Relay quota exceeded, try again later", 429);
+    }
+    const reservedAt = this.now();
+    usage.push(reservedAt);
+
+    try {
+      if (!(await this.forwarder.verify(request))) {
+        throw new RelayError("Invalid signature, nonce or deadline", 400);
+      }
+
+      // The forwarder hides the hub's revert reason, so simulate the call as the signer first
+      const simulated = { from, to: this.hubAddress, data: String(request.data) };
+      try {
+        await this.forwarder.runner!.provider!.call(simulated);
+      } catch (error: unknown) {
+        const revertData = getRevertData(error);
+        const reason = revertData
+          ? this.hubInterface.makeError(revertData, simulated).reason
+          : isCallException(error) ? error.reason : null;
+        throw new RelayError(reason || "Call would revert", 400);
+      }
+
+      const tx = await this.forwarder.execute(request);
+      const receipt = await tx.wait();
+      return { transactionHash: receipt!.hash, remaining: this.remaining(from) };
+    } catch (error) {
+      // Failed requests do not count against the quota
+      const times = this.recentUsage(from);
+      const index = times.indexOf(reservedAt);
+      if (index !== -1) times.splice(index, 1);
+      throw error;
+    }
+  }
+
+  private recentUsage(address: string): number[] {
+    const key = address.toLowerCase();
+    const cutoff = this.now() - this.windowMs;
+    const times = (this.usage.get(key) ?? []).filter((time) => time > cutoff);
+    this.usage.set(key, times);
+    return times;
+  }
+}
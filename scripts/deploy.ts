@@ -1,113 +1,350 @@
-import { ethers } from "hardhat";
+import hre, { artifacts, ethers, network, upgrades } from "hardhat";
+import {
+  ContractDeployment,
+  ContractName,
+  DeploymentManifest,
+  MANIFEST_VERSION,
+  hashBytecode,
+  loadDeployment,
+  saveDeployment,
+} from "./utils/deployments";
+import { getSigner } from "./utils/signer";
 
-async function main() {
-  console.log("🚀 Starting deployment of Knowledge Hub contracts...\n");
+// Set FORCE_REDEPLOY=true to ignore an existing manifest and deploy fresh contracts
+const FORCE_REDEPLOY = process.env.FORCE_REDEPLOY === "true";
+
+// Governance settings; the defaults assume ~12 second blocks
+const TIMELOCK_DELAY = Number(process.env.TIMELOCK_DELAY ?? 2 * 24 * 60 * 60); // seconds
+const VOTING_DELAY = Number(process.env.GOVERNOR_VOTING_DELAY ?? 7200);        // blocks (~1 day)
+const VOTING_PERIOD = Number(process.env.GOVERNOR_VOTING_PERIOD ?? 50400);     // blocks (~1 week)
+const PROPOSAL_THRESHOLD = ethers.parseEther(process.env.GOVERNOR_PROPOSAL_THRESHOLD ?? "100"); // KNOW
+const QUORUM_PERCENT = Number(process.env.GOVERNOR_QUORUM_PERCENT ?? 4);
+
+/**
+ * Check whether a manifest entry was deployed with these constructor and
+ * initializer arguments
+ */
+function deployedWith(
+  existing: ContractDeployment | undefined,
+  args: unknown[],
+  initializerArgs?: unknown[]
+): existing is ContractDeployment {
+  return (
+    existing !== undefined &&
+    JSON.stringify(existing.args) === JSON.stringify(args) &&
+    JSON.stringify(existing.initializerArgs) === JSON.stringify(initializerArgs)
+  );
+}
+
+/**
+ * Check whether a manifest entry was built from this bytecode. Entries recorded
+ * without a hash are trusted to match
+ */
+function builtFrom(existing: ContractDeployment, bytecodeHash: string): boolean {
+  return existing.bytecodeHash === undefined || existing.bytecodeHash === bytecodeHash;
+}
+
+async function getBytecodeHash(name: ContractName): Promise<string> {
+  return hashBytecode((await artifacts.readArtifact(name)).bytecode);
+}
+
+/**
+ * Deploy a contract, or reuse the one recorded in the manifest when it is still
+ * on chain and was deployed with the same arguments and bytecode. Passing
+ * `initializerArgs` deploys the contract behind a UUPS proxy that is initialized
+ * with them; a proxy built from other bytecode is kept, since redeploying it would
+ * lose its state, and has to be upgraded instead.
+ */
+export async function deployOrReuse(
+  name: ContractName,
+  args: unknown[],
+  previous: DeploymentManifest | undefined,
+  initializerArgs?: unknown[]
+): Promise<{ address: string; deployment: ContractDeployment; reused: boolean }> {
+  const existing = previous?.contracts[name];
+  const bytecodeHash = await getBytecodeHash(name);
+
+  if (deployedWith(existing, args, initializerArgs)) {
+    const code = await ethers.provider.getCode(existing.address);
+    if (code === "0x") {
+      console.log(`⚠️  ${name} from the manifest has no code at ${existing.address}, redeploying`);
+    } else if (builtFrom(existing, bytecodeHash)) {
+      return { address: existing.address, deployment: existing, reused: true };
+    } else if (initializerArgs) {
+      console.log(`⚠️  ${name} at ${existing.address} runs older bytecode; upgrade it with scripts/upgrade-hub.ts`);
+      return { address: existing.address, deployment: existing, reused: true };
+    } else {
+      console.log(`⚠️  ${name} at ${existing.address} was built from older bytecode, redeploying`);
+    }
+  }
+
+  const factory = await ethers.getContractFactory(name);
+  const contract = initializerArgs
+    ? await upgrades.deployProxy(factory, initializerArgs, { kind: "uups", constructorArgs: args })
+    : await factory.deploy(...args);
+  await contract.waitForDeployment();
+
+  const receipt = await contract.deploymentTransaction()!.wait();
+  const address = await contract.getAddress();
 
+  return {
+    address,
+    deployment: {
+      address,
+      abi: (await artifacts.readArtifact(name)).abi,
+      args,
+      blockNumber: receipt!.blockNumber,
+      transactionHash: receipt!.hash,
+      bytecodeHash,
+      ...(initializerArgs && {
+        initializerArgs,
+        implementation: await upgrades.erc1967.getImplementationAddress(address),
+      }),
+    },
+    reused: false,
+  };
+}
+
+/**
+ * Deploy every contract and hand control to governance, reusing the contracts of
+ * `previous` that still match
+ * @param onDeployed Called with the manifest so far after each new deployment
+ * @return The manifest of the deployment, for the caller to save
+ */
+export async function deployContracts(
+  previous: DeploymentManifest | undefined,
+  onDeployed: (manifest: DeploymentManifest) => void = () => {}
+): Promise<DeploymentManifest> {
   // Get the deployer account
-  const [deployer] = await ethers.getSigners();
+  const deployer = await getSigner(hre);
   console.log("📝 Deploying contracts with account:", deployer.address);
   console.log("💰 Account balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "ETH\n");
 
+  const { chainId } = await ethers.provider.getNetwork();
+  const manifest: DeploymentManifest = {
+    version: MANIFEST_VERSION,
+    chainId: Number(chainId),
+    network: network.name,
+    deployer: deployer.address,
+    updatedAt: new Date().toISOString(),
+    contracts: { ...previous?.contracts },
+  };
+
+  // Hand over the manifest as soon as a contract is deployed, so a run that fails
+  // part way resumes from what it already paid for
+  const record = (name: ContractName, result: { deployment: ContractDeployment; reused: boolean }) => {
+    manifest.contracts[name] = result.deployment;
+    if (!result.reused) {
+      manifest.updatedAt = new Date().toISOString();
+      onDeployed(manifest);
+    }
+  };
+
   // Deploy KnowledgeToken first
   console.log("🪙 Deploying KnowledgeToken...");
-  const KnowledgeTokenFactory = await ethers.getContractFactory("KnowledgeToken");
-  const knowledgeToken = await KnowledgeTokenFactory.deploy(deployer.address);
-  await knowledgeToken.waitForDeployment();
-  
-  const tokenAddress = await knowledgeToken.getAddress();
-  console.log("✅ KnowledgeToken deployed to:", tokenAddress);
+  const token = await deployOrReuse("KnowledgeToken", [deployer.address], previous);
+  record("KnowledgeToken", token);
+  const tokenAddress = token.address;
+  const knowledgeToken = await ethers.getContractAt("KnowledgeToken", tokenAddress);
+  console.log(token.reused ? "♻️  KnowledgeToken reused at:" : "✅ KnowledgeToken deployed to:", tokenAddress);
   console.log("   - Name:", await knowledgeToken.name());
   console.log("   - Symbol:", await knowledgeToken.symbol());
-  console.log("   - Owner:", await knowledgeToken.owner());
+  console.log("   - Max supply:", ethers.formatEther(await knowledgeToken.cap()), "KNOW");
+  console.log();
+
+  // Deploy the forwarder that relays signed (gasless) requests to the hub
+  console.log("📨 Deploying KnowledgeForwarder...");
+  const forwarder = await deployOrReuse("KnowledgeForwarder", [], previous);
+  record("KnowledgeForwarder", forwarder);
+  const forwarderAddress = forwarder.address;
+  console.log(forwarder.reused ? "♻️  KnowledgeForwarder reused at:" : "✅ KnowledgeForwarder deployed to:", forwarderAddress);
   console.log();
 
-  // Deploy KnowledgeHub
+  // Deploy KnowledgeHub behind an upgradeable proxy; the forwarder is fixed in the implementation
   console.log("🏛️  Deploying KnowledgeHub...");
-  const KnowledgeHubFactory = await ethers.getContractFactory("KnowledgeHub");
-  const knowledgeHub = await KnowledgeHubFactory.deploy(tokenAddress);
-  await knowledgeHub.waitForDeployment();
-  
-  const hubAddress = await knowledgeHub.getAddress();
-  console.log("✅ KnowledgeHub deployed to:", hubAddress);
+  const hub = await deployOrReuse("KnowledgeHub", [forwarderAddress], previous, [tokenAddress, deployer.address]);
+  record("KnowledgeHub", hub);
+  const hubAddress = hub.address;
+  const knowledgeHub = await ethers.getContractAt("KnowledgeHub", hubAddress);
+  console.log(hub.reused ? "♻️  KnowledgeHub reused at:" : "✅ KnowledgeHub deployed to:", hubAddress);
+  console.log("   - Implementation:", await upgrades.erc1967.getImplementationAddress(hubAddress));
   console.log("   - Token address:", await knowledgeHub.knowledgeToken());
-  console.log("   - Upvote reward:", ethers.formatEther(await knowledgeHub.UPVOTE_REWARD()), "KNOW");
+  console.log("   - Trusted forwarder:", await knowledgeHub.trustedForwarder());
+  console.log("   - Upvote reward:", ethers.formatEther(await knowledgeHub.upvoteReward()), "KNOW");
+  console.log("   - Stake to vote:", ethers.formatEther(await knowledgeHub.minVoteStake()), "KNOW");
   console.log();
 
-  // Mint initial tokens to the hub contract for reward distribution
-  const initialRewardPool = ethers.parseEther("100000"); // 100,000 KNOW tokens
-  console.log("💎 Minting initial reward pool...");
-  console.log("   - Amount:", ethers.formatEther(initialRewardPool), "KNOW tokens");
-  
-  const mintTx = await knowledgeToken.mint(hubAddress, initialRewardPool);
-  await mintTx.wait();
+  // Let the hub mint rewards on demand instead of pre-funding an idle pool
+  const minterRole = await knowledgeToken.MINTER_ROLE();
+  const adminRole = await knowledgeToken.DEFAULT_ADMIN_ROLE();
+  console.log("🔑 Granting MINTER_ROLE to KnowledgeHub...");
+  if (await knowledgeToken.hasRole(minterRole, hubAddress)) {
+    console.log("✅ KnowledgeHub is already a minter");
+  } else if (!(await knowledgeToken.hasRole(adminRole, deployer.address))) {
+    console.log("⚠️  The token is governed by the timelock; propose grantRole(MINTER_ROLE, hub) with gov:propose");
+  } else {
+    const grantTx = await knowledgeToken.grantRole(minterRole, hubAddress);
+    await grantTx.wait();
+    console.log("✅ KnowledgeHub can now mint rewards");
+  }
   
   const hubTokenBalance = await knowledgeToken.balanceOf(hubAddress);
-  console.log("✅ Reward pool minted successfully");
   console.log("   - Hub contract balance:", ethers.formatEther(hubTokenBalance), "KNOW");
   console.log();
 
   // Optional: Mint some tokens to the deployer for testing
-  const deployerTokens = ethers.parseEther("10000"); // 10,000 KNOW tokens
-  console.log("🎁 Minting tokens to deployer for testing...");
-  const deployerMintTx = await knowledgeToken.mint(deployer.address, deployerTokens);
-  await deployerMintTx.wait();
+  if (!token.reused) {
+    const deployerTokens = ethers.parseEther("10000"); // 10,000 KNOW tokens
+    console.log("🎁 Minting tokens to deployer for testing...");
+    const deployerMintTx = await knowledgeToken.mint(deployer.address, deployerTokens);
+    await deployerMintTx.wait();
+    console.log("✅ Deployer tokens minted");
+  }
   
   const deployerBalance = await knowledgeToken.balanceOf(deployer.address);
-  console.log("✅ Deployer tokens minted");
   console.log("   - Deployer balance:", ethers.formatEther(deployerBalance), "KNOW");
+
+  // Voting power only counts once delegated
+  if ((await knowledgeToken.delegates(deployer.address)) === ethers.ZeroAddress) {
+    const delegateTx = await knowledgeToken.delegate(deployer.address);
+    await delegateTx.wait();
+  }
+  console.log("   - Deployer voting power:", ethers.formatEther(await knowledgeToken.getVotes(deployer.address)), "KNOW");
+  console.log();
+
+  const timelockArgs = [TIMELOCK_DELAY, [], [ethers.ZeroAddress], deployer.address];
+  // Manifests are JSON, so the threshold is recorded as a decimal string
+  const governorArgs = (timelockAddress: string) =>
+    [tokenAddress, timelockAddress, VOTING_DELAY, VOTING_PERIOD, PROPOSAL_THRESHOLD.toString(), QUORUM_PERCENT];
+
+  // Once the recorded timelock holds the roles, the deployer cannot move them to a
+  // new timelock and governor, which would then control nothing
+  const recorded = previous?.contracts;
+  if (recorded && (await ethers.provider.getCode(recorded.KnowledgeTimelock.address)) !== "0x") {
+    const recordedTimelock = await ethers.getContractAt("KnowledgeTimelock", recorded.KnowledgeTimelock.address);
+    const handedOff = !(await recordedTimelock.hasRole(await recordedTimelock.DEFAULT_ADMIN_ROLE(), deployer.address));
+    if (
+      handedOff &&
+      !(
+        deployedWith(recorded.KnowledgeTimelock, timelockArgs) &&
+        builtFrom(recorded.KnowledgeTimelock, await getBytecodeHash("KnowledgeTimelock")) &&
+        deployedWith(recorded.KnowledgeGovernor, governorArgs(recorded.KnowledgeTimelock.address)) &&
+        builtFrom(recorded.KnowledgeGovernor, await getBytecodeHash("KnowledgeGovernor"))
+      )
+    ) {
+      throw new Error(
+        `Governance already controls this deployment through KnowledgeTimelock at ${recorded.KnowledgeTimelock.address}. ` +
+          "Change its delay and the governor's settings with a proposal (gov:propose), " +
+          "or set FORCE_REDEPLOY=true to deploy a new hub with new governance"
+      );
+    }
+  }
+
+  // Deploy the timelock that will own the hub, with the deployer as temporary admin
+  console.log("⏳ Deploying KnowledgeTimelock...");
+  const timelock = await deployOrReuse("KnowledgeTimelock", timelockArgs, previous);
+  record("KnowledgeTimelock", timelock);
+  const timelockAddress = timelock.address;
+  const knowledgeTimelock = await ethers.getContractAt("KnowledgeTimelock", timelockAddress);
+  console.log(timelock.reused ? "♻️  KnowledgeTimelock reused at:" : "✅ KnowledgeTimelock deployed to:", timelockAddress);
+  console.log("   - Execution delay:", TIMELOCK_DELAY, "seconds");
+  console.log();
+
+  // Deploy the governor KNOW holders vote through
+  console.log("🗳️  Deploying KnowledgeGovernor...");
+  const governor = await deployOrReuse("KnowledgeGovernor", governorArgs(timelockAddress), previous);
+  record("KnowledgeGovernor", governor);
+  const governorAddress = governor.address;
+  console.log(governor.reused ? "♻️  KnowledgeGovernor reused at:" : "✅ KnowledgeGovernor deployed to:", governorAddress);
+  console.log("   - Voting delay:", VOTING_DELAY, "blocks");
+  console.log("   - Voting period:", VOTING_PERIOD, "blocks");
+  console.log("   - Proposal threshold:", ethers.formatEther(PROPOSAL_THRESHOLD), "KNOW");
+  console.log("   - Quorum:", QUORUM_PERCENT, "% of the total supply");
+  console.log();
+
+  // Hand the hub and the token's admin and minter roles to the timelock
+  console.log("🏛️  Handing control to governance...");
+  const proposerRole = await knowledgeTimelock.PROPOSER_ROLE();
+  const cancellerRole = await knowledgeTimelock.CANCELLER_ROLE();
+  const timelockAdminRole = await knowledgeTimelock.DEFAULT_ADMIN_ROLE();
+  for (const role of [proposerRole, cancellerRole]) {
+    if (!(await knowledgeTimelock.hasRole(role, governorAddress))) {
+      await (await knowledgeTimelock.grantRole(role, governorAddress)).wait();
+    }
+  }
+  if (await knowledgeTimelock.hasRole(timelockAdminRole, deployer.address)) {
+    await (await knowledgeTimelock.renounceRole(timelockAdminRole, deployer.address)).wait();
+  }
+  if ((await knowledgeHub.owner()) === deployer.address) {
+    await (await knowledgeHub.transferOwnership(timelockAddress)).wait();
+  }
+  if (await knowledgeToken.hasRole(adminRole, deployer.address)) {
+    for (const role of [adminRole, minterRole]) {
+      if (!(await knowledgeToken.hasRole(role, timelockAddress))) {
+        await (await knowledgeToken.grantRole(role, timelockAddress)).wait();
+      }
+    }
+    // The deployer keeps PAUSER_ROLE as an emergency brake; governance can revoke it
+    await (await knowledgeToken.renounceRole(minterRole, deployer.address)).wait();
+    await (await knowledgeToken.renounceRole(adminRole, deployer.address)).wait();
+  }
+  console.log("✅ KnowledgeHub owner:", await knowledgeHub.owner());
+  console.log("   - Token minters: KnowledgeHub and KnowledgeTimelock");
+  console.log("   - Only KnowledgeGovernor can queue timelock operations");
   console.log();
 
   // Display final summary
   console.log("🎉 DEPLOYMENT COMPLETE!");
   console.log("=" .repeat(50));
   console.log("📋 Contract Addresses:");
-  console.log("   🪙 KnowledgeToken:", tokenAddress);
-  console.log("   🏛️  KnowledgeHub:  ", hubAddress);
+  console.log("   🪙 KnowledgeToken:    ", tokenAddress);
+  console.log("   📨 KnowledgeForwarder:", forwarderAddress);
+  console.log("   🏛️  KnowledgeHub:      ", hubAddress);
+  console.log("   ⏳ KnowledgeTimelock: ", timelockAddress);
+  console.log("   🗳️  KnowledgeGovernor: ", governorAddress);
   console.log();
   console.log("📊 Token Distribution:");
-  console.log("   💎 Reward Pool:    ", ethers.formatEther(hubTokenBalance), "KNOW");
+  console.log("   💎 Reward Pool:    ", ethers.formatEther(hubTokenBalance), "KNOW (rewards are minted once empty)");
   console.log("   🎁 Deployer:       ", ethers.formatEther(deployerBalance), "KNOW");
   console.log("   📈 Total Supply:   ", ethers.formatEther(await knowledgeToken.totalSupply()), "KNOW");
   console.log();
   console.log("🚀 Ready for hackathon demo!");
   console.log("   - Users can now submit knowledge entries");
-  console.log("   - Voting rewards are funded and ready");
-  console.log("   - Each upvote rewards", ethers.formatEther(await knowledgeHub.UPVOTE_REWARD()), "KNOW tokens");
+  console.log("   - Voters must stake", ethers.formatEther(await knowledgeHub.minVoteStake()), "KNOW first (npx hardhat hub:stake)");
+  console.log("   - Voting rewards are minted on demand by the hub");
+  console.log("   - Each upvote rewards", ethers.formatEther(await knowledgeHub.upvoteReward()), "KNOW tokens");
+  console.log("   - Gasless submissions and votes: npx hardhat run relayer/index.ts");
+  console.log("   - Hub parameters change through proposals: npx hardhat gov:propose");
+  console.log("   - Hub upgrades: npx hardhat run scripts/upgrade-hub.ts");
   console.log();
 
-  // Save deployment info to a file for frontend integration
-  const deploymentInfo = {
-    network: await ethers.provider.getNetwork(),
-    timestamp: new Date().toISOString(),
-    deployer: deployer.address,
-    contracts: {
-      KnowledgeToken: {
-        address: tokenAddress,
-        name: await knowledgeToken.name(),
-        symbol: await knowledgeToken.symbol()
-      },
-      KnowledgeHub: {
-        address: hubAddress,
-        upvoteReward: ethers.formatEther(await knowledgeHub.UPVOTE_REWARD())
-      }
-    },
-    tokenDistribution: {
-      rewardPool: ethers.formatEther(hubTokenBalance),
-      deployer: ethers.formatEther(deployerBalance),
-      totalSupply: ethers.formatEther(await knowledgeToken.totalSupply())
-    }
-  };
+  manifest.updatedAt = new Date().toISOString();
+  return manifest;
+}
+
+async function main() {
+  console.log("🚀 Starting deployment of Knowledge Hub contracts...\n");
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const previous = FORCE_REDEPLOY ? undefined : loadDeployment(chainId);
+  if (previous) {
+    console.log(`📂 Found deployment manifest for chain ${chainId}, reusing matching contracts`);
+    console.log("   (set FORCE_REDEPLOY=true to deploy fresh contracts)\n");
+  }
 
-  // Note: In a real deployment, you might want to save this to a JSON file
-  console.log("📄 Deployment info (save this for frontend integration):");
-  console.log(JSON.stringify(deploymentInfo, null, 2));
+  // Save the deployment manifest for the frontend, tasks and indexer
+  const manifest = await deployContracts(previous, saveDeployment);
+  const manifestPath = saveDeployment(manifest);
+  console.log("📄 Deployment manifest written to:", manifestPath);
 }
 
-// Handle deployment errors
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error("❌ Deployment failed:");
-    console.error(error);
-    process.exit(1);
-  });
+// Only deploy when run as a script; tests import deployContracts directly
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Deployment failed:");
+      console.error(error);
+      process.exit(1);
+    });
+}
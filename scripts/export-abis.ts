@@ -0,0 +1,50 @@
+import { artifacts } from "hardhat";
+import { glob, runTypeChain } from "typechain";
+import * as fs from "fs";
+import * as path from "path";
+
+// Contracts the frontend talks to
+const CONTRACTS = ["KnowledgeHub", "KnowledgeToken", "KnowledgeForwarder"];
+
+const FRONTEND_CONTRACTS_DIR = path.join(__dirname, "..", "frontend", "src", "contracts");
+const ABI_DIR = path.join(FRONTEND_CONTRACTS_DIR, "abis");
+const TYPES_DIR = path.join(FRONTEND_CONTRACTS_DIR, "types");
+
+async function main() {
+  console.log("📦 Exporting contract ABIs for the frontend...\n");
+
+  fs.mkdirSync(ABI_DIR, { recursive: true });
+
+  // Copy only the ABI out of each Hardhat artifact (no bytecode in the bundle)
+  for (const name of CONTRACTS) {
+    const artifact = await artifacts.readArtifact(name);
+    const abiPath = path.join(ABI_DIR, `${name}.json`);
+    fs.writeFileSync(abiPath, JSON.stringify(artifact.abi, null, 2) + "\n");
+    console.log("✅", name, "ABI written to:", path.relative(process.cwd(), abiPath));
+  }
+  console.log();
+
+  // Generate ethers-v6 typings from the exported ABIs
+  console.log("🧬 Generating TypeChain typings...");
+  fs.rmSync(TYPES_DIR, { recursive: true, force: true });
+
+  const cwd = process.cwd();
+  const allFiles = glob(cwd, [`${ABI_DIR}/*.json`]);
+  const result = await runTypeChain({
+    cwd,
+    filesToProcess: allFiles,
+    allFiles,
+    outDir: TYPES_DIR,
+    target: "ethers-v6",
+  });
+
+  console.log("✅ Generated", result.filesGenerated, "files in:", path.relative(cwd, TYPES_DIR));
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ ABI export failed:");
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,85 @@
+import hre, { artifacts, ethers, upgrades } from "hardhat";
+import { hashBytecode, loadDeployment, saveDeployment } from "./utils/deployments";
+import { getSigner } from "./utils/signer";
+
+// Configuration (all optional):
+//   HUB_IMPLEMENTATION   contract to upgrade to (default: KnowledgeHub)
+//   HUB_MIGRATION        no-argument reinitializer to call during the upgrade, e.g. initializeV2
+
+const IMPLEMENTATION = process.env.HUB_IMPLEMENTATION ?? "KnowledgeHub";
+const MIGRATION = process.env.HUB_MIGRATION;
+
+async function main() {
+  console.log("🔧 Upgrading the KnowledgeHub proxy...\n");
+
+  const deployer = await getSigner(hre);
+  const { chainId } = await ethers.provider.getNetwork();
+  const manifest = loadDeployment(chainId);
+  const hubDeployment = manifest?.contracts.KnowledgeHub;
+  if (!manifest || !hubDeployment) {
+    throw new Error(`No KnowledgeHub deployment found for chain ${chainId}. Run scripts/deploy.ts first.`);
+  }
+  if (!hubDeployment.implementation) {
+    throw new Error("The recorded KnowledgeHub is not behind a proxy. Redeploy it with FORCE_REDEPLOY=true.");
+  }
+
+  const hubAddress = hubDeployment.address;
+  const knowledgeHub = await ethers.getContractAt("KnowledgeHub", hubAddress);
+  // The forwarder is immutable in the implementation, so the new one must be built with the same address
+  const forwarderAddress = await knowledgeHub.trustedForwarder();
+  const currentImplementation = await upgrades.erc1967.getImplementationAddress(hubAddress);
+  console.log("📝 Proxy:", hubAddress);
+  console.log("   - Current implementation:", currentImplementation, `(version ${await knowledgeHub.version()})`);
+  console.log("   - Trusted forwarder:", forwarderAddress);
+  console.log();
+
+  // Checks the storage layout against the current implementation before deploying anything
+  console.log(`🔍 Validating and deploying ${IMPLEMENTATION}...`);
+  const factory = await ethers.getContractFactory(IMPLEMENTATION);
+  const implementation = (await upgrades.prepareUpgrade(hubAddress, factory, {
+    kind: "uups",
+    constructorArgs: [forwarderAddress],
+  })) as string;
+  const migrationData = MIGRATION ? factory.interface.encodeFunctionData(MIGRATION) : "0x";
+  console.log("✅ Storage layout is compatible");
+  console.log("   - New implementation:", implementation);
+  if (MIGRATION) {
+    console.log("   - Migration:", `${MIGRATION}()`);
+  }
+  console.log();
+
+  const owner = await knowledgeHub.owner();
+  if (currentImplementation.toLowerCase() === implementation.toLowerCase()) {
+    console.log("✅ The hub already runs this implementation");
+  } else if (owner === deployer.address) {
+    console.log("⬆️  Upgrading the proxy...");
+    const tx = await knowledgeHub.upgradeToAndCall(implementation, migrationData);
+    await tx.wait();
+    console.log("✅ KnowledgeHub upgraded, now at version", await knowledgeHub.version());
+  } else {
+    // Governance owns the hub, so the upgrade has to be voted on
+    console.log("🏛️  The hub is owned by", owner);
+    console.log("   Propose the upgrade, then rerun this script once it is executed to update the manifest:");
+    console.log(
+      `   npx hardhat gov:propose --description "Upgrade KnowledgeHub" --upgrade ${implementation}` +
+        (MIGRATION ? ` --upgrade-call ${MIGRATION}` : "")
+    );
+    return;
+  }
+
+  hubDeployment.implementation = implementation;
+  const artifact = await artifacts.readArtifact(IMPLEMENTATION);
+  hubDeployment.abi = artifact.abi;
+  hubDeployment.bytecodeHash = hashBytecode(artifact.bytecode);
+  manifest.updatedAt = new Date().toISOString();
+  const manifestPath = saveDeployment(manifest);
+  console.log("📄 Deployment manifest updated:", manifestPath);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Upgrade failed:");
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,148 @@
+import { keccak256 } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+// Bump when the manifest layout changes in a non-backwards-compatible way
+export const MANIFEST_VERSION = 1;
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "..", "deployments");
+
+// Address book bundled with the frontend (CRA cannot import outside src/)
+export const FRONTEND_ADDRESS_BOOK = path.join(
+  __dirname, "..", "..", "frontend", "src", "contracts", "deployments.json"
+);
+
+// Local chain whose throwaway addresses stay out of the tracked address book
+export const LOCAL_CHAIN_ID = 31337;
+
+// Git-ignored env file the frontend's development server reads local addresses from
+export const FRONTEND_LOCAL_ENV = path.join(__dirname, "..", "..", "frontend", ".env.development.local");
+
+// Variable of FRONTEND_LOCAL_ENV holding the local chain's address book entry
+export const LOCAL_DEPLOYMENT_VARIABLE = "REACT_APP_LOCAL_DEPLOYMENT";
+
+/**
+ * A single deployed contract as recorded in the manifest
+ */
+export interface ContractDeployment {
+  address: string;
+  abi: any[];
+  args: unknown[];       // Constructor arguments, used to decide whether it can be reused
+  blockNumber: number;   // Block the deployment transaction was mined in
+  transactionHash: string;
+  // Set for contracts behind a UUPS proxy, where `address` is the proxy and
+  // `args` go to the implementation constructor
+  initializerArgs?: unknown[];
+  implementation?: string;
+  // keccak256 of the creation bytecode (the implementation's, for proxies); absent
+  // from manifests written before it was recorded
+  bytecodeHash?: string;
+}
+
+/**
+ * Everything deployed to one chain, stored as deployments/<chainId>.json
+ */
+export interface DeploymentManifest {
+  version: number;
+  chainId: number;
+  network: string;
+  deployer: string;
+  updatedAt: string;
+  contracts: Record<string, ContractDeployment>;
+}
+
+export type ContractName =
+  | "KnowledgeToken"
+  | "KnowledgeForwarder"
+  | "KnowledgeHub"
+  | "KnowledgeTimelock"
+  | "KnowledgeGovernor";
+
+/**
+ * Hash a contract's creation bytecode, which changes whenever its source or the
+ * compiler settings do
+ */
+export function hashBytecode(bytecode: string): string {
+  return keccak256(bytecode);
+}
+
+/**
+ * Path of the manifest for a chain
+ */
+export function getManifestPath(chainId: number | bigint): string {
+  return path.join(DEPLOYMENTS_DIR, `${chainId}.json`);
+}
+
+/**
+ * Read the manifest for a chain
+ * @return The manifest, or undefined when the chain has never been deployed to
+ */
+export function loadDeployment(chainId: number | bigint): DeploymentManifest | undefined {
+  const manifestPath = getManifestPath(chainId);
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeploymentManifest;
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(
+      `Unsupported deployment manifest version ${manifest.version} in ${manifestPath} (expected ${MANIFEST_VERSION})`
+    );
+  }
+  return manifest;
+}
+
+/**
+ * Resolve a contract address from the manifest, failing with a helpful message
+ */
+export function getDeployedAddress(chainId: number | bigint, name: ContractName): string {
+  const manifest = loadDeployment(chainId);
+  const deployment = manifest?.contracts[name];
+  if (!deployment) {
+    throw new Error(
+      `No ${name} deployment found for chain ${chainId}. Run scripts/deploy.ts against this network first.`
+    );
+  }
+  return deployment.address;
+}
+
+/**
+ * Write the manifest for a chain and mirror its addresses into the frontend.
+ * Local chain addresses go to FRONTEND_LOCAL_ENV instead of the tracked address book.
+ */
+export function saveDeployment(manifest: DeploymentManifest): string {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  const manifestPath = getManifestPath(manifest.chainId);
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+
+  const entry = Object.fromEntries(
+    Object.entries(manifest.contracts).map(([name, deployment]) => [
+      name,
+      { address: deployment.address, blockNumber: deployment.blockNumber },
+    ])
+  );
+
+  if (manifest.chainId === LOCAL_CHAIN_ID) {
+    saveLocalFrontendDeployment(entry);
+  } else {
+    const addressBook = fs.existsSync(FRONTEND_ADDRESS_BOOK)
+      ? JSON.parse(fs.readFileSync(FRONTEND_ADDRESS_BOOK, "utf8"))
+      : {};
+    addressBook[manifest.chainId] = entry;
+    fs.writeFileSync(FRONTEND_ADDRESS_BOOK, JSON.stringify(addressBook, null, 2) + "\n");
+  }
+
+  return manifestPath;
+}
+
+/**
+ * Set LOCAL_DEPLOYMENT_VARIABLE in FRONTEND_LOCAL_ENV, keeping the file's other lines
+ */
+function saveLocalFrontendDeployment(entry: Record<string, { address: string; blockNumber: number }>) {
+  const lines = fs.existsSync(FRONTEND_LOCAL_ENV)
+    ? fs.readFileSync(FRONTEND_LOCAL_ENV, "utf8").split("\n").filter((line) => line !== "")
+    : [];
+  const kept = lines.filter((line) => !line.startsWith(`${LOCAL_DEPLOYMENT_VARIABLE}=`));
+  kept.push(`${LOCAL_DEPLOYMENT_VARIABLE}=${JSON.stringify(entry)}`);
+  fs.writeFileSync(FRONTEND_LOCAL_ENV, kept.join("\n") + "\n");
+}
@@ -0,0 +1,37 @@
+import { Signature, Signer } from "ethers";
+import { KnowledgeToken } from "../../typechain-types";
+
+// EIP-712 type of an ERC20 permit (EIP-2612)
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * Sign an EIP-2612 permit letting `spender` transfer `value` KNOW from the signer
+ * @param deadline Unix seconds after which the permit can no longer be used
+ * @returns The split signature, as taken by `permit` and `tipEntryWithPermit`
+ */
+export async function signPermit(
+  signer: Signer,
+  token: KnowledgeToken,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<Signature> {
+  const owner = await signer.getAddress();
+  const { chainId } = await signer.provider!.getNetwork();
+  const domain = {
+    name: await token.name(),
+    version: "1",
+    chainId,
+    verifyingContract: await token.getAddress(),
+  };
+  const message = { owner, spender, value, nonce: await token.nonces(owner), deadline };
+  return Signature.from(await signer.signTypedData(domain, PERMIT_TYPES, message));
+}
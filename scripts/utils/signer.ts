@@ -0,0 +1,18 @@
+import { HardhatPluginError } from "hardhat/plugins";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * The account transactions are sent from: the network's first configured
+ * account. Remote networks only have one once PRIVATE_KEY is set (see
+ * hardhat.config.ts).
+ */
+export async function getSigner(hre: HardhatRuntimeEnvironment) {
+  const [signer] = await hre.ethers.getSigners();
+  if (!signer) {
+    throw new HardhatPluginError(
+      "hub",
+      `No account configured for ${hre.network.name}. Set one with: npx hardhat vars set PRIVATE_KEY`
+    );
+  }
+  return signer;
+}
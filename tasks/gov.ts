@@ -0,0 +1,215 @@
+import { task } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getDeployedAddress } from "../scripts/utils/deployments";
+import { getSigner } from "../scripts/utils/signer";
+import { printJson, withRevertReason } from "./utils";
+
+/**
+ * Hardhat tasks for proposing and voting on hub changes through the
+ * KnowledgeGovernor. Contract addresses are resolved from deployments/<chainId>.json.
+ */
+
+async function getGovernance(hre: HardhatRuntimeEnvironment) {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const [knowledgeGovernor, knowledgeHub, knowledgeToken] = await Promise.all([
+    hre.ethers.getContractAt("KnowledgeGovernor", getDeployedAddress(chainId, "KnowledgeGovernor")),
+    hre.ethers.getContractAt("KnowledgeHub", getDeployedAddress(chainId, "KnowledgeHub")),
+    hre.ethers.getContractAt("KnowledgeToken", getDeployedAddress(chainId, "KnowledgeToken")),
+  ]);
+  return { knowledgeGovernor, knowledgeHub, knowledgeToken };
+}
+
+// Names of the governor's ProposalState values, in enum order
+const PROPOSAL_STATES = ["pending", "active", "canceled", "defeated", "succeeded", "queued", "expired", "executed"];
+
+// Vote types accepted by gov:vote, in GovernorCountingSimple order
+const VOTE_TYPES = ["against", "for", "abstain"];
+
+task("gov:delegate", "Delegate your KNOW voting power (to yourself unless --to is given)")
+  .addOptionalParam("to", "Account to delegate to")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ to, json }, hre) => {
+    const { knowledgeToken } = await getGovernance(hre);
+    const signer = await getSigner(hre);
+    const delegatee = to ?? signer.address;
+
+    const receipt = await withRevertReason(async () => {
+      const tx = await knowledgeToken.delegate(delegatee);
+      return tx.wait();
+    });
+    const votes = await knowledgeToken.getVotes(delegatee);
+
+    if (json) {
+      printJson({ delegatee, votes, transactionHash: receipt!.hash });
+      return;
+    }
+    console.log(`✅ Delegated your voting power to ${delegatee}`);
+    console.log("   - Their voting power:", hre.ethers.formatEther(votes), "KNOW");
+  });
+
+task("gov:propose", "Propose changes to the hub for KNOW holders to vote on")
+  .addParam("description", "What the proposal does and why")
+  .addOptionalParam("reward", "New reward per upvote in KNOW")
+  .addOptionalParam("moderator", "Account to appoint as a moderator")
+  .addFlag("revoke", "Remove --moderator's role instead of granting it")
+  .addOptionalParam("fund", "Amount of KNOW to mint into the reward pool")
+  .addOptionalParam("upgrade", "New hub implementation to upgrade the proxy to (see scripts/upgrade-hub.ts)")
+  .addOptionalParam("upgradeCall", "No-argument migration function to call on the new implementation")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ description, reward, moderator, revoke, fund, upgrade, upgradeCall, json }, hre) => {
+    const { knowledgeGovernor, knowledgeHub, knowledgeToken } = await getGovernance(hre);
+    const hubAddress = await knowledgeHub.getAddress();
+
+    const targets: string[] = [];
+    const calldatas: string[] = [];
+    if (reward !== undefined) {
+      targets.push(hubAddress);
+      calldatas.push(knowledgeHub.interface.encodeFunctionData("setUpvoteReward", [hre.ethers.parseEther(reward)]));
+    }
+    if (moderator !== undefined) {
+      targets.push(hubAddress);
+      calldatas.push(knowledgeHub.interface.encodeFunctionData("setModerator", [moderator, !revoke]));
+    }
+    if (fund !== undefined) {
+      targets.push(await knowledgeToken.getAddress());
+      calldatas.push(knowledgeToken.interface.encodeFunctionData("mint", [hubAddress, hre.ethers.parseEther(fund)]));
+    }
+    if (upgrade !== undefined) {
+      const migration = upgradeCall
+        ? new hre.ethers.Interface([`function ${upgradeCall}()`]).encodeFunctionData(upgradeCall)
+        : "0x";
+      targets.push(hubAddress);
+      calldatas.push(knowledgeHub.interface.encodeFunctionData("upgradeToAndCall", [upgrade, migration]));
+    }
+    if (targets.length === 0) {
+      throw new HardhatPluginError("hub", "Pass --reward, --moderator, --fund and/or --upgrade");
+    }
+    const values = targets.map(() => 0n);
+
+    const receipt = await withRevertReason(async () => {
+      const tx = await knowledgeGovernor.propose(targets, values, calldatas, description);
+      return tx.wait();
+    });
+    const proposalId = await knowledgeGovernor.getProposalId(targets, values, calldatas, hre.ethers.id(description));
+    const voteStart = await knowledgeGovernor.proposalSnapshot(proposalId);
+    const voteEnd = await knowledgeGovernor.proposalDeadline(proposalId);
+
+    if (json) {
+      printJson({ proposalId, actions: targets.length, voteStart, voteEnd, transactionHash: receipt!.hash });
+      return;
+    }
+    console.log(`✅ Proposal created with ${targets.length} action(s)`);
+    console.log("   - Proposal ID:", proposalId.toString());
+    console.log(`   - Voting runs from block ${voteStart} to ${voteEnd}`);
+  });
+
+task("gov:vote", "Vote on a proposal")
+  .addParam("id", "Proposal ID")
+  .addOptionalParam("support", "for, against or abstain", "for")
+  .addOptionalParam("reason", "Reason recorded with the vote", "")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, support, reason, json }, hre) => {
+    const { knowledgeGovernor } = await getGovernance(hre);
+    const voteType = VOTE_TYPES.indexOf(support);
+    if (voteType === -1) {
+      throw new HardhatPluginError("hub", `Unknown vote "${support}" (expected for, against or abstain)`);
+    }
+
+    const receipt = await withRevertReason(async () => {
+      const tx = await knowledgeGovernor.castVoteWithReason(id, voteType, reason);
+      return tx.wait();
+    });
+    const [againstVotes, forVotes, abstainVotes] = await knowledgeGovernor.proposalVotes(id);
+
+    if (json) {
+      printJson({ proposalId: id, support, forVotes, againstVotes, abstainVotes, transactionHash: receipt!.hash });
+      return;
+    }
+    console.log(`✅ Voted ${support} on proposal ${id}`);
+    console.log(
+      `   - Tally: ${hre.ethers.formatEther(forVotes)} for, ${hre.ethers.formatEther(againstVotes)} against,`,
+      `${hre.ethers.formatEther(abstainVotes)} abstain (KNOW)`
+    );
+  });
+
+task("gov:queue", "Queue a succeeded proposal in the timelock")
+  .addParam("id", "Proposal ID")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, json }, hre) => {
+    const { knowledgeGovernor } = await getGovernance(hre);
+
+    const receipt = await withRevertReason(async () => {
+      const tx = await knowledgeGovernor["queue(uint256)"](id);
+      return tx.wait();
+    });
+    const eta = await knowledgeGovernor.proposalEta(id);
+
+    if (json) {
+      printJson({ proposalId: id, eta, transactionHash: receipt!.hash });
+      return;
+    }
+    console.log(`✅ Queued proposal ${id}`);
+    console.log("   - Executable from:", new Date(Number(eta) * 1000).toISOString());
+  });
+
+task("gov:execute", "Execute a queued proposal once its timelock delay has passed")
+  .addParam("id", "Proposal ID")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, json }, hre) => {
+    const { knowledgeGovernor } = await getGovernance(hre);
+
+    const receipt = await withRevertReason(async () => {
+      const tx = await knowledgeGovernor["execute(uint256)"](id);
+      return tx.wait();
+    });
+
+    if (json) {
+      printJson({ proposalId: id, transactionHash: receipt!.hash });
+      return;
+    }
+    console.log(`✅ Executed proposal ${id}`);
+    console.log("   - Transaction:", receipt!.hash);
+  });
+
+task("gov:proposals", "List proposals with their state and tally")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ json }, hre) => {
+    const { knowledgeGovernor } = await getGovernance(hre);
+    const count = await knowledgeGovernor.proposalCount();
+
+    const proposals = [];
+    for (let i = 0n; i < count; i++) {
+      const { proposalId, targets } = await knowledgeGovernor.proposalDetailsAt(i);
+      const [againstVotes, forVotes, abstainVotes] = await knowledgeGovernor.proposalVotes(proposalId);
+      proposals.push({
+        proposalId,
+        actions: targets.length,
+        state: PROPOSAL_STATES[Number(await knowledgeGovernor.state(proposalId))],
+        voteEnd: await knowledgeGovernor.proposalDeadline(proposalId),
+        forVotes,
+        againstVotes,
+        abstainVotes,
+      });
+    }
+
+    if (json) {
+      printJson(proposals);
+      return;
+    }
+    if (proposals.length === 0) {
+      console.log("No proposals found");
+      return;
+    }
+    console.table(
+      proposals.map((proposal) => ({
+        ID: `${proposal.proposalId.toString().slice(0, 10)}...`,
+        State: proposal.state,
+        Actions: proposal.actions,
+        "Ends at block": Number(proposal.voteEnd),
+        For: hre.ethers.formatEther(proposal.forVotes),
+        Against: hre.ethers.formatEther(proposal.againstVotes),
+        Abstain: hre.ethers.formatEther(proposal.abstainVotes),
+      }))
+    );
+  });
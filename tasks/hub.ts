@@ -0,0 +1,709 @@
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { KnowledgeHub } from "../typechain-types";
+import { getDeployedAddress } from "../scripts/utils/deployments";
+import { signPermit } from "../scripts/utils/permit";
+import { getSigner } from "../scripts/utils/signer";
+import { encodeCid, formatCid, storedCid } from "../frontend/src/utils/cid";
+import { printJson, withRevertReason } from "./utils";
+
+/**
+ * Hardhat tasks for operating a deployed Knowledge Hub from the terminal.
+ * Contract addresses are resolved from deployments/<chainId>.json.
+ */
+
+async function getContracts(hre: HardhatRuntimeEnvironment) {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const knowledgeHub = await hre.ethers.getContractAt(
+    "KnowledgeHub",
+    getDeployedAddress(chainId, "KnowledgeHub")
+  );
+  const knowledgeToken = await hre.ethers.getContractAt(
+    "KnowledgeToken",
+    getDeployedAddress(chainId, "KnowledgeToken")
+  );
+  return { knowledgeHub, knowledgeToken };
+}
+
+// Entries fetched per page when listing
+const PAGE_SIZE = 100n;
+
+// Names of the contract's EntryStatus values, in enum order
+const ENTRY_STATUSES = ["active", "flagged", "hidden", "removed"];
+
+// Actions accepted by hub:moderate
+const MODERATION_ACTIONS = ["hide", "restore", "remove"] as const;
+
+// Binary CIDv1 the hub takes for a CID given on the command line
+function toHubCid(cid: string) {
+  try {
+    return encodeCid(cid);
+  } catch (error) {
+    throw new HardhatPluginError("hub", `Invalid CID "${cid}": ${(error as Error).message}`);
+  }
+}
+
+async function getEntryRow(knowledgeHub: KnowledgeHub, id: bigint) {
+  return toRow(await knowledgeHub.getEntry(id));
+}
+
+function toRow(entry: KnowledgeHub.KnowledgeEntryStructOutput) {
+  return {
+    id: Number(entry.id),
+    creator: entry.creator,
+    title: entry.title,
+    ipfsHash: storedCid(entry.ipfsHash, entry.content),
+    category: entry.category,
+    tags: [...entry.tags],
+    voteCount: Number(entry.voteCount),
+    upvotes: Number(entry.upvotes),
+    downvotes: Number(entry.downvotes),
+    weightedUpvotes: Number(entry.weightedUpvotes),
+    weightedDownvotes: Number(entry.weightedDownvotes),
+    createdAt: new Date(Number(entry.timestamp) * 1000).toISOString(),
+    updatedAt: entry.updatedAt === 0n ? null : new Date(Number(entry.updatedAt) * 1000).toISOString(),
+    status: ENTRY_STATUSES[Number(entry.status)],
+    reportCount: Number(entry.reportCount),
+  };
+}
+
+task("hub:submit", "Submit a knowledge entry")
+  .addParam("title", "Title of the entry")
+  .addParam("cid", "IPFS CID of the entry content (CIDv0 or CIDv1, sha2-256)")
+  .addOptionalParam("category", "Category label, e.g. scaling", "")
+  .addOptionalParam("tags", "Comma-separated tag labels, e.g. l2,rollups", "")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ title, cid, category, tags, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+    const tagList = (tags as string).split(",").map((tag) => tag.trim()).filter((tag) => tag !== "");
+    const content = toHubCid(cid);
+
+    const receipt = await withRevertReason(async () => {
+      const tx = await knowledgeHub.submitEntryWithTags(title, content, category, tagList);
+      return tx.wait();
+    });
+
+    const event = receipt!.logs
+      .map((log) => knowledgeHub.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "EntrySubmitted");
+    const entryId = event!.args.entryId as bigint;
+    const ipfsHash = formatCid({ version: 1, codec: Number(event!.args.codec), digest: event!.args.digest });
+
+    if (json) {
+      printJson({ entryId, ipfsHash, transactionHash: receipt!.hash });
+      return;
+    }
+    console.log(`✅ Entry #${entryId} submitted`);
+    console.log("   - CID:", ipfsHash);
+    console.log("   - Transaction:", receipt!.hash);
+  });
+
+task("hub:update", "Publish a revision of one of your entries")
+  .addParam("id", "Entry ID", undefined, types.int)
+  .addOptionalParam("title", "New title (defaults to the current one)")
+  .addOptionalParam("cid", "IPFS CID of the new content (defaults to the current one)")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, title, cid, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+    if (title === undefined && cid === undefined) {
+      throw new HardhatPluginError("hub", "Pass --title and/or --cid");
+    }
+
+    const content = cid === undefined ? undefined : toHubCid(cid);
+
+    const receipt = await withRevertReason(async () => {
+      const current = await knowledgeHub.getEntry(id);
+      const tx = await knowledgeHub.updateEntry(id, title ?? current.title, content ?? toHubCid(storedCid(current.ipfsHash, current.content)));
+      return tx.wait();
+    });
+
+    const event = receipt!.logs
+      .map((log) => knowledgeHub.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "EntryRevised");
+    const revision = event!.args.revision as bigint;
+
+    if (json) {
+      printJson({ entryId: id, revision, transactionHash: receipt!.hash });
+      return;
+    }
+    console.log(`✅ Entry #${id} revised (revision ${revision})`);
+    console.log("   - Transaction:", receipt!.hash);
+  });
+
+task("hub:revisions", "Show the revision history of an entry")
+  .addParam("id", "Entry ID", undefined, types.int)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+    const [revisions, contents] = await withRevertReason(() => knowledgeHub.getRevisions(id));
+    const rows = revisions.map((revision, index) => ({
+      revision: index,
+      title: revision.title,
+      ipfsHash: storedCid(revision.ipfsHash, contents[index]),
+      publishedAt: new Date(Number(revision.timestamp) * 1000).toISOString(),
+    }));
+
+    if (json) {
+      printJson(rows);
+      return;
+    }
+    console.table(rows);
+  });
+
+task("hub:vote", "Vote on a knowledge entry (upvote unless --down is given)")
+  .addParam("id", "Entry ID", undefined, types.int)
+  .addFlag("down", "Cast a downvote")
+  .addFlag("change", "Flip your existing vote on the entry")
+  .addFlag("retract", "Withdraw your existing vote on the entry")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, down, change, retract, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+    if (change && retract) {
+      throw new HardhatPluginError("hub", "Use either --change or --retract, not both");
+    }
+
+    const action = retract ? "retract" : change ? "change" : "vote";
+    const receipt = await withRevertReason(async () => {
+      const tx = retract
+        ? await knowledgeHub.retractVote(id)
+        : change
+          ? await knowledgeHub.changeVote(id)
+          : await knowledgeHub.voteOnEntry(id, !down);
+      return tx.wait();
+    });
+
+    const [hasVoted, isUpvote] = await knowledgeHub.getVoteStatus(id, receipt!.from);
+    const vote = hasVoted ? (isUpvote ? "up" : "down") : "none";
+    const weight = await knowledgeHub.voteWeights(id, receipt!.from);
+
+    if (json) {
+      printJson({ entryId: id, action, vote, weight, transactionHash: receipt!.hash });
+      return;
+    }
+    const verb = { vote: down ? "Downvoted" : "Upvoted", change: "Changed vote on", retract: "Retracted vote on" }[action];
+    console.log(`✅ ${verb} entry #${id} (current vote: ${vote}${hasVoted ? `, weight ${weight}` : ""})`);
+    console.log("   - Transaction:", receipt!.hash);
+  });
+
+task("hub:batch-vote", "Vote on several entries in one transaction (upvotes unless --down is given)")
+  .addParam("ids", "Comma-separated entry IDs")
+  .addFlag("down", "Cast downvotes")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ ids, down, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+    const entryIds = String(ids).split(",").map((id) => BigInt(id.trim()));
+
+    const receipt = await withRevertReason(async () => {
+      const tx = await knowledgeHub.batchVote(entryIds, entryIds.map(() => !down));
+      return tx.wait();
+    });
+
+    // Each item emits EntryVoted or, when it broke a rule, VoteSkipped, in batch order
+    const results = receipt!.logs
+      .map((log) => knowledgeHub.interface.parseLog(log))
+      .filter((event) => event?.name === "EntryVoted" || event?.name === "VoteSkipped")
+      .map((event) => ({
+        entryId: event!.args.entryId as bigint,
+        voted: event!.name === "EntryVoted",
+        reason: event!.name === "VoteSkipped" ? (event!.args.reason as string) : "",
+      }));
+
+    if (json) {
+      printJson({ results, transactionHash: receipt!.hash });
+      return;
+    }
+    const skipped = results.filter((result) => !result.voted);
+    console.log(`✅ ${down ? "Downvoted" : "Upvoted"} ${results.length - skipped.length} of ${results.length} entries`);
+    for (const { entryId, reason } of skipped) {
+      console.log(`   - Skipped #${entryId}: ${reason}`);
+    }
+    console.log("   - Transaction:", receipt!.hash);
+  });
+
+task("hub:list", "List knowledge entries")
+  .addOptionalParam("creator", "Only show entries created by this address")
+  .addOptionalParam("category", "Only show entries in this category")
+  .addOptionalParam("tag", "Only show entries with this tag")
+  .addOptionalParam("sort", "Sort order: newest, oldest, votes or weighted", "newest")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ creator, category, tag, sort, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+
+    // Page through the narrowest on-chain index, then apply the remaining filters
+    const [total, getPage] = creator
+      ? [await knowledgeHub.getCreatorEntryCount(creator),
+         (offset: bigint) => knowledgeHub.getEntriesByCreatorPage(creator, offset, PAGE_SIZE)]
+      : category
+        ? [await knowledgeHub.getCategoryEntryCount(category),
+           (offset: bigint) => knowledgeHub.getEntriesByCategoryPage(category, offset, PAGE_SIZE)]
+        : tag
+          ? [await knowledgeHub.getTagEntryCount(tag),
+             (offset: bigint) => knowledgeHub.getEntriesByTagPage(tag, offset, PAGE_SIZE)]
+          : [await knowledgeHub.getEntryCount(),
+             (offset: bigint) => knowledgeHub.getEntriesPage(offset, PAGE_SIZE)];
+
+    let rows = [];
+    for (let offset = 0n; offset < total; offset += PAGE_SIZE) {
+      rows.push(...(await getPage(offset)).map(toRow));
+    }
+    rows = rows.filter(
+      (row) => (!category || row.category === category) && (!tag || row.tags.includes(tag))
+    );
+
+    switch (sort) {
+      case "newest":
+        rows.sort((a, b) => b.id - a.id);
+        break;
+      case "oldest":
+        rows.sort((a, b) => a.id - b.id);
+        break;
+      case "votes":
+        rows.sort((a, b) => b.voteCount - a.voteCount || b.id - a.id);
+        break;
+      case "weighted":
+        rows.sort((a, b) =>
+          (b.weightedUpvotes - b.weightedDownvotes) - (a.weightedUpvotes - a.weightedDownvotes) || b.id - a.id
+        );
+        break;
+      default:
+        throw new HardhatPluginError("hub", `Unknown sort order "${sort}" (expected newest, oldest, votes or weighted)`);
+    }
+
+    if (json) {
+      printJson(rows);
+      return;
+    }
+    if (rows.length === 0) {
+      console.log("No entries found");
+      return;
+    }
+    console.table(
+      rows.map(({ id, creator, title, category, tags, status, voteCount, upvotes, downvotes, weightedUpvotes, weightedDownvotes }) => ({
+        id, creator, title, category, tags: tags.join(","), status, score: voteCount, up: upvotes, down: downvotes,
+        weighted: weightedUpvotes - weightedDownvotes,
+      }))
+    );
+  });
+
+task("hub:entry", "Show a single knowledge entry")
+  .addParam("id", "Entry ID", undefined, types.int)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+    const row = await withRevertReason(() => getEntryRow(knowledgeHub, BigInt(id)));
+
+    if (json) {
+      printJson(row);
+      return;
+    }
+    console.table(Object.entries(row).map(([field, value]) => ({ field, value })));
+  });
+
+task("hub:report", "Report an entry as spam or abuse")
+  .addParam("id", "Entry ID", undefined, types.int)
+  .addParam("reason", "Why the entry should be reviewed")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, reason, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+
+    const receipt = await withRevertReason(async () => {
+      const tx = await knowledgeHub.reportEntry(id, reason);
+      return tx.wait();
+    });
+    const entry = await knowledgeHub.getEntry(id);
+    const status = ENTRY_STATUSES[Number(entry.status)];
+
+    if (json) {
+      printJson({ entryId: id, reportCount: entry.reportCount, status, transactionHash: receipt!.hash });
+      return;
+    }
+    console.log(`✅ Reported entry #${id} (${entry.reportCount} report(s), status: ${status})`);
+    console.log("   - Transaction:", receipt!.hash);
+  });
+
+task("hub:moderate", "Hide, restore or remove an entry (moderators only)")
+  .addParam("id", "Entry ID", undefined, types.int)
+  .addParam("action", "hide, restore or remove")
+  .addParam("reason", "Reason recorded in the moderation event")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, action, reason, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+    if (!MODERATION_ACTIONS.includes(action)) {
+      throw new HardhatPluginError("hub", `Unknown action "${action}" (expected hide, restore or remove)`);
+    }
+
+    const receipt = await withRevertReason(async () => {
+      const tx = action === "hide"
+        ? await knowledgeHub.hideEntry(id, reason)
+        : action === "restore"
+          ? await knowledgeHub.restoreEntry(id, reason)
+          : await knowledgeHub.removeEntry(id, reason);
+      return tx.wait();
+    });
+    const status = ENTRY_STATUSES[Number((await knowledgeHub.getEntry(id)).status)];
+
+    if (json) {
+      printJson({ entryId: id, action, status, transactionHash: receipt!.hash });
+      return;
+    }
+    console.log(`✅ Entry #${id} is now ${status}`);
+    console.log("   - Transaction:", receipt!.hash);
+  });
+
+task("hub:moderator", "Show, grant or revoke the moderator role (hub owner only for changes)")
+  .addParam("account", "Account to check or update")
+  .addFlag("grant", "Make the account a moderator")
+  .addFlag("revoke", "Remove the account's moderator role")
+  .addOptionalParam("threshold", "Also set the number of reports that flags an entry", undefined, types.int)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ account, grant, revoke, threshold, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+    if (grant && revoke) {
+      throw new HardhatPluginError("hub", "Use either --grant or --revoke, not both");
+    }
+
+    if (grant || revoke) {
+      await withRevertReason(async () => {
+        const tx = await knowledgeHub.setModerator(account, grant);
+        return tx.wait();
+      });
+    }
+    if (threshold !== undefined) {
+      await withRevertReason(async () => {
+        const tx = await knowledgeHub.setReportThreshold(threshold);
+        return tx.wait();
+      });
+    }
+
+    const isModerator = await knowledgeHub.isModerator(account);
+    const reportThreshold = await knowledgeHub.reportThreshold();
+
+    if (json) {
+      printJson({ account, isModerator, reportThreshold });
+      return;
+    }
+    console.table({
+      [account]: isModerator ? "moderator" : "not a moderator",
+      "Reports to flag": reportThreshold.toString(),
+    });
+  });
+
+task("hub:reputation", "Show an account's reputation and vote weight")
+  .addOptionalParam("account", "Account to check (defaults to the first signer)")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ account, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+    const address = account ?? (await getSigner(hre)).address;
+
+    const netVotesReceived = await knowledgeHub.netVotesReceived(address);
+    const reputation = await knowledgeHub.reputation(address);
+    const voteWeight = await knowledgeHub.voteWeight(address);
+
+    if (json) {
+      printJson({ account: address, netVotesReceived, reputation, voteWeight });
+      return;
+    }
+    console.table({
+      Account: address,
+      "Net votes received": netVotesReceived.toString(),
+      Reputation: reputation.toString(),
+      "Vote weight": voteWeight.toString(),
+    });
+  });
+
+task("hub:stake", "Show, add to or withdraw your voting stake")
+  .addOptionalParam("amount", "Amount of KNOW to stake, e.g. 50")
+  .addOptionalParam("unstake", "Amount of KNOW to start unstaking, e.g. 50")
+  .addFlag("withdraw", "Withdraw unstaked KNOW once the cooldown has passed")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ amount, unstake, withdraw, json }, hre) => {
+    const { knowledgeHub, knowledgeToken } = await getContracts(hre);
+    const signer = await getSigner(hre);
+    const hubAddress = await knowledgeHub.getAddress();
+
+    if (amount !== undefined) {
+      const value = hre.ethers.parseEther(amount);
+      await withRevertReason(async () => {
+        if ((await knowledgeToken.allowance(signer.address, hubAddress)) < value) {
+          await (await knowledgeToken.approve(hubAddress, value)).wait();
+        }
+        const tx = await knowledgeHub.stake(value);
+        return tx.wait();
+      });
+    }
+    if (unstake !== undefined) {
+      await withRevertReason(async () => {
+        const tx = await knowledgeHub.requestUnstake(hre.ethers.parseEther(unstake));
+        return tx.wait();
+      });
+    }
+    if (withdraw) {
+      await withRevertReason(async () => {
+        const tx = await knowledgeHub.withdraw();
+        return tx.wait();
+      });
+    }
+
+    const { amount: staked, pendingWithdrawal, unlockTime } = await knowledgeHub.stakes(signer.address);
+    const minVoteStake = await knowledgeHub.minVoteStake();
+    const canVote = staked >= minVoteStake;
+
+    if (json) {
+      printJson({ account: signer.address, staked, pendingWithdrawal, unlockTime, minVoteStake, canVote });
+      return;
+    }
+    console.table({
+      Account: signer.address,
+      Staked: `${hre.ethers.formatEther(staked)} KNOW`,
+      "Pending withdrawal": `${hre.ethers.formatEther(pendingWithdrawal)} KNOW`,
+      "Unlocks at": pendingWithdrawal === 0n ? "-" : new Date(Number(unlockTime) * 1000).toISOString(),
+      "Minimum stake to vote": `${hre.ethers.formatEther(minVoteStake)} KNOW`,
+      "Can vote": canVote ? "yes" : "no",
+    });
+  });
+
+task("hub:slash", "Slash an account's stake into the reward pool (moderators only)")
+  .addParam("account", "Account to slash")
+  .addParam("amount", "Amount of KNOW to slash, e.g. 50")
+  .addParam("reason", "Reason recorded in the slashing event")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ account, amount, reason, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+    const value = hre.ethers.parseEther(amount);
+
+    const receipt = await withRevertReason(async () => {
+      const tx = await knowledgeHub.slashStake(account, value, reason);
+      return tx.wait();
+    });
+    const { amount: staked, pendingWithdrawal } = await knowledgeHub.stakes(account);
+
+    if (json) {
+      printJson({ account, slashed: value, staked, pendingWithdrawal, transactionHash: receipt!.hash });
+      return;
+    }
+    console.log(`✅ Slashed ${amount} KNOW from ${account}`);
+    console.log("   - Remaining stake:", hre.ethers.formatEther(staked), "KNOW");
+    console.log("   - Pending withdrawal:", hre.ethers.formatEther(pendingWithdrawal), "KNOW");
+    console.log("   - Transaction:", receipt!.hash);
+  });
+
+task("hub:staking-policy", "Show or update the staking policy (hub owner only for updates)")
+  .addOptionalParam("min", "New minimum stake to vote in KNOW, 0 disables the requirement")
+  .addOptionalParam("cooldown", "New unstake cooldown in seconds", undefined, types.int)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ min, cooldown, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+
+    if (min !== undefined || cooldown !== undefined) {
+      await withRevertReason(async () => {
+        const tx = await knowledgeHub.setStakingPolicy(
+          min !== undefined ? hre.ethers.parseEther(min) : await knowledgeHub.minVoteStake(),
+          cooldown ?? (await knowledgeHub.unstakeCooldown())
+        );
+        return tx.wait();
+      });
+    }
+
+    const minVoteStake = await knowledgeHub.minVoteStake();
+    const unstakeCooldown = await knowledgeHub.unstakeCooldown();
+    const totalStaked = await knowledgeHub.totalStaked();
+
+    if (json) {
+      printJson({ minVoteStake, unstakeCooldown, totalStaked });
+      return;
+    }
+    console.table({
+      "Minimum stake to vote": minVoteStake === 0n
+        ? "no stake required"
+        : `${hre.ethers.formatEther(minVoteStake)} KNOW`,
+      "Unstake cooldown": `${unstakeCooldown} seconds`,
+      "Total staked": `${hre.ethers.formatEther(totalStaked)} KNOW`,
+    });
+  });
+
+task("hub:curation", "Show or claim curator rewards earned by upvoting entries early")
+  .addOptionalParam("account", "Account to check (defaults to the first signer)")
+  .addFlag("claim", "Claim the first signer's curator rewards")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ account, claim, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+    const signer = await getSigner(hre);
+    const address = claim ? signer.address : account ?? signer.address;
+
+    const entryIds = await knowledgeHub.getCuratedEntryIds(address);
+    const pending = await Promise.all(entryIds.map((id) => knowledgeHub.pendingCuratorReward(id, address)));
+    const settled = await knowledgeHub.settledCuratorRewards(address);
+
+    let receipt;
+    let claimed = 0n;
+    if (claim) {
+      // Only collect from entries with something pending, to keep gas down
+      const claimable = [...entryIds].filter((_, i) => pending[i] > 0n);
+      receipt = await withRevertReason(async () => {
+        const tx = await knowledgeHub.claimCuratorRewards(claimable);
+        return tx.wait();
+      });
+      // Report what was paid out, which can differ from the amounts read before
+      // the claim if votes landed in between
+      const event = receipt!.logs
+        .map((log) => knowledgeHub.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "CuratorRewardsClaimed");
+      claimed = event!.args.amount as bigint;
+    }
+    const total = pending.reduce((sum, amount) => sum + amount, settled);
+
+    if (json) {
+      printJson({
+        account: address,
+        settled,
+        entries: entryIds.map((entryId, i) => ({ entryId, pending: pending[i] })),
+        total,
+        claimed,
+        transactionHash: receipt?.hash,
+      });
+      return;
+    }
+    if (claim) {
+      console.log(`✅ Claimed ${hre.ethers.formatEther(claimed)} KNOW of curator rewards`);
+      console.log("   - Transaction:", receipt!.hash);
+      return;
+    }
+    if (entryIds.length === 0) {
+      console.log("No curated entries found");
+    } else {
+      console.table(
+        entryIds.map((entryId, i) => ({ Entry: Number(entryId), Pending: `${hre.ethers.formatEther(pending[i])} KNOW` }))
+      );
+    }
+    console.log("   - Settled from retracted upvotes:", hre.ethers.formatEther(settled), "KNOW");
+    console.log("   - Total claimable:", hre.ethers.formatEther(total), "KNOW");
+  });
+
+task("hub:tip", "Tip an entry's creator in KNOW, approving the hub with a permit signature")
+  .addParam("id", "Entry ID", undefined, types.int)
+  .addParam("amount", "Amount of KNOW to tip, e.g. 5")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ id, amount, json }, hre) => {
+    const { knowledgeHub, knowledgeToken } = await getContracts(hre);
+    const signer = await getSigner(hre);
+    const value = hre.ethers.parseEther(amount);
+
+    // The permit replaces a separate approve transaction
+    const { timestamp } = (await hre.ethers.provider.getBlock("latest"))!;
+    const deadline = BigInt(timestamp + 3600);
+    const { v, r, s } = await signPermit(signer, knowledgeToken, await knowledgeHub.getAddress(), value, deadline);
+
+    const receipt = await withRevertReason(async () => {
+      const tx = await knowledgeHub.tipEntryWithPermit(id, value, deadline, v, r, s);
+      return tx.wait();
+    });
+    const total = await knowledgeHub.entryTips(id);
+
+    if (json) {
+      printJson({ entryId: id, tipped: value, totalTips: total, transactionHash: receipt!.hash });
+      return;
+    }
+    console.log(`✅ Tipped ${amount} KNOW to the creator of entry #${id}`);
+    console.log("   - Total tips:", hre.ethers.formatEther(total), "KNOW");
+    console.log("   - Transaction:", receipt!.hash);
+  });
+
+task("hub:fund", "Move KNOW from your balance into the hub's reward pool")
+  .addParam("amount", "Amount of KNOW to add, e.g. 5000")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ amount, json }, hre) => {
+    const { knowledgeHub, knowledgeToken } = await getContracts(hre);
+    const signer = await getSigner(hre);
+    const hubAddress = await knowledgeHub.getAddress();
+    const value = hre.ethers.parseEther(amount);
+
+    const receipt = await withRevertReason(async () => {
+      if ((await knowledgeToken.allowance(signer.address, hubAddress)) < value) {
+        await (await knowledgeToken.approve(hubAddress, value)).wait();
+      }
+      const tx = await knowledgeHub.fundRewardPool(value);
+      return tx.wait();
+    });
+    const balance = await knowledgeHub.getContractTokenBalance();
+
+    if (json) {
+      printJson({ funded: value, rewardPool: balance, transactionHash: receipt!.hash });
+      return;
+    }
+    console.log(`✅ Added ${amount} KNOW to the reward pool`);
+    console.log("   - Reward pool:", hre.ethers.formatEther(balance), "KNOW");
+    console.log("   - Transaction:", receipt!.hash);
+  });
+
+task("hub:reward-policy", "Show or update the reward policy (hub owner only for updates)")
+  .addOptionalParam("reward", "New reward per upvote in KNOW, 0 disables rewards")
+  .addOptionalParam("cap", "New maximum total reward per entry in KNOW, 0 removes the cap")
+  .addOptionalParam("curatorShare", "New share of each reward paid to earlier upvoters, in basis points", undefined, types.int)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ reward, cap, curatorShare, json }, hre) => {
+    const { knowledgeHub } = await getContracts(hre);
+
+    if (reward !== undefined) {
+      await withRevertReason(async () => {
+        const tx = await knowledgeHub.setUpvoteReward(hre.ethers.parseEther(reward));
+        return tx.wait();
+      });
+    }
+    if (cap !== undefined) {
+      await withRevertReason(async () => {
+        const tx = await knowledgeHub.setMaxRewardPerEntry(hre.ethers.parseEther(cap));
+        return tx.wait();
+      });
+    }
+
+    if (curatorShare !== undefined) {
+      await withRevertReason(async () => {
+        const tx = await knowledgeHub.setCuratorShare(curatorShare);
+        return tx.wait();
+      });
+    }
+
+    const upvoteReward = await knowledgeHub.upvoteReward();
+    const maxRewardPerEntry = await knowledgeHub.maxRewardPerEntry();
+    const curatorShareBps = await knowledgeHub.curatorShareBps();
+
+    if (json) {
+      printJson({ upvoteReward, maxRewardPerEntry, curatorShareBps });
+      return;
+    }
+    console.table({
+      "Reward per upvote": `${hre.ethers.formatEther(upvoteReward)} KNOW`,
+      "Max reward per entry": maxRewardPerEntry === 0n
+        ? "no cap"
+        : `${hre.ethers.formatEther(maxRewardPerEntry)} KNOW`,
+      "Curator share": `${Number(curatorShareBps) / 100}% to earlier upvoters`,
+    });
+  });
+
+task("hub:balance", "Show the reward pool and KNOW balances")
+  .addOptionalParam("account", "Also show the KNOW balance of this address")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ account, json }, hre) => {
+    const { knowledgeHub, knowledgeToken } = await getContracts(hre);
+
+    const rewardPool = await knowledgeHub.getContractTokenBalance();
+    const reward = await knowledgeHub.upvoteReward();
+    const canMint = await knowledgeHub.canMintRewards();
+    const totalSupply = await knowledgeToken.totalSupply();
+    const maxSupply = await knowledgeToken.cap();
+    const accountBalance = account ? await knowledgeToken.balanceOf(account) : undefined;
+
+    if (json) {
+      printJson({ rewardPool, upvoteReward: reward, canMint, totalSupply, maxSupply, account, accountBalance });
+      return;
+    }
+    console.table({
+      "Reward pool": `${hre.ethers.formatEther(rewardPool)} KNOW`,
+      "Upvotes funded": reward === 0n ? "rewards disabled" : (rewardPool / reward).toString(),
+      "Hub mints rewards": canMint ? "yes" : "no",
+      "Total supply": `${hre.ethers.formatEther(totalSupply)} KNOW`,
+      "Max supply": `${hre.ethers.formatEther(maxSupply)} KNOW`,
+      ...(account ? { [account]: `${hre.ethers.formatEther(accountBalance!)} KNOW` } : {}),
+    });
+  });
@@ -0,0 +1,50 @@
+import { isCallException } from "ethers";
+import { HardhatPluginError } from "hardhat/plugins";
+
+/**
+ * Helpers shared by the hub:* and gov:* tasks
+ */
+
+export function printJson(value: unknown) {
+  console.log(JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2));
+}
+
+/**
+ * Turn a failed call into the contract's revert reason where there is one,
+ * e.g. "You have already voted on this entry", or the custom error it raised,
+ * e.g. "OwnableUnauthorizedAccount(0x..)"
+ */
+function getRevertReason(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+
+  // Hardhat network nodes embed the reason or the custom error in the error message
+  const reason = /reverted with reason string '(.*)'/.exec(error.message);
+  if (reason) {
+    return reason[1];
+  }
+  const customError = /reverted with custom error '(.*)'/.exec(error.message);
+  if (customError) {
+    return customError[1].replace(/"/g, "");
+  }
+
+  if (isCallException(error)) {
+    const { revert } = error;
+    if (revert) {
+      return revert.name === "Error" ? String(revert.args[0]) : `${revert.name}(${revert.args.join(", ")})`;
+    }
+    return error.reason ?? error.shortMessage;
+  }
+
+  // Other ethers errors carry a one-line summary next to the full message
+  return "shortMessage" in error && typeof error.shortMessage === "string" ? error.shortMessage : error.message;
+}
+
+export async function withRevertReason<T>(action: () => Promise<T>): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    throw new HardhatPluginError("hub", getRevertReason(error));
+  }
+}
@@ -0,0 +1,209 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { KnowledgeToken, KnowledgeHub } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  accountVotes,
+  buildLeaderboard,
+  earningsByEntry,
+  earningsHistory,
+  fetchHubActivity,
+  summarizeEarnings,
+} from "../frontend/src/contracts/activity";
+import {
+  fetchEntriesRange,
+  fetchEntryTotal,
+  fetchProfile,
+  getErrorMessage,
+} from "../frontend/src/contracts/knowledgeHub";
+import { cidFromDigest, encodeCid } from "../frontend/src/utils/cid";
+import { formatRoute, parseRoute } from "../frontend/src/utils/route";
+
+describe("Activity", function () {
+  let knowledgeToken: KnowledgeToken;
+  let knowledgeHub: KnowledgeHub;
+  let owner: HardhatEthersSigner;
+  let addr1: HardhatEthersSigner;
+  let addr2: HardhatEthersSigner;
+  let addr3: HardhatEthersSigner;
+  let startBlock: number;
+
+  const contentCid = (content: string) => encodeCid(cidFromDigest(ethers.sha256(ethers.toUtf8Bytes(content))));
+
+  beforeEach(async function () {
+    [owner, addr1, addr2, addr3] = await ethers.getSigners();
+
+    const KnowledgeTokenFactory = await ethers.getContractFactory("KnowledgeToken");
+    knowledgeToken = await KnowledgeTokenFactory.deploy(owner.address);
+    await knowledgeToken.waitForDeployment();
+
+    const KnowledgeHubFactory = await ethers.getContractFactory("KnowledgeHub");
+    knowledgeHub = (await upgrades.deployProxy(KnowledgeHubFactory, [await knowledgeToken.getAddress(), owner.address], {
+      kind: "uups",
+      constructorArgs: [ethers.ZeroAddress],
+    })) as unknown as KnowledgeHub;
+    await knowledgeHub.waitForDeployment();
+    startBlock = (await knowledgeHub.deploymentTransaction()!.wait())!.blockNumber;
+
+    const hubAddress = await knowledgeHub.getAddress();
+    await knowledgeToken.mint(hubAddress, ethers.parseEther("10000"));
+
+    // Voting requires a stake
+    const minStake = await knowledgeHub.minVoteStake();
+    for (const voter of [addr1, addr2, addr3]) {
+      await knowledgeToken.mint(voter.address, minStake);
+      await knowledgeToken.connect(voter).approve(hubAddress, minStake);
+      await knowledgeHub.connect(voter).stake(minStake);
+    }
+
+    await knowledgeHub.connect(addr1).submitEntry("Intro to Rollups", contentCid("rollups"));
+    await knowledgeHub.connect(addr2).submitEntry("Bridges explained", contentCid("bridges"));
+    // addr1 earns 10 KNOW, then 8 once addr2 takes a 20% curator share of the second upvote
+    await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+    await knowledgeHub.connect(addr3).voteOnEntry(1, true);
+    await knowledgeHub.connect(addr2).claimCuratorRewards([1]);
+  });
+
+  const tipEntry2 = async (amount: bigint) => {
+    await knowledgeToken.mint(addr3.address, amount);
+    await knowledgeToken.connect(addr3).approve(await knowledgeHub.getAddress(), amount);
+    await knowledgeHub.connect(addr3).tipEntry(2, amount);
+  };
+
+  describe("Earnings", function () {
+    it("Should total rewards, curation and tips per account over time", async function () {
+      await tipEntry2(ethers.parseEther("3"));
+      // Reputation from entry 1 doubles addr1's vote weight, and so the reward
+      expect(await knowledgeHub.voteWeight(addr1.address)).to.equal(2);
+      await knowledgeHub.connect(addr1).voteOnEntry(2, true);
+      const { records } = await fetchHubActivity(knowledgeHub, startBlock);
+
+      expect(summarizeEarnings(records, addr1.address)).to.deep.equal({
+        total: "18.0",
+        rewards: "18.0",
+        curation: "0.0",
+        tips: "0.0",
+      });
+      // Accounts match regardless of case
+      expect(summarizeEarnings(records, addr2.address.toLowerCase())).to.deep.equal({
+        total: "25.0",
+        rewards: "20.0",
+        curation: "2.0",
+        tips: "3.0",
+      });
+      expect(summarizeEarnings(records, addr3.address).total).to.equal("0.0");
+
+      expect(earningsHistory(records, addr1.address).map((point) => point.total)).to.deep.equal(["10.0", "18.0"]);
+      expect(earningsHistory(records, addr2.address).map((point) => point.total)).to.deep.equal(["2.0", "5.0", "25.0"]);
+      expect(earningsByEntry(records)).to.deep.equal({ 1: "18.0", 2: "23.0" });
+    });
+
+    it("Should extend an earlier scan with the blocks added since", async function () {
+      const first = await fetchHubActivity(knowledgeHub, startBlock);
+      await tipEntry2(ethers.parseEther("3"));
+
+      const extended = await fetchHubActivity(knowledgeHub, first.toBlock + 1, first.records);
+      const full = await fetchHubActivity(knowledgeHub, startBlock);
+      expect(extended.toBlock).to.equal(full.toBlock);
+      expect(extended.records).to.deep.equal(full.records);
+      expect(summarizeEarnings(extended.records, addr2.address).tips).to.equal("3.0");
+    });
+  });
+
+  describe("Votes", function () {
+    it("Should list the current vote on each entry, most recent first", async function () {
+      await knowledgeHub.connect(addr3).voteOnEntry(2, true);
+      await knowledgeHub.connect(addr3).changeVote(1);
+      await knowledgeHub.connect(addr2).retractVote(1);
+      const { records } = await fetchHubActivity(knowledgeHub, startBlock);
+
+      expect(accountVotes(records, addr3.address)).to.deep.equal([
+        { entryId: 1, upvote: false },
+        { entryId: 2, upvote: true },
+      ]);
+      expect(accountVotes(records, addr2.address)).to.be.empty;
+    });
+  });
+
+  describe("Leaderboard", function () {
+    it("Should rank contributors by KNOW earned and leave out accounts without entries or earnings", async function () {
+      await tipEntry2(ethers.parseEther("10"));
+      const { records } = await fetchHubActivity(knowledgeHub, startBlock);
+
+      const rows = buildLeaderboard(records);
+      expect(rows.map((row) => row.account)).to.deep.equal([addr1.address, addr2.address]);
+      expect(rows[0]).to.include({ entryCount: 1, total: "18.0", rewards: "18.0" });
+      expect(rows[1]).to.include({ entryCount: 1, total: "12.0", tips: "10.0", curation: "2.0" });
+
+      // Another tip moves addr2 ahead
+      await tipEntry2(ethers.parseEther("7"));
+      const { records: later } = await fetchHubActivity(knowledgeHub, startBlock);
+      expect(buildLeaderboard(later, 1).map((row) => row.account)).to.deep.equal([addr2.address]);
+    });
+  });
+
+  describe("Feed pages", function () {
+    it("Should load the listing a page at a time, newest first", async function () {
+      await knowledgeHub.connect(addr3).submitEntry("Sequencers", contentCid("sequencers"));
+      const total = await fetchEntryTotal(knowledgeHub);
+      expect(total).to.equal(3);
+
+      const newest = await fetchEntriesRange(knowledgeHub, {}, total - 2, total);
+      const older = await fetchEntriesRange(knowledgeHub, {}, 0, total - 2);
+      expect([...newest, ...older].map((entry) => entry.id)).to.deep.equal([3, 2, 1]);
+    });
+
+    it("Should page through a category's index and, for moderators, hidden entries", async function () {
+      await knowledgeHub.connect(addr3).submitEntryWithTags("Sequencers", contentCid("sequencers"), "scaling", []);
+      await knowledgeHub.setModerator(owner.address, true);
+      await knowledgeHub.hideEntry(1, "Spam");
+
+      expect(await fetchEntryTotal(knowledgeHub, { category: "scaling" })).to.equal(1);
+      expect((await fetchEntriesRange(knowledgeHub, { category: "scaling" }, 0, 1)).map((entry) => entry.id)).to.deep.equal([3]);
+      // The public listing skips the hidden entry; the moderator view keeps it
+      expect((await fetchEntriesRange(knowledgeHub, {}, 0, 3)).map((entry) => entry.id)).to.deep.equal([3, 2]);
+      expect(
+        (await fetchEntriesRange(knowledgeHub, { includeHidden: true }, 0, 3)).map((entry) => entry.status)
+      ).to.deep.equal(["active", "active", "hidden"]);
+    });
+  });
+
+  describe("Error messages", function () {
+    // Wallet and RPC providers report reverts as CALL_EXCEPTION errors decoded against the hub's ABI
+    const revertWith = (data: string) => knowledgeHub.interface.makeError(data, { to: null, data: "0x" });
+
+    it("Should show the revert reason or the custom error with its arguments", function () {
+      const reason = ethers.AbiCoder.defaultAbiCoder().encode(["string"], ["You have already voted on this entry"]);
+      expect(getErrorMessage(revertWith("0x08c379a0" + reason.slice(2)))).to.equal("You have already voted on this entry");
+
+      const custom = knowledgeHub.interface.encodeErrorResult("OwnableUnauthorizedAccount", [addr1.address]);
+      expect(getErrorMessage(revertWith(custom))).to.equal(`OwnableUnauthorizedAccount(${addr1.address})`);
+    });
+
+    it("Should fall back to the summary or message of other errors", function () {
+      const rejected = ethers.makeError("user rejected action", "ACTION_REJECTED", { action: "sendTransaction", reason: "rejected" });
+      expect(getErrorMessage(rejected)).to.equal("user rejected action");
+      expect(getErrorMessage(new Error("connection refused"))).to.equal("connection refused");
+      expect(getErrorMessage("timeout")).to.equal("Transaction failed");
+    });
+  });
+
+  describe("Profile", function () {
+    it("Should load a contributor's entries, balance and reputation", async function () {
+      const profile = await fetchProfile(knowledgeHub, addr1.address);
+      expect(profile.entries.map((entry) => entry.title)).to.deep.equal(["Intro to Rollups"]);
+      expect(profile.entries[0].voteCount).to.equal(2);
+      // The stake is held by the hub, so the wallet holds only the rewards
+      expect(profile.balance).to.equal("18.0");
+      expect(profile.reputation.reputation).to.equal(Number(await knowledgeHub.reputation(addr1.address)));
+    });
+
+    it("Should round-trip profile and leaderboard links", function () {
+      const route = { page: "profile" as const, account: addr1.address };
+      expect(parseRoute(formatRoute(route))).to.deep.equal(route);
+      expect(parseRoute(formatRoute({ page: "leaderboard" }))).to.deep.equal({ page: "leaderboard" });
+      expect(parseRoute("")).to.deep.equal({ page: "feed" });
+      expect(parseRoute("#/profile/0x1234")).to.deep.equal({ page: "feed" });
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { expect } from "chai";
+import { config } from "hardhat";
+import { HttpNetworkConfig } from "hardhat/types";
+import { CHAINS, addChainParameters, chainName, toHexChainId } from "../frontend/src/contracts/chains";
+
+describe("Chains", function () {
+  it("Should list every Hardhat network in the frontend's chain registry with the same RPC", function () {
+    for (const name of ["localhost", "liskSepolia", "lisk"]) {
+      const network = config.networks[name] as HttpNetworkConfig;
+      const chain = CHAINS[network.chainId!];
+      expect(chain, name).to.not.be.undefined;
+      // Deployments can override the RPC with a Hardhat var
+      if (!process.env.HARDHAT_VAR_LISK_RPC_URL && !process.env.HARDHAT_VAR_LISK_SEPOLIA_RPC_URL) {
+        expect(chain.rpcUrl).to.equal(network.url);
+      }
+    }
+    expect(config.networks.hardhat.chainId).to.equal(31337);
+    // The former name of Lisk Sepolia still reaches it
+    expect(config.networks.liskTestnet).to.deep.equal(config.networks.liskSepolia);
+  });
+
+  it("Should describe chains for wallet_addEthereumChain", function () {
+    expect(toHexChainId(4202)).to.equal("0x106a");
+    expect(addChainParameters(CHAINS[4202])).to.deep.equal({
+      chainId: "0x106a",
+      chainName: "Lisk Sepolia",
+      rpcUrls: ["https://rpc.sepolia-api.lisk.com"],
+      nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+      blockExplorerUrls: ["https://sepolia-blockscout.lisk.com"],
+    });
+    // Local chains have no explorer
+    expect(addChainParameters(CHAINS[31337])).to.not.have.property("blockExplorerUrls");
+    expect(chainName(1135)).to.equal("Lisk");
+    expect(chainName(10)).to.equal("chain 10");
+  });
+});
@@ -0,0 +1,58 @@
+import { expect } from "chai";
+import {
+  CODEC_DAG_PB,
+  CODEC_RAW,
+  cidFromDigest,
+  encodeCid,
+  formatCid,
+  isValidCid,
+  normalizeCid,
+  parseCid,
+} from "../frontend/src/utils/cid";
+
+describe("CID utilities", function () {
+  // The same dag-pb content written as CIDv0, base32 CIDv1 and base58btc CIDv1
+  const cidV0 = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+  const cidV1Base32 = "bafybeie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34";
+  const cidV1Base58 = "zdj7Wg2Qkk4mYgAkVU1kppfQ2sMGz5zPwERVpeWmxCQLDxVoC";
+  const digest = "0x9d6c2be50f706953479ab9df2ce3edca90b68053c00b3004b7f0accbe1e8eedf";
+
+  // Raw CIDv1 of empty content
+  const emptyRaw = "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku";
+  const emptyDigest = "0xe3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
+  it("Should parse CIDv0 and CIDv1 in base32 and base58btc", function () {
+    expect(parseCid(cidV0)).to.deep.equal({ version: 0, codec: CODEC_DAG_PB, digest });
+    expect(parseCid(cidV1Base32)).to.deep.equal({ version: 1, codec: CODEC_DAG_PB, digest });
+    expect(parseCid(cidV1Base32.toUpperCase())).to.deep.equal({ version: 1, codec: CODEC_DAG_PB, digest });
+    expect(parseCid(cidV1Base58)).to.deep.equal({ version: 1, codec: CODEC_DAG_PB, digest });
+    expect(parseCid(` ${emptyRaw}\n`)).to.deep.equal({ version: 1, codec: CODEC_RAW, digest: emptyDigest });
+  });
+
+  it("Should normalize every form to the same base32 CIDv1 and binary encoding", function () {
+    for (const cid of [cidV0, cidV1Base32, cidV1Base58]) {
+      expect(normalizeCid(cid)).to.equal(cidV1Base32);
+      expect(encodeCid(cid)).to.equal(`0x01701220${digest.slice(2)}`);
+    }
+    expect(formatCid(cidFromDigest(emptyDigest))).to.equal(emptyRaw);
+  });
+
+  it("Should reject strings that are not supported CIDs", function () {
+    const invalid = [
+      "",
+      "QmMock1700000000000",
+      "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbd0", // "0" is not base58
+      cidV1Base32.slice(0, -4), // truncated digest
+      `${cidV1Base32}aa`, // trailing bytes
+      "bafyreigbtj4x7ip5legnfznufuopl4sg4knzc2cof6duas4b3q2fy6swua", // dag-cbor codec
+      "bafkrcfar62wy5rjkfgckxkx5pq5vczidpboca4q", // sha1 multihash
+      "https://ipfs.io/ipfs/" + cidV0,
+    ];
+    for (const cid of invalid) {
+      expect(isValidCid(cid), cid).to.be.false;
+    }
+    expect(isValidCid(cidV0)).to.be.true;
+    expect(() => encodeCid("bafyreigbtj4x7ip5legnfznufuopl4sg4knzc2cof6duas4b3q2fy6swua")).to.throw("Unsupported codec");
+    expect(() => parseCid("QmMock1700000000000")).to.throw("Not a CID");
+  });
+});
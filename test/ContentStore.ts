@@ -0,0 +1,278 @@
+import { expect } from "chai";
+import { sha256 } from "ethers";
+import { createServer, IncomingMessage } from "http";
+import { AddressInfo } from "net";
+import {
+  ContentError,
+  ContentStore,
+  MAX_CONTENT_BYTES,
+  contentCid,
+  withCache,
+} from "../frontend/src/storage/contentStore";
+import { createIpfsHttpStore } from "../frontend/src/storage/ipfsHttpStore";
+import { createMemoryStore } from "../frontend/src/storage/memoryStore";
+import { readVerifiedBlock } from "../frontend/src/storage/verify";
+import { CODEC_DAG_PB, cidFromDigest, formatCid, normalizeCid } from "../frontend/src/utils/cid";
+
+describe("Content stores", function () {
+  // `echo -n "hello world" | ipfs add --cid-version 1`
+  const helloWorld = "hello world";
+  const helloWorldCid = "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e";
+  // `echo -n "hello world" | ipfs add` and its dag-pb block
+  const helloWorldCidV0 = "Qmf412jQZiuVUtdgnB36FXFX7xg5V6KEbSJ4dpQuhkLyfD";
+  const helloWorldDagPb = Buffer.from("0a110802120b68656c6c6f20776f726c64180b", "hex");
+
+  const expectRejection = async (promise: Promise<unknown>, message: string) => {
+    try {
+      await promise;
+      expect.fail("Expected a rejection");
+    } catch (error) {
+      expect((error as Error).message).to.include(message);
+      return error;
+    }
+  };
+
+  const expectContentError = async (promise: Promise<unknown>, failure: string, message: string) => {
+    const error = await expectRejection(promise, message);
+    expect(error).to.be.instanceOf(ContentError);
+    expect((error as ContentError).failure).to.equal(failure);
+  };
+
+  describe("Verification", function () {
+    it("Should accept raw and dag-pb blocks matching their CID", function () {
+      expect(readVerifiedBlock(helloWorldCid, Buffer.from(helloWorld))).to.equal(helloWorld);
+      expect(readVerifiedBlock(helloWorldCidV0, helloWorldDagPb)).to.equal(helloWorld);
+    });
+
+    it("Should reject blocks that do not match their CID or cannot be read alone", async function () {
+      const check = async (cid: string, block: Buffer) => readVerifiedBlock(cid, block);
+      await expectContentError(check(helloWorldCid, Buffer.from("hello w0rld")), "unverified", "does not match");
+      await expectContentError(check(helloWorldCidV0, Buffer.from(helloWorld)), "unverified", "does not match");
+
+      // A dag-pb root whose data lives in the blocks it links to
+      const root = Buffer.concat([Buffer.from("12020a00", "hex"), helloWorldDagPb]);
+      const rootCid = formatCid(cidFromDigest(sha256(root), CODEC_DAG_PB));
+      await expectContentError(check(rootCid, root), "unverified", "several blocks");
+    });
+  });
+
+  describe("Memory", function () {
+    it("Should store content under the CID IPFS gives it", async function () {
+      const store = createMemoryStore();
+      expect(contentCid(helloWorld)).to.equal(helloWorldCid);
+      expect(await store.upload(helloWorld)).to.equal(helloWorldCid);
+      expect(await store.retrieve(helloWorldCid)).to.equal(helloWorld);
+      expect(await store.retrieve(helloWorldCid.toUpperCase())).to.equal(helloWorld);
+
+      const markdown = "# Rollups\n\nBatch transactions **off-chain** ✓";
+      expect(await store.retrieve(await store.upload(markdown))).to.equal(markdown);
+    });
+
+    it("Should reject empty, oversized and unknown content", async function () {
+      const store = createMemoryStore();
+      await expectRejection(store.upload(""), "Content is empty");
+      await expectRejection(store.upload("a".repeat(MAX_CONTENT_BYTES + 1)), "the limit is");
+      await expectContentError(store.retrieve(helloWorldCid), "unavailable", "Memory has no content");
+      await expectRejection(store.retrieve("QmMock1"), "Not a CID");
+    });
+
+    it("Should share content through the given storage and check it on the way out", async function () {
+      const items = new Map<string, string>();
+      const storage = {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+          items.set(key, value);
+        },
+      };
+
+      await createMemoryStore(storage).upload(helloWorld);
+      expect(await createMemoryStore(storage).retrieve(helloWorldCid)).to.equal(helloWorld);
+
+      for (const key of Array.from(items.keys())) {
+        items.set(key, "tampered");
+      }
+      await expectContentError(createMemoryStore(storage).retrieve(helloWorldCid), "unverified", "does not match");
+    });
+  });
+
+  describe("Cache", function () {
+    // Memory store that counts retrievals
+    const countingStore = () => {
+      const store = createMemoryStore();
+      const counter = { retrievals: 0 };
+      const counted: ContentStore = {
+        name: store.name,
+        upload: store.upload,
+        retrieve: (cid) => {
+          counter.retrievals++;
+          return store.retrieve(cid);
+        },
+      };
+      return { store: counted, counter };
+    };
+
+    it("Should keep retrieved and uploaded content by CID", async function () {
+      const { store, counter } = countingStore();
+      await store.upload(helloWorld);
+
+      const cached = withCache(store);
+      expect(await cached.retrieve(helloWorldCid)).to.equal(helloWorld);
+      expect(await cached.retrieve(helloWorldCid.toUpperCase())).to.equal(helloWorld);
+      expect(counter.retrievals).to.equal(1);
+
+      const cid = await cached.upload("# Uploaded");
+      expect(await cached.retrieve(cid)).to.equal("# Uploaded");
+      expect(counter.retrievals).to.equal(1);
+    });
+
+    it("Should not cache failures and should evict the least recently used content", async function () {
+      const { store, counter } = countingStore();
+      const cached = withCache(store, 2);
+
+      await expectContentError(cached.retrieve(helloWorldCid), "unavailable", "no content");
+      await cached.upload(helloWorld);
+      expect(await cached.retrieve(helloWorldCid)).to.equal(helloWorld);
+      expect(counter.retrievals).to.equal(1);
+
+      const first = await cached.upload("first");
+      await cached.retrieve(helloWorldCid);
+      await cached.upload("second");
+      // "first" was used least recently
+      await cached.retrieve(helloWorldCid);
+      expect(counter.retrievals).to.equal(1);
+      await cached.retrieve(first);
+      expect(counter.retrievals).to.equal(2);
+    });
+  });
+
+  describe("IPFS HTTP API", function () {
+    const readBody = (request: IncomingMessage) =>
+      new Promise<string>((resolve) => {
+        let body = "";
+        request.on("data", (chunk) => (body += chunk));
+        request.on("end", () => resolve(body));
+      });
+
+    type Gateway = "honest" | "tampering" | "down" | "hanging";
+
+    // Minimal Kubo node: adds files sent as multipart forms and serves their raw
+    // blocks through the gateway path, honestly or not
+    const startNode = async (gateway: Gateway = "honest", addedHash = helloWorldCid.toUpperCase()) => {
+      const files = new Map<string, string>();
+      const uploads: { query: URLSearchParams; authorization?: string; body: string }[] = [];
+      const blockRequests: URLSearchParams[] = [];
+
+      const server = createServer(async (request, response) => {
+        const url = new URL(request.url!, "http://localhost");
+        if (request.method === "POST" && url.pathname === "/api/v0/add") {
+          const body = await readBody(request);
+          uploads.push({ query: url.searchParams, authorization: request.headers.authorization, body });
+          if (!body.includes(`\r\n\r\n${helloWorld}\r\n`)) {
+            response.writeHead(500, { "Content-Type": "application/json" });
+            response.end(JSON.stringify({ Message: "unexpected file", Code: 0, Type: "error" }));
+            return;
+          }
+          files.set(helloWorldCid, helloWorld);
+          response.writeHead(200, { "Content-Type": "application/json" });
+          response.end(JSON.stringify({ Name: "entry.md", Hash: addedHash, Size: "11" }));
+          return;
+        }
+
+        const cid = url.pathname.replace("/ipfs/", "");
+        if (request.method !== "GET" || !files.has(cid) || gateway === "down") {
+          response.writeHead(404);
+          response.end("not found");
+        } else if (gateway !== "hanging") {
+          blockRequests.push(url.searchParams);
+          response.writeHead(200);
+          response.end(gateway === "tampering" ? "hello w0rld" : files.get(cid));
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const close = () => {
+        server.closeAllConnections();
+        server.close();
+      };
+      return {
+        close,
+        files,
+        uploads,
+        blockRequests,
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      };
+    };
+
+    it("Should add content as a pinned raw block and read it back through a gateway", async function () {
+      const node = await startNode();
+      try {
+        const store = createIpfsHttpStore({
+          apiUrl: `${node.url}/`,
+          gatewayUrls: [node.url],
+          authorization: "Bearer secret",
+        });
+        expect(store.name).to.equal(`IPFS (${node.url})`);
+
+        expect(await store.upload(helloWorld)).to.equal(helloWorldCid);
+        const [upload] = node.uploads;
+        expect(upload.authorization).to.equal("Bearer secret");
+        expect(upload.query.get("cid-version")).to.equal("1");
+        expect(upload.query.get("raw-leaves")).to.equal("true");
+        expect(upload.query.get("chunker")).to.equal(`size-${MAX_CONTENT_BYTES}`);
+        expect(upload.query.get("pin")).to.equal("true");
+        expect(upload.body).to.include('filename="entry.md"');
+        expect(upload.body).to.include("Content-Type: text/markdown");
+
+        expect(await store.retrieve(helloWorldCid)).to.equal(helloWorld);
+        expect(node.blockRequests[0].get("format")).to.equal("raw");
+      } finally {
+        node.close();
+      }
+    });
+
+    it("Should surface node errors and CIDs that do not match the content", async function () {
+      const node = await startNode("honest", helloWorldCidV0);
+      try {
+        const store = createIpfsHttpStore({ apiUrl: node.url, gatewayUrls: [node.url] });
+        await expectRejection(store.upload("something else"), "IPFS node: unexpected file");
+        await expectRejection(store.upload(helloWorld), `stored the content as ${normalizeCid(helloWorldCidV0)}`);
+        expect(node.uploads[0].authorization).to.be.undefined;
+      } finally {
+        node.close();
+      }
+    });
+
+    it("Should fall back to the next gateway until the content matches its CID", async function () {
+      const nodes = await Promise.all([startNode("down"), startNode("tampering"), startNode("honest")]);
+      try {
+        for (const node of nodes) node.files.set(helloWorldCid, helloWorld);
+        const store = createIpfsHttpStore({ apiUrl: nodes[2].url, gatewayUrls: nodes.map((node) => node.url) });
+
+        expect(await store.retrieve(helloWorldCid)).to.equal(helloWorld);
+        expect(nodes[1].blockRequests).to.have.length(1);
+        expect(nodes[2].blockRequests).to.have.length(1);
+      } finally {
+        for (const node of nodes) node.close();
+      }
+    });
+
+    it("Should report content as unverified or unavailable when no gateway serves it intact", async function () {
+      const nodes = await Promise.all([startNode("down"), startNode("tampering"), startNode("hanging")]);
+      try {
+        for (const node of nodes) node.files.set(helloWorldCid, helloWorld);
+        const urls = nodes.map((node) => node.url);
+
+        const tampered = createIpfsHttpStore({ apiUrl: urls[0], gatewayUrls: urls, gatewayTimeoutMs: 200 });
+        await expectContentError(tampered.retrieve(helloWorldCid), "unverified", `${urls[1]}: Content does not match`);
+
+        const missing = createIpfsHttpStore({ apiUrl: urls[0], gatewayUrls: [urls[0], urls[2]], gatewayTimeoutMs: 200 });
+        await expectContentError(missing.retrieve(helloWorldCid), "unavailable", `${urls[2]} timed out`);
+        await expectContentError(missing.retrieve(helloWorldCid), "unavailable", `${urls[0]} responded with 404`);
+
+        const none = createIpfsHttpStore({ apiUrl: urls[0], gatewayUrls: [] });
+        await expectContentError(none.retrieve(helloWorldCid), "unavailable", "none configured");
+      } finally {
+        for (const node of nodes) node.close();
+      }
+    });
+  });
+});
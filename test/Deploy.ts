@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import { artifacts, ethers } from "hardhat";
+import { deployContracts, deployOrReuse } from "../scripts/deploy";
+import { ContractName, DeploymentManifest } from "../scripts/utils/deployments";
+
+describe("Deploy", function () {
+  const names: ContractName[] = [
+    "KnowledgeToken",
+    "KnowledgeForwarder",
+    "KnowledgeHub",
+    "KnowledgeTimelock",
+    "KnowledgeGovernor",
+  ];
+
+  let manifest: DeploymentManifest;
+  let log: typeof console.log;
+
+  // Manifests are plain JSON, so a deep copy is one round trip away
+  const copy = (value: DeploymentManifest): DeploymentManifest => JSON.parse(JSON.stringify(value));
+
+  before(async function () {
+    // The deploy script reports every step; keep the test output readable
+    log = console.log;
+    console.log = () => {};
+    manifest = await deployContracts(undefined);
+  });
+
+  after(function () {
+    console.log = log;
+  });
+
+  it("Should record every contract with its arguments", async function () {
+    const [deployer] = await ethers.getSigners();
+    expect(manifest.chainId).to.equal(31337);
+    expect(manifest.deployer).to.equal(deployer.address);
+
+    for (const name of names) {
+      const deployment = manifest.contracts[name];
+      expect(await ethers.provider.getCode(deployment.address)).to.not.equal("0x");
+      expect(deployment.abi).to.not.be.empty;
+      expect(deployment.blockNumber).to.be.greaterThan(0);
+      expect(deployment.bytecodeHash).to.equal(ethers.keccak256((await artifacts.readArtifact(name)).bytecode));
+    }
+    expect(manifest.contracts.KnowledgeHub.args).to.deep.equal([manifest.contracts.KnowledgeForwarder.address]);
+    expect(manifest.contracts.KnowledgeHub.initializerArgs).to.deep.equal([
+      manifest.contracts.KnowledgeToken.address,
+      deployer.address,
+    ]);
+    expect(manifest.contracts.KnowledgeHub.implementation).to.be.properAddress;
+
+    const hub = await ethers.getContractAt("KnowledgeHub", manifest.contracts.KnowledgeHub.address);
+    expect(await hub.owner()).to.equal(manifest.contracts.KnowledgeTimelock.address);
+  });
+
+  it("Should reuse every contract when run again with the manifest", async function () {
+    const second = await deployContracts(copy(manifest));
+
+    for (const name of names) {
+      expect(second.contracts[name].address).to.equal(manifest.contracts[name].address);
+      expect(second.contracts[name].transactionHash).to.equal(manifest.contracts[name].transactionHash);
+    }
+  });
+
+  it("Should redeploy a contract whose constructor arguments changed, and the contracts built on it", async function () {
+    const previous = copy(manifest);
+    previous.contracts.KnowledgeForwarder.args = ["stale"];
+
+    const second = await deployContracts(previous);
+
+    for (const name of ["KnowledgeToken", "KnowledgeTimelock", "KnowledgeGovernor"] as ContractName[]) {
+      expect(second.contracts[name].address).to.equal(manifest.contracts[name].address);
+    }
+    expect(second.contracts.KnowledgeForwarder.address).to.not.equal(manifest.contracts.KnowledgeForwarder.address);
+    // The hub takes the forwarder's address, so it follows, and goes to the same timelock
+    expect(second.contracts.KnowledgeHub.address).to.not.equal(manifest.contracts.KnowledgeHub.address);
+    const hub = await ethers.getContractAt("KnowledgeHub", second.contracts.KnowledgeHub.address);
+    expect(await hub.owner()).to.equal(manifest.contracts.KnowledgeTimelock.address);
+  });
+
+  it("Should hand over the manifest after each contract it deploys", async function () {
+    const previous = copy(manifest);
+    previous.contracts.KnowledgeForwarder.args = ["stale"];
+    const snapshots: DeploymentManifest[] = [];
+
+    const second = await deployContracts(previous, (partial) => snapshots.push(copy(partial)));
+
+    expect(snapshots).to.have.length(2);
+    // The forwarder is recorded before the hub built on it is deployed
+    expect(snapshots[0].contracts.KnowledgeForwarder.address).to.equal(second.contracts.KnowledgeForwarder.address);
+    expect(snapshots[0].contracts.KnowledgeHub.address).to.equal(manifest.contracts.KnowledgeHub.address);
+    expect(snapshots[1].contracts.KnowledgeHub.address).to.equal(second.contracts.KnowledgeHub.address);
+  });
+
+  it("Should refuse to replace governance once the timelock holds its roles", async function () {
+    const previous = copy(manifest);
+    previous.contracts.KnowledgeTimelock.args[0] = 1;
+    const nonce = await ethers.provider.getTransactionCount(manifest.deployer);
+
+    await expect(deployContracts(previous)).to.be.rejectedWith(
+      `Governance already controls this deployment through KnowledgeTimelock at ${manifest.contracts.KnowledgeTimelock.address}`
+    );
+    // Nothing was sent before the refusal
+    expect(await ethers.provider.getTransactionCount(manifest.deployer)).to.equal(nonce);
+  });
+
+  it("Should redeploy a proxy whose initializer arguments changed", async function () {
+    const [, other] = await ethers.getSigners();
+    const hub = manifest.contracts.KnowledgeHub;
+
+    const same = await deployOrReuse("KnowledgeHub", hub.args, manifest, hub.initializerArgs);
+    expect(same.reused).to.equal(true);
+
+    const changed = await deployOrReuse("KnowledgeHub", hub.args, manifest, [
+      manifest.contracts.KnowledgeToken.address,
+      other.address,
+    ]);
+    expect(changed.reused).to.equal(false);
+    expect(changed.address).to.not.equal(hub.address);
+    expect(changed.deployment.initializerArgs).to.deep.equal([manifest.contracts.KnowledgeToken.address, other.address]);
+  });
+
+  it("Should redeploy a contract built from other bytecode, but keep a proxy for upgrading", async function () {
+    const previous = copy(manifest);
+    previous.contracts.KnowledgeForwarder.bytecodeHash = ethers.ZeroHash;
+    previous.contracts.KnowledgeHub.bytecodeHash = ethers.ZeroHash;
+    const hub = previous.contracts.KnowledgeHub;
+
+    const forwarder = await deployOrReuse("KnowledgeForwarder", [], previous);
+    expect(forwarder.reused).to.equal(false);
+    expect(forwarder.address).to.not.equal(manifest.contracts.KnowledgeForwarder.address);
+
+    const proxy = await deployOrReuse("KnowledgeHub", hub.args, previous, hub.initializerArgs);
+    expect(proxy.reused).to.equal(true);
+    expect(proxy.address).to.equal(hub.address);
+  });
+
+  it("Should reuse a contract recorded without a bytecode hash", async function () {
+    const previous = copy(manifest);
+    delete previous.contracts.KnowledgeForwarder.bytecodeHash;
+
+    const forwarder = await deployOrReuse("KnowledgeForwarder", [], previous);
+
+    expect(forwarder.reused).to.equal(true);
+    expect(forwarder.address).to.equal(manifest.contracts.KnowledgeForwarder.address);
+  });
+
+  it("Should redeploy a contract that has no code at the recorded address", async function () {
+    const [, other] = await ethers.getSigners();
+    const previous = copy(manifest);
+    previous.contracts.KnowledgeForwarder.address = other.address;
+
+    const forwarder = await deployOrReuse("KnowledgeForwarder", [], previous);
+
+    expect(forwarder.reused).to.equal(false);
+    expect(forwarder.address).to.not.equal(other.address);
+    expect(await ethers.provider.getCode(forwarder.address)).to.not.equal("0x");
+  });
+});
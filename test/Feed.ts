@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import { Entry } from "../frontend/src/contracts/knowledgeHub";
+import {
+  DEFAULT_FEED_VIEW,
+  applyFeedView,
+  controversyScore,
+  formatFeedView,
+  parseFeedView,
+  sortEntries,
+  trendingScore,
+} from "../frontend/src/utils/feed";
+
+describe("Feed", function () {
+  const HOUR = 60 * 60;
+  const now = 1_700_000_000;
+  const alice = "0xA11CE00000000000000000000000000000000001";
+  const bob = "0xB0B0000000000000000000000000000000000002";
+
+  const entry = (id: number, title: string, upvotes: number, downvotes: number, ageHours: number, creator = alice): Entry => ({
+    id,
+    creator,
+    title,
+    ipfsHash: "",
+    voteCount: upvotes - downvotes,
+    timestamp: now - ageHours * HOUR,
+    upvotes,
+    downvotes,
+    weightedUpvotes: upvotes,
+    weightedDownvotes: downvotes,
+    category: "",
+    tags: [],
+    updatedAt: 0,
+    status: "active",
+    reportCount: 0,
+  });
+
+  const entries = [
+    entry(1, "Intro to Rollups", 12, 2, 72),
+    entry(2, "Optimistic vs ZK rollups", 6, 5, 48, bob),
+    entry(3, "Bridges explained", 3, 0, 1),
+    entry(4, "Gas tokens", 0, 0, 0.5, bob),
+    entry(5, "Account abstraction", 14, 14, 24),
+  ];
+  const ids = (listed: Entry[]) => listed.map((item) => item.id);
+
+  describe("Sorting", function () {
+    it("Should sort by age, net votes and upvotes without changing the input", function () {
+      expect(ids(sortEntries(entries, "newest", now))).to.deep.equal([4, 3, 5, 2, 1]);
+      expect(ids(sortEntries(entries, "top", now))).to.deep.equal([1, 3, 2, 4, 5]);
+      expect(ids(sortEntries(entries, "upvoted", now))).to.deep.equal([5, 1, 2, 3, 4]);
+      expect(ids(entries)).to.deep.equal([1, 2, 3, 4, 5]);
+    });
+
+    it("Should rank evenly split entries with many votes as the most controversial", function () {
+      expect(controversyScore(entries[4])).to.equal(28);
+      expect(controversyScore(entries[2])).to.equal(0);
+      expect(controversyScore(entries[1])).to.be.closeTo(Math.pow(11, 5 / 6), 1e-9);
+      // Entries without votes on both sides keep newest-first order at the end
+      expect(ids(sortEntries(entries, "controversial", now))).to.deep.equal([5, 2, 1, 4, 3]);
+    });
+
+    it("Should let recent entries outrank older ones with more votes when trending", function () {
+      expect(trendingScore(entries[2], now)).to.be.closeTo(3 / Math.pow(3, 1.8), 1e-9);
+      expect(ids(sortEntries(entries, "trending", now))).to.deep.equal([3, 1, 2, 4, 5]);
+      // Four days on, the fresh entry has decayed below the better voted one
+      expect(ids(sortEntries(entries, "trending", now + 96 * HOUR)).slice(0, 2)).to.deep.equal([1, 3]);
+    });
+  });
+
+  describe("Search", function () {
+    it("Should match every search word in titles and authors by address", function () {
+      expect(ids(applyFeedView(entries, { ...DEFAULT_FEED_VIEW, search: "rollups" }, now))).to.deep.equal([2, 1]);
+      expect(ids(applyFeedView(entries, { ...DEFAULT_FEED_VIEW, search: " ZK  Rollups " }, now))).to.deep.equal([2]);
+      expect(applyFeedView(entries, { ...DEFAULT_FEED_VIEW, search: "rollups bridges" }, now)).to.be.empty;
+
+      expect(ids(applyFeedView(entries, { ...DEFAULT_FEED_VIEW, author: bob.toLowerCase() }, now))).to.deep.equal([4, 2]);
+      expect(ids(applyFeedView(entries, { sort: "top", search: "rollups", author: "0xb0b" }, now))).to.deep.equal([2]);
+    });
+  });
+
+  describe("URL", function () {
+    it("Should round-trip views through the query string and leave defaults out", function () {
+      const view = { sort: "trending" as const, search: "zk rollups", author: bob, category: "scaling", tag: "l2" };
+      const query = formatFeedView(view);
+      expect(query).to.equal(`?sort=trending&q=zk+rollups&author=${bob}&category=scaling&tag=l2`);
+      expect(parseFeedView(query)).to.deep.equal(view);
+
+      expect(formatFeedView(DEFAULT_FEED_VIEW)).to.equal("");
+      expect(formatFeedView({ ...DEFAULT_FEED_VIEW, search: "  " })).to.equal("");
+      expect(parseFeedView("")).to.deep.equal({ ...DEFAULT_FEED_VIEW, category: undefined, tag: undefined });
+      expect(parseFeedView("?sort=random&q=a%26b").sort).to.equal("newest");
+      expect(parseFeedView("?sort=random&q=a%26b").search).to.equal("a&b");
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { KnowledgeToken, KnowledgeHub, KnowledgeTimelock, KnowledgeGovernor } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("Governance", function () {
+  let knowledgeToken: KnowledgeToken;
+  let knowledgeHub: KnowledgeHub;
+  let timelock: KnowledgeTimelock;
+  let governor: KnowledgeGovernor;
+  let owner: HardhatEthersSigner;
+  let addr1: HardhatEthersSigner;
+  let addr2: HardhatEthersSigner;
+  let addr3: HardhatEthersSigner;
+  let hubAddress: string;
+
+  const TIMELOCK_DELAY = 2 * 24 * 60 * 60;
+  const VOTING_DELAY = 1;
+  const VOTING_PERIOD = 50;
+
+  // Governor.ProposalState values
+  const PENDING = 0;
+  const ACTIVE = 1;
+  const DEFEATED = 3;
+  const SUCCEEDED = 4;
+  const QUEUED = 5;
+  const EXECUTED = 7;
+
+  // Vote types of GovernorCountingSimple
+  const AGAINST = 0;
+  const FOR = 1;
+
+  const propose = async (calls: { target: string; data: string }[], description: string) => {
+    const targets = calls.map((call) => call.target);
+    const values = calls.map(() => 0);
+    const calldatas = calls.map((call) => call.data);
+    await governor.connect(addr1).propose(targets, values, calldatas, description);
+    return governor.getProposalId(targets, values, calldatas, ethers.id(description));
+  };
+
+  beforeEach(async function () {
+    [owner, addr1, addr2, addr3] = await ethers.getSigners();
+
+    const KnowledgeTokenFactory = await ethers.getContractFactory("KnowledgeToken");
+    knowledgeToken = await KnowledgeTokenFactory.deploy(owner.address);
+
+    const KnowledgeHubFactory = await ethers.getContractFactory("KnowledgeHub");
+    knowledgeHub = (await upgrades.deployProxy(KnowledgeHubFactory, [await knowledgeToken.getAddress(), owner.address], {
+      kind: "uups",
+      constructorArgs: [ethers.ZeroAddress],
+    })) as unknown as KnowledgeHub;
+    hubAddress = await knowledgeHub.getAddress();
+
+    const TimelockFactory = await ethers.getContractFactory("KnowledgeTimelock");
+    timelock = await TimelockFactory.deploy(TIMELOCK_DELAY, [], [ethers.ZeroAddress], owner.address);
+    const timelockAddress = await timelock.getAddress();
+
+    const GovernorFactory = await ethers.getContractFactory("KnowledgeGovernor");
+    governor = await GovernorFactory.deploy(
+      await knowledgeToken.getAddress(),
+      timelockAddress,
+      VOTING_DELAY,
+      VOTING_PERIOD,
+      ethers.parseEther("100"),
+      4
+    );
+    const governorAddress = await governor.getAddress();
+
+    // Voters: addr1 holds 600 KNOW, addr2 300 and addr3 100
+    await knowledgeToken.mint(addr1.address, ethers.parseEther("600"));
+    await knowledgeToken.mint(addr2.address, ethers.parseEther("300"));
+    await knowledgeToken.mint(addr3.address, ethers.parseEther("100"));
+    await knowledgeToken.connect(addr1).delegate(addr1.address);
+    await knowledgeToken.connect(addr2).delegate(addr2.address);
+
+    // Same handover as scripts/deploy.ts
+    await timelock.grantRole(await timelock.PROPOSER_ROLE(), governorAddress);
+    await timelock.grantRole(await timelock.CANCELLER_ROLE(), governorAddress);
+    await timelock.renounceRole(await timelock.DEFAULT_ADMIN_ROLE(), owner.address);
+    await knowledgeHub.transferOwnership(timelockAddress);
+    await knowledgeToken.grantRole(await knowledgeToken.MINTER_ROLE(), hubAddress);
+    await knowledgeToken.grantRole(await knowledgeToken.MINTER_ROLE(), timelockAddress);
+    await knowledgeToken.grantRole(await knowledgeToken.DEFAULT_ADMIN_ROLE(), timelockAddress);
+    await knowledgeToken.renounceRole(await knowledgeToken.MINTER_ROLE(), owner.address);
+    await knowledgeToken.renounceRole(await knowledgeToken.DEFAULT_ADMIN_ROLE(), owner.address);
+  });
+
+  describe("Setup", function () {
+    it("Should give the timelock control of the hub and of minting", async function () {
+      expect(await knowledgeHub.owner()).to.equal(await timelock.getAddress());
+      await expect(knowledgeHub.setUpvoteReward(ethers.parseEther("20")))
+        .to.be.revertedWithCustomError(knowledgeHub, "OwnableUnauthorizedAccount");
+      await expect(knowledgeToken.mint(owner.address, 1))
+        .to.be.revertedWithCustomError(knowledgeToken, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should only let the governor schedule timelock operations", async function () {
+      const data = knowledgeHub.interface.encodeFunctionData("setUpvoteReward", [0]);
+      await expect(
+        timelock.schedule(hubAddress, 0, data, ethers.ZeroHash, ethers.ZeroHash, TIMELOCK_DELAY)
+      ).to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should require the proposal threshold to propose", async function () {
+      const data = knowledgeHub.interface.encodeFunctionData("setUpvoteReward", [0]);
+      await expect(governor.connect(addr3).propose([hubAddress], [0], [data], "No rewards"))
+        .to.be.revertedWithCustomError(governor, "GovernorInsufficientProposerVotes");
+    });
+  });
+
+  describe("Proposal Lifecycle", function () {
+    it("Should change the upvote reward through propose, vote, queue and execute", async function () {
+      const newReward = ethers.parseEther("25");
+      const proposalId = await propose(
+        [{ target: hubAddress, data: knowledgeHub.interface.encodeFunctionData("setUpvoteReward", [newReward]) }],
+        "Raise the upvote reward to 25 KNOW"
+      );
+      expect(await governor.state(proposalId)).to.equal(PENDING);
+
+      await mine(VOTING_DELAY + 1);
+      expect(await governor.state(proposalId)).to.equal(ACTIVE);
+      await governor.connect(addr1).castVote(proposalId, FOR);
+      await governor.connect(addr2).castVote(proposalId, AGAINST);
+
+      await mine(VOTING_PERIOD);
+      expect(await governor.state(proposalId)).to.equal(SUCCEEDED);
+
+      await governor["queue(uint256)"](proposalId);
+      expect(await governor.state(proposalId)).to.equal(QUEUED);
+      await expect(governor["execute(uint256)"](proposalId))
+        .to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+
+      await time.increase(TIMELOCK_DELAY);
+      await expect(governor["execute(uint256)"](proposalId))
+        .to.emit(knowledgeHub, "UpvoteRewardUpdated")
+        .withArgs(ethers.parseEther("10"), newReward);
+
+      expect(await governor.state(proposalId)).to.equal(EXECUTED);
+      expect(await knowledgeHub.upvoteReward()).to.equal(newReward);
+    });
+
+    it("Should appoint a moderator and fund the reward pool in one proposal", async function () {
+      const funding = ethers.parseEther("1000");
+      const proposalId = await propose(
+        [
+          { target: hubAddress, data: knowledgeHub.interface.encodeFunctionData("setModerator", [addr3.address, true]) },
+          {
+            target: await knowledgeToken.getAddress(),
+            data: knowledgeToken.interface.encodeFunctionData("mint", [hubAddress, funding]),
+          },
+        ],
+        "Appoint addr3 and fund the pool"
+      );
+
+      await mine(VOTING_DELAY + 1);
+      await governor.connect(addr2).castVote(proposalId, FOR);
+      await mine(VOTING_PERIOD);
+      await governor["queue(uint256)"](proposalId);
+      await time.increase(TIMELOCK_DELAY);
+      await governor["execute(uint256)"](proposalId);
+
+      expect(await knowledgeHub.isModerator(addr3.address)).to.be.true;
+      expect(await knowledgeHub.getContractTokenBalance()).to.equal(funding);
+    });
+
+    it("Should upgrade the hub through a proposal", async function () {
+      const V2Factory = await ethers.getContractFactory("KnowledgeHubV2Mock");
+      const implementation = (await upgrades.prepareUpgrade(hubAddress, V2Factory, {
+        kind: "uups",
+        constructorArgs: [ethers.ZeroAddress],
+      })) as string;
+      const migration = V2Factory.interface.encodeFunctionData("initializeV2");
+      const proposalId = await propose(
+        [{ target: hubAddress, data: knowledgeHub.interface.encodeFunctionData("upgradeToAndCall", [implementation, migration]) }],
+        "Upgrade the hub to v2"
+      );
+
+      await mine(VOTING_DELAY + 1);
+      await governor.connect(addr1).castVote(proposalId, FOR);
+      await mine(VOTING_PERIOD);
+      await governor["queue(uint256)"](proposalId);
+      await time.increase(TIMELOCK_DELAY);
+      await governor["execute(uint256)"](proposalId);
+
+      const hubV2 = await ethers.getContractAt("KnowledgeHubV2Mock", hubAddress);
+      expect(await upgrades.erc1967.getImplementationAddress(hubAddress)).to.equal(implementation);
+      expect(await hubV2.version()).to.equal("2");
+      expect(await hubV2.owner()).to.equal(await timelock.getAddress());
+    });
+
+    it("Should defeat proposals with more votes against than for", async function () {
+      const proposalId = await propose(
+        [{ target: hubAddress, data: knowledgeHub.interface.encodeFunctionData("setUpvoteReward", [0]) }],
+        "Stop paying rewards"
+      );
+
+      await mine(VOTING_DELAY + 1);
+      await governor.connect(addr1).castVote(proposalId, AGAINST);
+      await governor.connect(addr2).castVote(proposalId, FOR);
+      await mine(VOTING_PERIOD);
+
+      expect(await governor.state(proposalId)).to.equal(DEFEATED);
+      await expect(governor["queue(uint256)"](proposalId))
+        .to.be.revertedWithCustomError(governor, "GovernorUnexpectedProposalState");
+    });
+
+    it("Should defeat proposals that miss the quorum", async function () {
+      const proposalId = await propose(
+        [{ target: hubAddress, data: knowledgeHub.interface.encodeFunctionData("setReportThreshold", [5]) }],
+        "Require five reports"
+      );
+
+      await mine(VOTING_DELAY + 1);
+      // 4% of the 1,000 KNOW supply
+      expect(await governor.quorum(await governor.proposalSnapshot(proposalId)))
+        .to.equal(ethers.parseEther("40"));
+      await governor.connect(addr3).castVote(proposalId, FOR);
+      await mine(VOTING_PERIOD);
+
+      // addr3 never delegated, so its vote carries no weight
+      const [, forVotes] = await governor.proposalVotes(proposalId);
+      expect(forVotes).to.equal(0);
+      expect(await governor.state(proposalId)).to.equal(DEFEATED);
+    });
+
+    it("Should count voting power at the proposal snapshot", async function () {
+      const proposalId = await propose(
+        [{ target: hubAddress, data: knowledgeHub.interface.encodeFunctionData("setUpvoteReward", [0]) }],
+        "Stop paying rewards"
+      );
+
+      // Tokens moved after the snapshot do not change the vote
+      await mine(VOTING_DELAY + 1);
+      await knowledgeToken.connect(addr1).transfer(addr2.address, ethers.parseEther("600"));
+      await governor.connect(addr1).castVote(proposalId, AGAINST);
+      await governor.connect(addr2).castVote(proposalId, FOR);
+
+      const [againstVotes, forVotes] = await governor.proposalVotes(proposalId);
+      expect(againstVotes).to.equal(ethers.parseEther("600"));
+      expect(forVotes).to.equal(ethers.parseEther("300"));
+    });
+  });
+});
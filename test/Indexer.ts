@@ -0,0 +1,348 @@
+import { expect } from "chai";
+import { ethers, network, upgrades } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { KnowledgeToken, KnowledgeHub } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Indexer } from "../indexer/indexer";
+import { IndexerStore } from "../indexer/store";
+import { createApiServer } from "../indexer/api";
+import { cidFromDigest, encodeCid, formatCid, normalizeCid } from "../frontend/src/utils/cid";
+
+describe("Indexer", function () {
+  let knowledgeToken: KnowledgeToken;
+  let knowledgeHub: KnowledgeHub;
+  let owner: HardhatEthersSigner;
+  let addr1: HardhatEthersSigner;
+  let addr2: HardhatEthersSigner;
+  let addr3: HardhatEthersSigner;
+  let hubAddress: string;
+  let chainId: number;
+  let startBlock: number;
+  let dbPath: string;
+
+  const sampleIPFSHash = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+  const sampleCid = encodeCid(sampleIPFSHash);
+  // CIDs of made-up content, for entries that need content of their own
+  const contentCid = (content: string) => cidFromDigest(ethers.sha256(ethers.toUtf8Bytes(content)));
+
+  const openStore = () => IndexerStore.open(dbPath, chainId, hubAddress, startBlock);
+  const createIndexer = (store: IndexerStore) =>
+    new Indexer({ provider: ethers.provider, hubAddress, store, reorgDepth: 5 });
+
+  beforeEach(async function () {
+    [owner, addr1, addr2, addr3] = await ethers.getSigners();
+
+    const KnowledgeTokenFactory = await ethers.getContractFactory("KnowledgeToken");
+    knowledgeToken = await KnowledgeTokenFactory.deploy(owner.address);
+    await knowledgeToken.waitForDeployment();
+
+    const KnowledgeHubFactory = await ethers.getContractFactory("KnowledgeHub");
+    knowledgeHub = (await upgrades.deployProxy(KnowledgeHubFactory, [await knowledgeToken.getAddress(), owner.address], {
+      kind: "uups",
+      constructorArgs: [ethers.ZeroAddress],
+    })) as unknown as KnowledgeHub;
+    await knowledgeHub.waitForDeployment();
+
+    hubAddress = await knowledgeHub.getAddress();
+    chainId = Number((await ethers.provider.getNetwork()).chainId);
+    startBlock = (await knowledgeHub.deploymentTransaction()!.wait())!.blockNumber;
+
+    await knowledgeToken.mint(hubAddress, ethers.parseEther("10000"));
+
+    // Voting requires a stake
+    const minStake = await knowledgeHub.minVoteStake();
+    for (const voter of [addr1, addr2, addr3]) {
+      await knowledgeToken.mint(voter.address, minStake);
+      await knowledgeToken.connect(voter).approve(hubAddress, minStake);
+      await knowledgeHub.connect(voter).stake(minStake);
+    }
+
+    dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "knowledge-indexer-")), "store.json");
+  });
+
+  afterEach(function () {
+    fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+  });
+
+  describe("Event Indexing", function () {
+    it("Should index entries, votes and rewards", async function () {
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleCid);
+      await knowledgeHub.connect(addr2).submitEntry("Title 2", encodeCid(contentCid("Title 2")));
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, false);
+
+      const store = openStore();
+      const result = await createIndexer(store).sync();
+
+      expect(result.events).to.equal(5); // 2 submissions, 2 votes, 1 reward
+      expect(store.getEntries().map((entry) => entry.entryId)).to.deep.equal([1, 2]);
+      expect(store.getEntries({ creator: addr1.address })).to.have.length(1);
+
+      const votes = store.getVotes({ voter: addr2.address });
+      expect(votes).to.have.length(1);
+      expect(votes[0].entryId).to.equal(1);
+      expect(votes[0].upvote).to.be.true;
+      expect(votes[0].timestamp).to.be.greaterThan(0);
+
+      expect(store.getRewardTotals()).to.deep.equal([
+        { creator: addr1.address, total: ethers.parseEther("10").toString(), count: 1 },
+      ]);
+    });
+
+    it("Should index curator rewards and claims", async function () {
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleCid);
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr2).claimCuratorRewards([1]);
+
+      const store = openStore();
+      await createIndexer(store).sync();
+
+      const accrued = store.getCuratorRewards({ entryId: 1 });
+      expect(accrued).to.have.length(1);
+      expect(accrued[0].amount).to.equal(ethers.parseEther("2").toString());
+
+      const claims = store.getCuratorClaims({ curator: addr2.address });
+      expect(claims).to.have.length(1);
+      expect(claims[0].amount).to.equal(ethers.parseEther("2").toString());
+      expect(store.getCuratorClaims({ curator: addr3.address })).to.have.length(0);
+    });
+
+    it("Should index tips", async function () {
+      const tip = ethers.parseEther("3");
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleCid);
+      await knowledgeToken.mint(addr2.address, tip);
+      await knowledgeToken.connect(addr2).approve(hubAddress, tip);
+      await knowledgeHub.connect(addr2).tipEntry(1, tip);
+
+      const store = openStore();
+      await createIndexer(store).sync();
+
+      const tips = store.getTips({ entryId: 1 });
+      expect(tips).to.have.length(1);
+      expect(tips[0].tipper).to.equal(addr2.address);
+      expect(tips[0].creator).to.equal(addr1.address);
+      expect(tips[0].amount).to.equal(tip.toString());
+      expect(store.getTips({ tipper: addr3.address })).to.have.length(0);
+    });
+
+    it("Should index entry categories and tags", async function () {
+      await knowledgeHub.connect(addr1).submitEntryWithTags("Title 1", sampleCid, "scaling", ["l2", "rollups"]);
+      await knowledgeHub.connect(addr2).submitEntry("Title 2", encodeCid(contentCid("Title 2")));
+
+      const store = openStore();
+      await createIndexer(store).sync();
+
+      expect(store.getEntry(1)!.tags).to.deep.equal(["l2", "rollups"]);
+      expect(store.getEntries({ category: "scaling" }).map((entry) => entry.entryId)).to.deep.equal([1]);
+      expect(store.getEntries({ tag: "l2" })).to.have.length(1);
+      expect(store.getEntry(2)!.category).to.equal("");
+    });
+
+    it("Should index entry revisions", async function () {
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleCid);
+      await knowledgeHub.connect(addr1).updateEntry(1, "Title 1 (revised)", encodeCid(contentCid("Revised content")));
+
+      const store = openStore();
+      await createIndexer(store).sync();
+
+      const revisions = store.getRevisions({ entryId: 1 });
+      expect(revisions).to.have.length(1);
+      expect(revisions[0].revision).to.equal(1);
+      expect(revisions[0].ipfsHash).to.equal(formatCid(contentCid("Revised content")));
+      expect(store.getEntry(1)!.ipfsHash).to.equal(normalizeCid(sampleIPFSHash));
+    });
+
+    it("Should index reports and moderation actions", async function () {
+      await knowledgeHub.setReportThreshold(1);
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleCid);
+      await knowledgeHub.connect(addr2).reportEntry(1, "Spam");
+      await knowledgeHub.hideEntry(1, "Confirmed spam");
+
+      const store = openStore();
+      await createIndexer(store).sync();
+
+      expect(store.getReports({ entryId: 1 })).to.have.length(1);
+      expect(store.getStatusChanges({ entryId: 1 }).map((change) => change.status)).to.deep.equal([
+        "flagged",
+        "hidden",
+      ]);
+      expect(store.getCurrentStatus(1)).to.equal("hidden");
+    });
+
+    it("Should resume from the checkpoint after a restart", async function () {
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleCid);
+      await createIndexer(openStore()).sync();
+
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+
+      // A new store instance reads the persisted checkpoint
+      const store = openStore();
+      const result = await createIndexer(store).sync();
+
+      expect(result.fromBlock).to.be.greaterThan(startBlock);
+      expect(result.events).to.equal(2); // vote + reward only
+      expect(store.getEntries()).to.have.length(1);
+      expect(store.getVotes()).to.have.length(1);
+    });
+
+    it("Should migrate a version 1 store that lacks later collections and fields", async function () {
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleCid);
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await createIndexer(openStore()).sync();
+
+      // Rewrite the file the way the first indexer left it
+      const stored = JSON.parse(fs.readFileSync(dbPath, "utf8"));
+      stored.version = 1;
+      for (const key of ["revisions", "skippedRewards", "curatorRewards", "curatorClaims", "tips", "reports", "statusChanges"]) {
+        delete stored[key];
+      }
+      delete stored.entries[0].category;
+      delete stored.entries[0].tags;
+      delete stored.votes[0].weight;
+      fs.writeFileSync(dbPath, JSON.stringify(stored));
+
+      const store = openStore();
+      expect(store.getEntry(1)).to.include({ category: "" });
+      expect(store.getEntry(1)!.tags).to.deep.equal([]);
+      expect(store.getCurrentVotes(1)).to.deep.equal([{ voter: addr2.address, upvote: true, weight: 1 }]);
+      expect(store.getTips()).to.deep.equal([]);
+
+      await knowledgeHub.connect(addr3).voteOnEntry(1, true);
+      await createIndexer(store).sync();
+      expect(JSON.parse(fs.readFileSync(dbPath, "utf8")).version).to.equal(2);
+    });
+
+    it("Should track vote changes and retractions in tallies", async function () {
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleCid);
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr2).changeVote(1);
+      await knowledgeHub.connect(addr3).retractVote(1);
+
+      const store = openStore();
+      await createIndexer(store).sync();
+
+      const history = store.getVotes({ entryId: 1 });
+      expect(history.map((vote) => vote.action)).to.deep.equal(["vote", "vote", "change", "retract"]);
+      expect(store.getCurrentVotes(1)).to.deep.equal([{ voter: addr2.address, upvote: false, weight: 1 }]);
+    });
+
+    it("Should index rewards that were skipped", async function () {
+      await knowledgeHub.setMaxRewardPerEntry(ethers.parseEther("10"));
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleCid);
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, true);
+
+      const store = openStore();
+      await createIndexer(store).sync();
+
+      const skipped = store.getSkippedRewards({ creator: addr1.address });
+      expect(skipped).to.have.length(1);
+      expect(skipped[0].reason).to.equal("Entry reward cap reached");
+      expect(store.getRewards()).to.have.length(1);
+    });
+
+    it("Should not index events from other contracts", async function () {
+      const KnowledgeHubFactory = await ethers.getContractFactory("KnowledgeHub");
+      const otherHub = (await upgrades.deployProxy(KnowledgeHubFactory, [await knowledgeToken.getAddress(), owner.address], {
+        kind: "uups",
+        constructorArgs: [ethers.ZeroAddress],
+      })) as unknown as KnowledgeHub;
+      await otherHub.connect(addr1).submitEntry("Elsewhere", sampleCid);
+
+      const store = openStore();
+      await createIndexer(store).sync();
+
+      expect(store.getEntries()).to.have.length(0);
+    });
+  });
+
+  describe("Reorg Handling", function () {
+    it("Should roll back events from blocks that are no longer canonical", async function () {
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleCid);
+      const snapshot = await network.provider.send("evm_snapshot");
+
+      // Vote on a branch that will be discarded
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+
+      const store = openStore();
+      const indexer = createIndexer(store);
+      await indexer.sync();
+      expect(store.getVotes()).to.have.length(1);
+
+      // Replace the branch with a different block at the same height
+      await network.provider.send("evm_revert", [snapshot]);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, false);
+
+      const result = await indexer.sync();
+
+      expect(result.reorgedFrom).to.not.be.undefined;
+      const votes = store.getVotes();
+      expect(votes).to.have.length(1);
+      expect(votes[0].voter).to.equal(addr3.address);
+      expect(votes[0].upvote).to.be.false;
+      expect(store.getRewards()).to.have.length(0);
+    });
+  });
+
+  describe("Query API", function () {
+    it("Should serve entries by creator, votes by voter and reward totals", async function () {
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleCid);
+      await knowledgeHub.connect(addr2).submitEntry("Title 2", encodeCid(contentCid("Title 2")));
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr1).updateEntry(1, "Title 1 (revised)", sampleCid);
+
+      const store = openStore();
+      await createIndexer(store).sync();
+
+      const server = createApiServer(store);
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      const get = async (route: string) => (await fetch(baseUrl + route)).json();
+
+      try {
+        const entries = await get(`/entries?creator=${addr1.address}`);
+        expect(entries).to.have.length(1);
+        expect(entries[0].title).to.equal("Title 1 (revised)");
+        expect(entries[0].updatedAt).to.be.greaterThan(0);
+        expect(entries[0].upvotes).to.equal(2);
+        expect(entries[0].weightedUpvotes).to.equal(2);
+
+        const votes = await get(`/votes?voter=${addr3.address}`);
+        expect(votes).to.have.length(1);
+        expect(votes[0].entryId).to.equal(1);
+
+        const totals = await get("/rewards/totals");
+        expect(totals).to.deep.equal([
+          // The second upvote pays 20% of its reward to the first upvoter
+          { creator: addr1.address, total: ethers.parseEther("18").toString(), count: 2 },
+        ]);
+
+        const entry = await get("/entries/1");
+        expect(entry.votes).to.have.length(2);
+        expect(entry.rewards).to.have.length(2);
+        expect(entry.curatorRewards).to.have.length(1);
+        expect(entry.revisions).to.have.length(1);
+
+        await knowledgeHub.hideEntry(2, "Off topic");
+        await createIndexer(store).sync();
+        expect(await get("/entries")).to.have.length(1);
+        const all = await get("/entries?includeHidden=true");
+        expect(all.map((e: { status: string }) => e.status)).to.deep.equal(["active", "hidden"]);
+        const trail = await get("/moderation?entry=2");
+        expect(trail).to.have.length(1);
+        expect(trail[0].reason).to.equal("Off topic");
+
+        const missing = await fetch(`${baseUrl}/entries/99`);
+        expect(missing.status).to.equal(404);
+      } finally {
+        server.close();
+      }
+    });
+  });
+});
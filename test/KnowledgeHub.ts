@@ -1,7 +1,11 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
-import { KnowledgeToken, KnowledgeHub } from "../typechain-types";
+import { ethers, upgrades } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { KnowledgeToken, KnowledgeHub, KnowledgeForwarder } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { signForwardRequest } from "../relayer/relayer";
+import { signPermit } from "../scripts/utils/permit";
+import { cidFromDigest, encodeCid, formatCid, normalizeCid, parseCid, storedCid } from "../frontend/src/utils/cid";
 
 describe("KnowledgeHub", function () {
   let knowledgeToken: KnowledgeToken;
@@ -11,10 +15,29 @@ describe("KnowledgeHub", function () {
   let addr2: HardhatEthersSigner;
   let addr3: HardhatEthersSigner;
 
-  // Sample IPFS CID for testing
+  // Sample IPFS CID for testing, in the binary form the hub takes and the base32 form it stores
   const sampleIPFSHash = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+  const sampleCid = encodeCid(sampleIPFSHash);
+  const sampleStoredHash = normalizeCid(sampleIPFSHash);
+  const sampleContent = parseCid(sampleIPFSHash);
+
+  // CIDs of made-up content, for entries that need content of their own
+  const contentCid = (content: string) => cidFromDigest(ethers.sha256(ethers.toUtf8Bytes(content)));
+  const cidOf = (content: string) => encodeCid(contentCid(content));
+  // CID string of an entry as clients rebuild it from the stored digest and codec
+  const cidStringOf = (entry: KnowledgeHub.KnowledgeEntryStructOutput) => storedCid(entry.ipfsHash, entry.content);
   const sampleTitle = "Introduction to Blockchain Technology";
 
+  // Give each voter the minimum stake a hub requires before it accepts votes
+  const stakeToVote = async (hub: KnowledgeHub, voters: HardhatEthersSigner[]) => {
+    const minStake = await hub.minVoteStake();
+    for (const voter of voters) {
+      await knowledgeToken.mint(voter.address, minStake);
+      await knowledgeToken.connect(voter).approve(await hub.getAddress(), minStake);
+      await hub.connect(voter).stake(minStake);
+    }
+  };
+
   beforeEach(async function () {
     [owner, addr1, addr2, addr3] = await ethers.getSigners();
     
@@ -25,12 +48,18 @@ describe("KnowledgeHub", function () {
     
     // Deploy KnowledgeHub
     const KnowledgeHubFactory = await ethers.getContractFactory("KnowledgeHub");
-    knowledgeHub = await KnowledgeHubFactory.deploy(await knowledgeToken.getAddress());
+    knowledgeHub = (await upgrades.deployProxy(KnowledgeHubFactory, [await knowledgeToken.getAddress(), owner.address], {
+      kind: "uups",
+      constructorArgs: [ethers.ZeroAddress],
+    })) as unknown as KnowledgeHub;
     await knowledgeHub.waitForDeployment();
     
     // Mint tokens to the hub contract for rewards
     const rewardPool = ethers.parseEther("10000"); // 10,000 KNOW tokens
     await knowledgeToken.mint(await knowledgeHub.getAddress(), rewardPool);
+    
+    // Let the first few accounts vote
+    await stakeToVote(knowledgeHub, (await ethers.getSigners()).slice(1, 7));
   });
 
   describe("Deployment", function () {
@@ -39,7 +68,13 @@ describe("KnowledgeHub", function () {
     });
 
     it("Should have correct upvote reward amount", async function () {
-      expect(await knowledgeHub.UPVOTE_REWARD()).to.equal(ethers.parseEther("10"));
+      expect(await knowledgeHub.upvoteReward()).to.equal(ethers.parseEther("10"));
+      expect(await knowledgeHub.DEFAULT_UPVOTE_REWARD()).to.equal(ethers.parseEther("10"));
+    });
+
+    it("Should set the deployer as owner with no reward cap", async function () {
+      expect(await knowledgeHub.owner()).to.equal(owner.address);
+      expect(await knowledgeHub.maxRewardPerEntry()).to.equal(0);
     });
 
     it("Should start with zero entries", async function () {
@@ -49,46 +84,88 @@ describe("KnowledgeHub", function () {
 
   describe("Entry Submission", function () {
     it("Should allow users to submit knowledge entries", async function () {
-      const tx = await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleIPFSHash);
+      const tx = await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
       
       await expect(tx)
         .to.emit(knowledgeHub, "EntrySubmitted")
-        .withArgs(1, addr1.address, sampleTitle, sampleIPFSHash);
+        .withArgs(1, addr1.address, sampleTitle, sampleContent.digest, sampleContent.codec, "", []);
       
       const entry = await knowledgeHub.getEntry(1);
       expect(entry.id).to.equal(1);
       expect(entry.creator).to.equal(addr1.address);
       expect(entry.title).to.equal(sampleTitle);
-      expect(entry.ipfsHash).to.equal(sampleIPFSHash);
+      expect(entry.ipfsHash).to.equal("");
+      expect(entry.content.digest).to.equal(sampleContent.digest);
+      expect(entry.content.codec).to.equal(sampleContent.codec);
+      expect(cidStringOf(entry)).to.equal(sampleStoredHash);
       expect(entry.voteCount).to.equal(0);
       expect(entry.upvotes).to.equal(0);
       expect(entry.downvotes).to.equal(0);
     });
 
     it("Should increment entry count after submission", async function () {
-      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleIPFSHash);
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
       expect(await knowledgeHub.getEntryCount()).to.equal(1);
       
-      await knowledgeHub.connect(addr2).submitEntry("Another Title", sampleIPFSHash);
+      await knowledgeHub.connect(addr2).submitEntry("Another Title", cidOf("Another Title"));
       expect(await knowledgeHub.getEntryCount()).to.equal(2);
     });
 
     it("Should not allow empty title", async function () {
       await expect(
-        knowledgeHub.connect(addr1).submitEntry("", sampleIPFSHash)
+        knowledgeHub.connect(addr1).submitEntry("", sampleCid)
       ).to.be.revertedWith("Title cannot be empty");
     });
 
-    it("Should not allow empty IPFS hash", async function () {
+    it("Should reject malformed CIDs", async function () {
+      const digest = ethers.sha256(ethers.toUtf8Bytes("content")).slice(2);
+      const malformed = [
+        "0x",
+        `0x1220${digest}`, // CIDv0 multihash without the CIDv1 header
+        `0x01711220${digest}`, // dag-cbor codec
+        `0x01701114${digest.slice(0, 40)}`, // sha1 multihash
+        `0x01701220${digest}00`, // trailing byte
+      ];
+      for (const cid of malformed) {
+        await expect(knowledgeHub.connect(addr1).submitEntry(sampleTitle, cid)).to.be.revertedWith("Invalid CID");
+      }
+    });
+
+    it("Should store CIDv0 and CIDv1 submissions in the same canonical form", async function () {
+      // The sample CIDv0 and its base32 CIDv1 encode to the same binary CID
+      expect(sampleStoredHash).to.equal("bafybeie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34");
+      expect(encodeCid(sampleStoredHash)).to.equal(sampleCid);
+
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, encodeCid(sampleStoredHash));
+      await knowledgeHub.connect(addr1).submitEntry("Raw block", cidOf("Raw block"));
+
+      expect(cidStringOf(await knowledgeHub.getEntry(1))).to.equal(sampleStoredHash);
+      expect(cidStringOf(await knowledgeHub.getEntry(2))).to.equal(formatCid(contentCid("Raw block")));
+      expect(await knowledgeHub.entryIdByDigest(parseCid(sampleIPFSHash).digest)).to.equal(1);
+    });
+
+    it("Should not accept the same content twice", async function () {
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
+
+      // Written as CIDv0, CIDv1 or by another account, it is still the same content
       await expect(
-        knowledgeHub.connect(addr1).submitEntry(sampleTitle, "")
-      ).to.be.revertedWith("IPFS hash cannot be empty");
+        knowledgeHub.connect(addr2).submitEntry("Copied", encodeCid(sampleIPFSHash))
+      ).to.be.revertedWith("Content already submitted");
+      await expect(
+        knowledgeHub.connect(addr1).submitEntry("Again", encodeCid(sampleStoredHash))
+      ).to.be.revertedWith("Content already submitted");
+
+      // Nor can another entry be revised to point at it
+      await knowledgeHub.connect(addr2).submitEntry("Other", cidOf("Other"));
+      await expect(
+        knowledgeHub.connect(addr2).updateEntry(2, "Other", sampleCid)
+      ).to.be.revertedWith("Content already submitted");
     });
 
     it("Should assign sequential IDs to entries", async function () {
-      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleIPFSHash);
-      await knowledgeHub.connect(addr2).submitEntry("Title 2", sampleIPFSHash);
-      await knowledgeHub.connect(addr3).submitEntry("Title 3", sampleIPFSHash);
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", cidOf("Title 1"));
+      await knowledgeHub.connect(addr2).submitEntry("Title 2", cidOf("Title 2"));
+      await knowledgeHub.connect(addr3).submitEntry("Title 3", cidOf("Title 3"));
       
       const entry1 = await knowledgeHub.getEntry(1);
       const entry2 = await knowledgeHub.getEntry(2);
@@ -103,7 +180,7 @@ describe("KnowledgeHub", function () {
   describe("Voting Logic", function () {
     beforeEach(async function () {
       // Submit a test entry
-      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleIPFSHash);
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
     });
 
     it("Should allow users to upvote entries", async function () {
@@ -111,7 +188,7 @@ describe("KnowledgeHub", function () {
       
       await expect(tx)
         .to.emit(knowledgeHub, "EntryVoted")
-        .withArgs(1, addr2.address, true);
+        .withArgs(1, addr2.address, true, 1);
       
       const entry = await knowledgeHub.getEntry(1);
       expect(entry.voteCount).to.equal(1);
@@ -124,7 +201,7 @@ describe("KnowledgeHub", function () {
       
       await expect(tx)
         .to.emit(knowledgeHub, "EntryVoted")
-        .withArgs(1, addr2.address, false);
+        .withArgs(1, addr2.address, false, 1);
       
       const entry = await knowledgeHub.getEntry(1);
       expect(entry.voteCount).to.equal(-1);
@@ -165,9 +242,190 @@ describe("KnowledgeHub", function () {
     });
   });
 
+  describe("Vote Changes", function () {
+    beforeEach(async function () {
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
+    });
+
+    it("Should allow voters to change an upvote into a downvote", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      
+      await expect(knowledgeHub.connect(addr2).changeVote(1))
+        .to.emit(knowledgeHub, "VoteChanged")
+        .withArgs(1, addr2.address, false, 1);
+      
+      const entry = await knowledgeHub.getEntry(1);
+      expect(entry.voteCount).to.equal(-1);
+      expect(entry.upvotes).to.equal(0);
+      expect(entry.downvotes).to.equal(1);
+      
+      const [hasVoted, isUpvote] = await knowledgeHub.getVoteStatus(1, addr2.address);
+      expect(hasVoted).to.be.true;
+      expect(isUpvote).to.be.false;
+    });
+
+    it("Should allow voters to change a downvote into an upvote", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, false);
+      
+      await expect(knowledgeHub.connect(addr2).changeVote(1))
+        .to.emit(knowledgeHub, "VoteChanged")
+        .withArgs(1, addr2.address, true, 1);
+      
+      const entry = await knowledgeHub.getEntry(1);
+      expect(entry.voteCount).to.equal(1);
+      expect(entry.upvotes).to.equal(1);
+      expect(entry.downvotes).to.equal(0);
+    });
+
+    it("Should allow voters to retract their vote", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, false);
+      
+      await expect(knowledgeHub.connect(addr2).retractVote(1))
+        .to.emit(knowledgeHub, "VoteRetracted")
+        .withArgs(1, addr2.address, true, 1);
+      await expect(knowledgeHub.connect(addr3).retractVote(1))
+        .to.emit(knowledgeHub, "VoteRetracted")
+        .withArgs(1, addr3.address, false, 1);
+      
+      const entry = await knowledgeHub.getEntry(1);
+      expect(entry.voteCount).to.equal(0);
+      expect(entry.upvotes).to.equal(0);
+      expect(entry.downvotes).to.equal(0);
+      
+      const [hasVoted, isUpvote] = await knowledgeHub.getVoteStatus(1, addr2.address);
+      expect(hasVoted).to.be.false;
+      expect(isUpvote).to.be.false;
+    });
+
+    it("Should allow voting again after retracting", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr2).retractVote(1);
+      await knowledgeHub.connect(addr2).voteOnEntry(1, false);
+      
+      const entry = await knowledgeHub.getEntry(1);
+      expect(entry.voteCount).to.equal(-1);
+      expect(entry.downvotes).to.equal(1);
+    });
+
+    it("Should not change or retract a vote that was never cast", async function () {
+      await expect(
+        knowledgeHub.connect(addr2).changeVote(1)
+      ).to.be.revertedWith("You have not voted on this entry");
+      
+      await expect(
+        knowledgeHub.connect(addr2).retractVote(1)
+      ).to.be.revertedWith("You have not voted on this entry");
+      
+      await expect(
+        knowledgeHub.connect(addr2).retractVote(999)
+      ).to.be.revertedWith("Entry does not exist");
+    });
+
+    it("Should keep the reward paid for an upvote that is later withdrawn", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr2).retractVote(1);
+      
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("10"));
+      expect(await knowledgeHub.upvoteRewarded(1, addr2.address)).to.be.true;
+    });
+
+    it("Should not pay rewards again when flip-flopping", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr2).changeVote(1);
+      await expect(knowledgeHub.connect(addr2).changeVote(1))
+        .to.not.emit(knowledgeHub, "RewardDistributed");
+      await knowledgeHub.connect(addr2).retractVote(1);
+      await expect(knowledgeHub.connect(addr2).voteOnEntry(1, true))
+        .to.not.emit(knowledgeHub, "RewardDistributed");
+      
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("10"));
+    });
+
+    it("Should reward the first upvote reached by changing a downvote", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, false);
+      
+      await expect(knowledgeHub.connect(addr2).changeVote(1))
+        .to.emit(knowledgeHub, "RewardDistributed")
+        .withArgs(1, addr1.address, ethers.parseEther("10"));
+    });
+  });
+
+  describe("Batch Voting", function () {
+    beforeEach(async function () {
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", cidOf("Title 1"));
+      await knowledgeHub.connect(addr1).submitEntry("Title 2", cidOf("Title 2"));
+      await knowledgeHub.connect(addr2).submitEntry("Title 3", cidOf("Title 3"));
+    });
+
+    it("Should count every vote in a batch", async function () {
+      const tx = await knowledgeHub.connect(addr3).batchVote([1, 2, 3], [true, false, true]);
+
+      await expect(tx).to.emit(knowledgeHub, "EntryVoted").withArgs(1, addr3.address, true, 1);
+      await expect(tx).to.emit(knowledgeHub, "EntryVoted").withArgs(2, addr3.address, false, 1);
+      await expect(tx).to.emit(knowledgeHub, "EntryVoted").withArgs(3, addr3.address, true, 1);
+      await expect(tx).to.not.emit(knowledgeHub, "VoteSkipped");
+
+      expect((await knowledgeHub.getEntry(1)).upvotes).to.equal(1);
+      expect((await knowledgeHub.getEntry(2)).downvotes).to.equal(1);
+      // Upvotes reward creators exactly like single votes
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("10"));
+      expect(await knowledgeToken.balanceOf(addr2.address)).to.equal(ethers.parseEther("10"));
+    });
+
+    it("Should skip votes that break the rules without reverting the batch", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.hideEntry(2, "Spam");
+
+      const ids = [1, 2, 3, 999, 4];
+      const upvotes = [true, true, false, true, true];
+      await knowledgeHub.connect(addr3).submitEntry("Title 4", cidOf("Title 4"));
+      expect(await knowledgeHub.connect(addr2).batchVote.staticCall(ids, upvotes))
+        .to.deep.equal([false, false, false, false, true]);
+
+      const tx = await knowledgeHub.connect(addr2).batchVote(ids, upvotes);
+      await expect(tx).to.emit(knowledgeHub, "VoteSkipped")
+        .withArgs(1, addr2.address, "You have already voted on this entry");
+      await expect(tx).to.emit(knowledgeHub, "VoteSkipped").withArgs(2, addr2.address, "Entry is not visible");
+      await expect(tx).to.emit(knowledgeHub, "VoteSkipped").withArgs(3, addr2.address, "Cannot vote on your own entry");
+      await expect(tx).to.emit(knowledgeHub, "VoteSkipped").withArgs(999, addr2.address, "Entry does not exist");
+      await expect(tx).to.emit(knowledgeHub, "EntryVoted").withArgs(4, addr2.address, true, 1);
+
+      expect((await knowledgeHub.getEntry(1)).upvotes).to.equal(1);
+      expect(await knowledgeHub.hasVoted(3, addr2.address)).to.be.false;
+    });
+
+    it("Should skip repeated IDs after the first vote", async function () {
+      await expect(knowledgeHub.connect(addr3).batchVote([1, 1], [true, false]))
+        .to.emit(knowledgeHub, "VoteSkipped")
+        .withArgs(1, addr3.address, "You have already voted on this entry");
+
+      expect((await knowledgeHub.getEntry(1)).voteCount).to.equal(1);
+    });
+
+    it("Should skip every vote of an account without enough stake", async function () {
+      const [, , , , , , , unstaked] = await ethers.getSigners();
+
+      expect(await knowledgeHub.connect(unstaked).batchVote.staticCall([1, 2], [true, true]))
+        .to.deep.equal([false, false]);
+      await expect(knowledgeHub.connect(unstaked).batchVote([1, 2], [true, true]))
+        .to.emit(knowledgeHub, "VoteSkipped")
+        .withArgs(2, unstaked.address, "Insufficient stake to vote");
+    });
+
+    it("Should reject malformed batches", async function () {
+      await expect(knowledgeHub.connect(addr3).batchVote([1, 2], [true]))
+        .to.be.revertedWith("Array lengths must match");
+
+      const tooMany = Array.from({ length: 51 }, () => 1);
+      await expect(knowledgeHub.connect(addr3).batchVote(tooMany, tooMany.map(() => true)))
+        .to.be.revertedWith("Too many votes in one batch");
+    });
+  });
+
   describe("Token Rewards", function () {
     beforeEach(async function () {
-      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleIPFSHash);
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
     });
 
     it("Should distribute KNOW tokens when entry is upvoted", async function () {
@@ -200,8 +458,10 @@ describe("KnowledgeHub", function () {
       await knowledgeHub.connect(addr2).voteOnEntry(1, true);
       await knowledgeHub.connect(addr3).voteOnEntry(1, true);
       
+      // The second upvote's curator share goes to the first upvoter
+      const curatorAmount = rewardAmount * (await knowledgeHub.curatorShareBps()) / 10000n;
       const finalBalance = await knowledgeToken.balanceOf(addr1.address);
-      expect(finalBalance).to.equal(initialBalance + (rewardAmount * 2n));
+      expect(finalBalance).to.equal(initialBalance + (rewardAmount * 2n) - curatorAmount);
       
       const entry = await knowledgeHub.getEntry(1);
       expect(entry.voteCount).to.equal(2);
@@ -209,11 +469,197 @@ describe("KnowledgeHub", function () {
     });
   });
 
+  describe("Reward Policy", function () {
+    beforeEach(async function () {
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
+    });
+
+    it("Should allow the owner to change the upvote reward", async function () {
+      const newReward = ethers.parseEther("25");
+      
+      await expect(knowledgeHub.setUpvoteReward(newReward))
+        .to.emit(knowledgeHub, "UpvoteRewardUpdated")
+        .withArgs(ethers.parseEther("10"), newReward);
+      
+      await expect(knowledgeHub.connect(addr2).voteOnEntry(1, true))
+        .to.emit(knowledgeHub, "RewardDistributed")
+        .withArgs(1, addr1.address, newReward);
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(newReward);
+    });
+
+    it("Should not allow non-owners to change the reward policy", async function () {
+      await expect(
+        knowledgeHub.connect(addr1).setUpvoteReward(ethers.parseEther("1000"))
+      ).to.be.revertedWithCustomError(knowledgeHub, "OwnableUnauthorizedAccount");
+      
+      await expect(
+        knowledgeHub.connect(addr1).setMaxRewardPerEntry(ethers.parseEther("1000"))
+      ).to.be.revertedWithCustomError(knowledgeHub, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should emit RewardSkipped when rewards are disabled", async function () {
+      await knowledgeHub.setUpvoteReward(0);
+      
+      await expect(knowledgeHub.connect(addr2).voteOnEntry(1, true))
+        .to.emit(knowledgeHub, "RewardSkipped")
+        .withArgs(1, addr1.address, 0, "Rewards disabled");
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(0);
+    });
+
+    it("Should cap the total reward per entry", async function () {
+      const cap = ethers.parseEther("15");
+      
+      await expect(knowledgeHub.setMaxRewardPerEntry(cap))
+        .to.emit(knowledgeHub, "MaxRewardPerEntryUpdated")
+        .withArgs(0, cap);
+      
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      
+      // Only the remainder under the cap is paid, 20% of it to the first upvoter
+      await expect(knowledgeHub.connect(addr3).voteOnEntry(1, true))
+        .to.emit(knowledgeHub, "RewardDistributed")
+        .withArgs(1, addr1.address, ethers.parseEther("4"));
+      
+      const signers = await ethers.getSigners();
+      await expect(knowledgeHub.connect(signers[4]).voteOnEntry(1, true))
+        .to.emit(knowledgeHub, "RewardSkipped")
+        .withArgs(1, addr1.address, ethers.parseEther("10"), "Entry reward cap reached");
+      
+      expect(await knowledgeHub.entryRewardsPaid(1)).to.equal(cap);
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("14"));
+      expect(await knowledgeHub.pendingCuratorReward(1, addr2.address)).to.equal(ethers.parseEther("1"));
+    });
+
+    it("Should emit RewardSkipped when the pool runs dry", async function () {
+      // A fresh hub without any reward pool
+      const KnowledgeHubFactory = await ethers.getContractFactory("KnowledgeHub");
+      const emptyHub = (await upgrades.deployProxy(KnowledgeHubFactory, [await knowledgeToken.getAddress(), owner.address], {
+        kind: "uups",
+        constructorArgs: [ethers.ZeroAddress],
+      })) as unknown as KnowledgeHub;
+      await emptyHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
+      await stakeToVote(emptyHub, [addr2]);
+      
+      await expect(emptyHub.connect(addr2).voteOnEntry(1, true))
+        .to.emit(emptyHub, "RewardSkipped")
+        .withArgs(1, addr1.address, ethers.parseEther("10"), "Insufficient reward pool");
+      
+      // The vote itself still counts
+      const entry = await emptyHub.getEntry(1);
+      expect(entry.upvotes).to.equal(1);
+    });
+
+    it("Should let anyone fund the reward pool through an allowance", async function () {
+      const amount = ethers.parseEther("500");
+      await knowledgeToken.mint(addr2.address, amount);
+      await knowledgeToken.connect(addr2).approve(await knowledgeHub.getAddress(), amount);
+      
+      await expect(knowledgeHub.connect(addr2).fundRewardPool(amount))
+        .to.emit(knowledgeHub, "RewardPoolFunded")
+        .withArgs(addr2.address, amount);
+      
+      expect(await knowledgeHub.getContractTokenBalance()).to.equal(ethers.parseEther("10500"));
+      expect(await knowledgeToken.balanceOf(addr2.address)).to.equal(0);
+    });
+
+    it("Should not fund the reward pool without allowance or with zero", async function () {
+      await knowledgeToken.mint(addr2.address, ethers.parseEther("500"));
+      
+      await expect(
+        knowledgeHub.connect(addr2).fundRewardPool(ethers.parseEther("500"))
+      ).to.be.revertedWithCustomError(knowledgeToken, "ERC20InsufficientAllowance");
+      
+      await expect(
+        knowledgeHub.connect(addr2).fundRewardPool(0)
+      ).to.be.revertedWith("Amount must be greater than zero");
+    });
+  });
+
+  describe("Minted Rewards", function () {
+    let mintingHub: KnowledgeHub;
+
+    beforeEach(async function () {
+      // A hub without a funded pool that mints rewards on demand
+      const KnowledgeHubFactory = await ethers.getContractFactory("KnowledgeHub");
+      mintingHub = (await upgrades.deployProxy(KnowledgeHubFactory, [await knowledgeToken.getAddress(), owner.address], {
+        kind: "uups",
+        constructorArgs: [ethers.ZeroAddress],
+      })) as unknown as KnowledgeHub;
+      await knowledgeToken.grantRole(await knowledgeToken.MINTER_ROLE(), await mintingHub.getAddress());
+      
+      await mintingHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
+      await stakeToVote(mintingHub, [addr2, addr3]);
+    });
+
+    it("Should mint rewards when the hub holds the minter role", async function () {
+      expect(await mintingHub.canMintRewards()).to.be.true;
+      const supplyBefore = await knowledgeToken.totalSupply();
+      
+      await expect(mintingHub.connect(addr2).voteOnEntry(1, true))
+        .to.emit(mintingHub, "RewardDistributed")
+        .withArgs(1, addr1.address, ethers.parseEther("10"));
+      
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("10"));
+      expect(await knowledgeToken.totalSupply()).to.equal(supplyBefore + ethers.parseEther("10"));
+      expect(await mintingHub.getContractTokenBalance()).to.equal(0);
+    });
+
+    it("Should pay from the funded pool before minting", async function () {
+      await knowledgeToken.mint(await mintingHub.getAddress(), ethers.parseEther("10"));
+      const supplyBefore = await knowledgeToken.totalSupply();
+      
+      await mintingHub.connect(addr2).voteOnEntry(1, true);
+      
+      expect(await knowledgeToken.totalSupply()).to.equal(supplyBefore);
+      expect(await mintingHub.getContractTokenBalance()).to.equal(0);
+    });
+
+    it("Should hold minted curator rewards for claiming", async function () {
+      await mintingHub.connect(addr2).voteOnEntry(1, true);
+      await mintingHub.connect(addr3).voteOnEntry(1, true);
+      
+      expect(await mintingHub.totalCuratorRewardsReserved()).to.equal(ethers.parseEther("2"));
+      expect(await mintingHub.getContractTokenBalance()).to.equal(0);
+      
+      await mintingHub.connect(addr2).claimCuratorRewards([...await mintingHub.getCuratedEntryIds(addr2.address)]);
+      expect(await knowledgeToken.balanceOf(addr2.address)).to.equal(ethers.parseEther("2"));
+    });
+
+    it("Should stop minting once the minter role is revoked", async function () {
+      await knowledgeToken.revokeRole(await knowledgeToken.MINTER_ROLE(), await mintingHub.getAddress());
+      expect(await mintingHub.canMintRewards()).to.be.false;
+      
+      await expect(mintingHub.connect(addr2).voteOnEntry(1, true))
+        .to.emit(mintingHub, "RewardSkipped")
+        .withArgs(1, addr1.address, ethers.parseEther("10"), "Insufficient reward pool");
+    });
+
+    it("Should skip rewards that would exceed the token supply cap", async function () {
+      const maxSupply = await knowledgeToken.MAX_SUPPLY();
+      await knowledgeToken.mint(addr3.address, maxSupply - (await knowledgeToken.totalSupply()));
+      
+      await expect(mintingHub.connect(addr2).voteOnEntry(1, true))
+        .to.emit(mintingHub, "RewardSkipped")
+        .withArgs(1, addr1.address, ethers.parseEther("10"), "Token supply cap reached");
+      
+      // The vote itself still counts
+      expect((await mintingHub.getEntry(1)).upvotes).to.equal(1);
+    });
+
+    it("Should skip rewards while token transfers are paused", async function () {
+      await knowledgeToken.pause();
+      
+      await expect(mintingHub.connect(addr2).voteOnEntry(1, true))
+        .to.emit(mintingHub, "RewardSkipped")
+        .withArgs(1, addr1.address, ethers.parseEther("10"), "Token transfers paused");
+    });
+  });
+
   describe("Entry Retrieval", function () {
     beforeEach(async function () {
-      await knowledgeHub.connect(addr1).submitEntry("Title 1", sampleIPFSHash);
-      await knowledgeHub.connect(addr2).submitEntry("Title 2", "QmAnotherHash123");
-      await knowledgeHub.connect(addr1).submitEntry("Title 3", "QmThirdHash456");
+      await knowledgeHub.connect(addr1).submitEntry("Title 1", cidOf("Title 1"));
+      await knowledgeHub.connect(addr2).submitEntry("Title 2", cidOf("Title 2"));
+      await knowledgeHub.connect(addr1).submitEntry("Title 3", cidOf("Title 3"));
     });
 
     it("Should return all entry IDs", async function () {
@@ -245,11 +691,1029 @@ describe("KnowledgeHub", function () {
       const balance = await knowledgeHub.getContractTokenBalance();
       expect(balance).to.equal(ethers.parseEther("10000"));
     });
+
+    it("Should return a page of entries", async function () {
+      const page = await knowledgeHub.getEntriesPage(1, 2);
+      expect(page.length).to.equal(2);
+      expect(page[0].id).to.equal(2);
+      expect(page[0].creator).to.equal(addr2.address);
+      expect(page[1].id).to.equal(3);
+      expect(page[1].title).to.equal("Title 3");
+    });
+
+    it("Should truncate the last page and return empty pages past the end", async function () {
+      expect((await knowledgeHub.getEntriesPage(2, 10)).length).to.equal(1);
+      expect((await knowledgeHub.getEntriesPage(3, 10)).length).to.equal(0);
+      expect((await knowledgeHub.getEntriesPage(100, 10)).length).to.equal(0);
+      expect((await knowledgeHub.getEntriesPage(0, 0)).length).to.equal(0);
+    });
+
+    it("Should return a page of entries by creator", async function () {
+      expect(await knowledgeHub.getCreatorEntryCount(addr1.address)).to.equal(2);
+      expect(await knowledgeHub.getCreatorEntryCount(addr3.address)).to.equal(0);
+
+      const page = await knowledgeHub.getEntriesByCreatorPage(addr1.address, 1, 5);
+      expect(page.length).to.equal(1);
+      expect(page[0].id).to.equal(3);
+
+      const empty = await knowledgeHub.getEntriesByCreatorPage(addr3.address, 0, 5);
+      expect(empty.length).to.equal(0);
+    });
+
+    it("Should return full entries for a batch of IDs", async function () {
+      await knowledgeHub.connect(addr3).voteOnEntry(2, true);
+
+      const batch = await knowledgeHub.getEntries([3, 2]);
+      expect(batch.length).to.equal(2);
+      expect(batch[0].id).to.equal(3);
+      expect(cidStringOf(batch[0])).to.equal(formatCid(contentCid("Title 3")));
+      expect(batch[1].id).to.equal(2);
+      expect(batch[1].upvotes).to.equal(1);
+    });
+
+    it("Should return entries together with their tips and an account's votes", async function () {
+      await knowledgeHub.connect(addr3).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(2, false);
+      const tip = ethers.parseEther("5");
+      await knowledgeToken.mint(addr3.address, tip);
+      await knowledgeToken.connect(addr3).approve(await knowledgeHub.getAddress(), tip);
+      await knowledgeHub.connect(addr3).tipEntry(2, tip);
+
+      const [batch, voted, upvoted, tips] = await knowledgeHub.getEntriesWithVoteStatus([2, 1, 3], addr3.address);
+      expect(batch.map((entry) => entry.id)).to.deep.equal([2n, 1n, 3n]);
+      expect(batch[1].upvotes).to.equal(1);
+      expect(voted).to.deep.equal([true, true, false]);
+      expect(upvoted).to.deep.equal([false, true, false]);
+      expect(tips).to.deep.equal([tip, 0n, 0n]);
+
+      await expect(knowledgeHub.getEntriesWithVoteStatus([1, 999], addr3.address))
+        .to.be.revertedWith("Entry does not exist");
+    });
+
+    it("Should revert batch retrieval containing a non-existent entry", async function () {
+      await expect(
+        knowledgeHub.getEntries([1, 999])
+      ).to.be.revertedWith("Entry does not exist");
+    });
+
+    describe("Large Datasets", function () {
+      const extraEntries = 150;
+
+      beforeEach(async function () {
+        // 3 entries from the outer beforeEach, then alternate creators
+        for (let i = 0; i < extraEntries; i++) {
+          const creator = i % 3 === 0 ? addr3 : addr2;
+          await knowledgeHub.connect(creator).submitEntry(`Bulk ${i}`, cidOf(`Bulk ${i}`));
+        }
+      });
+
+      it("Should page through every entry exactly once", async function () {
+        const total = Number(await knowledgeHub.getEntryCount());
+        expect(total).to.equal(extraEntries + 3);
+
+        const seen: bigint[] = [];
+        for (let offset = 0; offset < total; offset += 40) {
+          const page = await knowledgeHub.getEntriesPage(offset, 40);
+          seen.push(...page.map((entry) => entry.id));
+        }
+
+        expect(seen.length).to.equal(total);
+        seen.forEach((id, i) => expect(id).to.equal(i + 1));
+      });
+
+      it("Should page through a creator's entries using the per-creator index", async function () {
+        const count = Number(await knowledgeHub.getCreatorEntryCount(addr3.address));
+        expect(count).to.equal(extraEntries / 3);
+
+        const ids = await knowledgeHub.getEntriesByCreator(addr3.address);
+        expect(ids.length).to.equal(count);
+
+        const page = await knowledgeHub.getEntriesByCreatorPage(addr3.address, 10, 20);
+        expect(page.length).to.equal(20);
+        page.forEach((entry, i) => {
+          expect(entry.creator).to.equal(addr3.address);
+          expect(entry.id).to.equal(ids[10 + i]);
+        });
+      });
+
+      it("Should keep creator queries cheap regardless of total entries", async function () {
+        // Entry count for addr1 is unaffected by the bulk submissions
+        const gas = await knowledgeHub.getEntriesByCreator.estimateGas(addr1.address);
+        const page = await knowledgeHub.getEntriesByCreatorPage(addr1.address, 0, 10);
+
+        expect(page.length).to.equal(2);
+        expect(gas).to.be.lessThan(100000n);
+      });
+
+      it("Should return a large batch of entries by ID", async function () {
+        const ids = Array.from({ length: 100 }, (_, i) => BigInt(i + 1));
+        const batch = await knowledgeHub.getEntries(ids);
+
+        expect(batch.length).to.equal(100);
+        expect(batch[99].id).to.equal(100);
+      });
+    });
+  });
+
+  describe("Entry Revisions", function () {
+    const revisedCid = cidOf("Revised content");
+    const revisedContent = contentCid("Revised content");
+    const revisedHash = formatCid(revisedContent);
+
+    beforeEach(async function () {
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
+    });
+
+    it("Should let the creator publish a revision", async function () {
+      await expect(knowledgeHub.connect(addr1).updateEntry(1, "Revised Title", revisedCid))
+        .to.emit(knowledgeHub, "EntryRevised")
+        .withArgs(1, addr1.address, 1, "Revised Title", revisedContent.digest, revisedContent.codec);
+
+      const entry = await knowledgeHub.getEntry(1);
+      expect(entry.title).to.equal("Revised Title");
+      expect(cidStringOf(entry)).to.equal(revisedHash);
+      expect(entry.updatedAt).to.be.greaterThan(entry.timestamp);
+    });
+
+    it("Should keep the full revision history", async function () {
+      expect(await knowledgeHub.getRevisionCount(1)).to.equal(1);
+      const [[original], [originalContent]] = await knowledgeHub.getRevisions(1);
+      expect(storedCid(original.ipfsHash, originalContent)).to.equal(sampleStoredHash);
+      expect((await knowledgeHub.getEntry(1)).updatedAt).to.equal(0);
+
+      await knowledgeHub.connect(addr1).updateEntry(1, sampleTitle, revisedCid);
+      await knowledgeHub.connect(addr1).updateEntry(1, "Final Title", cidOf("Final content"));
+
+      const [revisions, contents] = await knowledgeHub.getRevisions(1);
+      expect(await knowledgeHub.getRevisionCount(1)).to.equal(3);
+      expect(revisions.map((revision, i) => storedCid(revision.ipfsHash, contents[i]))).to.deep.equal([
+        sampleStoredHash,
+        revisedHash,
+        formatCid(contentCid("Final content")),
+      ]);
+      expect(revisions[0].timestamp).to.equal((await knowledgeHub.getEntry(1)).timestamp);
+      expect(revisions[2].title).to.equal("Final Title");
+    });
+
+    it("Should let the creator restore an earlier version's content", async function () {
+      await knowledgeHub.connect(addr1).updateEntry(1, sampleTitle, revisedCid);
+      await knowledgeHub.connect(addr1).updateEntry(1, sampleTitle, sampleCid);
+
+      expect(cidStringOf(await knowledgeHub.getEntry(1))).to.equal(sampleStoredHash);
+      // Content from any of the entry's versions stays reserved to it
+      await expect(
+        knowledgeHub.connect(addr2).submitEntry("Copied", revisedCid)
+      ).to.be.revertedWith("Content already submitted");
+    });
+
+    it("Should keep votes and rewards attached across revisions", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr1).updateEntry(1, sampleTitle, revisedCid);
+
+      const entry = await knowledgeHub.getEntry(1);
+      expect(entry.upvotes).to.equal(1);
+      expect(await knowledgeHub.hasVoted(1, addr2.address)).to.be.true;
+
+      // Voters can still react to the new version
+      await knowledgeHub.connect(addr2).changeVote(1);
+      expect((await knowledgeHub.getEntry(1)).downvotes).to.equal(1);
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("10"));
+    });
+
+    it("Should only allow the creator to revise an entry", async function () {
+      await expect(
+        knowledgeHub.connect(addr2).updateEntry(1, sampleTitle, revisedCid)
+      ).to.be.revertedWith("Only the creator can update this entry");
+    });
+
+    it("Should reject invalid revisions", async function () {
+      await expect(
+        knowledgeHub.connect(addr1).updateEntry(99, sampleTitle, revisedCid)
+      ).to.be.revertedWith("Entry does not exist");
+
+      await expect(
+        knowledgeHub.connect(addr1).updateEntry(1, "", revisedCid)
+      ).to.be.revertedWith("Title cannot be empty");
+
+      await expect(
+        knowledgeHub.connect(addr1).updateEntry(1, sampleTitle, "0x")
+      ).to.be.revertedWith("Invalid CID");
+
+      await expect(
+        knowledgeHub.connect(addr1).updateEntry(1, sampleTitle, sampleCid)
+      ).to.be.revertedWith("Nothing to update");
+    });
+  });
+
+  describe("Curator Rewards", function () {
+    let signers: HardhatEthersSigner[];
+
+    beforeEach(async function () {
+      signers = await ethers.getSigners();
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
+    });
+
+    it("Should pay the whole reward to the creator until an entry has curators", async function () {
+      await expect(knowledgeHub.connect(addr2).voteOnEntry(1, true))
+        .to.emit(knowledgeHub, "RewardDistributed")
+        .withArgs(1, addr1.address, ethers.parseEther("10"))
+        .and.to.not.emit(knowledgeHub, "CuratorRewardAccrued");
+
+      expect(await knowledgeHub.pendingCuratorReward(1, addr2.address)).to.equal(0);
+      expect(await knowledgeHub.getCuratedEntryIds(addr2.address)).to.deep.equal([1n]);
+    });
+
+    it("Should share later upvote rewards with earlier upvoters", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+
+      await expect(knowledgeHub.connect(addr3).voteOnEntry(1, true))
+        .to.emit(knowledgeHub, "RewardDistributed")
+        .withArgs(1, addr1.address, ethers.parseEther("8"))
+        .and.to.emit(knowledgeHub, "CuratorRewardAccrued")
+        .withArgs(1, ethers.parseEther("2"));
+
+      expect(await knowledgeHub.pendingCuratorReward(1, addr2.address)).to.equal(ethers.parseEther("2"));
+      expect(await knowledgeHub.pendingCuratorReward(1, addr3.address)).to.equal(0);
+      expect(await knowledgeHub.totalCuratorRewardsReserved()).to.equal(ethers.parseEther("2"));
+    });
+
+    it("Should give earlier upvoters a larger share", async function () {
+      for (const voter of signers.slice(2, 6)) {
+        await knowledgeHub.connect(voter).voteOnEntry(1, true);
+      }
+
+      const pending = await Promise.all(
+        signers.slice(2, 6).map((voter) => knowledgeHub.pendingCuratorReward(1, voter.address))
+      );
+      expect(pending[0]).to.be.greaterThan(pending[1]);
+      expect(pending[1]).to.be.greaterThan(pending[2]);
+      expect(pending[3]).to.equal(0);
+      expect(pending.reduce((a, b) => a + b)).to.be.closeTo(ethers.parseEther("6"), 10);
+    });
+
+    it("Should let curators claim their rewards", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, true);
+      const poolBefore = await knowledgeHub.getContractTokenBalance();
+
+      expect(await knowledgeHub.pendingCuratorRewards(addr2.address)).to.equal(ethers.parseEther("2"));
+      await expect(knowledgeHub.connect(addr2).claimCuratorRewards([1]))
+        .to.emit(knowledgeHub, "CuratorRewardsClaimed")
+        .withArgs(addr2.address, ethers.parseEther("2"));
+
+      expect(await knowledgeToken.balanceOf(addr2.address)).to.equal(ethers.parseEther("2"));
+      expect(await knowledgeHub.pendingCuratorRewards(addr2.address)).to.equal(0);
+      expect(await knowledgeHub.totalCuratorRewardsReserved()).to.equal(0);
+      expect(await knowledgeHub.getContractTokenBalance()).to.equal(poolBefore);
+
+      await expect(
+        knowledgeHub.connect(addr2).claimCuratorRewards([1])
+      ).to.be.revertedWith("Nothing to claim");
+    });
+
+    it("Should let every curator claim when shares and rewards do not divide evenly", async function () {
+      await knowledgeHub.setUpvoteReward(ethers.parseEther("10") / 3n + 1n);
+      const voters = signers.slice(2, 7);
+      for (const voter of voters) {
+        await knowledgeHub.connect(voter).voteOnEntry(1, true);
+      }
+      const accrued = await knowledgeHub.totalCuratorRewardsReserved();
+
+      let claimed = 0n;
+      for (const voter of voters.slice(0, -1)) {
+        const before = await knowledgeToken.balanceOf(voter.address);
+        await knowledgeHub.connect(voter).claimCuratorRewards([1]);
+        claimed += await knowledgeToken.balanceOf(voter.address) - before;
+      }
+
+      // Whatever rounding leaves in the reserve is dust, and claims never exceed it
+      const reserved = await knowledgeHub.totalCuratorRewardsReserved();
+      expect(reserved).to.be.lessThan(10);
+      expect(claimed + reserved).to.equal(accrued);
+    });
+
+    it("Should let several curators claim the reserve down to exactly zero", async function () {
+      // Weights 1 to 4 (stakes of 50, 100, 400 and 900 KNOW) give the n-th curator
+      // weight / n = 1 share each, and a 15 KNOW reward makes every accrual exact
+      const [first, second, third, fourth] = signers.slice(2, 6);
+      const extraStakes: [HardhatEthersSigner, string][] = [[second, "50"], [third, "350"], [fourth, "850"]];
+      for (const [voter, amount] of extraStakes) {
+        const extra = ethers.parseEther(amount);
+        await knowledgeToken.mint(voter.address, extra);
+        await knowledgeToken.connect(voter).approve(await knowledgeHub.getAddress(), extra);
+        await knowledgeHub.connect(voter).stake(extra);
+      }
+      await knowledgeHub.setUpvoteReward(ethers.parseEther("15"));
+
+      for (const voter of [first, second, third, fourth]) {
+        await knowledgeHub.connect(voter).voteOnEntry(1, true);
+      }
+      // 20% of 30, 45 and 60 KNOW
+      expect(await knowledgeHub.totalCuratorRewardsReserved()).to.equal(ethers.parseEther("27"));
+
+      const expected = [ethers.parseEther("14.5"), ethers.parseEther("8.5"), ethers.parseEther("4")];
+      for (const [i, curator] of [first, second, third].entries()) {
+        await expect(knowledgeHub.connect(curator).claimCuratorRewards([1]))
+          .to.emit(knowledgeHub, "CuratorRewardsClaimed")
+          .withArgs(curator.address, expected[i]);
+      }
+      expect(await knowledgeHub.totalCuratorRewardsReserved()).to.equal(0);
+    });
+
+    it("Should keep accrued rewards but stop earning after an upvote is retracted", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr2).retractVote(1);
+
+      await knowledgeHub.connect(signers[4]).voteOnEntry(1, true);
+
+      expect(await knowledgeHub.settledCuratorRewards(addr2.address)).to.equal(ethers.parseEther("2"));
+      expect(await knowledgeHub.pendingCuratorReward(1, addr2.address)).to.equal(0);
+      expect(await knowledgeHub.pendingCuratorReward(1, addr3.address)).to.equal(ethers.parseEther("2"));
+
+      // Settled rewards are claimable without listing any entries
+      await knowledgeHub.connect(addr2).claimCuratorRewards([]);
+      expect(await knowledgeToken.balanceOf(addr2.address)).to.equal(ethers.parseEther("2"));
+    });
+
+    it("Should not grant new curation shares when upvoting again", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr2).changeVote(1);
+      await knowledgeHub.connect(addr2).changeVote(1);
+
+      expect((await knowledgeHub.curations(1, addr2.address)).shares).to.equal(0);
+      expect(await knowledgeHub.totalCurationShares(1)).to.equal(0);
+    });
+
+    it("Should let the owner change the curator share", async function () {
+      await expect(knowledgeHub.setCuratorShare(5001))
+        .to.be.revertedWith("Curator share too high");
+      await expect(knowledgeHub.connect(addr1).setCuratorShare(0))
+        .to.be.revertedWithCustomError(knowledgeHub, "OwnableUnauthorizedAccount");
+
+      await expect(knowledgeHub.setCuratorShare(0))
+        .to.emit(knowledgeHub, "CuratorShareUpdated")
+        .withArgs(2000, 0);
+
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, true);
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("20"));
+      expect(await knowledgeHub.pendingCuratorReward(1, addr2.address)).to.equal(0);
+    });
+  });
+
+  describe("Tipping", function () {
+    const tip = ethers.parseEther("5");
+    let hubAddress: string;
+
+    beforeEach(async function () {
+      hubAddress = await knowledgeHub.getAddress();
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
+      await knowledgeToken.mint(addr2.address, ethers.parseEther("100"));
+    });
+
+    it("Should move an approved tip to the creator and record the total", async function () {
+      await knowledgeToken.connect(addr2).approve(hubAddress, tip * 2n);
+
+      await expect(knowledgeHub.connect(addr2).tipEntry(1, tip))
+        .to.emit(knowledgeHub, "EntryTipped")
+        .withArgs(1, addr2.address, addr1.address, tip);
+      await knowledgeHub.connect(addr2).tipEntry(1, tip);
+
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(tip * 2n);
+      expect(await knowledgeToken.balanceOf(addr2.address)).to.equal(ethers.parseEther("90"));
+      expect(await knowledgeHub.entryTips(1)).to.equal(tip * 2n);
+    });
+
+    it("Should tip with a permit in a single transaction", async function () {
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const { v, r, s } = await signPermit(addr2, knowledgeToken, hubAddress, tip, deadline);
+
+      await expect(knowledgeHub.connect(addr2).tipEntryWithPermit(1, tip, deadline, v, r, s))
+        .to.emit(knowledgeHub, "EntryTipped")
+        .withArgs(1, addr2.address, addr1.address, tip);
+
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(tip);
+      expect(await knowledgeToken.allowance(addr2.address, hubAddress)).to.equal(0);
+      expect(await knowledgeHub.entryTips(1)).to.equal(tip);
+    });
+
+    it("Should still tip when the permit was already submitted by someone else", async function () {
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const { v, r, s } = await signPermit(addr2, knowledgeToken, hubAddress, tip, deadline);
+      await knowledgeToken.connect(addr3).permit(addr2.address, hubAddress, tip, deadline, v, r, s);
+
+      await knowledgeHub.connect(addr2).tipEntryWithPermit(1, tip, deadline, v, r, s);
+      expect(await knowledgeHub.entryTips(1)).to.equal(tip);
+    });
+
+    it("Should not tip without an allowance or a valid permit", async function () {
+      await expect(knowledgeHub.connect(addr2).tipEntry(1, tip))
+        .to.be.revertedWithCustomError(knowledgeToken, "ERC20InsufficientAllowance");
+
+      // A permit signed by another account does not grant addr2's allowance
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const { v, r, s } = await signPermit(addr3, knowledgeToken, hubAddress, tip, deadline);
+      await expect(knowledgeHub.connect(addr2).tipEntryWithPermit(1, tip, deadline, v, r, s))
+        .to.be.revertedWithCustomError(knowledgeToken, "ERC20InsufficientAllowance");
+    });
+
+    it("Should reject invalid tips", async function () {
+      await knowledgeToken.mint(addr1.address, tip);
+      await knowledgeToken.connect(addr1).approve(hubAddress, tip);
+      await knowledgeToken.connect(addr2).approve(hubAddress, tip);
+
+      await expect(knowledgeHub.connect(addr1).tipEntry(1, tip))
+        .to.be.revertedWith("Cannot tip your own entry");
+      await expect(knowledgeHub.connect(addr2).tipEntry(1, 0))
+        .to.be.revertedWith("Amount must be greater than zero");
+      await expect(knowledgeHub.connect(addr2).tipEntry(2, tip))
+        .to.be.revertedWith("Entry does not exist");
+
+      await knowledgeHub.hideEntry(1, "Spam");
+      await expect(knowledgeHub.connect(addr2).tipEntry(1, tip))
+        .to.be.revertedWith("Entry is not visible");
+    });
+  });
+
+  describe("Gasless Meta-Transactions", function () {
+    let forwarder: KnowledgeForwarder;
+    let gaslessHub: KnowledgeHub;
+    let hubAddress: string;
+
+    beforeEach(async function () {
+      const ForwarderFactory = await ethers.getContractFactory("KnowledgeForwarder");
+      forwarder = await ForwarderFactory.deploy();
+      
+      const KnowledgeHubFactory = await ethers.getContractFactory("KnowledgeHub");
+      gaslessHub = (await upgrades.deployProxy(KnowledgeHubFactory, [await knowledgeToken.getAddress(), owner.address], {
+        kind: "uups",
+        constructorArgs: [await forwarder.getAddress()],
+      })) as unknown as KnowledgeHub;
+      hubAddress = await gaslessHub.getAddress();
+      await knowledgeToken.mint(hubAddress, ethers.parseEther("10000"));
+      await stakeToVote(gaslessHub, [addr2]);
+    });
+
+    it("Should trust only the configured forwarder", async function () {
+      expect(await gaslessHub.trustedForwarder()).to.equal(await forwarder.getAddress());
+      expect(await gaslessHub.isTrustedForwarder(await forwarder.getAddress())).to.be.true;
+      expect(await knowledgeHub.isTrustedForwarder(await forwarder.getAddress())).to.be.false;
+    });
+
+    it("Should record the signer as the creator of a relayed submission", async function () {
+      // A contributor without any ETH
+      const contributor = ethers.Wallet.createRandom().connect(ethers.provider);
+      const data = gaslessHub.interface.encodeFunctionData("submitEntry", [sampleTitle, sampleCid]);
+      const request = await signForwardRequest(contributor, forwarder, hubAddress, data);
+
+      await expect(forwarder.execute(request))
+        .to.emit(gaslessHub, "EntrySubmitted")
+        .withArgs(1, contributor.address, sampleTitle, sampleContent.digest, sampleContent.codec, "", []);
+
+      expect((await gaslessHub.getEntry(1)).creator).to.equal(contributor.address);
+      expect(await ethers.provider.getBalance(contributor.address)).to.equal(0);
+    });
+
+    it("Should count a relayed vote for the signer", async function () {
+      await gaslessHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
+      const ethBefore = await ethers.provider.getBalance(addr2.address);
+
+      const data = gaslessHub.interface.encodeFunctionData("voteOnEntry", [1, true]);
+      const request = await signForwardRequest(addr2, forwarder, hubAddress, data);
+      await expect(forwarder.connect(addr3).execute(request))
+        .to.emit(gaslessHub, "EntryVoted")
+        .withArgs(1, addr2.address, true, 1);
+
+      expect(await gaslessHub.hasVoted(1, addr2.address)).to.be.true;
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("10"));
+      expect(await ethers.provider.getBalance(addr2.address)).to.equal(ethBefore);
+    });
+
+    it("Should reject replayed requests", async function () {
+      const data = gaslessHub.interface.encodeFunctionData("submitEntry", [sampleTitle, sampleCid]);
+      const request = await signForwardRequest(addr1, forwarder, hubAddress, data);
+
+      await forwarder.execute(request);
+      await expect(forwarder.execute(request))
+        .to.be.revertedWithCustomError(forwarder, "ERC2771ForwarderInvalidSigner");
+      expect(await gaslessHub.getEntryCount()).to.equal(1);
+    });
+
+    it("Should reject expired requests", async function () {
+      const data = gaslessHub.interface.encodeFunctionData("submitEntry", [sampleTitle, sampleCid]);
+      const request = await signForwardRequest(addr1, forwarder, hubAddress, data, { ttlSeconds: 60 });
+
+      await time.increase(120);
+      await expect(forwarder.execute(request))
+        .to.be.revertedWithCustomError(forwarder, "ERC2771ForwarderExpiredRequest");
+    });
+
+    it("Should reject requests signed by someone else", async function () {
+      const data = gaslessHub.interface.encodeFunctionData("submitEntry", [sampleTitle, sampleCid]);
+      const request = await signForwardRequest(addr1, forwarder, hubAddress, data);
+
+      await expect(forwarder.execute({ ...request, from: addr2.address }))
+        .to.be.revertedWithCustomError(forwarder, "ERC2771ForwarderInvalidSigner");
+    });
+
+    it("Should ignore a sender appended by an untrusted caller", async function () {
+      const data = gaslessHub.interface.encodeFunctionData("submitEntry", [sampleTitle, sampleCid]);
+      await addr3.sendTransaction({ to: hubAddress, data: data + addr2.address.slice(2) });
+
+      expect((await gaslessHub.getEntry(1)).creator).to.equal(addr3.address);
+    });
+  });
+
+  describe("Staking", function () {
+    const stakeAmount = ethers.parseEther("50");
+
+    beforeEach(async function () {
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
+    });
+
+    it("Should require a stake to vote", async function () {
+      const [, , , , , , , unstaked] = await ethers.getSigners();
+      expect(await knowledgeHub.minVoteStake()).to.equal(await knowledgeHub.DEFAULT_MIN_VOTE_STAKE());
+
+      await expect(
+        knowledgeHub.connect(unstaked).voteOnEntry(1, true)
+      ).to.be.revertedWith("Insufficient stake to vote");
+    });
+
+    it("Should lock staked KNOW apart from the reward pool", async function () {
+      await knowledgeToken.mint(addr2.address, stakeAmount);
+      await knowledgeToken.connect(addr2).approve(await knowledgeHub.getAddress(), stakeAmount);
+
+      await expect(knowledgeHub.connect(addr2).stake(stakeAmount))
+        .to.emit(knowledgeHub, "Staked")
+        .withArgs(addr2.address, stakeAmount);
+
+      expect((await knowledgeHub.stakes(addr2.address)).amount).to.equal(stakeAmount * 2n);
+      expect(await knowledgeHub.totalStaked()).to.equal(stakeAmount * 6n + stakeAmount);
+      expect(await knowledgeHub.getContractTokenBalance()).to.equal(ethers.parseEther("10000"));
+    });
+
+    it("Should stop counting unstaked KNOW for voting right away", async function () {
+      await knowledgeHub.connect(addr2).requestUnstake(stakeAmount);
+
+      await expect(
+        knowledgeHub.connect(addr2).voteOnEntry(1, true)
+      ).to.be.revertedWith("Insufficient stake to vote");
+    });
+
+    it("Should only release unstaked KNOW after the cooldown", async function () {
+      await expect(knowledgeHub.connect(addr2).requestUnstake(stakeAmount))
+        .to.emit(knowledgeHub, "UnstakeRequested");
+
+      await expect(knowledgeHub.connect(addr2).withdraw()).to.be.revertedWith("Stake is still locked");
+
+      await time.increase(await knowledgeHub.unstakeCooldown());
+      await expect(knowledgeHub.connect(addr2).withdraw())
+        .to.emit(knowledgeHub, "StakeWithdrawn")
+        .withArgs(addr2.address, stakeAmount);
+
+      expect(await knowledgeToken.balanceOf(addr2.address)).to.equal(stakeAmount);
+      await expect(knowledgeHub.connect(addr2).withdraw()).to.be.revertedWith("Nothing to withdraw");
+    });
+
+    it("Should reject invalid staking calls", async function () {
+      await expect(knowledgeHub.connect(addr2).stake(0)).to.be.revertedWith("Amount must be greater than zero");
+      await expect(
+        knowledgeHub.connect(addr2).requestUnstake(stakeAmount + 1n)
+      ).to.be.revertedWith("Insufficient stake");
+    });
+
+    it("Should let moderators slash active and pending stake into the reward pool", async function () {
+      await knowledgeHub.connect(addr2).requestUnstake(ethers.parseEther("20"));
+
+      await expect(knowledgeHub.slashStake(addr2.address, ethers.parseEther("40"), "Collusion ring #1"))
+        .to.emit(knowledgeHub, "StakeSlashed")
+        .withArgs(addr2.address, ethers.parseEther("40"), owner.address, "Collusion ring #1");
+
+      const remaining = await knowledgeHub.stakes(addr2.address);
+      expect(remaining.amount).to.equal(0);
+      expect(remaining.pendingWithdrawal).to.equal(ethers.parseEther("10"));
+      expect(await knowledgeHub.getContractTokenBalance()).to.equal(ethers.parseEther("10040"));
+
+      await expect(
+        knowledgeHub.slashStake(addr2.address, ethers.parseEther("11"), "Again")
+      ).to.be.revertedWith("Amount exceeds stake");
+      await expect(
+        knowledgeHub.connect(addr1).slashStake(addr2.address, 1, "Grudge")
+      ).to.be.revertedWith("Caller is not a moderator");
+    });
+
+    it("Should let the owner change the staking policy", async function () {
+      const [, , , , , , , unstaked] = await ethers.getSigners();
+      await expect(knowledgeHub.setStakingPolicy(0, 3600))
+        .to.emit(knowledgeHub, "StakingPolicyUpdated")
+        .withArgs(0, 3600);
+
+      await knowledgeHub.connect(unstaked).voteOnEntry(1, true);
+      await expect(
+        knowledgeHub.connect(addr1).setStakingPolicy(0, 0)
+      ).to.be.revertedWithCustomError(knowledgeHub, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should make sybil reward farming with fresh wallets unprofitable", async function () {
+      const rewardPerUpvote = await knowledgeHub.upvoteReward();
+      const sybils = (await ethers.getSigners()).slice(7, 17);
+
+      // Fresh wallets cannot vote at all
+      for (const sybil of sybils) {
+        await expect(
+          knowledgeHub.connect(sybil).voteOnEntry(1, true)
+        ).to.be.revertedWith("Insufficient stake to vote");
+      }
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(0);
+
+      // Funding every wallet with the minimum stake lets the ring farm rewards...
+      await stakeToVote(knowledgeHub, sybils);
+      for (const sybil of sybils) {
+        await knowledgeHub.connect(sybil).voteOnEntry(1, true);
+      }
+      // (the creator's share plus the curator rewards the sybils owe each other)
+      const farmed = await knowledgeToken.balanceOf(addr1.address) + await knowledgeHub.totalCuratorRewardsReserved();
+      expect(farmed).to.equal(rewardPerUpvote * BigInt(sybils.length));
+
+      // ...but the stakes stay locked while they try to exit, and a moderator slashes them
+      for (const sybil of sybils) {
+        await knowledgeHub.connect(sybil).requestUnstake(stakeAmount);
+        await knowledgeHub.slashStake(sybil.address, stakeAmount, "Sybil ring voting for entry #1");
+      }
+      await time.increase(await knowledgeHub.unstakeCooldown());
+      for (const sybil of sybils) {
+        await expect(knowledgeHub.connect(sybil).withdraw()).to.be.revertedWith("Nothing to withdraw");
+      }
+
+      const staked = stakeAmount * BigInt(sybils.length);
+      expect(staked).to.be.greaterThan(farmed);
+      expect(await knowledgeHub.getContractTokenBalance()).to.equal(ethers.parseEther("10000") - farmed + staked);
+    });
+
+    it("Should cap the rewarded upvotes of one stake across many entries", async function () {
+      const entryCount = 12;
+      for (let i = 2; i <= entryCount; i++) {
+        await knowledgeHub.connect(addr1).submitEntry(`Entry ${i}`, cidOf(`Entry ${i}`));
+      }
+      // 50 KNOW staked buys 5 rewarded upvotes per epoch
+      const budget = stakeAmount / await knowledgeHub.STAKE_PER_REWARDED_UPVOTE();
+      expect(budget).to.equal(5n);
+
+      for (let id = 1; id <= entryCount; id++) {
+        const vote = knowledgeHub.connect(addr2).voteOnEntry(id, true);
+        if (id <= budget) {
+          await expect(vote).to.emit(knowledgeHub, "RewardDistributed");
+        } else {
+          await expect(vote)
+            .to.emit(knowledgeHub, "RewardSkipped")
+            .withArgs(id, addr1.address, ethers.parseEther("10"), "Upvote budget used");
+        }
+      }
+
+      // Every upvote counts, but the farming loop paid out for only 5 of them
+      expect((await knowledgeHub.getEntry(entryCount)).upvotes).to.equal(1);
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("10") * budget);
+      const epoch = BigInt(await time.latest()) / await knowledgeHub.REWARD_EPOCH();
+      expect(await knowledgeHub.rewardedUpvotes(addr2.address, epoch)).to.equal(budget);
+
+      // The budget renews each epoch; an unrewarded upvote can then be cast again for a reward
+      await time.increase(await knowledgeHub.REWARD_EPOCH());
+      await knowledgeHub.connect(addr2).retractVote(entryCount);
+      await expect(knowledgeHub.connect(addr2).voteOnEntry(entryCount, true))
+        .to.emit(knowledgeHub, "RewardDistributed")
+        .withArgs(entryCount, addr1.address, ethers.parseEther("10"));
+    });
+  });
+
+  describe("Reputation-Weighted Voting", function () {
+    // Stake KNOW on top of a voter's minimum stake to raise its reputation
+    const stakeMore = async (voter: HardhatEthersSigner, amount: string) => {
+      const value = ethers.parseEther(amount);
+      await knowledgeToken.mint(voter.address, value);
+      await knowledgeToken.connect(voter).approve(await knowledgeHub.getAddress(), value);
+      await knowledgeHub.connect(voter).stake(value);
+    };
+
+    beforeEach(async function () {
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
+    });
+
+    it("Should give new accounts a vote weight of 1", async function () {
+      expect(await knowledgeHub.reputation(addr2.address)).to.equal(0);
+      expect(await knowledgeHub.voteWeight(addr2.address)).to.equal(1);
+    });
+
+    it("Should derive reputation from net votes received and KNOW staked", async function () {
+      const signers = await ethers.getSigners();
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, true);
+      await knowledgeHub.connect(signers[4]).voteOnEntry(1, false);
+      expect(await knowledgeHub.netVotesReceived(addr1.address)).to.equal(1);
+
+      // 1 net vote + 50 KNOW staked (below one REPUTATION_TOKEN_UNIT)
+      expect(await knowledgeHub.reputation(addr1.address)).to.equal(1);
+
+      await stakeMore(addr1, "800"); // 850 KNOW staked
+      expect(await knowledgeHub.reputation(addr1.address)).to.equal(9);
+      expect(await knowledgeHub.voteWeight(addr1.address)).to.equal(4); // 1 + sqrt(9)
+    });
+
+    it("Should not count a liquid balance that can be passed between voters", async function () {
+      const balance = ethers.parseEther("1000000");
+      await knowledgeToken.mint(addr2.address, balance);
+      expect(await knowledgeHub.voteWeight(addr2.address)).to.equal(1);
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+
+      // The same balance handed to the next staked wallet buys it no extra weight either
+      await knowledgeToken.connect(addr2).transfer(addr3.address, balance);
+      expect(await knowledgeHub.reputation(addr3.address)).to.equal(0);
+      await expect(knowledgeHub.connect(addr3).voteOnEntry(1, true))
+        .to.emit(knowledgeHub, "EntryVoted")
+        .withArgs(1, addr3.address, true, 1);
+      expect((await knowledgeHub.getEntry(1)).weightedUpvotes).to.equal(2);
+    });
+
+    it("Should never let negative net votes push reputation below zero", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, false);
+      expect(await knowledgeHub.netVotesReceived(addr1.address)).to.equal(-1);
+      expect(await knowledgeHub.reputation(addr1.address)).to.equal(0);
+      expect(await knowledgeHub.voteWeight(addr1.address)).to.equal(1);
+    });
+
+    it("Should cap vote weight at MAX_VOTE_WEIGHT", async function () {
+      await stakeMore(addr2, "1000000");
+      expect(await knowledgeHub.voteWeight(addr2.address)).to.equal(await knowledgeHub.MAX_VOTE_WEIGHT());
+    });
+
+    it("Should keep weighted tallies next to the raw counts", async function () {
+      await stakeMore(addr2, "400"); // 450 KNOW staked, weight 3
+      await expect(knowledgeHub.connect(addr2).voteOnEntry(1, true))
+        .to.emit(knowledgeHub, "EntryVoted")
+        .withArgs(1, addr2.address, true, 3);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, false);
+
+      const entry = await knowledgeHub.getEntry(1);
+      expect(entry.upvotes).to.equal(1);
+      expect(entry.downvotes).to.equal(1);
+      expect(entry.voteCount).to.equal(0);
+      expect(entry.weightedUpvotes).to.equal(3);
+      expect(entry.weightedDownvotes).to.equal(1);
+    });
+
+    it("Should scale the creator reward with the upvote weight", async function () {
+      await stakeMore(addr2, "400"); // 450 KNOW staked, weight 3
+      await expect(knowledgeHub.connect(addr2).voteOnEntry(1, true))
+        .to.emit(knowledgeHub, "RewardDistributed")
+        .withArgs(1, addr1.address, ethers.parseEther("30"));
+    });
+
+    it("Should remove the weight a vote was counted with", async function () {
+      await stakeMore(addr2, "400"); // 450 KNOW staked, weight 3
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+
+      // Later stake changes do not alter what gets removed
+      await knowledgeHub.connect(addr2).requestUnstake(ethers.parseEther("400"));
+      await expect(knowledgeHub.connect(addr2).retractVote(1))
+        .to.emit(knowledgeHub, "VoteRetracted")
+        .withArgs(1, addr2.address, true, 3);
+
+      const entry = await knowledgeHub.getEntry(1);
+      expect(entry.weightedUpvotes).to.equal(0);
+      expect(await knowledgeHub.voteWeights(1, addr2.address)).to.equal(0);
+      expect(await knowledgeHub.netVotesReceived(addr1.address)).to.equal(0);
+    });
+
+    it("Should recount a changed vote with the current weight", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await stakeMore(addr2, "100"); // 150 KNOW staked, weight 2
+
+      await expect(knowledgeHub.connect(addr2).changeVote(1))
+        .to.emit(knowledgeHub, "VoteChanged")
+        .withArgs(1, addr2.address, false, 2);
+
+      const entry = await knowledgeHub.getEntry(1);
+      expect(entry.weightedUpvotes).to.equal(0);
+      expect(entry.weightedDownvotes).to.equal(2);
+      expect(await knowledgeHub.netVotesReceived(addr1.address)).to.equal(-1);
+    });
+  });
+
+  describe("Moderation", function () {
+    // EntryStatus enum values
+    const ACTIVE = 0;
+    const FLAGGED = 1;
+    const HIDDEN = 2;
+    const REMOVED = 3;
+
+    beforeEach(async function () {
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
+      await knowledgeHub.connect(addr2).submitEntry("Another Title", cidOf("Another Title"));
+      await knowledgeHub.setModerator(addr3.address, true);
+    });
+
+    it("Should record one report per account", async function () {
+      await expect(knowledgeHub.connect(addr2).reportEntry(1, "Spam"))
+        .to.emit(knowledgeHub, "EntryReported")
+        .withArgs(1, addr2.address, "Spam");
+
+      expect((await knowledgeHub.getEntry(1)).reportCount).to.equal(1);
+      expect(await knowledgeHub.hasReported(1, addr2.address)).to.be.true;
+
+      await expect(
+        knowledgeHub.connect(addr2).reportEntry(1, "Spam again")
+      ).to.be.revertedWith("You have already reported this entry");
+    });
+
+    it("Should reject invalid reports", async function () {
+      await expect(
+        knowledgeHub.connect(addr1).reportEntry(1, "Spam")
+      ).to.be.revertedWith("Cannot report your own entry");
+
+      await expect(
+        knowledgeHub.connect(addr2).reportEntry(1, "")
+      ).to.be.revertedWith("Reason cannot be empty");
+
+      await expect(
+        knowledgeHub.connect(addr2).reportEntry(99, "Spam")
+      ).to.be.revertedWith("Entry does not exist");
+    });
+
+    it("Should flag an entry once the report threshold is reached", async function () {
+      const signers = await ethers.getSigners();
+      await knowledgeHub.connect(signers[4]).reportEntry(1, "Spam");
+      await knowledgeHub.connect(signers[5]).reportEntry(1, "Spam");
+      expect((await knowledgeHub.getEntry(1)).status).to.equal(ACTIVE);
+
+      await expect(knowledgeHub.connect(signers[6]).reportEntry(1, "Spam"))
+        .to.emit(knowledgeHub, "EntryStatusChanged")
+        .withArgs(1, FLAGGED, signers[6].address, "Report threshold reached");
+
+      // Flagged entries stay listed and open to votes until a moderator acts
+      expect((await knowledgeHub.getEntriesPage(0, 10)).map((entry) => entry.id)).to.deep.equal([1n, 2n]);
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+    });
+
+    it("Should let the owner change the report threshold", async function () {
+      await expect(knowledgeHub.setReportThreshold(1))
+        .to.emit(knowledgeHub, "ReportThresholdUpdated")
+        .withArgs(3, 1);
+
+      await knowledgeHub.connect(addr2).reportEntry(1, "Spam");
+      expect((await knowledgeHub.getEntry(1)).status).to.equal(FLAGGED);
+
+      await expect(knowledgeHub.setReportThreshold(0)).to.be.revertedWith("Threshold must be greater than zero");
+      await expect(
+        knowledgeHub.connect(addr1).setReportThreshold(5)
+      ).to.be.revertedWithCustomError(knowledgeHub, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should exclude hidden entries from listings and block votes on them", async function () {
+      await expect(knowledgeHub.connect(addr3).hideEntry(1, "Abusive"))
+        .to.emit(knowledgeHub, "EntryStatusChanged")
+        .withArgs(1, HIDDEN, addr3.address, "Abusive");
+
+      expect((await knowledgeHub.getEntriesPage(0, 10)).map((entry) => entry.id)).to.deep.equal([2n]);
+      expect(await knowledgeHub.getEntriesByCreatorPage(addr1.address, 0, 10)).to.have.length(0);
+      expect((await knowledgeHub.getEntry(1)).status).to.equal(HIDDEN);
+
+      await expect(knowledgeHub.connect(addr2).voteOnEntry(1, true)).to.be.revertedWith("Entry is not visible");
+      await expect(knowledgeHub.connect(addr2).reportEntry(1, "Spam")).to.be.revertedWith("Entry is not visible");
+      expect(await knowledgeToken.balanceOf(addr1.address)).to.equal(0);
+    });
+
+    it("Should block vote changes on hidden entries but allow retractions", async function () {
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).hideEntry(1, "Abusive");
+
+      await expect(knowledgeHub.connect(addr2).changeVote(1)).to.be.revertedWith("Entry is not visible");
+      await knowledgeHub.connect(addr2).retractVote(1);
+      expect((await knowledgeHub.getEntry(1)).upvotes).to.equal(0);
+    });
+
+    it("Should let moderators restore flagged and hidden entries", async function () {
+      await knowledgeHub.connect(addr3).hideEntry(1, "Abusive");
+
+      await expect(knowledgeHub.connect(addr3).restoreEntry(1, "Reviewed"))
+        .to.emit(knowledgeHub, "EntryStatusChanged")
+        .withArgs(1, ACTIVE, addr3.address, "Reviewed");
+
+      expect(await knowledgeHub.getEntriesPage(0, 10)).to.have.length(2);
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+
+      await expect(
+        knowledgeHub.connect(addr3).restoreEntry(1, "Again")
+      ).to.be.revertedWith("Entry is not flagged or hidden");
+    });
+
+    it("Should remove entries permanently", async function () {
+      await expect(knowledgeHub.removeEntry(1, "Illegal content"))
+        .to.emit(knowledgeHub, "EntryStatusChanged")
+        .withArgs(1, REMOVED, owner.address, "Illegal content");
+
+      expect(await knowledgeHub.getEntriesPage(0, 10)).to.have.length(1);
+      await expect(knowledgeHub.restoreEntry(1, "Oops")).to.be.revertedWith("Entry is not flagged or hidden");
+      await expect(knowledgeHub.hideEntry(1, "Again")).to.be.revertedWith("Entry is not visible");
+      await expect(knowledgeHub.removeEntry(1, "Again")).to.be.revertedWith("Entry has been removed");
+      await expect(
+        knowledgeHub.connect(addr1).updateEntry(1, sampleTitle, cidOf("Revised content"))
+      ).to.be.revertedWith("Entry has been removed");
+    });
+
+    it("Should only allow moderators to moderate", async function () {
+      await expect(
+        knowledgeHub.connect(addr1).hideEntry(2, "Mine now")
+      ).to.be.revertedWith("Caller is not a moderator");
+
+      await expect(knowledgeHub.setModerator(addr3.address, false))
+        .to.emit(knowledgeHub, "ModeratorUpdated")
+        .withArgs(addr3.address, false);
+      expect(await knowledgeHub.isModerator(addr3.address)).to.be.false;
+      expect(await knowledgeHub.isModerator(owner.address)).to.be.true;
+
+      await expect(
+        knowledgeHub.connect(addr3).removeEntry(2, "Spam")
+      ).to.be.revertedWith("Caller is not a moderator");
+      await expect(
+        knowledgeHub.connect(addr1).setModerator(addr1.address, true)
+      ).to.be.revertedWithCustomError(knowledgeHub, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Categories and Tags", function () {
+    beforeEach(async function () {
+      await knowledgeHub.connect(addr1).submitEntryWithTags("Rollups", cidOf("Rollups"), "scaling", ["l2", "rollups"]);
+      await knowledgeHub.connect(addr2).submitEntryWithTags("Sharding", cidOf("Sharding"), "scaling", ["l1"]);
+      await knowledgeHub.connect(addr1).submitEntryWithTags("Wallets", cidOf("Wallets"), "security", ["l2"]);
+      await knowledgeHub.connect(addr3).submitEntry("Untagged", cidOf("Untagged"));
+    });
+
+    it("Should store the category and tags on the entry", async function () {
+      const entry = await knowledgeHub.getEntry(1);
+      expect(entry.category).to.equal("scaling");
+      expect(entry.tags).to.deep.equal(["l2", "rollups"]);
+
+      const untagged = await knowledgeHub.getEntry(4);
+      expect(untagged.category).to.equal("");
+      expect(untagged.tags).to.deep.equal([]);
+    });
+
+    it("Should emit the category and tags on submission", async function () {
+      await expect(
+        knowledgeHub.connect(addr1).submitEntryWithTags(sampleTitle, sampleCid, "basics", ["intro", "l1"])
+      )
+        .to.emit(knowledgeHub, "EntrySubmitted")
+        .withArgs(5, addr1.address, sampleTitle, sampleContent.digest, sampleContent.codec, "basics", ["intro", "l1"]);
+    });
+
+    it("Should list categories and tags in order of first use", async function () {
+      expect(await knowledgeHub.getCategories()).to.deep.equal(["scaling", "security"]);
+      expect(await knowledgeHub.getTags()).to.deep.equal(["l2", "rollups", "l1"]);
+    });
+
+    it("Should page through entries by category", async function () {
+      expect(await knowledgeHub.getCategoryEntryCount("scaling")).to.equal(2);
+      expect(await knowledgeHub.getCategoryEntryCount("unknown")).to.equal(0);
+
+      const page = await knowledgeHub.getEntriesByCategoryPage("scaling", 1, 10);
+      expect(page.map((entry) => entry.id)).to.deep.equal([2n]);
+    });
+
+    it("Should page through entries by tag", async function () {
+      expect(await knowledgeHub.getTagEntryCount("l2")).to.equal(2);
+
+      const page = await knowledgeHub.getEntriesByTagPage("l2", 0, 10);
+      expect(page.map((entry) => entry.title)).to.deep.equal(["Rollups", "Wallets"]);
+      expect(await knowledgeHub.getEntriesByTagPage("l2", 2, 10)).to.have.length(0);
+    });
+
+    it("Should reject invalid categories and tags", async function () {
+      await expect(
+        knowledgeHub.submitEntryWithTags(sampleTitle, sampleCid, "Scaling", [])
+      ).to.be.revertedWith("Invalid category");
+
+      await expect(
+        knowledgeHub.submitEntryWithTags(sampleTitle, sampleCid, "scaling", ["has space"])
+      ).to.be.revertedWith("Invalid tag");
+
+      await expect(
+        knowledgeHub.submitEntryWithTags(sampleTitle, sampleCid, "scaling", ["x".repeat(33)])
+      ).to.be.revertedWith("Invalid tag");
+
+      await expect(
+        knowledgeHub.submitEntryWithTags(sampleTitle, sampleCid, "scaling", ["l2", "l2"])
+      ).to.be.revertedWith("Duplicate tag");
+
+      await expect(
+        knowledgeHub.submitEntryWithTags(sampleTitle, sampleCid, "scaling", ["a", "b", "c", "d", "e", "f"])
+      ).to.be.revertedWith("Too many tags");
+    });
   });
 
   describe("Complex Voting Scenarios", function () {
     beforeEach(async function () {
-      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleIPFSHash);
+      await knowledgeHub.connect(addr1).submitEntry(sampleTitle, sampleCid);
     });
 
     it("Should handle mixed upvotes and downvotes correctly", async function () {
@@ -282,9 +1746,11 @@ describe("KnowledgeHub", function () {
       expect(entry.upvotes).to.equal(3);
       expect(entry.downvotes).to.equal(2);
       
-      // Creator should receive 3 * 10 = 30 KNOW tokens
+      // Creator should receive 10 + 8 + 8 = 26 KNOW tokens, the curators the other 4
       const creatorBalance = await knowledgeToken.balanceOf(addr1.address);
-      expect(creatorBalance).to.equal(ethers.parseEther("30"));
+      expect(creatorBalance).to.equal(ethers.parseEther("26"));
+      expect(await knowledgeHub.pendingCuratorRewards(signers[2].address)
+        + await knowledgeHub.pendingCuratorRewards(signers[3].address)).to.be.closeTo(ethers.parseEther("4"), 10);
     });
   });
 });
@@ -2,6 +2,8 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { KnowledgeToken } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { signPermit } from "../scripts/utils/permit";
 
 describe("KnowledgeToken", function () {
   let knowledgeToken: KnowledgeToken;
@@ -23,8 +25,16 @@ describe("KnowledgeToken", function () {
       expect(await knowledgeToken.symbol()).to.equal("KNOW");
     });
 
-    it("Should set the correct owner", async function () {
-      expect(await knowledgeToken.owner()).to.equal(owner.address);
+    it("Should grant the admin, minter and pauser roles to the initial admin", async function () {
+      expect(await knowledgeToken.hasRole(await knowledgeToken.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await knowledgeToken.hasRole(await knowledgeToken.MINTER_ROLE(), owner.address)).to.be.true;
+      expect(await knowledgeToken.hasRole(await knowledgeToken.PAUSER_ROLE(), owner.address)).to.be.true;
+      expect(await knowledgeToken.hasRole(await knowledgeToken.MINTER_ROLE(), addr1.address)).to.be.false;
+    });
+
+    it("Should set the maximum supply", async function () {
+      expect(await knowledgeToken.cap()).to.equal(ethers.parseEther("100000000"));
+      expect(await knowledgeToken.MAX_SUPPLY()).to.equal(ethers.parseEther("100000000"));
     });
 
     it("Should have 18 decimals", async function () {
@@ -37,7 +47,7 @@ describe("KnowledgeToken", function () {
   });
 
   describe("Minting", function () {
-    it("Should allow owner to mint tokens", async function () {
+    it("Should allow minters to mint tokens", async function () {
       const mintAmount = ethers.parseEther("1000");
       
       await knowledgeToken.mint(addr1.address, mintAmount);
@@ -46,12 +56,13 @@ describe("KnowledgeToken", function () {
       expect(await knowledgeToken.totalSupply()).to.equal(mintAmount);
     });
 
-    it("Should not allow non-owner to mint tokens", async function () {
+    it("Should not allow non-minters to mint tokens", async function () {
       const mintAmount = ethers.parseEther("1000");
       
       await expect(
         knowledgeToken.connect(addr1).mint(addr2.address, mintAmount)
-      ).to.be.revertedWithCustomError(knowledgeToken, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(knowledgeToken, "AccessControlUnauthorizedAccount")
+        .withArgs(addr1.address, await knowledgeToken.MINTER_ROLE());
     });
 
     it("Should emit Transfer event when minting", async function () {
@@ -63,6 +74,108 @@ describe("KnowledgeToken", function () {
     });
   });
 
+  describe("Roles", function () {
+    it("Should allow the admin to grant the minter role", async function () {
+      const minterRole = await knowledgeToken.MINTER_ROLE();
+      
+      await expect(knowledgeToken.grantRole(minterRole, addr1.address))
+        .to.emit(knowledgeToken, "RoleGranted")
+        .withArgs(minterRole, addr1.address, owner.address);
+      
+      await knowledgeToken.connect(addr1).mint(addr2.address, ethers.parseEther("5"));
+      expect(await knowledgeToken.balanceOf(addr2.address)).to.equal(ethers.parseEther("5"));
+    });
+
+    it("Should stop minting once the minter role is revoked", async function () {
+      const minterRole = await knowledgeToken.MINTER_ROLE();
+      await knowledgeToken.grantRole(minterRole, addr1.address);
+      
+      await expect(knowledgeToken.revokeRole(minterRole, addr1.address))
+        .to.emit(knowledgeToken, "RoleRevoked")
+        .withArgs(minterRole, addr1.address, owner.address);
+      
+      await expect(
+        knowledgeToken.connect(addr1).mint(addr2.address, ethers.parseEther("5"))
+      ).to.be.revertedWithCustomError(knowledgeToken, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should not allow non-admins to grant roles", async function () {
+      await expect(
+        knowledgeToken.connect(addr1).grantRole(await knowledgeToken.MINTER_ROLE(), addr1.address)
+      ).to.be.revertedWithCustomError(knowledgeToken, "AccessControlUnauthorizedAccount")
+        .withArgs(addr1.address, await knowledgeToken.DEFAULT_ADMIN_ROLE());
+    });
+
+    it("Should allow a role holder to renounce its role", async function () {
+      const minterRole = await knowledgeToken.MINTER_ROLE();
+      await knowledgeToken.renounceRole(minterRole, owner.address);
+      
+      await expect(
+        knowledgeToken.mint(addr1.address, ethers.parseEther("1"))
+      ).to.be.revertedWithCustomError(knowledgeToken, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Supply Cap", function () {
+    it("Should allow minting up to the maximum supply", async function () {
+      const maxSupply = await knowledgeToken.MAX_SUPPLY();
+      
+      await knowledgeToken.mint(addr1.address, maxSupply);
+      expect(await knowledgeToken.totalSupply()).to.equal(maxSupply);
+    });
+
+    it("Should not allow minting beyond the maximum supply", async function () {
+      const maxSupply = await knowledgeToken.MAX_SUPPLY();
+      await knowledgeToken.mint(addr1.address, maxSupply - ethers.parseEther("1"));
+      
+      await expect(
+        knowledgeToken.mint(addr1.address, ethers.parseEther("2"))
+      ).to.be.revertedWithCustomError(knowledgeToken, "ERC20ExceededCap")
+        .withArgs(maxSupply + ethers.parseEther("1"), maxSupply);
+    });
+
+    it("Should allow minting again after tokens are burned", async function () {
+      const maxSupply = await knowledgeToken.MAX_SUPPLY();
+      await knowledgeToken.mint(addr1.address, maxSupply);
+      await knowledgeToken.connect(addr1).burn(ethers.parseEther("10"));
+      
+      await knowledgeToken.mint(addr2.address, ethers.parseEther("10"));
+      expect(await knowledgeToken.totalSupply()).to.equal(maxSupply);
+    });
+  });
+
+  describe("Pausing", function () {
+    beforeEach(async function () {
+      await knowledgeToken.mint(addr1.address, ethers.parseEther("1000"));
+    });
+
+    it("Should block transfers and minting while paused", async function () {
+      await knowledgeToken.pause();
+      
+      await expect(
+        knowledgeToken.connect(addr1).transfer(addr2.address, ethers.parseEther("1"))
+      ).to.be.revertedWithCustomError(knowledgeToken, "EnforcedPause");
+      await expect(
+        knowledgeToken.mint(addr2.address, ethers.parseEther("1"))
+      ).to.be.revertedWithCustomError(knowledgeToken, "EnforcedPause");
+    });
+
+    it("Should resume transfers after unpausing", async function () {
+      await knowledgeToken.pause();
+      await knowledgeToken.unpause();
+      
+      await knowledgeToken.connect(addr1).transfer(addr2.address, ethers.parseEther("1"));
+      expect(await knowledgeToken.balanceOf(addr2.address)).to.equal(ethers.parseEther("1"));
+    });
+
+    it("Should only allow pausers to pause", async function () {
+      await expect(
+        knowledgeToken.connect(addr1).pause()
+      ).to.be.revertedWithCustomError(knowledgeToken, "AccessControlUnauthorizedAccount")
+        .withArgs(addr1.address, await knowledgeToken.PAUSER_ROLE());
+    });
+  });
+
   describe("Burning", function () {
     beforeEach(async function () {
       // Mint some tokens to addr1 for burning tests
@@ -132,4 +245,70 @@ describe("KnowledgeToken", function () {
       expect(await knowledgeToken.balanceOf(addr2.address)).to.equal(transferAmount);
     });
   });
+
+  describe("Permit", function () {
+    const value = ethers.parseEther("100");
+    let deadline: bigint;
+
+    beforeEach(async function () {
+      await knowledgeToken.mint(addr1.address, ethers.parseEther("1000"));
+      deadline = BigInt(await time.latest()) + 3600n;
+    });
+
+    it("Should set an allowance from a signature submitted by anyone", async function () {
+      const { v, r, s } = await signPermit(addr1, knowledgeToken, addr2.address, value, deadline);
+
+      await knowledgeToken.connect(addr2).permit(addr1.address, addr2.address, value, deadline, v, r, s);
+
+      expect(await knowledgeToken.allowance(addr1.address, addr2.address)).to.equal(value);
+      expect(await knowledgeToken.nonces(addr1.address)).to.equal(1);
+    });
+
+    it("Should reject reused, expired or mismatched permits", async function () {
+      const { v, r, s } = await signPermit(addr1, knowledgeToken, addr2.address, value, deadline);
+      await knowledgeToken.permit(addr1.address, addr2.address, value, deadline, v, r, s);
+
+      await expect(knowledgeToken.permit(addr1.address, addr2.address, value, deadline, v, r, s))
+        .to.be.revertedWithCustomError(knowledgeToken, "ERC2612InvalidSigner");
+      
+      const fresh = await signPermit(addr1, knowledgeToken, addr2.address, value, deadline);
+      await expect(knowledgeToken.permit(addr1.address, addr2.address, value * 2n, deadline, fresh.v, fresh.r, fresh.s))
+        .to.be.revertedWithCustomError(knowledgeToken, "ERC2612InvalidSigner");
+
+      await time.increaseTo(deadline + 1n);
+      await expect(knowledgeToken.permit(addr1.address, addr2.address, value, deadline, fresh.v, fresh.r, fresh.s))
+        .to.be.revertedWithCustomError(knowledgeToken, "ERC2612ExpiredSignature");
+    });
+  });
+
+  describe("Voting Power", function () {
+    beforeEach(async function () {
+      await knowledgeToken.mint(addr1.address, ethers.parseEther("1000"));
+    });
+
+    it("Should only count balances once they are delegated", async function () {
+      expect(await knowledgeToken.getVotes(addr1.address)).to.equal(0);
+
+      await knowledgeToken.connect(addr1).delegate(addr1.address);
+      expect(await knowledgeToken.getVotes(addr1.address)).to.equal(ethers.parseEther("1000"));
+
+      await knowledgeToken.connect(addr1).delegate(addr2.address);
+      expect(await knowledgeToken.getVotes(addr1.address)).to.equal(0);
+      expect(await knowledgeToken.getVotes(addr2.address)).to.equal(ethers.parseEther("1000"));
+    });
+
+    it("Should move voting power with transfers and keep past checkpoints", async function () {
+      await knowledgeToken.connect(addr1).delegate(addr1.address);
+      await knowledgeToken.connect(addr2).delegate(addr2.address);
+      const before = await ethers.provider.getBlockNumber();
+      await mine();
+
+      await knowledgeToken.connect(addr1).transfer(addr2.address, ethers.parseEther("400"));
+
+      expect(await knowledgeToken.getVotes(addr1.address)).to.equal(ethers.parseEther("600"));
+      expect(await knowledgeToken.getVotes(addr2.address)).to.equal(ethers.parseEther("400"));
+      expect(await knowledgeToken.getPastVotes(addr1.address, before)).to.equal(ethers.parseEther("1000"));
+      expect(await knowledgeToken.getPastTotalSupply(before)).to.equal(ethers.parseEther("1000"));
+    });
+  });
 });
@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { AddressInfo } from "net";
+import { KnowledgeToken, KnowledgeHub, KnowledgeForwarder } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ForwardRequestData, RelayError, Relayer, signForwardRequest } from "../relayer/relayer";
+import { createRelayerServer } from "../relayer/api";
+import { cidFromDigest, encodeCid } from "../frontend/src/utils/cid";
+
+describe("Relayer", function () {
+  let knowledgeToken: KnowledgeToken;
+  let knowledgeHub: KnowledgeHub;
+  let forwarder: KnowledgeForwarder;
+  let owner: HardhatEthersSigner;
+  let addr1: HardhatEthersSigner;
+  let addr2: HardhatEthersSigner;
+  let hubAddress: string;
+  let clock: number;
+
+  // Each title gets content of its own, as the hub refuses duplicate content
+  const cidOf = (title: string) => encodeCid(cidFromDigest(ethers.sha256(ethers.toUtf8Bytes(title))));
+
+  const createRelayer = (quota = 20) =>
+    new Relayer({ forwarder, hubAddress, quota, windowMs: 60_000, now: () => clock });
+
+  const signSubmission = (signer: HardhatEthersSigner, title = "Title") =>
+    signForwardRequest(
+      signer,
+      forwarder,
+      hubAddress,
+      knowledgeHub.interface.encodeFunctionData("submitEntry", [title, cidOf(title)])
+    );
+
+  const expectRelayError = async (promise: Promise<unknown>, status: number, message: string) => {
+    try {
+      await promise;
+      expect.fail("Expected the relay to be refused");
+    } catch (error) {
+      expect(error).to.be.instanceOf(RelayError);
+      expect((error as RelayError).status).to.equal(status);
+      expect((error as RelayError).message).to.include(message);
+    }
+  };
+
+  beforeEach(async function () {
+    [owner, addr1, addr2] = await ethers.getSigners();
+    clock = 1_000_000;
+
+    const KnowledgeTokenFactory = await ethers.getContractFactory("KnowledgeToken");
+    knowledgeToken = await KnowledgeTokenFactory.deploy(owner.address);
+
+    const ForwarderFactory = await ethers.getContractFactory("KnowledgeForwarder");
+    forwarder = await ForwarderFactory.deploy();
+
+    const KnowledgeHubFactory = await ethers.getContractFactory("KnowledgeHub");
+    knowledgeHub = (await upgrades.deployProxy(KnowledgeHubFactory, [await knowledgeToken.getAddress(), owner.address], {
+      kind: "uups",
+      constructorArgs: [await forwarder.getAddress()],
+    })) as unknown as KnowledgeHub;
+    hubAddress = await knowledgeHub.getAddress();
+  });
+
+  describe("Relaying", function () {
+    it("Should relay a signed submission and count it against the quota", async function () {
+      const relayer = createRelayer(3);
+      const result = await relayer.relay(await signSubmission(addr1));
+
+      expect(result.remaining).to.equal(2);
+      expect(result.transactionHash).to.match(/^0x[0-9a-f]{64}$/);
+      expect((await knowledgeHub.getEntry(1)).creator).to.equal(addr1.address);
+    });
+
+    it("Should only relay submit and vote calls to the hub", async function () {
+      const relayer = createRelayer();
+
+      const stake = knowledgeHub.interface.encodeFunctionData("stake", [1]);
+      await expectRelayError(
+        relayer.relay(await signForwardRequest(addr1, forwarder, hubAddress, stake)),
+        400,
+        "stake cannot be relayed"
+      );
+
+      const transfer = knowledgeToken.interface.encodeFunctionData("transfer", [addr2.address, 1]);
+      await expectRelayError(
+        relayer.relay(await signForwardRequest(addr1, forwarder, await knowledgeToken.getAddress(), transfer)),
+        400,
+        "Only KnowledgeHub calls can be relayed"
+      );
+    });
+
+    it("Should enforce the per-address quota within the window", async function () {
+      const relayer = createRelayer(2);
+      await relayer.relay(await signSubmission(addr1, "One"));
+      await relayer.relay(await signSubmission(addr1, "Two"));
+
+      await expectRelayError(relayer.relay(await signSubmission(addr1, "Three")), 429, "quota exceeded");
+
+      // Other addresses have their own quota
+      await relayer.relay(await signSubmission(addr2));
+
+      clock += 60_001;
+      expect(relayer.remaining(addr1.address)).to.equal(2);
+      await relayer.relay(await signSubmission(addr1, "Three"));
+    });
+
+    it("Should refuse requests with a bad signature", async function () {
+      const relayer = createRelayer();
+      const request = await signSubmission(addr1);
+
+      await expectRelayError(
+        relayer.relay({ ...request, from: addr2.address }),
+        400,
+        "Invalid signature, nonce or deadline"
+      );
+      expect(relayer.remaining(addr2.address)).to.equal(20);
+    });
+
+    it("Should report the hub's revert reason without using quota", async function () {
+      const relayer = createRelayer();
+      await knowledgeHub.connect(addr1).submitEntry("Title", cidOf("Title"));
+
+      const vote = knowledgeHub.interface.encodeFunctionData("voteOnEntry", [1, true]);
+      await expectRelayError(
+        relayer.relay(await signForwardRequest(addr1, forwarder, hubAddress, vote)),
+        400,
+        "Insufficient stake to vote"
+      );
+      expect(relayer.remaining(addr1.address)).to.equal(20);
+    });
+  });
+
+  describe("HTTP API", function () {
+    it("Should relay JSON requests and serve quotas", async function () {
+      const server = createRelayerServer(createRelayer(1), {
+        forwarder: await forwarder.getAddress(),
+        hub: hubAddress,
+        relayer: owner.address,
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      // Requests travel as JSON, with big numbers as decimal strings
+      const post = (request: ForwardRequestData) =>
+        fetch(`${baseUrl}/relay`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request, (_, value) => (typeof value === "bigint" ? value.toString() : value)),
+        });
+
+      try {
+        const status = await (await fetch(`${baseUrl}/status`)).json();
+        expect(status.hub).to.equal(hubAddress);
+
+        const relayed = await post(await signSubmission(addr1));
+        expect(relayed.status).to.equal(200);
+        expect((await relayed.json()).remaining).to.equal(0);
+        expect(await knowledgeHub.getEntryCount()).to.equal(1);
+
+        const refused = await post(await signSubmission(addr1, "Again"));
+        expect(refused.status).to.equal(429);
+
+        const quota = await (await fetch(`${baseUrl}/quota?address=${addr2.address}`)).json();
+        expect(quota.remaining).to.equal(1);
+
+        const invalid = await fetch(`${baseUrl}/relay`, { method: "POST", body: "not json" });
+        expect(invalid.status).to.equal(400);
+      } finally {
+        server.close();
+      }
+    });
+  });
+});
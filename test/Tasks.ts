@@ -0,0 +1,250 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import hre, { ethers, upgrades } from "hardhat";
+import { HardhatPluginError } from "hardhat/plugins";
+import { KnowledgeToken, KnowledgeHub } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { DEPLOYMENTS_DIR, MANIFEST_VERSION, getManifestPath } from "../scripts/utils/deployments";
+import { withRevertReason } from "../tasks/utils";
+import { encodeCid, normalizeCid } from "../frontend/src/utils/cid";
+
+describe("Tasks", function () {
+  let knowledgeToken: KnowledgeToken;
+  let knowledgeHub: KnowledgeHub;
+  let owner: HardhatEthersSigner;
+  let addr1: HardhatEthersSigner;
+  let addr2: HardhatEthersSigner;
+
+  const sampleIPFSHash = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+  const revisedIPFSHash = "QmZ4tDuvesekSs4qM5ZBKpXiZGun7S2CYtEZRB3DYXkjGx";
+
+  // The tasks resolve the hub through the local manifest, which a developer may
+  // already have from deploying to a local node; it is put back afterwards
+  const manifestPath = getManifestPath(31337);
+  let savedManifest: string | undefined;
+
+  /**
+   * Run a task with --json and parse what it printed
+   */
+  const runJson = async (name: string, args: Record<string, unknown> = {}) => {
+    const log = console.log;
+    const output: string[] = [];
+    console.log = (...values: unknown[]) => {
+      output.push(values.join(" "));
+    };
+    try {
+      await hre.run(name, { ...args, json: true });
+    } finally {
+      console.log = log;
+    }
+    return JSON.parse(output.join("\n"));
+  };
+
+  before(function () {
+    savedManifest = fs.existsSync(manifestPath) ? fs.readFileSync(manifestPath, "utf8") : undefined;
+  });
+
+  after(function () {
+    if (savedManifest === undefined) {
+      fs.rmSync(manifestPath, { force: true });
+    } else {
+      fs.writeFileSync(manifestPath, savedManifest);
+    }
+  });
+
+  beforeEach(async function () {
+    [owner, addr1, addr2] = await ethers.getSigners();
+
+    const KnowledgeTokenFactory = await ethers.getContractFactory("KnowledgeToken");
+    knowledgeToken = await KnowledgeTokenFactory.deploy(owner.address);
+
+    const KnowledgeHubFactory = await ethers.getContractFactory("KnowledgeHub");
+    knowledgeHub = (await upgrades.deployProxy(KnowledgeHubFactory, [await knowledgeToken.getAddress(), owner.address], {
+      kind: "uups",
+      constructorArgs: [ethers.ZeroAddress],
+    })) as unknown as KnowledgeHub;
+    await knowledgeToken.grantRole(await knowledgeToken.MINTER_ROLE(), await knowledgeHub.getAddress());
+    await knowledgeToken.mint(owner.address, ethers.parseEther("1000"));
+
+    const record = async (contract: KnowledgeToken | KnowledgeHub) => {
+      const receipt = await contract.deploymentTransaction()!.wait();
+      return {
+        address: await contract.getAddress(),
+        abi: [],
+        args: [],
+        blockNumber: receipt!.blockNumber,
+        transactionHash: receipt!.hash,
+      };
+    };
+    fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+    fs.writeFileSync(
+      manifestPath,
+      JSON.stringify({
+        version: MANIFEST_VERSION,
+        chainId: 31337,
+        network: "hardhat",
+        deployer: owner.address,
+        updatedAt: new Date().toISOString(),
+        contracts: {
+          KnowledgeToken: await record(knowledgeToken),
+          KnowledgeHub: await record(knowledgeHub),
+        },
+      })
+    );
+  });
+
+  describe("hub:submit", function () {
+    it("Should print the new entry as JSON", async function () {
+      const result = await runJson("hub:submit", {
+        title: "Rollups",
+        cid: sampleIPFSHash,
+        category: "scaling",
+        tags: "l2, rollups",
+      });
+
+      expect(result).to.have.keys("entryId", "ipfsHash", "transactionHash");
+      expect(result.entryId).to.equal("1");
+      expect(result.ipfsHash).to.equal(normalizeCid(sampleIPFSHash));
+      expect(result.transactionHash).to.match(/^0x[0-9a-f]{64}$/);
+
+      const entry = await knowledgeHub.getEntry(1);
+      expect(entry.creator).to.equal(owner.address);
+      expect(entry.category).to.equal("scaling");
+      expect([...entry.tags]).to.deep.equal(["l2", "rollups"]);
+    });
+
+    it("Should reject an invalid CID before sending a transaction", async function () {
+      await expect(hre.run("hub:submit", { title: "Broken", cid: "not-a-cid", category: "", tags: "" }))
+        .to.be.rejectedWith(HardhatPluginError, 'Invalid CID "not-a-cid"');
+      expect(await knowledgeHub.getEntryCount()).to.equal(0);
+    });
+
+    it("Should report the contract's revert reason", async function () {
+      await knowledgeHub.connect(addr1).submitEntry("First", encodeCid(sampleIPFSHash));
+
+      await expect(hre.run("hub:submit", { title: "Copy", cid: sampleIPFSHash, category: "", tags: "" }))
+        .to.be.rejectedWith(HardhatPluginError, /^Content already submitted$/);
+    });
+  });
+
+  describe("hub:vote", function () {
+    beforeEach(async function () {
+      await knowledgeHub.connect(addr1).submitEntry("First", encodeCid(sampleIPFSHash));
+      await knowledgeHub.connect(addr2).submitEntry("Second", encodeCid(revisedIPFSHash));
+    });
+
+    it("Should require a stake and then print the vote as JSON", async function () {
+      await expect(hre.run("hub:vote", { id: 1 }))
+        .to.be.rejectedWith(HardhatPluginError, /^Insufficient stake to vote$/);
+
+      const stake = await runJson("hub:stake", { amount: "50" });
+      expect(stake.staked).to.equal(ethers.parseEther("50").toString());
+      expect(stake.canVote).to.equal(true);
+
+      const result = await runJson("hub:vote", { id: 1 });
+      expect(result).to.have.keys("entryId", "action", "vote", "weight", "transactionHash");
+      expect(result).to.include({ entryId: 1, action: "vote", vote: "up" });
+      expect(result.weight).to.equal((await knowledgeHub.voteWeights(1, owner.address)).toString());
+
+      const changed = await runJson("hub:vote", { id: 1, change: true });
+      expect(changed).to.include({ action: "change", vote: "down" });
+
+      const retracted = await runJson("hub:vote", { id: 1, retract: true });
+      expect(retracted).to.include({ action: "retract", vote: "none", weight: "0" });
+    });
+
+    it("Should report a repeated vote with the contract's reason", async function () {
+      await runJson("hub:stake", { amount: "50" });
+      await runJson("hub:vote", { id: 1 });
+
+      await expect(hre.run("hub:vote", { id: 1 }))
+        .to.be.rejectedWith(HardhatPluginError, /^You have already voted on this entry$/);
+    });
+
+    it("Should print each batch item's outcome as JSON", async function () {
+      await runJson("hub:stake", { amount: "50" });
+      await runJson("hub:vote", { id: 2, down: true });
+
+      const result = await runJson("hub:batch-vote", { ids: "1,2" });
+      expect(result.results).to.deep.equal([
+        { entryId: "1", voted: true, reason: "" },
+        { entryId: "2", voted: false, reason: "You have already voted on this entry" },
+      ]);
+    });
+  });
+
+  describe("hub:curation", function () {
+    it("Should print the amount the claim paid out", async function () {
+      await knowledgeHub.connect(addr1).submitEntry("First", encodeCid(sampleIPFSHash));
+      await runJson("hub:stake", { amount: "50" });
+      await runJson("hub:vote", { id: 1 });
+
+      const stake = ethers.parseEther("50");
+      await knowledgeToken.mint(addr2.address, stake);
+      await knowledgeToken.connect(addr2).approve(await knowledgeHub.getAddress(), stake);
+      await knowledgeHub.connect(addr2).stake(stake);
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+
+      const balance = await knowledgeToken.balanceOf(owner.address);
+      const result = await runJson("hub:curation", { claim: true });
+      const paid = (await knowledgeToken.balanceOf(owner.address)) - balance;
+
+      expect(paid).to.equal(ethers.parseEther("2"));
+      expect(result.claimed).to.equal(paid.toString());
+      expect(await knowledgeHub.pendingCuratorRewards(owner.address)).to.equal(0);
+    });
+  });
+
+  describe("hub:fund", function () {
+    it("Should fund the pool from the signer's balance without the minter role", async function () {
+      await knowledgeToken.renounceRole(await knowledgeToken.MINTER_ROLE(), owner.address);
+      const pool = await knowledgeHub.getContractTokenBalance();
+
+      const result = await runJson("hub:fund", { amount: "250" });
+
+      expect(result.funded).to.equal(ethers.parseEther("250").toString());
+      expect(result.rewardPool).to.equal((pool + ethers.parseEther("250")).toString());
+      expect(await knowledgeToken.balanceOf(owner.address)).to.equal(ethers.parseEther("750"));
+    });
+  });
+
+  describe("hub:list", function () {
+    it("Should print entry rows as JSON in the requested order", async function () {
+      await knowledgeHub.connect(addr1).submitEntryWithTags("First", encodeCid(sampleIPFSHash), "scaling", ["l2"]);
+      await knowledgeHub.connect(addr2).submitEntry("Second", encodeCid(revisedIPFSHash));
+
+      const rows = await runJson("hub:list", { sort: "oldest" });
+      expect(rows.map((row: { id: number }) => row.id)).to.deep.equal([1, 2]);
+      expect(rows[0]).to.include({
+        id: 1,
+        creator: addr1.address,
+        title: "First",
+        ipfsHash: normalizeCid(sampleIPFSHash),
+        category: "scaling",
+        voteCount: 0,
+        status: "active",
+        updatedAt: null,
+      });
+      expect(rows[0].tags).to.deep.equal(["l2"]);
+
+      const scaling = await runJson("hub:list", { sort: "newest", category: "scaling" });
+      expect(scaling.map((row: { id: number }) => row.id)).to.deep.equal([1]);
+    });
+  });
+
+  describe("Revert reasons", function () {
+    it("Should name custom errors with their arguments", async function () {
+      await knowledgeHub.transferOwnership(addr1.address);
+
+      await expect(hre.run("hub:reward-policy", { reward: "5" }))
+        .to.be.rejectedWith(HardhatPluginError, `OwnableUnauthorizedAccount(${owner.address})`);
+    });
+
+    it("Should fall back to the message of errors that are not reverts", async function () {
+      await expect(withRevertReason(() => Promise.reject(new Error("connection refused"))))
+        .to.be.rejectedWith(HardhatPluginError, /^connection refused$/);
+      await expect(withRevertReason(() => Promise.reject("timeout")))
+        .to.be.rejectedWith(HardhatPluginError, /^timeout$/);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { KnowledgeToken, KnowledgeHub, KnowledgeHubV2Mock } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { encodeCid, normalizeCid, storedCid } from "../frontend/src/utils/cid";
+
+describe("Upgrades", function () {
+  let knowledgeToken: KnowledgeToken;
+  let knowledgeHub: KnowledgeHub;
+  let owner: HardhatEthersSigner;
+  let addr1: HardhatEthersSigner;
+  let addr2: HardhatEthersSigner;
+  let addr3: HardhatEthersSigner;
+  let hubAddress: string;
+
+  const sampleIPFSHash = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+  const revisedIPFSHash = "QmZ4tDuvesekSs4qM5ZBKpXiZGun7S2CYtEZRB3DYXkjGx";
+  const bridgesIPFSHash = "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku";
+
+  const upgradeToV2 = async () => {
+    const V2Factory = await ethers.getContractFactory("KnowledgeHubV2Mock");
+    return (await upgrades.upgradeProxy(hubAddress, V2Factory, {
+      kind: "uups",
+      constructorArgs: [ethers.ZeroAddress],
+      call: "initializeV2",
+    })) as unknown as KnowledgeHubV2Mock;
+  };
+
+  beforeEach(async function () {
+    [owner, addr1, addr2, addr3] = await ethers.getSigners();
+
+    const KnowledgeTokenFactory = await ethers.getContractFactory("KnowledgeToken");
+    knowledgeToken = await KnowledgeTokenFactory.deploy(owner.address);
+
+    const KnowledgeHubFactory = await ethers.getContractFactory("KnowledgeHub");
+    knowledgeHub = (await upgrades.deployProxy(KnowledgeHubFactory, [await knowledgeToken.getAddress(), owner.address], {
+      kind: "uups",
+      constructorArgs: [ethers.ZeroAddress],
+    })) as unknown as KnowledgeHub;
+    hubAddress = await knowledgeHub.getAddress();
+    await knowledgeToken.mint(hubAddress, ethers.parseEther("10000"));
+  });
+
+  describe("Deployment", function () {
+    it("Should initialize the proxy with the default policies", async function () {
+      expect(await knowledgeHub.owner()).to.equal(owner.address);
+      expect(await knowledgeHub.knowledgeToken()).to.equal(await knowledgeToken.getAddress());
+      expect(await knowledgeHub.version()).to.equal("1");
+      expect(await knowledgeHub.upvoteReward()).to.equal(ethers.parseEther("10"));
+      expect(await knowledgeHub.curatorShareBps()).to.equal(2000);
+      expect(await knowledgeHub.minVoteStake()).to.equal(ethers.parseEther("50"));
+      expect(await knowledgeHub.unstakeCooldown()).to.equal(7 * 24 * 60 * 60);
+      expect(await knowledgeHub.reportThreshold()).to.equal(3);
+
+      await knowledgeHub.connect(addr1).submitEntry("First", encodeCid(sampleIPFSHash));
+      expect((await knowledgeHub.getEntry(1)).id).to.equal(1);
+    });
+
+    it("Should not be initialized twice or through the implementation", async function () {
+      await expect(knowledgeHub.initialize(await knowledgeToken.getAddress(), addr1.address))
+        .to.be.revertedWithCustomError(knowledgeHub, "InvalidInitialization");
+
+      const implementation = await ethers.getContractAt(
+        "KnowledgeHub",
+        await upgrades.erc1967.getImplementationAddress(hubAddress)
+      );
+      await expect(implementation.initialize(await knowledgeToken.getAddress(), addr1.address))
+        .to.be.revertedWithCustomError(knowledgeHub, "InvalidInitialization");
+    });
+
+    it("Should only let the owner upgrade", async function () {
+      const V2Factory = await ethers.getContractFactory("KnowledgeHubV2Mock");
+      const implementation = await V2Factory.deploy(ethers.ZeroAddress);
+
+      await expect(knowledgeHub.connect(addr1).upgradeToAndCall(await implementation.getAddress(), "0x"))
+        .to.be.revertedWithCustomError(knowledgeHub, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+  });
+
+  describe("Upgrade to v2", function () {
+    beforeEach(async function () {
+      // Voters need a stake; addr2 also tips
+      for (const voter of [addr2, addr3]) {
+        await knowledgeToken.mint(voter.address, ethers.parseEther("100"));
+        await knowledgeToken.connect(voter).approve(hubAddress, ethers.parseEther("100"));
+        await knowledgeHub.connect(voter).stake(ethers.parseEther("50"));
+      }
+
+      await knowledgeHub.connect(addr1).submitEntryWithTags("Rollups", encodeCid(sampleIPFSHash), "scaling", ["l2", "rollups"]);
+      await knowledgeHub.connect(addr1).submitEntry("Bridges", encodeCid(bridgesIPFSHash));
+      await knowledgeHub.connect(addr1).updateEntry(1, "Rollups, revised", encodeCid(revisedIPFSHash));
+      await knowledgeHub.connect(addr2).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(1, true);
+      await knowledgeHub.connect(addr3).voteOnEntry(2, false);
+      await knowledgeHub.connect(addr2).tipEntry(2, ethers.parseEther("5"));
+    });
+
+    it("Should keep entries, votes, stakes and token balances", async function () {
+      const entriesBefore = [await knowledgeHub.getEntry(1), await knowledgeHub.getEntry(2)];
+      const accounts = [hubAddress, addr1.address, addr2.address, addr3.address];
+      const balancesBefore = await Promise.all(accounts.map((account) => knowledgeToken.balanceOf(account)));
+      const stakeBefore = await knowledgeHub.stakes(addr2.address);
+      const curationBefore = await knowledgeHub.curations(1, addr2.address);
+      const rewardsPaidBefore = await knowledgeHub.entryRewardsPaid(1);
+      const implementationBefore = await upgrades.erc1967.getImplementationAddress(hubAddress);
+
+      const hubV2 = await upgradeToV2();
+
+      expect(await hubV2.getAddress()).to.equal(hubAddress);
+      expect(await upgrades.erc1967.getImplementationAddress(hubAddress)).to.not.equal(implementationBefore);
+      expect(await hubV2.version()).to.equal("2");
+      expect(await hubV2.featureDuration()).to.equal(7 * 24 * 60 * 60);
+      expect(await hubV2.owner()).to.equal(owner.address);
+
+      // Every v1 field survives and the new field starts empty
+      expect(await hubV2.getEntryCount()).to.equal(2);
+      for (const before of entriesBefore) {
+        const after = await hubV2.getEntry(before.id);
+        expect([...after].slice(0, before.length)).to.deep.equal([...before]);
+        expect(after.featuredAt).to.equal(0);
+      }
+      const [revisions, contents] = await hubV2.getRevisions(1);
+      expect(revisions.map((revision, i) => storedCid(revision.ipfsHash, contents[i])))
+        .to.deep.equal([normalizeCid(sampleIPFSHash), normalizeCid(revisedIPFSHash)]);
+      expect(await hubV2.getEntriesByCreator(addr1.address)).to.deep.equal([1n, 2n]);
+      expect(await hubV2.getTagEntryCount("rollups")).to.equal(1);
+
+      expect(await hubV2.hasVoted(1, addr2.address)).to.be.true;
+      expect(await hubV2.userVotes(1, addr2.address)).to.be.true;
+      expect(await hubV2.userVotes(2, addr3.address)).to.be.false;
+      expect(await hubV2.upvoteRewarded(1, addr3.address)).to.be.true;
+      expect(await hubV2.entryRewardsPaid(1)).to.equal(rewardsPaidBefore);
+      expect(await hubV2.curations(1, addr2.address)).to.deep.equal(curationBefore);
+      expect(await hubV2.entryTips(2)).to.equal(ethers.parseEther("5"));
+
+      expect(await hubV2.stakes(addr2.address)).to.deep.equal(stakeBefore);
+      expect(await hubV2.totalStaked()).to.equal(ethers.parseEther("100"));
+      expect(await hubV2.upvoteReward()).to.equal(ethers.parseEther("10"));
+      expect(await Promise.all(accounts.map((account) => knowledgeToken.balanceOf(account))))
+        .to.deep.equal(balancesBefore);
+    });
+
+    it("Should store the new struct field without touching neighbouring entries", async function () {
+      const hubV2 = await upgradeToV2();
+      await hubV2.featureEntry(1);
+
+      const featured = await hubV2.getEntry(1);
+      expect(featured.featuredAt).to.be.greaterThan(0);
+      expect(featured.reportCount).to.equal(0);
+      expect(featured.weightedUpvotes).to.equal(
+        (await hubV2.voteWeights(1, addr2.address)) + (await hubV2.voteWeights(1, addr3.address))
+      );
+      expect((await hubV2.getEntry(2)).featuredAt).to.equal(0);
+    });
+
+    it("Should not run the migration twice", async function () {
+      const hubV2 = await upgradeToV2();
+
+      await expect(hubV2.initializeV2()).to.be.revertedWithCustomError(hubV2, "InvalidInitialization");
+    });
+
+    it("Should reject upgrades that break the storage layout", async function () {
+      // Going back to v1 would drop the field v2 added to every stored entry
+      await upgradeToV2();
+      const V1Factory = await ethers.getContractFactory("KnowledgeHub");
+
+      try {
+        await upgrades.prepareUpgrade(hubAddress, V1Factory, {
+          kind: "uups",
+          constructorArgs: [ethers.ZeroAddress],
+        });
+        expect.fail("Expected the upgrade to be rejected");
+      } catch (error) {
+        expect((error as Error).message).to.include("featuredAt");
+      }
+    });
+  });
+});